@@ -1,64 +1,276 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
-  BarChart, Bar, LineChart, Line, ScatterChart, Scatter,
-  AreaChart, Area, PieChart, Pie, XAxis, YAxis, CartesianGrid,
-  Tooltip, Legend, ResponsiveContainer, Cell, ComposedChart
-} from 'recharts';
-import { Upload, Image as ImageIcon, RefreshCw, Code, Layout, MessageSquare, Play, FileText, Download } from 'lucide-react';
-import { loadExampleTitanic, parseCSV } from './utils/parsers';
-import { analyzeImageAndData, refineConfig } from './services/geminiService';
-import { Dataset, VisualizationConfig, ChartType } from './types';
-
-// Simple aggregator for better default charts
-const processData = (data: any[], config: VisualizationConfig | null) => {
-  if (!data || !config) return [];
-  
-  // If chart is Pie or Bar and data is large, we might need aggregation if yAxisKey is not present or implied count
-  // This is a basic heuristic for the frontend preview
-  if ((config.chartType === ChartType.PIE || config.chartType === ChartType.BAR) && data.length > 20) {
-    if (!config.yAxisKey || config.yAxisKey === 'count') {
-      const counts: Record<string, number> = {};
-      data.forEach(row => {
-        const key = String(row[config.xAxisKey]);
-        counts[key] = (counts[key] || 0) + 1;
-      });
-      return Object.entries(counts).map(([name, value]) => ({ 
-        [config.xAxisKey]: name, 
-        [config.yAxisKey || 'value']: value,
-        name // For Pie chart
-      }));
-    }
-  }
-  return data;
+  Upload, Image as ImageIcon, RefreshCw, Code, Layout, MessageSquare, Play, FileText, ClipboardPaste, Filter, X as XIcon, LayoutDashboard,
+  SlidersHorizontal, Table as TableIcon, BarChart3
+} from 'lucide-react';
+import { SUPPORTED_EXTENSIONS, LoadOptions, loadExampleTitanic, parsePastedText } from './utils/parsers';
+import { isCancelled, parseInBackground } from './utils/workerClient';
+import { useChartData } from './utils/useChartData';
+import { createDataset } from './utils/profiler';
+import { applyTransforms, describeStep, normalizeProposedSteps } from './utils/transforms';
+import {
+  PROVIDERS, PayloadPreview, analyzeImageAndData, loadAISettings, previewAnalyze, previewRefine, previewRepair, refineConfig,
+  repairConfigWithModel, saveAISettings
+} from './services/aiService';
+import { AnalyzeRequest, ConfigProposal, RefineRequest, RepairRequest } from './services/aiProvider';
+import {
+  AISettings, AnnotationType, ChartTheme, Dataset, ColumnType, ConfigIssue, DashboardPanel, PrivacySettings, ProjectSummary, RevisionState,
+  SavedTheme, VisualizationConfig, VizProject
+} from './types';
+import { ChartRenderer } from './components/ChartRenderer';
+import { AccessibleChart } from './components/AccessibleChart';
+import { ChartDataTable } from './components/ChartDataTable';
+import { Dashboard } from './components/Dashboard';
+import { CatalogPanel } from './components/CatalogPanel';
+import { ExportMenu } from './components/ExportMenu';
+import { ProjectPanel } from './components/ProjectPanel';
+import {
+  createProject, createId, decodeShareHash, encodeShareHash, loadProject, parseProjectFile, serializeProject
+} from './utils/project';
+import { deleteProject, getProject, listProjects, saveProject } from './utils/projectStore';
+import { downloadBlob, slugify } from './utils/export';
+import {
+  EMPTY_REVISIONS, checkoutRevision, commitEdit, commitRevision, getCurrentConfig, getLineage, redoRevision, toConversation,
+  toRevisionState, undoRevision
+} from './utils/revisions';
+import { ChatPanel } from './components/ChatPanel';
+import { ConfigInspector } from './components/ConfigInspector';
+import { ConfigIssues } from './components/ConfigIssues';
+import { CodeView } from './components/CodeView';
+import { VegaLiteView } from './components/VegaLiteView';
+import { AISettingsPanel } from './components/AISettingsPanel';
+import { ThemePanel } from './components/ThemePanel';
+import { PrivacyPanel } from './components/PrivacyPanel';
+import { PayloadDialog } from './components/PayloadDialog';
+import { TransformPanel } from './components/TransformPanel';
+import { DataPreview } from './components/DataPreview';
+import { hasErrors, repairConfig, validateConfig } from './utils/validation';
+import { generateRCode } from './utils/rCode';
+import { generatePythonCode } from './utils/pythonCode';
+import { formatSpec, generateVegaLiteSpec, parseVegaLiteSpec } from './utils/vegaLite';
+import { generatePlotlyFigure } from './utils/plotly';
+import { formatJson } from './utils/codegen';
+import { createPanel } from './utils/dashboard';
+import { uniqueDatasetName } from './utils/joins';
+import { applyTheme, loadThemes, saveThemes } from './utils/themes';
+import { DEFAULT_PRIVACY, buildPayload, detectPii, protectConfig, protectIssues, restoreConfig } from './utils/privacy';
+import { recommendConfig } from './utils/recommend';
+import { chartTable, describeChart } from './utils/accessibility';
+import { ANNOTATION_TYPE_LABELS, createAnnotation, toAnnotationValue } from './utils/annotations';
+
+const TYPE_BADGES: Record<ColumnType, string> = {
+  number: 'bg-blue-500/10 text-blue-300',
+  string: 'bg-slate-700/50 text-slate-300',
+  date: 'bg-emerald-500/10 text-emerald-300',
+  datetime: 'bg-emerald-500/10 text-emerald-300',
+  boolean: 'bg-amber-500/10 text-amber-300',
+  id: 'bg-pink-500/10 text-pink-300'
 };
 
-const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#6366f1'];
+const formatStat = (value: number | string | undefined) => {
+  if (value === undefined) return '';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  return value.slice(0, 10); // ISO dates
+};
 
 export default function App() {
   const [dataset, setDataset] = useState<Dataset | null>(null);
-  const [config, setConfig] = useState<VisualizationConfig | null>(null);
+  const [catalog, setCatalog] = useState<Dataset[]>([]);
+  const [revisionState, setRevisionState] = useState<RevisionState>(EMPTY_REVISIONS);
   const [loading, setLoading] = useState(false);
   const [prompt, setPrompt] = useState('');
   const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'chart' | 'r' | 'python'>('chart');
+  const [activeTab, setActiveTab] = useState<'chart' | 'dashboard' | 'data' | 'r' | 'python' | 'vegalite' | 'plotly'>('chart');
+  const [sideTab, setSideTab] = useState<'chat' | 'edit'>('chat');
+  const [showTable, setShowTable] = useState(false);
+  const [placing, setPlacing] = useState<AnnotationType | null>(null);
+  const [rangeStart, setRangeStart] = useState<number | string | null>(null); // First click of a shaded range
+  const [specUrl, setSpecUrl] = useState('');
+  const [project, setProject] = useState<VizProject>(() => createProject());
+  const [library, setLibrary] = useState<ProjectSummary[]>([]);
+  const [repairNotes, setRepairNotes] = useState<string[]>([]);
+  const [aiSettings, setAISettings] = useState<AISettings>(loadAISettings);
+  const [themes, setThemes] = useState<SavedTheme[]>(loadThemes);
+  const [privacy, setPrivacy] = useState<PrivacySettings>(DEFAULT_PRIVACY);
+  // Open while a request waits for approval (with resolve) or while the user only looks at one
+  const [review, setReview] = useState<{ preview: PayloadPreview; resolve?: (send: boolean) => void } | null>(null);
+  // The workbook behind the current dataset, so another sheet can be picked
+  const [workbook, setWorkbook] = useState<{ file: File; sheets: string[]; sheet: string } | null>(null);
+  const [pasteText, setPasteText] = useState<string | null>(null);
+  const [dashboard, setDashboard] = useState<DashboardPanel[]>([]);
+  const [refiningPanel, setRefiningPanel] = useState<string | null>(null);
+  const [parseJob, setParseJob] = useState<{ name: string; progress: number; cancel: () => void } | null>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const config = getCurrentConfig(revisionState);
+  // Charts, validation, AI requests and code all use the rows after the transform steps
+  const transformed = useMemo(() => (dataset ? applyTransforms(dataset) : null), [dataset]);
+  const working = transformed?.dataset ?? null;
+
+  const remote = PROVIDERS[aiSettings.provider].remote;
+  const pii = useMemo(() => (working ? detectPii(working) : {}), [working]);
+  // Requests that leave the browser only see what the privacy settings allow
+  const payload = useMemo(() => {
+    if (!working || !dataset) return null;
+    const transforms = dataset.transforms ?? [];
+    return remote
+      ? buildPayload(working, transforms, privacy, pii)
+      : { columns: working.columns, sample: working.data, profile: working.profile, transforms };
+  }, [working, dataset, privacy, pii, remote]);
+
+  // Configs in refine prompts follow the same rules: no generated code, no excluded columns, masked values
+  const outgoingConfig = (current: VisualizationConfig) => (remote ? protectConfig(current, privacy, pii) : current);
+
+  const currentProject = useMemo<VizProject>(() => ({
+    ...project,
+    dataset,
+    config,
+    prompt,
+    referenceImage: imagePreview,
+    revisions: revisionState.revisions,
+    currentRevisionId: revisionState.currentId,
+    dashboard,
+    catalog,
+    privacy
+  }), [project, dataset, config, prompt, imagePreview, revisionState, dashboard, catalog, privacy]);
 
-  // Load Titanic data on mount
+  const refreshLibrary = () => listProjects().then(setLibrary).catch(console.error);
+
+  const applyProject = (next: VizProject) => {
+    setProject(next);
+    setDataset(next.dataset);
+    setRevisionState(toRevisionState(next.revisions, next.currentRevisionId));
+    setPrompt(next.prompt);
+    setImagePreview(next.referenceImage);
+    setDashboard(next.dashboard);
+    setCatalog(next.catalog);
+    setPrivacy(next.privacy);
+    setWorkbook(null);
+  };
+
+  // Open a shared project from the URL hash, otherwise load Titanic data
   useEffect(() => {
-    loadExampleTitanic().then(res => {
-      setDataset({ name: 'Titanic Dataset', data: res.data, columns: res.columns });
-    });
+    refreshLibrary();
+    decodeShareHash(window.location.hash)
+      .then(shared => {
+        if (shared) {
+          applyProject({ ...shared, id: createId() });
+          window.history.replaceState(null, '', window.location.pathname + window.location.search);
+          return;
+        }
+        return loadExampleTitanic().then(res => {
+          setDataset(createDataset('Titanic Dataset', res.data, res.columns));
+        });
+      })
+      .catch(err => {
+        console.error(err);
+        alert(`Could not open shared project: ${err.message}`);
+      });
   }, []);
 
+  // Auto-save once there is a chart worth keeping
+  useEffect(() => {
+    if (!currentProject.config) return;
+    const timer = setTimeout(() => {
+      saveProject({ ...currentProject, updatedAt: Date.now() }).then(refreshLibrary).catch(console.error);
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [currentProject]);
+
+  // New data starts a new project; the previous chart stays in the library
+  const startDataset = async (data: Dataset) => {
+    if (config) await saveProject({ ...currentProject, updatedAt: Date.now() });
+    applyProject(createProject({
+      name: data.name.replace(/\.[^.]+$/, ''),
+      dataset: data,
+      referenceImage: imagePreview
+    }));
+    refreshLibrary();
+  };
+
+  // Parses in a worker with progress; resolves to null when the user cancels
+  const parseFile = async (file: File, options: LoadOptions = {}) => {
+    const job = parseInBackground(file, options, progress => setParseJob(current => current && { ...current, progress }));
+    setParseJob({ name: file.name, progress: 0, cancel: job.cancel });
+    try {
+      return await job.promise;
+    } catch (err) {
+      if (isCancelled(err)) return null;
+      throw err;
+    } finally {
+      setParseJob(null);
+    }
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
     try {
-      const res = await parseCSV(file);
-      setDataset({ name: file.name, data: res.data, columns: res.columns });
-      setConfig(null); // Reset config on new data
-    } catch (err) {
+      const loaded = await parseFile(file);
+      if (!loaded) return;
+      await startDataset(loaded.dataset);
+      setWorkbook(loaded.sheets.length > 1 ? { file, sheets: loaded.sheets, sheet: loaded.sheets[0] } : null);
+    } catch (err: any) {
+      console.error(err);
+      alert(`Could not read ${file.name}: ${err.message}`);
+    }
+  };
+
+  // Another sheet of the same workbook replaces the data but keeps the chart and its history
+  const handleSheetChange = async (sheet: string) => {
+    if (!workbook) return;
+    try {
+      const loaded = await parseFile(workbook.file, { sheet });
+      if (!loaded) return;
+      setDataset({ ...loaded.dataset, transforms: dataset?.transforms });
+      setWorkbook({ ...workbook, sheet });
+    } catch (err: any) {
+      console.error(err);
+      alert(`Could not read sheet "${sheet}": ${err.message}`);
+    }
+  };
+
+  // Extra tables wait in the catalog until they are charted or combined
+  const handleAddTable = async (file: File) => {
+    try {
+      const loaded = await parseFile(file);
+      if (!loaded) return;
+      setCatalog(tables => [
+        ...tables,
+        { ...loaded.dataset, name: uniqueDatasetName(loaded.dataset.name, [dataset?.name ?? '', ...tables.map(t => t.name)]) }
+      ]);
+    } catch (err: any) {
+      console.error(err);
+      alert(`Could not read ${file.name}: ${err.message}`);
+    }
+  };
+
+  // The charted table swaps places with a catalog entry; the chart stays and is checked against the new columns
+  const activateTable = (next: Dataset, rest: Dataset[]) => {
+    setCatalog(dataset ? [...rest, dataset] : rest);
+    setDataset(next);
+    setWorkbook(null);
+  };
+
+  const handleActivateTable = (name: string) => {
+    const next = catalog.find(t => t.name === name);
+    if (next) activateTable(next, catalog.filter(t => t !== next));
+  };
+
+  const handleCreateTable = (derived: Dataset) => {
+    const name = uniqueDatasetName(derived.name, [dataset?.name ?? '', ...catalog.map(t => t.name)]);
+    activateTable({ ...derived, name }, catalog);
+  };
+
+  const handlePasteData = async () => {
+    if (!pasteText?.trim()) return;
+    try {
+      await startDataset(parsePastedText(pasteText));
+      setPasteText(null);
+    } catch (err: any) {
       console.error(err);
-      alert("Failed to parse CSV");
+      alert(`Could not read the pasted data: ${err.message}`);
     }
   };
 
@@ -72,134 +284,331 @@ export default function App() {
     reader.readAsDataURL(file);
   };
 
+  // Resolves false when the user cancels; requests that stay in the browser pass straight through
+  const approveSend = (preview: PayloadPreview | null) =>
+    !preview || !privacy.reviewBeforeSend
+      ? Promise.resolve(true)
+      : new Promise<boolean>(resolve => setReview({ preview, resolve }));
+
+  const closeReview = (send: boolean) => {
+    review?.resolve?.(send);
+    setReview(null);
+  };
+
+  const analyzeRequest = (text: string): AnalyzeRequest | null => payload && {
+    image: imagePreview,
+    sample: payload.sample,
+    columns: payload.columns,
+    prompt: text,
+    profile: payload.profile,
+    transforms: payload.transforms
+  };
+
+  // Fix what can be fixed locally, then ask the model once about whatever is left
+  const finalizeConfig = async (raw: VisualizationConfig, data: Dataset, notes: string[] = []) => {
+    let result = repairConfig(raw, data);
+    result = { ...result, fixes: [...notes, ...result.fixes] };
+    if (hasErrors(result.issues)) {
+      try {
+        const dataPii = detectPii(data);
+        const profile = remote ? buildPayload(data, [], privacy, dataPii).profile : data.profile;
+        const sent = remote ? protectConfig(result.config, privacy, dataPii) : result.config;
+        const issues = remote ? protectIssues(result.issues, result.config, sent) : result.issues;
+        const request: RepairRequest = { config: sent, issues, profile };
+        const reply = await approveSend(previewRepair(request, aiSettings)) ? await repairConfigWithModel(request, aiSettings) : null;
+        const fixed = reply && restoreConfig(reply, sent, result.config);
+        if (!fixed) {
+          setRepairNotes(result.fixes);
+          return result.config;
+        }
+        const repaired = repairConfig(fixed, data);
+        const errorCount = (issues: ConfigIssue[]) => issues.filter(i => i.severity === 'error').length;
+        if (errorCount(repaired.issues) < errorCount(result.issues)) {
+          result = { ...repaired, fixes: [...result.fixes, 'Asked the AI to fix the remaining problems', ...repaired.fixes] };
+        }
+      } catch (err) {
+        console.error(err);
+      }
+    }
+    setRepairNotes(result.fixes);
+    return result.config;
+  };
+
+  // Steps the model proposes are appended to the dataset before the config is checked against it
+  const acceptProposal = ({ transforms: proposed, ...raw }: ConfigProposal, source: Dataset, current: Dataset) => {
+    const steps = normalizeProposedSteps(proposed, current);
+    if (steps.length === 0) return finalizeConfig(raw, current);
+    const next = { ...source, transforms: [...(source.transforms ?? []), ...steps] };
+    setDataset(next);
+    return finalizeConfig(raw, applyTransforms(next).dataset, steps.map(step => `Added transform step: ${describeStep(step)}`));
+  };
+
+  // Sends the whole branch so far, so earlier instructions are not forgotten
+  const handleRefine = async (text: string) => {
+    if (!config || !dataset || !working || !payload) return;
+    setLoading(true);
+    try {
+      const conversation = toConversation(getLineage(revisionState));
+      const sent = outgoingConfig(config);
+      const request: RefineRequest = { config: sent, prompt: text, conversation, profile: payload.profile, transforms: payload.transforms };
+      if (!(await approveSend(previewRefine(request, aiSettings)))) return;
+      const refined = restoreConfig(await refineConfig(request, aiSettings), sent, config);
+      const newConfig = await acceptProposal(refined, dataset, working);
+      setRevisionState(state => commitRevision(state, newConfig, text));
+    } catch (error: any) {
+      console.error(error);
+      alert(`AI generation failed: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Panels refine on their own, outside the main chart's revision history
+  const handlePanelRefine = async (id: string, text: string) => {
+    const panel = dashboard.find(p => p.id === id);
+    if (!panel || !dataset || !working || !payload) return;
+    setRefiningPanel(id);
+    try {
+      const sent = outgoingConfig(panel.config);
+      const request: RefineRequest = { config: sent, prompt: text, conversation: [], profile: payload.profile, transforms: payload.transforms };
+      if (!(await approveSend(previewRefine(request, aiSettings)))) return;
+      const refined = restoreConfig(await refineConfig(request, aiSettings), sent, panel.config);
+      const newConfig = await acceptProposal(refined, dataset, working);
+      setDashboard(panels => panels.map(p => (p.id === id ? { ...p, config: newConfig, prompt: text } : p)));
+    } catch (error: any) {
+      console.error(error);
+      alert(`AI generation failed: ${error.message}`);
+    } finally {
+      setRefiningPanel(null);
+    }
+  };
+
   const handleGenerate = async () => {
-    if (!dataset) return;
+    const request = analyzeRequest(prompt || "Visualize this data effectively");
+    if (!dataset || !working || !request) return;
+    if (config && prompt && !imagePreview) {
+      // Refine existing
+      return handleRefine(prompt);
+    }
     setLoading(true);
     try {
-      if (config && prompt && !imagePreview) {
-        // Refine existing
-        const newConfig = await refineConfig(config, prompt);
-        setConfig(newConfig);
-      } else {
-        // New Generation
-        const newConfig = await analyzeImageAndData(
-          imagePreview,
-          dataset.data,
-          dataset.columns,
-          prompt || "Visualize this data effectively"
-        );
-        setConfig(newConfig);
-      }
-    } catch (error) {
+      // New Generation
+      if (!(await approveSend(previewAnalyze(request, aiSettings)))) return;
+      const newConfig = await analyzeImageAndData(request, aiSettings).then(raw => acceptProposal(raw, dataset, working));
+      setRevisionState(state => commitRevision(state, newConfig, request.prompt));
+    } catch (error: any) {
       console.error(error);
-      alert("AI Generation failed. Please check your API Key or try again.");
+      alert(`AI generation failed: ${error.message}`);
     } finally {
       setLoading(false);
     }
   };
 
-  const chartData = useMemo(() => processData(dataset?.data || [], config), [dataset, config]);
+  const updateThemes = (next: SavedTheme[]) => {
+    setThemes(next);
+    saveThemes(next);
+  };
 
-  const renderChart = () => {
-    if (!config || !dataset) return <div className="text-gray-500 flex items-center justify-center h-64">No visualization generated yet</div>;
+  const handleSaveTheme = (name: string) => {
+    if (!config?.theme) return;
+    updateThemes([...themes.filter(t => t.name !== name), { name, theme: config.theme, createdAt: Date.now() }]);
+  };
 
-    const commonProps = {
-      data: chartData,
-      margin: { top: 20, right: 30, left: 20, bottom: 50 }
-    };
+  // A new revision, so the theme change can be undone like any other edit
+  const handleApplyTheme = (theme: ChartTheme | undefined) => {
+    if (!config) return;
+    const name = themes.find(t => t.theme === theme)?.name;
+    setRevisionState(state => commitRevision(state, applyTheme(config, theme), name ? `Apply theme "${name}"` : 'Reset to the default style'));
+  };
 
-    const X = <XAxis dataKey={config.xAxisKey} stroke="#94a3b8" angle={-45} textAnchor="end" height={60} />;
-    const Y = <YAxis stroke="#94a3b8" />;
-    const Grid = <CartesianGrid strokeDasharray="3 3" stroke="#334155" />;
-    const Tool = <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }} />;
-    const Leg = <Legend />;
-
-    // Helper to get series
-    const keys = config.seriesKeys && config.seriesKeys.length > 0 ? config.seriesKeys : [config.yAxisKey];
-
-    switch (config.chartType) {
-      case ChartType.BAR:
-        return (
-          <ResponsiveContainer width="100%" height="100%">
-            <BarChart {...commonProps}>
-              {Grid} {X} {Y} {Tool} {Leg}
-              {keys.map((key, i) => (
-                <Bar key={key} dataKey={key} fill={config.colors?.[i] || COLORS[i % COLORS.length]} />
-              ))}
-            </BarChart>
-          </ResponsiveContainer>
-        );
-      case ChartType.LINE:
-        return (
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart {...commonProps}>
-              {Grid} {X} {Y} {Tool} {Leg}
-              {keys.map((key, i) => (
-                <Line key={key} type="monotone" dataKey={key} stroke={config.colors?.[i] || COLORS[i % COLORS.length]} strokeWidth={2} dot={{r: 4}} />
-              ))}
-            </LineChart>
-          </ResponsiveContainer>
-        );
-      case ChartType.SCATTER:
-        return (
-          <ResponsiveContainer width="100%" height="100%">
-            <ScatterChart {...commonProps}>
-               {Grid} 
-               <XAxis type="number" dataKey={config.xAxisKey} name={config.xLabel} stroke="#94a3b8" />
-               <YAxis type="number" dataKey={config.yAxisKey} name={config.yLabel} stroke="#94a3b8" />
-               {Tool} {Leg}
-               <Scatter name={config.title} data={chartData} fill="#8884d8" />
-            </ScatterChart>
-          </ResponsiveContainer>
-        );
-      case ChartType.PIE:
-         return (
-          <ResponsiveContainer width="100%" height="100%">
-            <PieChart>
-               <Pie
-                data={chartData}
-                dataKey={config.yAxisKey || 'value'}
-                nameKey={config.xAxisKey || 'name'}
-                cx="50%"
-                cy="50%"
-                outerRadius={120}
-                fill="#8884d8"
-                label
-              >
-                {chartData.map((entry: any, index: number) => (
-                  <Cell key={`cell-${index}`} fill={config.colors?.[index % (config.colors.length || 1)] || COLORS[index % COLORS.length]} />
-                ))}
-              </Pie>
-              {Tool} {Leg}
-            </PieChart>
-          </ResponsiveContainer>
-         );
-      case ChartType.AREA:
-        return (
-          <ResponsiveContainer width="100%" height="100%">
-            <AreaChart {...commonProps}>
-              {Grid} {X} {Y} {Tool} {Leg}
-              {keys.map((key, i) => (
-                <Area key={key} type="monotone" dataKey={key} stackId="1" stroke={config.colors?.[i] || COLORS[i % COLORS.length]} fill={config.colors?.[i] || COLORS[i % COLORS.length]} />
-              ))}
-            </AreaChart>
-          </ResponsiveContainer>
-        );
-      default:
-        // Fallback to Composed or Bar
-        return (
-          <ResponsiveContainer width="100%" height="100%">
-            <ComposedChart {...commonProps}>
-              {Grid} {X} {Y} {Tool} {Leg}
-               {keys.map((key, i) => (
-                <Bar key={key} dataKey={key} fill={config.colors?.[i] || COLORS[i % COLORS.length]} />
-              ))}
-            </ComposedChart>
-          </ResponsiveContainer>
-        );
+  // Hand edits skip the repair pass so they land exactly as made; problems still show in the issues list
+  const handleManualEdit = (next: VisualizationConfig, field: string) => {
+    // Scripts the model wrote no longer match the edited chart
+    setRevisionState(state => commitEdit(state, { ...next, rCode: undefined, pythonCode: undefined }, `Edit ${field}`));
+    setRepairNotes([]);
+  };
+
+  // A rule-based starting point, so charts can be built without any provider
+  const handleNewChart = () => {
+    if (!working) return;
+    try {
+      setRevisionState(state => commitRevision(state, recommendConfig(working.profile, ''), 'New chart'));
+      setRepairNotes([]);
+    } catch (err: any) {
+      console.error(err);
+      alert(err.message);
+    }
+  };
+
+  // Rebuilds a pasted chart on the current data; column names are matched as they are for a model's answer
+  const handleImportVegaLite = (text: string) => {
+    if (!working) return false;
+    try {
+      const { config: imported, notes } = parseVegaLiteSpec(text);
+      const repaired = repairConfig(imported, working);
+      setRevisionState(state => commitRevision(state, repaired.config, 'Import Vega-Lite spec'));
+      setRepairNotes([...notes, ...repaired.fixes]);
+      setActiveTab('chart');
+      return true;
+    } catch (err: any) {
+      console.error(err);
+      alert(`Could not import the spec: ${err.message}`);
+      return false;
     }
   };
 
+  // Shows the analyze request the current prompt would make, without sending it
+  const handlePreviewPayload = () => {
+    const request = analyzeRequest(prompt || "Visualize this data effectively");
+    const preview = request && previewAnalyze(request, aiSettings);
+    if (preview) setReview({ preview });
+  };
+
+  const handleAISettingsChange = (settings: AISettings) => {
+    setAISettings(settings);
+    saveAISettings(settings);
+  };
+
+  const handleSaveProject = () => {
+    saveProject({ ...currentProject, updatedAt: Date.now() }).then(refreshLibrary).catch(err => {
+      console.error(err);
+      alert("Could not save project");
+    });
+  };
+
+  const handleNewProject = () => {
+    applyProject(createProject({ dataset, privacy }));
+  };
+
+  const handleOpenProject = async (id: string) => {
+    const stored = await getProject(id);
+    if (!stored) return;
+    try {
+      applyProject(loadProject(stored));
+    } catch (err: any) {
+      console.error(err);
+      alert(err.message);
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    await deleteProject(id);
+    if (id === project.id) handleNewProject();
+    refreshLibrary();
+  };
+
+  const handleExportProject = () => {
+    const blob = new Blob([serializeProject(currentProject)], { type: 'application/json' });
+    downloadBlob(blob, `${slugify(project.name)}.vizai.json`);
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const imported = parseProjectFile(await file.text());
+      // Fresh id so importing never overwrites a library entry
+      applyProject({ ...imported, id: createId() });
+    } catch (err: any) {
+      console.error(err);
+      alert(`Could not import project: ${err.message}`);
+    }
+  };
+
+  const handleShareProject = async () => {
+    try {
+      const hash = await encodeShareHash(currentProject);
+      const url = window.location.href.split('#')[0] + hash;
+      await navigator.clipboard.writeText(url);
+      alert("Share link copied to clipboard");
+    } catch (err: any) {
+      console.error(err);
+      alert(err.message);
+    }
+  };
+
+  const issues = useMemo(() => (config && working ? validateConfig(config, working) : []), [config, working]);
+  const { processed, sampling, processing } = useChartData(working, config);
+  const table = useMemo(() => (config ? chartTable(config, processed) : null), [config, processed]);
+  const altText = useMemo(() => (config ? describeChart(config, processed) : ''), [config, processed]);
+
+  // Another chart type may not take the annotation being placed
+  useEffect(() => {
+    setPlacing(null);
+    setRangeStart(null);
+  }, [config?.chartType]);
+
+  const handleStartPlacing = (type: AnnotationType | null) => {
+    setPlacing(type);
+    setRangeStart(null);
+    if (!type) return;
+    setShowTable(false);
+    setActiveTab('chart');
+  };
+
+  // Annotations placed by clicking are hand edits like any other, so they can be undone
+  const handlePlace = (point: { x: any; y?: number }) => {
+    if (!config || !placing) return;
+    if (placing === 'range' && rangeStart === null) {
+      setRangeStart(toAnnotationValue(point.x, processed));
+      return;
+    }
+    const annotation = createAnnotation(placing, point, processed, rangeStart ?? undefined);
+    handleManualEdit({ ...config, annotations: [...(config.annotations ?? []), annotation] }, 'annotations');
+    setPlacing(null);
+    setRangeStart(null);
+  };
+
+  // Scripts and specs are only built while their tab is open; a format that cannot draw the chart says why
+  const [generatedCode, codeError] = useMemo((): [string, string | null] => {
+    if (!config || !working || hasErrors(issues)) return ['', null];
+    try {
+      switch (activeTab) {
+        case 'r': return [generateRCode(config, working), null];
+        case 'python': return [generatePythonCode(config, working), null];
+        case 'vegalite': return [formatSpec(generateVegaLiteSpec(config, working, specUrl.trim() || undefined)), null];
+        case 'plotly': return [formatJson(generatePlotlyFigure(config, working)), null];
+        default: return ['', null];
+      }
+    } catch (err: any) {
+      console.error(err);
+      return ['', err.message];
+    }
+  }, [config, working, issues, activeTab, specUrl]);
+
+  const renderChart = () => {
+    if (!config || !working) return <div className="text-gray-500 flex items-center justify-center h-64">No visualization generated yet</div>;
+    if (hasErrors(issues)) return <div className="text-gray-500 flex items-center justify-center h-64">Fix the problems above to render this chart</div>;
+    if (processing) {
+      return (
+        <div className="text-gray-500 flex items-center justify-center gap-2 h-64">
+          <RefreshCw className="w-4 h-4 animate-spin" /> Aggregating {working.data.length.toLocaleString()} rows...
+        </div>
+      );
+    }
+
+    if (showTable) return <ChartDataTable table={table!} caption={config.title} />;
+    const chart = (
+      <AccessibleChart summary={altText} table={table!}>
+        <ChartRenderer config={config} processed={processed} onPlace={placing ? handlePlace : undefined} />
+      </AccessibleChart>
+    );
+    if (!placing) return chart;
+    return (
+      <div className="h-full flex flex-col gap-2">
+        <div role="status" className="shrink-0 flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-indigo-950/60 border border-indigo-800 text-xs text-indigo-200">
+          <span>
+            {placing === 'range'
+              ? rangeStart === null ? 'Click where the shaded range starts' : `Range starts at ${rangeStart}; click where it ends`
+              : `Click the chart to place the ${ANNOTATION_TYPE_LABELS[placing].toLowerCase()}`}
+          </span>
+          <button onClick={() => handleStartPlacing(null)} className="px-2 py-1 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:text-white">
+            Cancel
+          </button>
+        </div>
+        <div className="flex-grow min-h-0">{chart}</div>
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-200 flex flex-col md:flex-row font-sans">
       {/* Sidebar Controls */}
@@ -213,6 +622,20 @@ export default function App() {
           </h1>
         </div>
 
+        <ProjectPanel
+          projectId={project.id}
+          projectName={project.name}
+          library={library}
+          onRename={(name) => setProject({ ...project, name })}
+          onSave={handleSaveProject}
+          onNew={handleNewProject}
+          onOpen={handleOpenProject}
+          onDelete={handleDeleteProject}
+          onExport={handleExportProject}
+          onImport={handleImportProject}
+          onShare={handleShareProject}
+        />
+
         {/* Data Source */}
         <div className="space-y-3">
           <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
@@ -221,24 +644,101 @@ export default function App() {
           <div className="p-4 bg-slate-900 rounded-xl border border-dashed border-slate-700 hover:border-indigo-500 transition-colors group relative">
             <input 
               type="file" 
-              accept=".csv" 
+              accept={SUPPORTED_EXTENSIONS}
               onChange={handleFileUpload}
+              disabled={Boolean(parseJob)}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
             />
             <div className="flex flex-col items-center justify-center gap-2 text-center">
               <Upload className="w-6 h-6 text-slate-500 group-hover:text-indigo-400" />
               <span className="text-xs text-slate-400">
-                {dataset ? dataset.name : "Click to upload CSV"}
+                {dataset ? dataset.name : "Click to upload CSV, Excel, JSON or Parquet"}
               </span>
             </div>
           </div>
-          {dataset && (
+          {parseJob && (
+            <div className="space-y-1 text-xs text-slate-400">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate">Reading {parseJob.name}... {Math.round(parseJob.progress * 100)}%</span>
+                <button onClick={parseJob.cancel} title="Cancel" className="text-slate-500 hover:text-slate-200"><XIcon className="w-3.5 h-3.5" /></button>
+              </div>
+              <div className="h-1 rounded-full bg-slate-800 overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(parseJob.progress * 100)}%` }} />
+              </div>
+            </div>
+          )}
+          {pasteText === null ? (
+            <button onClick={() => setPasteText('')} className="w-full flex items-center justify-center gap-1.5 text-xs text-slate-400 hover:text-slate-200">
+              <ClipboardPaste className="w-3.5 h-3.5" /> Paste from a spreadsheet
+            </button>
+          ) : (
+            <div className="space-y-2">
+              <textarea
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                autoFocus
+                placeholder="Paste cells with a header row"
+                className="w-full bg-slate-900 border border-slate-700 rounded-xl p-2 text-xs font-mono outline-none focus:ring-2 focus:ring-indigo-500 resize-none h-24"
+              />
+              <div className="flex gap-2 text-xs">
+                <button onClick={handlePasteData} disabled={!pasteText.trim()} className="flex-1 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 text-white">Load</button>
+                <button onClick={() => setPasteText(null)} className="flex-1 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-slate-300">Cancel</button>
+              </div>
+            </div>
+          )}
+          {workbook && (
+            <select
+              value={workbook.sheet}
+              onChange={(e) => handleSheetChange(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {workbook.sheets.map(sheet => <option key={sheet} value={sheet}>Sheet: {sheet}</option>)}
+            </select>
+          )}
+          {dataset && working && (
             <div className="text-xs text-slate-500 px-1">
-              {dataset.data.length} rows, {dataset.columns.length} columns loaded.
+              {working.data.length} rows{working.data.length !== dataset.data.length && ` (of ${dataset.data.length})`}, {working.columns.length} columns loaded.
             </div>
           )}
+          {working && (
+            <ul className="max-h-56 overflow-y-auto divide-y divide-slate-800 bg-slate-900 rounded-xl border border-slate-800">
+              {working.profile.map(col => (
+                <li key={col.name} className="px-3 py-2 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-slate-300 truncate" title={col.name}>{col.name}</span>
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wide ${TYPE_BADGES[col.type]}`}>{col.type}</span>
+                  </div>
+                  <div className="text-slate-500 mt-0.5">
+                    {col.distinctCount} distinct{col.nullCount > 0 && <span className="text-amber-400">, {col.nullCount} null</span>}
+                    {col.min !== undefined && <>, {formatStat(col.min)} – {formatStat(col.max)}</>}
+                    {col.type === 'number' && col.mean !== undefined && <>, mean {formatStat(col.mean)}</>}
+                    {col.type === 'boolean' && col.mean !== undefined && <>, {Math.round(col.mean * 100)}% true</>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
 
+        <CatalogPanel
+          active={dataset}
+          catalog={catalog}
+          busy={Boolean(parseJob)}
+          onAdd={handleAddTable}
+          onActivate={handleActivateTable}
+          onRemove={(name) => setCatalog(tables => tables.filter(t => t.name !== name))}
+          onCreate={handleCreateTable}
+        />
+
+        {dataset && transformed && (
+          <TransformPanel
+            source={dataset}
+            result={transformed.dataset}
+            errors={transformed.errors}
+            onChange={(transforms) => setDataset({ ...dataset, transforms })}
+          />
+        )}
+
         {/* Reference Image */}
         <div className="space-y-3">
           <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
@@ -264,6 +764,15 @@ export default function App() {
           </div>
         </div>
 
+        <ThemePanel
+          current={config?.theme}
+          themes={themes}
+          hasChart={Boolean(config)}
+          onSave={handleSaveTheme}
+          onApply={handleApplyTheme}
+          onDelete={(name) => updateThemes(themes.filter(t => t.name !== name))}
+        />
+
         {/* Prompt */}
         <div className="space-y-3 flex-grow">
           <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
@@ -277,6 +786,19 @@ export default function App() {
           />
         </div>
 
+        <AISettingsPanel settings={aiSettings} onChange={handleAISettingsChange} />
+
+        {working && (
+          <PrivacyPanel
+            dataset={working}
+            pii={pii}
+            privacy={privacy}
+            remote={remote}
+            onChange={setPrivacy}
+            onPreview={handlePreviewPayload}
+          />
+        )}
+
         <button 
           onClick={handleGenerate}
           disabled={loading || !dataset}
@@ -303,6 +825,18 @@ export default function App() {
           >
             Interactive Chart
           </button>
+          <button 
+            onClick={() => setActiveTab('dashboard')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'dashboard' ? 'bg-violet-500/10 text-violet-400' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            Dashboard{dashboard.length > 0 && ` (${dashboard.length})`}
+          </button>
+          <button 
+            onClick={() => setActiveTab('data')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'data' ? 'bg-emerald-500/10 text-emerald-400' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            Data
+          </button>
           <button 
              onClick={() => setActiveTab('r')}
              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'r' ? 'bg-blue-500/10 text-blue-400' : 'text-slate-400 hover:text-slate-200'}`}
@@ -315,34 +849,153 @@ export default function App() {
           >
             Python Code
           </button>
+          <button 
+             onClick={() => setActiveTab('vegalite')}
+             className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'vegalite' ? 'bg-pink-500/10 text-pink-400' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            Vega-Lite
+          </button>
+          <button 
+             onClick={() => setActiveTab('plotly')}
+             className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'plotly' ? 'bg-cyan-500/10 text-cyan-400' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            Plotly
+          </button>
         </div>
 
+        <div className="flex-grow min-h-0 flex flex-col xl:flex-row gap-6">
         {/* Workspace */}
-        <div className="flex-grow relative bg-slate-800/50 rounded-2xl border border-slate-700/50 p-6 flex flex-col">
+        <div className="flex-grow min-w-0 relative bg-slate-800/50 rounded-2xl border border-slate-700/50 p-6 flex flex-col">
           {config && (
-             <div className="mb-4">
-                <h2 className="text-xl font-bold text-white mb-1">{config.title}</h2>
-                <p className="text-sm text-slate-400">{config.description}</p>
+             <div className="mb-4 flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-bold text-white mb-1" style={{ fontSize: config.theme?.titleSize, fontFamily: config.theme?.fontFamily }}>{config.title}</h2>
+                  <p className="text-sm text-slate-400">{config.description}</p>
+                  {activeTab === 'chart' && sampling && (
+                    <span
+                      title={sampling.method === 'lttb' ? 'Downsampled with Largest-Triangle-Three-Buckets, which keeps the shape of the line' : 'Random sample spread evenly across the data'}
+                      className="inline-flex items-center gap-1 mt-2 px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-300 text-xs"
+                    >
+                      <Filter className="w-3 h-3" /> Sampled: showing {sampling.to.toLocaleString()} of {sampling.from.toLocaleString()} points
+                    </span>
+                  )}
+                </div>
+                {activeTab === 'chart' && working && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => setShowTable(!showTable)}
+                      aria-pressed={showTable}
+                      title={showTable ? 'Back to the chart' : 'Show the numbers behind the chart as a table'}
+                      className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 hover:border-indigo-500 text-slate-300 text-sm"
+                    >
+                      {showTable ? <><BarChart3 className="w-4 h-4" /> Chart</> : <><TableIcon className="w-4 h-4" /> Data table</>}
+                    </button>
+                    <button
+                      onClick={() => setDashboard(panels => [...panels, createPanel(config)])}
+                      disabled={hasErrors(issues)}
+                      title="Pin a copy of this chart to the dashboard"
+                      className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 hover:border-indigo-500 disabled:opacity-40 text-slate-300 text-sm"
+                    >
+                      <LayoutDashboard className="w-4 h-4" /> Add to dashboard
+                    </button>
+                    <ExportMenu getContainer={() => chartRef.current} config={config} dataset={working} processed={processed} />
+                  </div>
+                )}
              </div>
           )}
 
-          <div className="flex-grow min-h-0 bg-slate-900/50 rounded-xl border border-slate-800 p-4 overflow-auto">
+          {config && activeTab === 'chart' && (
+            <ConfigIssues issues={issues} fixes={repairNotes} onDismissFixes={() => setRepairNotes([])} />
+          )}
+
+          <div ref={chartRef} className="flex-grow min-h-0 bg-slate-900/50 rounded-xl border border-slate-800 p-4 overflow-auto">
             {activeTab === 'chart' && renderChart()}
+
+            {activeTab === 'dashboard' && (
+              working ? (
+                <Dashboard dataset={working} panels={dashboard} refiningId={refiningPanel} onChange={setDashboard} onRefine={handlePanelRefine} />
+              ) : <div className="text-gray-500 flex items-center justify-center h-64">No data loaded yet</div>
+            )}
+
+            {activeTab === 'data' && (
+              working ? <DataPreview dataset={working} sourceRows={dataset?.data.length ?? 0} /> : <div className="text-gray-500 flex items-center justify-center h-64">No data loaded yet</div>
+            )}
             
             {activeTab === 'r' && (
-              <pre className="text-xs sm:text-sm font-mono text-blue-200 p-4">
-                <code>{config?.rCode || "# R code will appear here"}</code>
-              </pre>
+              <CodeView generated={generatedCode} enhanced={config?.rCode} placeholder="# R code will appear here" textClass="text-blue-200" />
             )}
 
             {activeTab === 'python' && (
-               <pre className="text-xs sm:text-sm font-mono text-yellow-200 p-4">
-                <code>{config?.pythonCode || "# Python code will appear here"}</code>
-              </pre>
+              <CodeView generated={generatedCode} enhanced={config?.pythonCode} placeholder="# Python code will appear here" textClass="text-yellow-200" />
+            )}
+
+            {activeTab === 'vegalite' && (
+              <VegaLiteView
+                code={generatedCode}
+                placeholder={codeError ?? '// Vega-Lite spec will appear here'}
+                dataUrl={specUrl}
+                canImport={Boolean(working)}
+                onDataUrlChange={setSpecUrl}
+                onImport={handleImportVegaLite}
+              />
+            )}
+
+            {activeTab === 'plotly' && (
+              <CodeView
+                generated={generatedCode}
+                placeholder={codeError ?? '// Plotly figure will appear here'}
+                textClass="text-cyan-200"
+                toolbar={<span className="text-slate-500">Plotly figure with the chart's aggregated values</span>}
+              />
             )}
           </div>
         </div>
+
+        {/* Conversation and manual settings, both editing the same revision history */}
+        <div className="xl:w-80 h-96 xl:h-auto shrink-0 flex flex-col gap-2 min-h-0">
+          <div className="flex gap-1">
+            <button
+              onClick={() => setSideTab('chat')}
+              className={`flex-1 flex items-center justify-center gap-2 py-1.5 rounded-lg text-xs font-medium transition-colors ${sideTab === 'chat' ? 'bg-indigo-500/10 text-indigo-400' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              <MessageSquare className="w-3.5 h-3.5" /> Conversation
+            </button>
+            <button
+              onClick={() => setSideTab('edit')}
+              className={`flex-1 flex items-center justify-center gap-2 py-1.5 rounded-lg text-xs font-medium transition-colors ${sideTab === 'edit' ? 'bg-indigo-500/10 text-indigo-400' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              <SlidersHorizontal className="w-3.5 h-3.5" /> Edit
+            </button>
+          </div>
+          <div className="flex-grow min-h-0">
+            {sideTab === 'chat' ? (
+              <ChatPanel
+                state={revisionState}
+                loading={loading}
+                onSend={handleRefine}
+                onUndo={() => setRevisionState(undoRevision)}
+                onRedo={() => setRevisionState(redoRevision)}
+                onCheckout={(id) => setRevisionState(state => checkoutRevision(state, id))}
+              />
+            ) : (
+              <div className="h-full bg-slate-950/60 rounded-2xl border border-slate-700/50">
+                <ConfigInspector config={config} dataset={working} processed={processed} onChange={handleManualEdit} onCreate={handleNewChart}
+                  placing={placing} onPlace={handleStartPlacing}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+        </div>
       </main>
+
+      {review && (
+        <PayloadDialog
+          preview={review.preview}
+          onSend={review.resolve && (() => closeReview(true))}
+          onClose={() => closeReview(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
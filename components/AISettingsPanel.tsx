@@ -0,0 +1,67 @@
+import React from 'react';
+import { AlertTriangle, Cpu } from 'lucide-react';
+import { AIProviderId, AISettings } from '../types';
+import { PROVIDERS } from '../services/aiService';
+
+interface AISettingsPanelProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+}
+
+export const AISettingsPanel = ({ settings, onChange }: AISettingsPanelProps) => {
+  const provider = PROVIDERS[settings.provider];
+  const problem = provider.checkSettings(settings);
+  const input = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500';
+  const update = (fields: Partial<AISettings>) => onChange({ ...settings, ...fields });
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <Cpu className="w-4 h-4" /> AI Provider
+      </h2>
+      <select
+        value={settings.provider}
+        // Model names do not carry over between providers
+        onChange={(e) => update({ provider: e.target.value as AIProviderId, model: '' })}
+        className={input}
+      >
+        {Object.entries(PROVIDERS).map(([id, p]) => <option key={id} value={id}>{p.label}</option>)}
+      </select>
+
+      {settings.provider !== 'offline' && (
+        <input
+          value={settings.model}
+          onChange={(e) => update({ model: e.target.value })}
+          placeholder={`Model (default ${provider.defaultModel})`}
+          className={input}
+        />
+      )}
+      {settings.provider === 'openai' && (
+        <input
+          value={settings.baseUrl}
+          onChange={(e) => update({ baseUrl: e.target.value })}
+          placeholder="Base URL, e.g. http://localhost:11434/v1"
+          className={input}
+        />
+      )}
+      {settings.provider !== 'offline' && (
+        <input
+          type="password"
+          value={settings.apiKey}
+          onChange={(e) => update({ apiKey: e.target.value })}
+          placeholder={settings.provider === 'gemini' ? 'API key (defaults to GEMINI_API_KEY)' : 'API key (optional)'}
+          className={input}
+        />
+      )}
+
+      {problem && (
+        <p className="text-xs text-amber-300 flex items-start gap-1.5">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" /> {problem}
+        </p>
+      )}
+      {!provider.supportsImages && (
+        <p className="text-xs text-slate-500">Picks charts from column types and cardinality. Reference images are ignored.</p>
+      )}
+    </div>
+  );
+};
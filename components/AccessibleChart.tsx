@@ -0,0 +1,79 @@
+import React, { useEffect, useId, useMemo, useState } from 'react';
+import { ChartTable, describeCell } from '../utils/accessibility';
+
+interface AccessibleChartProps {
+  summary: string; // Alt text from describeChart
+  table: ChartTable; // Points the arrow keys walk through
+  children: React.ReactNode;
+}
+
+interface Position {
+  row: number;
+  column: number;
+}
+
+// Focusable frame around the SVG: alt text for screen readers and arrow keys that announce each point
+export const AccessibleChart = ({ summary, table, children }: AccessibleChartProps) => {
+  const [position, setPosition] = useState<Position | null>(null);
+  const hintId = useId();
+  const lastColumn = table.columns.length - 1;
+  const firstValue = Math.min(table.keyColumns, lastColumn);
+
+  // A new chart starts over rather than pointing at a row that may not exist
+  useEffect(() => setPosition(null), [table]);
+
+  const announcement = useMemo(
+    () => (position ? describeCell(table, position.row, position.column) : ''),
+    [table, position]
+  );
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (table.rows.length === 0) return;
+    const current = position ?? { row: -1, column: firstValue };
+    const lastRow = table.rows.length - 1;
+    const clampRow = (row: number) => Math.max(0, Math.min(lastRow, row));
+    const clampColumn = (column: number) => Math.max(firstValue, Math.min(lastColumn, column));
+
+    let next: Position | null;
+    switch (e.key) {
+      case 'ArrowRight': next = { ...current, row: clampRow(current.row + 1) }; break;
+      case 'ArrowLeft': next = { ...current, row: clampRow(current.row - 1) }; break;
+      case 'ArrowDown': next = { row: clampRow(current.row), column: clampColumn(current.column + 1) }; break;
+      case 'ArrowUp': next = { row: clampRow(current.row), column: clampColumn(current.column - 1) }; break;
+      case 'Home': next = { ...current, row: 0 }; break;
+      case 'End': next = { ...current, row: lastRow }; break;
+      case 'Escape': next = null; break;
+      default: return;
+    }
+    e.preventDefault();
+    setPosition(next);
+  };
+
+  const multipleValues = lastColumn > table.keyColumns;
+
+  return (
+    <figure className="h-full flex flex-col m-0">
+      <div
+        tabIndex={0}
+        role="img"
+        aria-label={summary}
+        aria-describedby={hintId}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setPosition(null)}
+        className="flex-grow min-h-0 rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-indigo-500"
+      >
+        {children}
+      </div>
+      <p id={hintId} className="sr-only">
+        Use the left and right arrow keys to move between data points{multipleValues ? ', up and down to switch series' : ''}, and Escape to stop.
+      </p>
+      <p aria-live="polite" className={`shrink-0 min-h-[1.25rem] text-xs text-indigo-300 ${announcement ? '' : 'sr-only'}`}>
+        {announcement}
+      </p>
+      <details className="shrink-0 text-xs text-slate-400">
+        <summary className="cursor-pointer text-slate-500 hover:text-slate-300">Chart description</summary>
+        <p className="mt-1">{summary}</p>
+      </details>
+    </figure>
+  );
+};
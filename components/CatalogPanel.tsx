@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Combine, Database, Plus, Trash2, X as XIcon } from 'lucide-react';
+import { Dataset, JoinType } from '../types';
+import { JOIN_LABELS, JoinReport, UnionReport, joinDatasets, unionDatasets } from '../utils/joins';
+import { SUPPORTED_EXTENSIONS } from '../utils/parsers';
+
+interface CatalogPanelProps {
+  active: Dataset | null; // The charted table
+  catalog: Dataset[]; // Everything else that is loaded
+  busy: boolean;
+  onAdd: (file: File) => void;
+  onActivate: (name: string) => void;
+  onRemove: (name: string) => void;
+  onCreate: (dataset: Dataset) => void;
+}
+
+type Draft =
+  | { type: 'join'; left: string; right: string; how: JoinType; keys: [string, string][] }
+  | { type: 'union'; inputs: string[]; sourceColumn: string };
+
+type Preview =
+  | { type: 'join'; dataset: Dataset; report: JoinReport }
+  | { type: 'union'; dataset: Dataset; report: UnionReport }
+  | { type: 'error'; message: string };
+
+const describeOrigin = (dataset: Dataset) => {
+  if (!dataset.origin) return `${dataset.data.length.toLocaleString()} rows`;
+  const kind = dataset.origin.type === 'join' ? `${dataset.origin.how} join` : 'union';
+  return `${dataset.data.length.toLocaleString()} rows, ${kind}`;
+};
+
+// Shared key names are the likely join keys
+const guessKeys = (left?: Dataset, right?: Dataset): [string, string][] => {
+  const shared = left && right ? left.columns.find(c => right.columns.includes(c)) : undefined;
+  return [[shared ?? left?.columns[0] ?? '', shared ?? right?.columns[0] ?? '']];
+};
+
+// Loaded tables, plus joins and unions that become new tables; inputs are read as stored, before transform steps
+export const CatalogPanel = ({ active, catalog, busy, onAdd, onActivate, onRemove, onCreate }: CatalogPanelProps) => {
+  const tables = active ? [active, ...catalog] : catalog;
+  const byName = (name: string) => tables.find(t => t.name === name);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const input = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-indigo-500';
+
+  const preview = useMemo<Preview | null>(() => {
+    if (!draft) return null;
+    try {
+      if (draft.type === 'union') {
+        const inputs = draft.inputs.map(byName).filter((t): t is Dataset => Boolean(t));
+        return { type: 'union', ...unionDatasets(inputs, draft.sourceColumn) };
+      }
+      const left = byName(draft.left);
+      const right = byName(draft.right);
+      if (!left || !right) return { type: 'error', message: 'Pick two tables' };
+      return {
+        type: 'join',
+        ...joinDatasets(left, right, { how: draft.how, leftKeys: draft.keys.map(k => k[0]), rightKeys: draft.keys.map(k => k[1]) })
+      };
+    } catch (err: any) {
+      return { type: 'error', message: err.message };
+    }
+  }, [draft, active, catalog]);
+
+  const startJoin = () => {
+    const [left, right] = tables;
+    setDraft({ type: 'join', left: left?.name ?? '', right: right?.name ?? '', how: 'left', keys: guessKeys(left, right) });
+  };
+
+  const setJoinTable = (side: 'left' | 'right', name: string) => {
+    if (draft?.type !== 'join') return;
+    const next = { ...draft, [side]: name };
+    setDraft({ ...next, keys: guessKeys(byName(next.left), byName(next.right)) });
+  };
+
+  const setKey = (index: number, side: 0 | 1, column: string) => {
+    if (draft?.type !== 'join') return;
+    setDraft({ ...draft, keys: draft.keys.map((pair, i) => (i === index ? (side === 0 ? [column, pair[1]] : [pair[0], column]) : pair)) });
+  };
+
+  const create = () => {
+    if (preview?.type !== 'join' && preview?.type !== 'union') return;
+    onCreate(preview.dataset);
+    setDraft(null);
+  };
+
+  const renderReport = () => {
+    if (!preview) return null;
+    if (preview.type === 'error') return <p className="text-[11px] text-amber-300">{preview.message}</p>;
+    if (preview.type === 'union') {
+      return (
+        <div className="text-[11px] text-slate-400 space-y-1">
+          <p>{preview.report.rows.toLocaleString()} rows, {preview.dataset.columns.length} columns</p>
+          {preview.report.missing.map(entry => (
+            <p key={entry.name} className="text-amber-300 flex items-start gap-1">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {entry.name} lacks {entry.columns.join(', ')}; filled with nulls
+            </p>
+          ))}
+        </div>
+      );
+    }
+    const { report } = preview;
+    const [leftName, rightName] = draft?.type === 'join' ? [draft.left, draft.right] : ['', ''];
+    const warnings = [
+      report.unmatchedLeft > 0 && `${report.unmatchedLeft.toLocaleString()} rows of ${leftName} have no match`,
+      report.unmatchedRight > 0 && `${report.unmatchedRight.toLocaleString()} rows of ${rightName} have no match`,
+      report.duplicateLeftKeys > 0 && `${report.duplicateLeftKeys.toLocaleString()} key values repeat in ${leftName}`,
+      report.duplicateRightKeys > 0 && `${report.duplicateRightKeys.toLocaleString()} key values repeat in ${rightName}, so matching rows are multiplied`,
+      report.renamed.length > 0 && `Renamed clashing columns: ${report.renamed.join(', ')}`
+    ].filter((w): w is string => Boolean(w));
+    return (
+      <div className="text-[11px] text-slate-400 space-y-1">
+        <p>{report.rows.toLocaleString()} rows, {preview.dataset.columns.length} columns</p>
+        {warnings.map(w => (
+          <p key={w} className="text-amber-300 flex items-start gap-1"><AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {w}</p>
+        ))}
+      </div>
+    );
+  };
+
+  const renderDraft = (current: Draft) => {
+    if (current.type === 'union') {
+      return (
+        <>
+          <div className="max-h-32 overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg p-2 space-y-1">
+            {tables.map(table => {
+              const checked = current.inputs.includes(table.name);
+              return (
+                <label key={table.name} className="flex items-center gap-2 text-xs text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() => setDraft({ ...current, inputs: checked ? current.inputs.filter(n => n !== table.name) : [...current.inputs, table.name] })}
+                  />
+                  <span className="truncate">{table.name}</span>
+                </label>
+              );
+            })}
+          </div>
+          <input value={current.sourceColumn} onChange={(e) => setDraft({ ...current, sourceColumn: e.target.value })} placeholder="Source column" className={input} />
+        </>
+      );
+    }
+    const left = byName(current.left);
+    const right = byName(current.right);
+    return (
+      <>
+        <div className="grid grid-cols-2 gap-2">
+          {(['left', 'right'] as const).map(side => (
+            <select key={side} value={current[side]} onChange={(e) => setJoinTable(side, e.target.value)} className={input}>
+              {tables.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+            </select>
+          ))}
+        </div>
+        <select value={current.how} onChange={(e) => setDraft({ ...current, how: e.target.value as JoinType })} className={input}>
+          {Object.entries(JOIN_LABELS).map(([how, label]) => <option key={how} value={how}>{label}</option>)}
+        </select>
+        {current.keys.map((pair, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <select value={pair[0]} onChange={(e) => setKey(i, 0, e.target.value)} className={input}>
+              {left?.columns.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <span className="text-slate-500 text-xs">=</span>
+            <select value={pair[1]} onChange={(e) => setKey(i, 1, e.target.value)} className={input}>
+              {right?.columns.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <button
+              onClick={() => setDraft({ ...current, keys: current.keys.filter((_, j) => j !== i) })}
+              disabled={current.keys.length === 1}
+              title="Remove key"
+              className="p-1 text-slate-500 hover:text-slate-200 disabled:opacity-30"
+            >
+              <XIcon className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setDraft({ ...current, keys: [...current.keys, [left?.columns[0] ?? '', right?.columns[0] ?? '']] })}
+          className="flex items-center gap-1 text-[11px] text-slate-400 hover:text-slate-200"
+        >
+          <Plus className="w-3 h-3" /> Add key column
+        </button>
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <Database className="w-4 h-4" /> Tables
+      </h2>
+
+      {tables.length > 0 && (
+        <ul className="divide-y divide-slate-800 bg-slate-900 rounded-xl border border-slate-800 text-xs">
+          {tables.map(table => (
+            <li key={table.name} className="px-3 py-2 flex items-center gap-2">
+              <button
+                onClick={() => onActivate(table.name)}
+                disabled={table === active}
+                title={table === active ? 'Charted table' : 'Chart this table'}
+                className="flex-grow min-w-0 text-left"
+              >
+                <div className={`truncate ${table === active ? 'text-indigo-300 font-medium' : 'text-slate-300 hover:text-white'}`}>{table.name}</div>
+                <div className="text-slate-500">{describeOrigin(table)}</div>
+              </button>
+              {table !== active && (
+                <button onClick={() => onRemove(table.name)} title="Remove table" className="p-1 text-slate-500 hover:text-slate-200"><Trash2 className="w-3 h-3" /></button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="space-y-2 p-3 bg-slate-900/50 rounded-xl border border-slate-800">
+          <div className="text-xs font-medium text-slate-300">{draft.type === 'join' ? 'Join two tables' : 'Union of tables'}</div>
+          {renderDraft(draft)}
+          {renderReport()}
+          <div className="flex gap-2 text-xs">
+            <button onClick={create} disabled={!preview || preview.type === 'error'} className="flex-1 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-500 text-white">
+              Create table
+            </button>
+            <button onClick={() => setDraft(null)} className="flex-1 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-slate-300">Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2 text-xs">
+          <label className={`flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-slate-300 ${busy ? 'opacity-40' : 'hover:border-indigo-500 cursor-pointer'}`}>
+            <Plus className="w-3.5 h-3.5" /> Add table
+            <input
+              type="file"
+              accept={SUPPORTED_EXTENSIONS}
+              disabled={busy}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onAdd(file);
+              }}
+              className="hidden"
+            />
+          </label>
+          <button onClick={startJoin} disabled={tables.length < 2} className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-slate-900 border border-slate-700 hover:border-indigo-500 disabled:opacity-40 text-slate-300">
+            <Combine className="w-3.5 h-3.5" /> Join
+          </button>
+          <button
+            onClick={() => setDraft({ type: 'union', inputs: tables.map(t => t.name), sourceColumn: 'source' })}
+            disabled={tables.length < 2}
+            className="flex-1 py-1.5 rounded-lg bg-slate-900 border border-slate-700 hover:border-indigo-500 disabled:opacity-40 text-slate-300"
+          >
+            Union
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
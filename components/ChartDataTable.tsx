@@ -0,0 +1,34 @@
+import React from 'react';
+import { ChartTable } from '../utils/accessibility';
+
+interface ChartDataTableProps {
+  table: ChartTable;
+  caption: string;
+}
+
+// Every processed point as drawn, for screen readers and anyone who wants the exact values
+export const ChartDataTable = ({ table, caption }: ChartDataTableProps) => (
+  <table className="w-full text-xs text-left border-collapse">
+    <caption className="text-left text-slate-400 pb-2">
+      {caption} ({table.rows.length.toLocaleString()} row{table.rows.length === 1 ? '' : 's'})
+    </caption>
+    <thead className="sticky top-0 bg-slate-900">
+      <tr>
+        {table.columns.map((column, i) => (
+          <th key={i} scope="col" className="px-2 py-1.5 font-medium text-slate-300 border-b border-slate-700 whitespace-nowrap">{column}</th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {table.rows.map((row, i) => (
+        <tr key={i} className="odd:bg-slate-800/30">
+          {row.map((value, j) => (j < table.keyColumns ? (
+            <th key={j} scope="row" className="px-2 py-1 font-normal text-slate-300 whitespace-nowrap">{value}</th>
+          ) : (
+            <td key={j} className="px-2 py-1 text-slate-400 whitespace-nowrap">{value || <span className="text-slate-600">–</span>}</td>
+          )))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
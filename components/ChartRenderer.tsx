@@ -0,0 +1,462 @@
+import React from 'react';
+import {
+  BarChart, Bar, LineChart, Line, ScatterChart, Scatter,
+  AreaChart, Area, PieChart, Pie, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, Cell, ComposedChart, ReferenceLine, ReferenceArea, ReferenceDot,
+  RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Symbols
+} from 'recharts';
+import { ChartSelection, ChartSeries, ChartType, VisualizationConfig } from '../types';
+import { ARROW_OFFSET, ResolvedAnnotation } from '../utils/annotations';
+import { hasGroupSplit, splitByGroup } from '../utils/aggregation';
+import { heatmapColors, seriesColor } from '../utils/colors';
+import { formatDate, nextPeriod, timeTicks } from '../utils/dates';
+import { REFERENCE_COLOR } from '../utils/overlays';
+import { ProcessedData } from '../utils/processing';
+import { DASH_ARRAYS, resolveTheme } from '../utils/themes';
+import { BoxShape, makeViolinShape } from './DistributionShapes';
+import { HeatmapChart } from './HeatmapChart';
+
+interface ChartRendererProps {
+  config: VisualizationConfig;
+  processed: ProcessedData;
+  onSelect?: (selection: ChartSelection) => void; // Clicked bar, slice, bin or legend entry
+  onPlace?: (point: { x: any; y?: number }) => void; // Clicked data point while placing an annotation; replaces onSelect
+}
+
+// Line from the label down to the point, with the arrowhead on the point
+const ArrowShape = ({ cx, cy, annotation }: { cx: number; cy: number; annotation: ResolvedAnnotation }) => {
+  const tailX = cx + ARROW_OFFSET;
+  const tailY = cy - ARROW_OFFSET;
+  const angle = Math.atan2(cy - tailY, cx - tailX);
+  const head = [angle - 0.4, angle + 0.4].map(a => `${cx - 9 * Math.cos(a)},${cy - 9 * Math.sin(a)}`).join(' ');
+  return (
+    <g>
+      <line x1={tailX} y1={tailY} x2={cx} y2={cy} stroke={annotation.color} strokeWidth={1.5} />
+      <polygon points={`${cx},${cy} ${head}`} fill={annotation.color} />
+      <text x={tailX + 4} y={tailY - 4} fill={annotation.color} fontSize={12} fontWeight={600}>{annotation.label}</text>
+    </g>
+  );
+};
+
+// The Recharts markup for each chart type; callers handle the empty, invalid and loading states
+export const ChartRenderer = ({ config, processed, onSelect, onPlace }: ChartRendererProps) => {
+  const chartData = processed.rows;
+
+  const time = processed.time;
+  // Full date of one point: its period when resampled, otherwise the day or minute
+  const pointLabel = (t: number) => formatDate(t, time?.unit ?? (time?.hasTime ? 'minute' : 'day'));
+
+  const select = (column: string | undefined, value: any) => {
+    if (onSelect && column && value !== undefined && value !== null) onSelect({ column, value });
+  };
+
+  // A date point selects its whole period, since the raw rows hold unparsed date strings
+  const selectXValue = (value: any) => {
+    if (!time || typeof value !== 'number') return select(config.xAxisKey, value);
+    const end = time.unit ? nextPeriod(value, time.unit) : value + 1;
+    onSelect?.({ column: config.xAxisKey, range: [value, end], label: pointLabel(value), dateFormat: time.format });
+  };
+
+  // Legend entries of split charts stand for groupBy categories
+  const selectLegend = (entry: any) => {
+    if (!hasGroupSplit(config) || String(entry.dataKey).startsWith('__trend')) return;
+    const group = processed.series.find(s => s.key === entry.dataKey)?.group ?? entry.value;
+    select(config.groupBy, group);
+  };
+
+  const theme = resolveTheme(config);
+  const frameStyle = { backgroundColor: theme.background, fontFamily: theme.fontFamily };
+  const commonProps = {
+    data: processed.data,
+    margin: { top: 20, right: 30, left: 20, bottom: 50 },
+    style: frameStyle
+  };
+
+  const axis = { stroke: theme.axisColor, axisLine: theme.axisLine, tick: { fill: theme.textColor, fontSize: theme.fontSize } };
+  const X = <XAxis dataKey={config.xAxisKey} {...axis} angle={-45} textAnchor="end" height={60} tickFormatter={time ? pointLabel : undefined} />;
+  // Continuous date axis for lines, areas and points; bars keep one slot per period
+  const xValues = time ? processed.data.map(r => r[config.xAxisKey]) : [];
+  const ticks = time && xValues.length > 0 ? timeTicks(xValues[0], xValues[xValues.length - 1]) : null;
+  const TimeX = ticks && (
+    <XAxis
+      dataKey={config.xAxisKey}
+      type="number"
+      scale="time"
+      domain={['dataMin', 'dataMax']}
+      ticks={ticks.ticks}
+      tickFormatter={(t: number) => formatDate(t, ticks.unit)}
+      name={config.xLabel}
+      {...axis}
+    />
+  );
+  const Y = <YAxis {...axis} />;
+  const Grid = theme.grid !== 'none' && (
+    <CartesianGrid
+      strokeDasharray={DASH_ARRAYS[theme.gridDash]}
+      stroke={theme.gridColor}
+      horizontal={theme.grid !== 'vertical'}
+      vertical={theme.grid !== 'horizontal'}
+    />
+  );
+  // The dark tooltip suits the app; a themed background carries over to it
+  const tooltipStyle = theme.background === 'transparent'
+    ? { backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }
+    : { backgroundColor: theme.background, borderColor: theme.gridColor, color: theme.textColor };
+  const Tool = (
+    <Tooltip
+      contentStyle={tooltipStyle}
+      labelFormatter={time ? pointLabel : undefined}
+      formatter={time ? (value: any, _name: any, item: any) => (item?.dataKey === config.xAxisKey ? pointLabel(value) : value) : undefined}
+    />
+  );
+  const side = theme.legendPosition === 'left' || theme.legendPosition === 'right';
+  const legendProps = {
+    layout: side ? 'vertical' as const : 'horizontal' as const,
+    align: side ? theme.legendPosition as 'left' | 'right' : 'center' as const,
+    verticalAlign: side ? 'middle' as const : theme.legendPosition === 'top' ? 'top' as const : 'bottom' as const,
+    wrapperStyle: { fontSize: theme.fontSize }
+  };
+  const Leg = theme.legendPosition !== 'none' && <Legend {...legendProps} onClick={onSelect ? selectLegend : undefined} />;
+
+  // One series per value key, or per groupBy category once pivoted
+  const series = processed.series;
+  // Only declared when someone listens, so plain charts keep the default cursor
+  const clickable = (handler: (item: any) => void) => (onSelect && !onPlace ? { onClick: handler, cursor: 'pointer' } : {});
+  const selectX = clickable((item: any) => selectXValue(item?.payload?.[config.xAxisKey]));
+  // Placing snaps to the hovered X and the highest value there, so labels sit on top of the marks
+  const placeActive = onPlace && {
+    onClick: (state: any) => {
+      if (state?.activeLabel === undefined) return;
+      const values = (state.activePayload ?? []).map((p: any) => Number(p.value)).filter((v: number) => !isNaN(v));
+      onPlace({ x: state.activeLabel, y: values.length > 0 ? Math.max(...values) : undefined });
+    }
+  };
+  // Line and area charts report the hovered X label rather than a mark
+  const selectActiveX = placeActive || (onSelect ? { onClick: (state: any) => state?.activeLabel !== undefined && selectXValue(state.activeLabel) } : {});
+  const colorAt = (i: number) => seriesColor(config, i);
+  const stackId = config.barMode === 'stacked' ? 'stack' : undefined;
+  // Only the top of a stack gets rounded corners
+  const barRadius = (i: number): [number, number, number, number] | undefined =>
+    theme.barRadius > 0 && (!stackId || i === series.length - 1) ? [theme.barRadius, theme.barRadius, 0, 0] : undefined;
+  const lineStyle = { strokeWidth: theme.lineWidth, strokeDasharray: DASH_ARRAYS[theme.lineDash] };
+  const dot = theme.marker === 'none'
+    ? false
+    : theme.marker === 'circle'
+      ? { r: 4 }
+      : (props: any) => <Symbols key={props.key} cx={props.cx} cy={props.cy} type={theme.marker} size={64} fill={props.stroke} />;
+
+  // Fitted curves carry their own rows; only composed charts draw lines and bands next to other marks
+  const trends = processed.trends ?? [];
+  const Trends = trends.flatMap(fit => [
+    ...(fit.points[0]?.[`${fit.key}_band`] ? [
+      <Area
+        key={`${fit.key}_band`}
+        data={fit.points}
+        dataKey={`${fit.key}_band`}
+        stroke="none"
+        fill={colorAt(fit.series)}
+        fillOpacity={0.15}
+        activeDot={false}
+        legendType="none"
+        tooltipType="none"
+        isAnimationActive={false}
+      />
+    ] : []),
+    <Line
+      key={fit.key}
+      data={fit.points}
+      dataKey={fit.key}
+      name={fit.label}
+      stroke={colorAt(fit.series)}
+      strokeWidth={2}
+      strokeDasharray="6 3"
+      dot={false}
+      activeDot={false}
+      legendType="plainline"
+      tooltipType="none"
+      isAnimationActive={false}
+    />
+  ]);
+  const referenceLines = (yAxisId?: string) => (processed.references ?? []).map((ref, i) => (
+    <ReferenceLine
+      key={`reference-${i}`}
+      {...(ref.axis === 'x' ? { x: ref.value } : { y: ref.value })}
+      yAxisId={yAxisId}
+      stroke={REFERENCE_COLOR}
+      strokeDasharray="4 4"
+      ifOverflow="extendDomain"
+      label={{ value: ref.label, position: ref.axis === 'x' ? 'insideTopLeft' : 'insideTopRight', fill: REFERENCE_COLOR, fontSize: 11 }}
+    />
+  ));
+
+  // Highlighted categories keep full color and the rest fade back
+  const annotations = processed.annotations ?? [];
+  const highlighted = new Set(annotations.filter(a => a.type === 'highlight').map(a => String(a.x)));
+  const emphasis = (row: any) => (highlighted.size === 0 || highlighted.has(String(row[config.xAxisKey])) ? 1 : 0.35);
+  const annotationLayers = (yAxisId?: string) => annotations.map(a => {
+    const key = `annotation-${a.index}`;
+    const label = a.label ? { value: a.label, position: 'insideTop' as const, fill: a.color, fontSize: 11 } : undefined;
+    switch (a.type) {
+      case 'range':
+        return (
+          <ReferenceArea
+            key={key}
+            {...(a.axis === 'y' ? { y1: a.from, y2: a.to } : { x1: a.from, x2: a.to })}
+            yAxisId={yAxisId}
+            fill={a.color}
+            fillOpacity={0.12}
+            stroke="none"
+            ifOverflow="extendDomain"
+            label={label}
+          />
+        );
+      case 'highlight':
+        return <ReferenceArea key={key} x1={a.x} x2={a.x} yAxisId={yAxisId} fill={a.color} fillOpacity={0.15} stroke="none" label={label} />;
+      case 'arrow':
+        return (
+          <ReferenceDot
+            key={key}
+            x={a.x}
+            y={a.y}
+            yAxisId={yAxisId}
+            r={3}
+            ifOverflow="extendDomain"
+            shape={(props: any) => <ArrowShape cx={props.cx} cy={props.cy} annotation={a} />}
+          />
+        );
+      default:
+        return (
+          <ReferenceDot
+            key={key}
+            x={a.x}
+            y={a.y}
+            yAxisId={yAxisId}
+            r={3}
+            fill={a.color}
+            stroke="none"
+            ifOverflow="extendDomain"
+            label={{ value: a.label, position: 'top', fill: a.color, fontSize: 12, fontWeight: 600 }}
+          />
+        );
+    }
+  });
+
+  switch (config.chartType) {
+    case ChartType.BAR:
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart {...commonProps} {...placeActive}>
+            {Grid} {X} {Y} {Tool} {Leg}
+            {series.map((s, i) => (
+              <Bar key={s.key} dataKey={s.key} name={s.label} stackId={stackId} fill={colorAt(i)} radius={barRadius(i)} {...selectX}>
+                {highlighted.size > 0 && processed.data.map((row, j) => <Cell key={j} fill={colorAt(i)} fillOpacity={emphasis(row)} />)}
+              </Bar>
+            ))}
+            {referenceLines()} {annotationLayers()}
+          </BarChart>
+        </ResponsiveContainer>
+      );
+    case ChartType.LINE: {
+      const LineFrame = trends.length > 0 ? ComposedChart : LineChart;
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <LineFrame {...commonProps} {...selectActiveX}>
+            {Grid} {TimeX || X} {Y} {Tool} {Leg}
+            {series.map((s, i) => (
+              <Line key={s.key} type="monotone" dataKey={s.key} name={s.label} stroke={colorAt(i)} {...lineStyle} dot={dot} connectNulls />
+            ))}
+            {Trends} {referenceLines()} {annotationLayers()}
+          </LineFrame>
+        </ResponsiveContainer>
+      );
+    }
+    case ChartType.SCATTER: {
+      // Raw rows split into one Scatter per groupBy category
+      const groups = hasGroupSplit(config)
+        ? splitByGroup(chartData, config.groupBy!)
+        : [{ name: config.title, rows: chartData }];
+      const ScatterFrame = trends.length > 0 ? ComposedChart : ScatterChart;
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterFrame {...commonProps}>
+             {Grid} 
+             {TimeX || <XAxis type="number" dataKey={config.xAxisKey} name={config.xLabel} {...axis} />}
+             <YAxis type="number" dataKey={config.yAxisKey} name={config.yLabel} {...axis} />
+             {Tool} {Leg}
+             {groups.map((g, i) => (
+               <Scatter
+                 key={g.name}
+                 name={g.name}
+                 data={g.rows}
+                 fill={colorAt(i)}
+                 shape={theme.marker === 'none' ? 'circle' : theme.marker}
+                 onClick={onPlace && ((point: any) => onPlace({ x: point?.payload?.[config.xAxisKey], y: Number(point?.payload?.[config.yAxisKey]) }))}
+               />
+             ))}
+             {Trends} {referenceLines()} {annotationLayers()}
+          </ScatterFrame>
+        </ResponsiveContainer>
+      );
+    }
+    case ChartType.PIE:
+       return (
+        <ResponsiveContainer width="100%" height="100%">
+          <PieChart style={frameStyle}>
+             <Pie
+              data={chartData}
+              dataKey={config.yAxisKey || 'count'}
+              nameKey={config.xAxisKey || 'name'}
+              cx="50%"
+              cy="50%"
+              outerRadius="75%"
+              fill="#8884d8"
+              label
+              {...selectX}
+              {...(onPlace && { onClick: (entry: any) => onPlace({ x: entry?.payload?.[config.xAxisKey] ?? entry?.name }) })}
+            >
+              {chartData.map((entry: any, index: number) => (
+                <Cell key={`cell-${index}`} fill={colorAt(index)} fillOpacity={emphasis(entry)} />
+              ))}
+            </Pie>
+            {Tool}
+            {theme.legendPosition !== 'none' && <Legend {...legendProps} onClick={onSelect ? (entry: any) => select(config.xAxisKey, entry.payload?.[config.xAxisKey] ?? entry.value) : undefined} />}
+          </PieChart>
+        </ResponsiveContainer>
+       );
+    case ChartType.AREA: {
+      const AreaFrame = trends.length > 0 ? ComposedChart : AreaChart;
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaFrame {...commonProps} {...selectActiveX}>
+            {Grid} {TimeX || X} {Y} {Tool} {Leg}
+            {series.map((s, i) => (
+              <Area key={s.key} type="monotone" dataKey={s.key} name={s.label} stackId="1" stroke={colorAt(i)} fill={colorAt(i)} />
+            ))}
+            {Trends} {referenceLines()} {annotationLayers()}
+          </AreaFrame>
+        </ResponsiveContainer>
+      );
+    }
+    case ChartType.RADAR:
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <RadarChart data={processed.data} outerRadius="75%" style={frameStyle}>
+            {theme.grid !== 'none' && <PolarGrid stroke={theme.gridColor} />}
+            <PolarAngleAxis dataKey={config.xAxisKey} stroke={theme.axisColor} tick={axis.tick} />
+            <PolarRadiusAxis stroke={theme.gridColor} tick={axis.tick} />
+            {Tool} {Leg}
+            {series.map((s, i) => (
+              <Radar key={s.key} dataKey={s.key} name={s.label} stroke={colorAt(i)} fill={colorAt(i)} fillOpacity={0.3} />
+            ))}
+          </RadarChart>
+        </ResponsiveContainer>
+      );
+    case ChartType.COMPOSED: {
+      // Each series picks its own mark and axis from seriesOptions, bars on the left by default
+      const optionsFor = (s: ChartSeries) => config.seriesOptions?.find(o => o.key === s.metric || o.key === s.label);
+      const hasRightAxis = series.some(s => optionsFor(s)?.axis === 'right');
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart {...commonProps} {...placeActive}>
+            {Grid} {X}
+            <YAxis yAxisId="left" {...axis} />
+            {hasRightAxis && <YAxis yAxisId="right" orientation="right" {...axis} />}
+            {Tool} {Leg}
+            {series.map((s, i) => {
+              const options = optionsFor(s);
+              const axisId = options?.axis === 'right' ? 'right' : 'left';
+              switch (options?.mark) {
+                case 'line':
+                  return <Line key={s.key} yAxisId={axisId} type="monotone" dataKey={s.key} name={s.label} stroke={colorAt(i)} {...lineStyle} dot={dot} connectNulls />;
+                case 'area':
+                  return <Area key={s.key} yAxisId={axisId} type="monotone" dataKey={s.key} name={s.label} stroke={colorAt(i)} fill={colorAt(i)} fillOpacity={0.3} />;
+                default:
+                  return <Bar key={s.key} yAxisId={axisId} dataKey={s.key} name={s.label} stackId={stackId} fill={colorAt(i)} radius={barRadius(i)} {...selectX} />;
+              }
+            })}
+            {referenceLines('left')} {annotationLayers('left')}
+          </ComposedChart>
+        </ResponsiveContainer>
+      );
+    }
+    case ChartType.HISTOGRAM: {
+      // The last bin also holds its upper edge, so its range is open-ended
+      const last = processed.data[processed.data.length - 1];
+      const selectBin = clickable((item: any) => item?.payload && onSelect!({
+        column: config.xAxisKey,
+        range: [item.payload.x0, item.payload === last ? Infinity : item.payload.x1]
+      }));
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart {...commonProps} barCategoryGap={1}>
+            {Grid}
+            <XAxis dataKey="bin" {...axis} angle={-45} textAnchor="end" height={60} />
+            {Y} {Tool} {Leg}
+            {series.map((s, i) => (
+              <Bar key={s.key} dataKey={s.key} name={s.label} stackId={stackId} fill={colorAt(i)} radius={barRadius(i)} {...selectBin} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      );
+    }
+    case ChartType.BOX:
+    case ChartType.VIOLIN: {
+      // Range bars span each category's min..max; the shape draws the box or violin inside
+      const categoryKey = config.xAxisKey && config.xAxisKey !== config.yAxisKey ? config.xAxisKey : 'group';
+      const maxDensity = Math.max(0, ...chartData.flatMap((row: any) => (row.density || []).map((p: any) => p.density)));
+      const shape = config.chartType === ChartType.BOX ? BoxShape : makeViolinShape(maxDensity);
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart {...commonProps}>
+            {Grid}
+            <XAxis dataKey={categoryKey} {...axis} angle={-45} textAnchor="end" height={60} />
+            {Y}
+            <Tooltip
+              contentStyle={tooltipStyle}
+              formatter={(_: any, __: any, item: any) => {
+                const p = item.payload;
+                return [`median ${p.median.toFixed(2)}, IQR ${p.q1.toFixed(2)}–${p.q3.toFixed(2)}, n=${p.count}`, config.yAxisKey];
+              }}
+            />
+            <Bar
+              dataKey="range"
+              name={config.yAxisKey}
+              fill={colorAt(0)}
+              shape={shape}
+              isAnimationActive={false}
+              {...(categoryKey === config.xAxisKey ? selectX : {})}
+            />
+          </BarChart>
+        </ResponsiveContainer>
+      );
+    }
+    case ChartType.HEATMAP:
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <HeatmapChart
+            rows={chartData}
+            xKey={config.xAxisKey}
+            yKey={config.yAxisKey}
+            valueLabel={series[0]?.label || 'value'}
+            lowColor={heatmapColors(config).low}
+            highColor={heatmapColors(config).high}
+            textColor={theme.textColor}
+            fontSize={theme.fontSize}
+            background={theme.background}
+          />
+        </ResponsiveContainer>
+      );
+    default:
+      // Fallback to Bar
+      return (
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart {...commonProps} {...placeActive}>
+            {Grid} {X} {Y} {Tool} {Leg}
+             {series.map((s, i) => (
+              <Bar key={s.key} dataKey={s.key} name={s.label} stackId={stackId} fill={colorAt(i)} radius={barRadius(i)} {...selectX} />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      );
+  }
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { GitBranch, MessageSquare, Redo2, Send, Undo2 } from 'lucide-react';
+import { RevisionState } from '../types';
+import {
+  canRedo, canUndo, describeChange, diffConfigs, findRevision, getDepth, getLineage, toConversation
+} from '../utils/revisions';
+
+interface ChatPanelProps {
+  state: RevisionState;
+  loading: boolean;
+  onSend: (text: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onCheckout: (id: string) => void;
+}
+
+export const ChatPanel = ({ state, loading, onSend, onUndo, onRedo, onCheckout }: ChatPanelProps) => {
+  const [draft, setDraft] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [showTree, setShowTree] = useState(false);
+
+  const lineage = getLineage(state);
+  const messages = toConversation(lineage);
+  const iconButton = 'p-1.5 rounded-lg text-slate-400 hover:text-slate-100 hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text || loading) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  const changesFor = (id: string) => {
+    const revision = findRevision(state, id);
+    if (!revision) return [];
+    return diffConfigs(findRevision(state, revision.parentId)?.config ?? null, revision.config);
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0 bg-slate-950/60 rounded-2xl border border-slate-700/50">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+        <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <MessageSquare className="w-4 h-4" /> Refine
+        </h2>
+        <div className="flex items-center gap-1">
+          <button onClick={onUndo} disabled={!canUndo(state)} title="Undo" className={iconButton}><Undo2 className="w-4 h-4" /></button>
+          <button onClick={onRedo} disabled={!canRedo(state)} title="Redo" className={iconButton}><Redo2 className="w-4 h-4" /></button>
+          <button onClick={() => setShowTree(!showTree)} title="All revisions" className={iconButton}><GitBranch className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      {showTree && (
+        <ul className="max-h-40 overflow-y-auto border-b border-slate-800 py-1 text-xs">
+          {state.revisions.map(revision => (
+            <li key={revision.id}>
+              <button
+                onClick={() => onCheckout(revision.id)}
+                style={{ paddingLeft: 12 + getDepth(state, revision.id) * 12 }}
+                className={`w-full text-left pr-3 py-1 truncate ${revision.id === state.currentId ? 'text-indigo-300 bg-indigo-500/10' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                {revision.prompt || revision.config.title}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex-grow min-h-0 overflow-y-auto p-3 space-y-2">
+        {messages.length === 0 && (
+          <p className="text-xs text-slate-500 text-center mt-4">Generate a chart, then refine it here. Every answer is kept as a revision.</p>
+        )}
+        {messages.map((message, i) => message.role === 'user' ? (
+          <div key={i} className="ml-6 px-3 py-2 rounded-xl bg-indigo-600/20 text-sm text-slate-200">{message.text}</div>
+        ) : (
+          <div key={i} className="mr-6 px-3 py-2 rounded-xl bg-slate-800/70 text-sm text-slate-300">
+            <button onClick={() => setExpanded(expanded === message.revisionId ? null : message.revisionId!)} className="text-left w-full">
+              {message.text}
+            </button>
+            {expanded === message.revisionId && (
+              <div className="mt-2 space-y-1">
+                <ul className="text-xs font-mono text-slate-400 space-y-0.5">
+                  {changesFor(message.revisionId!).map(change => (
+                    <li key={change.field} className="break-all">{describeChange(change)}</li>
+                  ))}
+                </ul>
+                {message.revisionId !== state.currentId && (
+                  <button onClick={() => onCheckout(message.revisionId!)} className="text-xs text-indigo-300 hover:text-indigo-200 flex items-center gap-1">
+                    <GitBranch className="w-3 h-3" /> Branch from here
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 border-t border-slate-800 flex gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          disabled={lineage.length === 0}
+          placeholder={lineage.length === 0 ? 'No chart yet' : 'e.g. Make it a stacked bar by Sex'}
+          className="flex-grow bg-slate-900 border border-slate-700 rounded-xl p-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500 resize-none h-16"
+        />
+        <button onClick={send} disabled={loading || !draft.trim()} className="px-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 text-white">
+          <Send className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Check, Copy, Sparkles } from 'lucide-react';
+
+interface CodeViewProps {
+  generated: string; // Deterministic script built from the config
+  enhanced?: string; // Optional model-written variant
+  placeholder: string;
+  textClass: string;
+  toolbar?: React.ReactNode; // Replaces the generated/AI-enhanced switch for formats the AI does not write
+}
+
+export const CodeView = ({ generated, enhanced, placeholder, textClass, toolbar }: CodeViewProps) => {
+  const [showEnhanced, setShowEnhanced] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const code = showEnhanced && enhanced ? enhanced : generated;
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  if (!generated) {
+    return <pre className={`text-xs sm:text-sm font-mono p-4 ${textClass}`}><code>{placeholder}</code></pre>;
+  }
+
+  const toggle = (active: boolean) =>
+    `px-2.5 py-1 rounded-md transition-colors ${active ? 'bg-slate-700 text-slate-100' : 'text-slate-400 hover:text-slate-200'}`;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        {toolbar ?? (
+          <div className="flex items-center gap-1 p-0.5 rounded-lg bg-slate-800/70">
+            <button onClick={() => setShowEnhanced(false)} className={toggle(!showEnhanced || !enhanced)}>Generated</button>
+            <button
+              onClick={() => setShowEnhanced(true)}
+              disabled={!enhanced}
+              title={enhanced ? undefined : 'The AI did not return its own version of this script'}
+              className={`${toggle(showEnhanced && Boolean(enhanced))} flex items-center gap-1 disabled:opacity-40`}
+            >
+              <Sparkles className="w-3 h-3" /> AI-enhanced
+            </button>
+          </div>
+        )}
+        <button onClick={copy} className="flex items-center gap-1 text-slate-400 hover:text-slate-200">
+          {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />} {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className={`text-xs sm:text-sm font-mono p-4 ${textClass}`}>
+        <code>{code}</code>
+      </pre>
+    </div>
+  );
+};
@@ -0,0 +1,365 @@
+import React, { useEffect, useState } from 'react';
+import { MousePointerClick, Plus, RotateCcw, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { AggregateFunction, AnnotationType, ChartAnnotation, ChartType, Dataset, VisualizationConfig } from '../types';
+import { hasGroupSplit, splitByGroup } from '../utils/aggregation';
+import { chartBackground } from '../utils/accessibility';
+import { ANNOTATION_CHART_TYPES, ANNOTATION_COLOR, ANNOTATION_TYPE_LABELS } from '../utils/annotations';
+import {
+  COLORBLIND_PALETTES, MIN_GRAPHIC_CONTRAST, contrastRatio, heatmapColors, parseColor, parseHexColor, seriesColor, toHexColor
+} from '../utils/colors';
+import { ProcessedData } from '../utils/processing';
+
+interface ConfigInspectorProps {
+  config: VisualizationConfig | null;
+  dataset: Dataset | null; // Columns as charted, after transform steps
+  processed: ProcessedData;
+  onChange: (config: VisualizationConfig, field: string) => void; // field names the edit in the history
+  onCreate: () => void;
+  placing: AnnotationType | null; // Annotation type waiting for a click on the preview
+  onPlace: (type: AnnotationType | null) => void;
+}
+
+const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  [ChartType.BAR]: 'Bar',
+  [ChartType.LINE]: 'Line',
+  [ChartType.AREA]: 'Area',
+  [ChartType.SCATTER]: 'Scatter',
+  [ChartType.PIE]: 'Pie',
+  [ChartType.RADAR]: 'Radar',
+  [ChartType.COMPOSED]: 'Combined bar and line',
+  [ChartType.HISTOGRAM]: 'Histogram',
+  [ChartType.BOX]: 'Box plot',
+  [ChartType.VIOLIN]: 'Violin plot',
+  [ChartType.HEATMAP]: 'Heatmap'
+};
+
+const AGGREGATE_LABELS: Record<AggregateFunction, string> = {
+  sum: 'Sum',
+  mean: 'Mean',
+  median: 'Median',
+  min: 'Minimum',
+  max: 'Maximum',
+  count: 'Count rows',
+  countDistinct: 'Count distinct'
+};
+
+// Beyond this many slices or groups the colors just cycle
+const MAX_COLOR_SLOTS = 12;
+
+// What each color in config.colors paints, in the order the renderer uses them
+const colorSlots = (config: VisualizationConfig, processed: ProcessedData): string[] => {
+  if (config.chartType === ChartType.HEATMAP) return ['Low', 'High'];
+  if (config.chartType === ChartType.PIE) return processed.data.map(row => String(row[config.xAxisKey])).slice(0, MAX_COLOR_SLOTS);
+  if (config.chartType === ChartType.SCATTER) {
+    return hasGroupSplit(config) ? splitByGroup(processed.data, config.groupBy!).map(g => g.name).slice(0, MAX_COLOR_SLOTS) : ['Points'];
+  }
+  const labels = processed.series.map(s => s.label).slice(0, MAX_COLOR_SLOTS);
+  return labels.length > 0 ? labels : ['Series'];
+};
+
+// <input type="color"> only takes #rrggbb, so named and rgb() colors show as black until edited
+const toPickerValue = (color: string) => {
+  const rgb = parseHexColor(color);
+  return rgb ? toHexColor(rgb) : '#000000';
+};
+
+// Commits on blur or Enter, so typing a title is one edit rather than one per key
+const TextField = ({ label, value, onCommit }: { label: string; value: string; onCommit: (value: string) => void }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const commit = () => draft !== value && onCommit(draft);
+
+  return (
+    <label className="block space-y-1">
+      <span className="text-[11px] text-slate-500">{label}</span>
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+    </label>
+  );
+};
+
+// Typed numbers stay numbers, so a Y of "42" is a position rather than a category named "42"
+const toFieldValue = (value: string): number | string | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  return isNaN(Number(trimmed)) ? trimmed : Number(trimmed);
+};
+
+interface AnnotationEditorProps {
+  key?: number;
+  annotation: ChartAnnotation;
+  onChange: (annotation: ChartAnnotation) => void;
+  onRemove: () => void;
+}
+
+const AnnotationEditor = ({ annotation, onChange, onRemove }: AnnotationEditorProps) => {
+  const field = (key: 'x' | 'y' | 'from' | 'to', label: string) => (
+    <TextField
+      label={label}
+      value={annotation[key] === undefined ? '' : String(annotation[key])}
+      onCommit={value => onChange({ ...annotation, [key]: toFieldValue(value) })}
+    />
+  );
+
+  return (
+    <li className="space-y-2 p-2 rounded-lg bg-slate-900/60 border border-slate-800">
+      <div className="flex items-center gap-2 text-xs text-slate-300">
+        <input
+          type="color"
+          value={toPickerValue(annotation.color ?? ANNOTATION_COLOR)}
+          onChange={(e) => onChange({ ...annotation, color: e.target.value })}
+          className="w-5 h-5 shrink-0 bg-transparent border-0 p-0 cursor-pointer"
+          aria-label="Annotation color"
+        />
+        <span className="flex-grow">{ANNOTATION_TYPE_LABELS[annotation.type] ?? annotation.type}</span>
+        <button onClick={onRemove} title="Remove annotation" className="text-slate-500 hover:text-red-400">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <TextField label="Text" value={annotation.text ?? ''} onCommit={value => onChange({ ...annotation, text: value || undefined })} />
+      {annotation.type === 'range' ? (
+        <>
+          <select
+            value={annotation.axis ?? 'x'}
+            onChange={(e) => onChange({ ...annotation, axis: e.target.value as 'x' | 'y' })}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Range axis"
+          >
+            <option value="x">Along X</option>
+            <option value="y">Along Y</option>
+          </select>
+          <div className="grid grid-cols-2 gap-2">{field('from', 'From')}{field('to', 'To')}</div>
+        </>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          {field('x', 'X')}
+          {annotation.type !== 'highlight' && field('y', 'Y (or max/min)')}
+        </div>
+      )}
+    </li>
+  );
+};
+
+// Edits apply to the same revision history as AI refinements, so either can pick up where the other left off
+export const ConfigInspector = ({ config, dataset, processed, onChange, onCreate, placing, onPlace }: ConfigInspectorProps) => {
+  const select = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-indigo-500';
+
+  if (!config || !dataset) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-3 h-full p-6 text-center text-xs text-slate-500">
+        <p>{dataset ? 'Start from a suggested chart and adjust it here, no API key needed.' : 'Load a dataset to build a chart by hand.'}</p>
+        <button
+          onClick={onCreate}
+          disabled={!dataset}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white text-xs"
+        >
+          <Plus className="w-3.5 h-3.5" /> New chart
+        </button>
+      </div>
+    );
+  }
+
+  const set = (patch: Partial<VisualizationConfig>, field: string) => onChange({ ...config, ...patch }, field);
+  const numeric = dataset.profile.filter(c => c.type === 'number').map(c => c.name);
+  const seriesChoices = [...numeric, ...(config.seriesKeys ?? []).filter(key => !numeric.includes(key))];
+  const slots = colorSlots(config, processed);
+  const heat = heatmapColors(config);
+  const slotColor = (i: number) => (config.chartType === ChartType.HEATMAP ? [heat.low, heat.high][i] : seriesColor(config, i));
+
+  const columnSelect = (value: string | undefined, field: string, onPick: (value: string) => void, extra: string[] = []) => (
+    <select value={value ?? ''} onChange={(e) => onPick(e.target.value)} className={select} aria-label={field}>
+      {extra.map(option => <option key={option} value={option}>{option || 'None'}</option>)}
+      {dataset.columns.map(column => <option key={column} value={column}>{column}</option>)}
+      {value && !extra.includes(value) && !dataset.columns.includes(value) && <option value={value}>{value} (missing)</option>}
+    </select>
+  );
+
+  const toggleSeries = (key: string) => {
+    const current = config.seriesKeys ?? [];
+    const next = current.includes(key) ? current.filter(k => k !== key) : [...current, key];
+    set({ seriesKeys: next.length > 0 ? next : undefined }, 'series');
+  };
+
+  const setColor = (i: number, color: string) => set({ colors: slots.map((_, j) => (j === i ? color : slotColor(j))) }, 'colors');
+
+  // Contrast of each series color against what it is drawn on; heatmap ends are a scale, not marks
+  const background = parseColor(chartBackground(config));
+  const contrast = (color: string) => {
+    const rgb = parseColor(color);
+    return rgb && background && config.chartType !== ChartType.HEATMAP ? contrastRatio(rgb, background) : null;
+  };
+
+  // Counting rows needs an aggregation, so picking "count" for Y adds one
+  const annotations = config.annotations ?? [];
+  const setAnnotations = (next: ChartAnnotation[]) => set({ annotations: next.length > 0 ? next : undefined }, 'annotations');
+  const placeable = (Object.keys(ANNOTATION_TYPE_LABELS) as AnnotationType[])
+    .filter(type => config.chartType !== ChartType.PIE || type === 'highlight');
+
+  const setY = (value: string) => set({
+    yAxisKey: value,
+    aggregation: value === 'count' && !config.aggregation ? { func: 'count' } : config.aggregation
+  }, 'Y axis');
+
+  return (
+    <div className="space-y-4 p-4 overflow-y-auto h-full">
+      <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <SlidersHorizontal className="w-3.5 h-3.5" /> Chart settings
+      </h3>
+
+      <label className="block space-y-1">
+        <span className="text-[11px] text-slate-500">Chart type</span>
+        <select value={config.chartType} onChange={(e) => set({ chartType: e.target.value as ChartType }, 'chart type')} className={select}>
+          {Object.values(ChartType).map(type => <option key={type} value={type}>{CHART_TYPE_LABELS[type]}</option>)}
+        </select>
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block space-y-1">
+          <span className="text-[11px] text-slate-500">X axis</span>
+          {columnSelect(config.xAxisKey, 'X axis', value => set({ xAxisKey: value }, 'X axis'))}
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[11px] text-slate-500">Y axis</span>
+          {columnSelect(config.yAxisKey, 'Y axis', setY, dataset.columns.includes('count') ? [] : ['count'])}
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[11px] text-slate-500">Group by</span>
+          {columnSelect(config.groupBy, 'Group by', value => set({ groupBy: value || undefined }, 'grouping'), [''])}
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[11px] text-slate-500">Aggregate</span>
+          <select
+            value={config.aggregation?.func ?? ''}
+            onChange={(e) => set({
+              aggregation: e.target.value ? { ...config.aggregation, func: e.target.value as AggregateFunction } : undefined
+            }, 'aggregation')}
+            className={select}
+          >
+            <option value="">None</option>
+            {Object.entries(AGGREGATE_LABELS).map(([func, label]) => <option key={func} value={func}>{label}</option>)}
+          </select>
+        </label>
+        {config.chartType === ChartType.HEATMAP && (
+          <label className="block space-y-1 col-span-2">
+            <span className="text-[11px] text-slate-500">Cell value</span>
+            {columnSelect(config.colorKey, 'Cell value', value => set({ colorKey: value || undefined }, 'cell value'), [''])}
+          </label>
+        )}
+      </div>
+
+      {seriesChoices.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-[11px] text-slate-500">Series (instead of a single Y column)</span>
+          <ul className="max-h-32 overflow-y-auto bg-slate-900 rounded-lg border border-slate-800 p-1">
+            {seriesChoices.map(key => (
+              <li key={key}>
+                <label className="flex items-center gap-2 px-2 py-1 text-xs text-slate-300">
+                  <input type="checkbox" checked={config.seriesKeys?.includes(key) ?? false} onChange={() => toggleSeries(key)} className="accent-indigo-500" />
+                  <span className="truncate" title={key}>{key}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-[11px] text-slate-500">Colors</span>
+          {config.colors && (
+            <button onClick={() => set({ colors: undefined }, 'colors')} title="Back to the theme colors" className="text-slate-500 hover:text-slate-200">
+              <RotateCcw className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+        {config.chartType !== ChartType.HEATMAP && (
+          <select
+            value=""
+            onChange={(e) => {
+              const preset = COLORBLIND_PALETTES.find(p => p.name === e.target.value);
+              if (preset) set({ colors: preset.colors }, 'colors');
+            }}
+            className={select}
+            aria-label="Colorblind-safe palette"
+          >
+            <option value="">Colorblind-safe palette...</option>
+            {COLORBLIND_PALETTES.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          </select>
+        )}
+        <ul className="space-y-1">
+          {slots.map((label, i) => {
+            const ratio = contrast(slotColor(i));
+            return (
+              <li key={`${i}-${label}`} className="flex items-center gap-2 text-xs text-slate-300">
+                <input
+                  type="color"
+                  value={toPickerValue(slotColor(i))}
+                  onChange={(e) => setColor(i, e.target.value)}
+                  className="w-6 h-6 shrink-0 bg-transparent border-0 p-0 cursor-pointer"
+                  aria-label={`Color for ${label}`}
+                />
+                <span className="truncate flex-grow" title={label}>{label}</span>
+                {ratio !== null && (
+                  <span
+                    title={`Contrast against the chart background; WCAG asks for at least ${MIN_GRAPHIC_CONTRAST}:1`}
+                    className={`shrink-0 text-[10px] ${ratio < MIN_GRAPHIC_CONTRAST ? 'text-red-400' : 'text-slate-500'}`}
+                  >
+                    {ratio.toFixed(1)}:1
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="space-y-2">
+        <TextField label="Title" value={config.title} onCommit={value => set({ title: value }, 'title')} />
+        <TextField label="Description" value={config.description} onCommit={value => set({ description: value }, 'description')} />
+        <div className="grid grid-cols-2 gap-2">
+          <TextField label="X label" value={config.xLabel ?? ''} onCommit={value => set({ xLabel: value || undefined }, 'X label')} />
+          <TextField label="Y label" value={config.yLabel ?? ''} onCommit={value => set({ yLabel: value || undefined }, 'Y label')} />
+        </div>
+      </div>
+
+      {(ANNOTATION_CHART_TYPES.includes(config.chartType) || annotations.length > 0) && (
+        <div className="space-y-2">
+          <span className="text-[11px] text-slate-500">Annotations</span>
+          {ANNOTATION_CHART_TYPES.includes(config.chartType) && (
+            <div className="flex flex-wrap gap-1">
+              {placeable.map(type => (
+                <button
+                  key={type}
+                  onClick={() => onPlace(placing === type ? null : type)}
+                  title={`Click the chart to place a ${ANNOTATION_TYPE_LABELS[type].toLowerCase()}`}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-lg border text-[11px] ${
+                    placing === type ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-300 hover:border-indigo-500'
+                  }`}
+                >
+                  <MousePointerClick className="w-3 h-3" /> {ANNOTATION_TYPE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          )}
+          {annotations.length > 0 && (
+            <ul className="space-y-2">
+              {annotations.map((annotation, i) => (
+                <AnnotationEditor
+                  key={i}
+                  annotation={annotation}
+                  onChange={next => setAnnotations(annotations.map((a, j) => (j === i ? next : a)))}
+                  onRemove={() => setAnnotations(annotations.filter((_, j) => j !== i))}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { AlertTriangle, Wrench, X } from 'lucide-react';
+import { ConfigIssue } from '../types';
+
+interface ConfigIssuesProps {
+  issues: ConfigIssue[];
+  fixes: string[];
+  onDismissFixes: () => void;
+}
+
+// Problems with the model's config, plus the automatic repairs that were applied to it
+export const ConfigIssues = ({ issues, fixes, onDismissFixes }: ConfigIssuesProps) => {
+  if (issues.length === 0 && fixes.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-2 text-xs">
+      {issues.length > 0 && (
+        <ul className="p-3 rounded-xl bg-red-500/5 border border-red-500/20 space-y-1">
+          {issues.map((issue, i) => (
+            <li key={i} className={`flex items-start gap-2 ${issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'}`}>
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              <span><span className="font-mono">{issue.field}</span>: {issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {fixes.length > 0 && (
+        <div className="p-3 rounded-xl bg-indigo-500/5 border border-indigo-500/20 text-indigo-200 flex items-start gap-2">
+          <Wrench className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          <div className="flex-grow">
+            <div className="font-medium mb-0.5">Adjusted the AI's config to fit the dataset:</div>
+            <ul className="list-disc list-inside text-indigo-300/80">
+              {fixes.map((fix, i) => <li key={i}>{fix}</li>)}
+            </ul>
+          </div>
+          <button onClick={onDismissFixes} className="text-indigo-300/60 hover:text-indigo-200"><X className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Filter, GripVertical, MoveDiagonal2, RefreshCw, Send, Trash2, X as XIcon } from 'lucide-react';
+import { ChartSelection, CrossFilter, DashboardPanel, Dataset } from '../types';
+import {
+  DASHBOARD_COLUMNS, clampHeight, clampSpan, describeSelection, movePanel, toggleSelection
+} from '../utils/dashboard';
+import { useChartData } from '../utils/useChartData';
+import { hasErrors, validateConfig } from '../utils/validation';
+import { ChartRenderer } from './ChartRenderer';
+
+interface DashboardProps {
+  dataset: Dataset; // After transforms, shared by every panel
+  panels: DashboardPanel[];
+  refiningId: string | null;
+  onChange: (panels: DashboardPanel[]) => void;
+  onRefine: (id: string, prompt: string) => void;
+}
+
+interface PanelViewProps {
+  key?: string;
+  panel: DashboardPanel;
+  dataset: Dataset;
+  filter: ChartSelection | null; // Set when another panel has a selection
+  selection: ChartSelection | null; // This panel's own selection
+  refining: boolean;
+  onSelect: (selection: ChartSelection) => void;
+  onResize: (span: number, height: number) => void;
+  onRemove: () => void;
+  onRefine: (prompt: string) => void;
+  onDragStart: () => void;
+  onDrop: () => void;
+}
+
+const PanelView = ({
+  panel, dataset, filter, selection, refining, onSelect, onResize, onRemove, onRefine, onDragStart, onDrop
+}: PanelViewProps) => {
+  const [draft, setDraft] = useState('');
+  // Live size while the corner handle is dragged, committed on release
+  const [resizing, setResizing] = useState<{ span: number; height: number } | null>(null);
+  const issues = validateConfig(panel.config, dataset);
+  const { processed, processing } = useChartData(hasErrors(issues) ? null : dataset, panel.config, filter);
+  const span = resizing?.span ?? panel.span;
+  const height = resizing?.height ?? panel.height;
+
+  const startResize = (e: React.PointerEvent) => {
+    e.preventDefault();
+    const cell = (e.currentTarget as HTMLElement).closest('[data-panel]') as HTMLElement;
+    const columnWidth = cell.parentElement!.clientWidth / DASHBOARD_COLUMNS;
+    const start = { x: e.clientX, y: e.clientY, width: cell.offsetWidth, height: panel.height };
+    const sizeAt = (ev: PointerEvent) => ({
+      span: clampSpan((start.width + ev.clientX - start.x) / columnWidth),
+      height: clampHeight(start.height + ev.clientY - start.y)
+    });
+    const move = (ev: PointerEvent) => setResizing(sizeAt(ev));
+    const up = (ev: PointerEvent) => {
+      window.removeEventListener('pointermove', move);
+      const size = sizeAt(ev);
+      setResizing(null);
+      onResize(size.span, size.height);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up, { once: true });
+  };
+
+  const send = () => {
+    if (!draft.trim() || refining) return;
+    onRefine(draft.trim());
+    setDraft('');
+  };
+
+  const renderBody = () => {
+    if (hasErrors(issues)) {
+      return <div className="text-xs text-red-300 p-3">{issues.filter(i => i.severity === 'error').map(i => i.message).join('. ')}</div>;
+    }
+    if (processing) {
+      return <div className="text-gray-500 flex items-center justify-center gap-2 h-full text-xs"><RefreshCw className="w-4 h-4 animate-spin" /> Aggregating...</div>;
+    }
+    if (processed.rows.length === 0) {
+      return <div className="text-gray-500 flex items-center justify-center h-full text-xs">No rows match the current filter</div>;
+    }
+    return <ChartRenderer config={panel.config} processed={processed} onSelect={onSelect} />;
+  };
+
+  return (
+    <div
+      data-panel
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => { e.preventDefault(); onDrop(); }}
+      style={{ gridColumn: `span ${span} / span ${span}`, height }}
+      className={`relative flex flex-col bg-slate-900/50 rounded-xl border ${selection ? 'border-indigo-500/60' : 'border-slate-800'}`}
+    >
+      <div
+        draggable
+        onDragStart={(e) => { e.dataTransfer.setData('text/plain', panel.id); onDragStart(); }}
+        className="flex items-center gap-2 px-3 py-2 border-b border-slate-800 cursor-move"
+      >
+        <GripVertical className="w-3.5 h-3.5 text-slate-600 shrink-0" />
+        <h3 className="flex-grow min-w-0 truncate text-sm font-medium text-slate-200" title={panel.config.description}>{panel.config.title}</h3>
+        {selection && (
+          <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-indigo-500/10 text-indigo-300 text-[10px]">
+            <Filter className="w-3 h-3" /> {describeSelection(selection)}
+          </span>
+        )}
+        <button onClick={onRemove} title="Remove panel" className="text-slate-500 hover:text-slate-200"><Trash2 className="w-3.5 h-3.5" /></button>
+      </div>
+
+      <div className="flex-grow min-h-0 p-2">{renderBody()}</div>
+
+      <div className="flex gap-2 px-3 pb-3">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') send(); }}
+          placeholder={panel.prompt || 'Refine this panel...'}
+          className="flex-grow min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button onClick={send} disabled={refining || !draft.trim()} className="px-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 text-white">
+          {refining ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+        </button>
+      </div>
+
+      <div
+        onPointerDown={startResize}
+        title="Drag to resize"
+        className="absolute bottom-0.5 right-0.5 p-0.5 text-slate-600 hover:text-slate-300 cursor-nwse-resize touch-none"
+      >
+        <MoveDiagonal2 className="w-3 h-3" />
+      </div>
+    </div>
+  );
+};
+
+// Grid of charts over one dataset; a click in one panel filters the rows of all the others
+export const Dashboard = ({ dataset, panels, refiningId, onChange, onRefine }: DashboardProps) => {
+  const [crossFilter, setCrossFilter] = useState<CrossFilter | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  // Drop the selection once its panel is removed
+  const active = crossFilter && panels.some(p => p.id === crossFilter.panelId) ? crossFilter : null;
+
+  const update = (id: string, fields: Partial<DashboardPanel>) =>
+    onChange(panels.map(p => (p.id === id ? { ...p, ...fields } : p)));
+
+  if (panels.length === 0) {
+    return (
+      <div className="text-gray-500 flex flex-col items-center justify-center gap-1 h-64 text-sm">
+        <span>No panels yet.</span>
+        <span className="text-xs">Generate a chart, then use "Add to dashboard" to collect related views here.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {active && (
+        <div className="flex items-center gap-2 text-xs text-indigo-200">
+          <Filter className="w-3.5 h-3.5" /> Cross-filter: {describeSelection(active)}
+          <button onClick={() => setCrossFilter(null)} title="Clear filter" className="text-indigo-300/60 hover:text-indigo-200"><XIcon className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${DASHBOARD_COLUMNS}, minmax(0, 1fr))` }}>
+        {panels.map(panel => (
+          <PanelView
+            key={panel.id}
+            panel={panel}
+            dataset={dataset}
+            filter={active && active.panelId !== panel.id ? active : null}
+            selection={active?.panelId === panel.id ? active : null}
+            refining={refiningId === panel.id}
+            onSelect={(selection) => setCrossFilter(current => toggleSelection(current, { ...selection, panelId: panel.id }))}
+            onResize={(span, height) => update(panel.id, { span, height })}
+            onRemove={() => onChange(panels.filter(p => p.id !== panel.id))}
+            onRefine={(prompt) => onRefine(panel.id, prompt)}
+            onDragStart={() => setDragId(panel.id)}
+            onDrop={() => {
+              if (dragId) onChange(movePanel(panels, dragId, panel.id));
+              setDragId(null);
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
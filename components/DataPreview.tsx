@@ -0,0 +1,45 @@
+import React from 'react';
+import { Dataset } from '../types';
+import { isMissing } from '../utils/profiler';
+
+interface DataPreviewProps {
+  dataset: Dataset; // After transforms
+  sourceRows: number;
+}
+
+const PREVIEW_ROWS = 100;
+
+const formatCell = (value: any) => (value instanceof Date ? value.toISOString() : String(value));
+
+// First rows of the transformed data, so each step's effect can be checked before charting
+export const DataPreview = ({ dataset, sourceRows }: DataPreviewProps) => {
+  const rows = dataset.data.slice(0, PREVIEW_ROWS);
+  const steps = dataset.transforms?.length ?? 0;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-400">
+        Showing {rows.length.toLocaleString()} of {dataset.data.length.toLocaleString()} rows
+        {steps > 0 && <> after {steps} transform step{steps === 1 ? '' : 's'} ({sourceRows.toLocaleString()} rows before)</>}
+      </p>
+      <table className="w-full text-xs text-left border-collapse">
+        <thead className="sticky top-0 bg-slate-900">
+          <tr>
+            {dataset.columns.map(c => <th key={c} className="px-2 py-1.5 font-medium text-slate-300 border-b border-slate-700 whitespace-nowrap">{c}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={i} className="odd:bg-slate-800/30">
+              {dataset.columns.map(c => (
+                <td key={c} className="px-2 py-1 text-slate-400 whitespace-nowrap">
+                  {isMissing(row[c]) ? <span className="text-slate-600">–</span> : formatCell(row[c])}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
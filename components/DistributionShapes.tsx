@@ -0,0 +1,59 @@
+import React from 'react';
+import { DensityPoint } from '../utils/statistics';
+
+// Shapes for Recharts range bars whose dataKey spans [min, max] of each category.
+// The bar's pixel box is used as a linear scale to place quartiles, whiskers and density.
+
+interface RangeBarProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill: string;
+  payload: any;
+}
+
+const valueToPixel = ({ y, height, payload }: RangeBarProps) => (value: number) =>
+  payload.max === payload.min ? y + height / 2 : y + (height * (payload.max - value)) / (payload.max - payload.min);
+
+export const BoxShape = (props: RangeBarProps) => {
+  const { x, width, fill, payload } = props;
+  const py = valueToPixel(props);
+  const cx = x + width / 2;
+  const boxWidth = Math.max(width * 0.6, 4);
+  const left = cx - boxWidth / 2;
+
+  return (
+    <g>
+      <line x1={cx} x2={cx} y1={py(payload.whiskerHigh)} y2={py(payload.q3)} stroke={fill} />
+      <line x1={cx} x2={cx} y1={py(payload.q1)} y2={py(payload.whiskerLow)} stroke={fill} />
+      <line x1={cx - boxWidth / 4} x2={cx + boxWidth / 4} y1={py(payload.whiskerHigh)} y2={py(payload.whiskerHigh)} stroke={fill} />
+      <line x1={cx - boxWidth / 4} x2={cx + boxWidth / 4} y1={py(payload.whiskerLow)} y2={py(payload.whiskerLow)} stroke={fill} />
+      <rect x={left} y={py(payload.q3)} width={boxWidth} height={Math.max(py(payload.q1) - py(payload.q3), 1)} fill={fill} fillOpacity={0.35} stroke={fill} />
+      <line x1={left} x2={left + boxWidth} y1={py(payload.median)} y2={py(payload.median)} stroke="#f8fafc" strokeWidth={2} />
+      {payload.outliers.map((value: number, i: number) => (
+        <circle key={i} cx={cx} cy={py(value)} r={3} fill="none" stroke={fill} />
+      ))}
+    </g>
+  );
+};
+
+// Violin widths are relative to the densest category so shapes are comparable
+export const makeViolinShape = (maxDensity: number) => (props: RangeBarProps) => {
+  const { x, width, fill, payload } = props;
+  const py = valueToPixel(props);
+  const cx = x + width / 2;
+  const half = (width * 0.45) / (maxDensity || 1);
+  const density: DensityPoint[] = payload.density || [];
+
+  const right = density.map(p => `${cx + p.density * half},${py(p.value)}`);
+  const left = [...density].reverse().map(p => `${cx - p.density * half},${py(p.value)}`);
+
+  return (
+    <g>
+      <polygon points={[...right, ...left].join(' ')} fill={fill} fillOpacity={0.35} stroke={fill} />
+      <line x1={cx} x2={cx} y1={py(payload.q3)} y2={py(payload.q1)} stroke="#f8fafc" strokeWidth={4} strokeOpacity={0.6} />
+      <circle cx={cx} cy={py(payload.median)} r={3} fill="#f8fafc" />
+    </g>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Dataset, VisualizationConfig } from '../types';
+import { chartTable, describeChart } from '../utils/accessibility';
+import { ExportBackground, buildChartSvg, buildStandaloneHtml, downloadBlob, slugify, svgToPng } from '../utils/export';
+import { ProcessedData } from '../utils/processing';
+
+interface ExportMenuProps {
+  getContainer: () => HTMLElement | null;
+  config: VisualizationConfig;
+  dataset: Dataset;
+  processed: ProcessedData; // For the alt text and data table in exports
+}
+
+type ExportFormat = 'svg' | 'png' | 'html';
+
+const SCALES = [1, 2, 3, 4];
+
+export const ExportMenu = ({ getContainer, config, dataset, processed }: ExportMenuProps) => {
+  const [open, setOpen] = useState(false);
+  const [background, setBackground] = useState<ExportBackground>('transparent');
+  const [scale, setScale] = useState(2);
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    const container = getContainer();
+    const altText = describeChart(config, processed);
+    const chartSvg = container && buildChartSvg(container, {
+      title: config.title,
+      description: config.description,
+      altText,
+      background
+    });
+    if (!chartSvg) {
+      alert("Nothing to export yet. Show the chart first.");
+      return;
+    }
+
+    const filename = slugify(config.title);
+    setBusy(true);
+    try {
+      if (format === 'svg') {
+        downloadBlob(new Blob([chartSvg.svg], { type: 'image/svg+xml' }), `${filename}.svg`);
+      } else if (format === 'png') {
+        downloadBlob(await svgToPng(chartSvg, scale), `${filename}@${scale}x.png`);
+      } else {
+        const html = buildStandaloneHtml(chartSvg, config, dataset, background, altText, chartTable(config, processed));
+        downloadBlob(new Blob([html], { type: 'text/html' }), `${filename}.html`);
+      }
+      setOpen(false);
+    } catch (err) {
+      console.error(err);
+      alert("Export failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-2 py-1 rounded text-xs ${active ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-400 hover:text-slate-200'}`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-slate-300 bg-slate-900 border border-slate-700 hover:border-indigo-500 transition-colors"
+      >
+        <Download className="w-4 h-4" /> Export
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 p-3 bg-slate-950 border border-slate-700 rounded-xl shadow-xl z-20 space-y-3">
+          <div>
+            <div className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">Background</div>
+            <div className="flex gap-1">
+              <button className={optionClass(background === 'transparent')} onClick={() => setBackground('transparent')}>Transparent</button>
+              <button className={optionClass(background === 'dark')} onClick={() => setBackground('dark')}>Dark theme</button>
+            </div>
+          </div>
+          <div>
+            <div className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">PNG resolution</div>
+            <div className="flex gap-1">
+              {SCALES.map(s => (
+                <button key={s} className={optionClass(scale === s)} onClick={() => setScale(s)}>{s}x</button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-2 pt-1 border-t border-slate-800">
+            {(['png', 'svg', 'html'] as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                disabled={busy}
+                onClick={() => handleExport(format)}
+                className="py-1.5 rounded-lg text-xs font-semibold uppercase bg-indigo-600 hover:bg-indigo-500 text-white disabled:bg-slate-800 disabled:text-slate-500"
+              >
+                {format}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { compareValues } from '../utils/aggregation';
+import { interpolateColor } from '../utils/colors';
+
+interface HeatmapChartProps {
+  width?: number; // Injected by ResponsiveContainer
+  height?: number;
+  rows: any[];
+  xKey: string;
+  yKey: string;
+  valueLabel: string;
+  lowColor: string;
+  highColor: string;
+  textColor?: string;
+  fontSize?: number;
+  background?: string;
+}
+
+const MARGIN = { top: 10, right: 80, bottom: 70, left: 90 };
+
+const formatValue = (value: number | null) =>
+  value === null ? 'n/a' : Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+// Recharts has no heatmap, so cells are drawn as a plain SVG grid with a color legend
+export const HeatmapChart = ({ width = 0, height = 0, rows, xKey, yKey, valueLabel, lowColor, highColor, textColor = '#94a3b8', fontSize = 12, background }: HeatmapChartProps) => {
+  const xs = [...new Set(rows.map(r => r[xKey]))].sort(compareValues);
+  const ys = [...new Set(rows.map(r => r[yKey]))].sort(compareValues);
+  const values = rows.map(r => r.value).filter((v): v is number => typeof v === 'number');
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  const innerWidth = Math.max(width - MARGIN.left - MARGIN.right, 0);
+  const innerHeight = Math.max(height - MARGIN.top - MARGIN.bottom, 0);
+  const cellWidth = xs.length ? innerWidth / xs.length : 0;
+  const cellHeight = ys.length ? innerHeight / ys.length : 0;
+  const colorFor = (value: number | null) =>
+    value === null ? '#1e293b' : interpolateColor(lowColor, highColor, max === min ? 1 : (value - min) / (max - min));
+
+  return (
+    <svg width={width} height={height} role="img" style={{ backgroundColor: background }}>
+      <g transform={`translate(${MARGIN.left},${MARGIN.top})`}>
+        {rows.map((row, i) => {
+          const col = xs.indexOf(row[xKey]);
+          const line = ys.indexOf(row[yKey]);
+          return (
+            <rect key={i} x={col * cellWidth + 1} y={line * cellHeight + 1} width={Math.max(cellWidth - 2, 0)} height={Math.max(cellHeight - 2, 0)} fill={colorFor(row.value)} rx={2}>
+              <title>{`${xKey}: ${row[xKey]}, ${yKey}: ${row[yKey]}, ${valueLabel}: ${formatValue(row.value)}`}</title>
+            </rect>
+          );
+        })}
+        {xs.map((x, i) => (
+          <text key={`x-${i}`} x={i * cellWidth + cellWidth / 2} y={innerHeight + 14} fill={textColor} fontSize={fontSize} textAnchor="end" transform={`rotate(-45 ${i * cellWidth + cellWidth / 2} ${innerHeight + 14})`}>
+            {String(x)}
+          </text>
+        ))}
+        {ys.map((y, i) => (
+          <text key={`y-${i}`} x={-8} y={i * cellHeight + cellHeight / 2} fill={textColor} fontSize={fontSize} textAnchor="end" dominantBaseline="middle">
+            {String(y)}
+          </text>
+        ))}
+      </g>
+      {values.length > 0 && (
+        <g transform={`translate(${width - MARGIN.right + 20},${MARGIN.top})`}>
+          <defs>
+            <linearGradient id="heatmap-scale" x1="0" y1="1" x2="0" y2="0">
+              <stop offset="0%" stopColor={lowColor} />
+              <stop offset="100%" stopColor={highColor} />
+            </linearGradient>
+          </defs>
+          <rect width={12} height={innerHeight} fill="url(#heatmap-scale)" rx={2} />
+          <text x={18} y={10} fill={textColor} fontSize={fontSize - 1}>{formatValue(max)}</text>
+          <text x={18} y={innerHeight} fill={textColor} fontSize={fontSize - 1}>{formatValue(min)}</text>
+          <text x={0} y={innerHeight + 20} fill={textColor} fontSize={fontSize - 1}>{valueLabel}</text>
+        </g>
+      )}
+    </svg>
+  );
+};
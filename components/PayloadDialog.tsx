@@ -0,0 +1,51 @@
+import React from 'react';
+import { Send, ShieldCheck, X as XIcon } from 'lucide-react';
+import { PayloadPreview } from '../services/aiService';
+
+interface PayloadDialogProps {
+  preview: PayloadPreview;
+  onSend?: () => void; // Left out when the dialog only shows what would be sent
+  onClose: () => void;
+}
+
+export const PayloadDialog = ({ preview, onSend, onClose }: PayloadDialogProps) => (
+  <div className="fixed inset-0 z-50 bg-slate-950/80 flex items-center justify-center p-6" onClick={onClose}>
+    <div
+      role="dialog"
+      aria-label="Request preview"
+      className="w-full max-w-3xl max-h-full flex flex-col gap-4 bg-slate-900 rounded-2xl border border-slate-700 p-5 shadow-2xl"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-emerald-400" /> {onSend ? 'Send this request?' : 'Request preview'}
+          </h2>
+          <p className="text-sm text-slate-400">Everything below goes to {preview.provider}, exactly as shown.</p>
+        </div>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-200"><XIcon className="w-5 h-5" /></button>
+      </div>
+
+      <pre className="flex-grow min-h-0 overflow-auto bg-slate-950 rounded-xl border border-slate-800 p-4 text-xs text-slate-300 whitespace-pre-wrap">
+        {preview.text}
+      </pre>
+      {preview.image && (
+        <div className="flex items-center gap-3 text-xs text-slate-400">
+          <img src={preview.image} alt="Attached reference chart" className="h-16 rounded border border-slate-700" />
+          Attached reference image
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-800 border border-slate-700 text-slate-300 text-sm">
+          {onSend ? 'Cancel' : 'Close'}
+        </button>
+        {onSend && (
+          <button onClick={onSend} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm">
+            <Send className="w-4 h-4" /> Send
+          </button>
+        )}
+      </div>
+    </div>
+  </div>
+);
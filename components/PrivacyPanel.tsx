@@ -0,0 +1,82 @@
+import React from 'react';
+import { Eye, ShieldCheck } from 'lucide-react';
+import { ColumnPrivacy, Dataset, PiiKind, PrivacyMode, PrivacySettings } from '../types';
+import { PII_LABELS, PRIVACY_MODE_LABELS, columnPrivacy } from '../utils/privacy';
+
+interface PrivacyPanelProps {
+  dataset: Dataset; // Columns as charted, after transform steps
+  pii: Record<string, PiiKind>;
+  privacy: PrivacySettings;
+  remote: boolean; // The selected provider sends requests out of the browser
+  onChange: (privacy: PrivacySettings) => void;
+  onPreview: () => void;
+}
+
+const RULE_LABELS: Record<ColumnPrivacy, string> = {
+  send: 'Send',
+  mask: 'Mask',
+  exclude: 'Exclude'
+};
+
+// Detected PII columns start masked; any choice made here overrides detection
+export const PrivacyPanel = ({ dataset, pii, privacy, remote, onChange, onPreview }: PrivacyPanelProps) => {
+  const input = 'bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-indigo-500';
+  const setRule = (column: string, rule: ColumnPrivacy) => onChange({ ...privacy, columns: { ...privacy.columns, [column]: rule } });
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <ShieldCheck className="w-4 h-4" /> Privacy
+      </h2>
+      {!remote && <p className="text-xs text-slate-500">The offline provider sends nothing out of the browser.</p>}
+
+      <select
+        value={privacy.mode}
+        onChange={(e) => onChange({ ...privacy, mode: e.target.value as PrivacyMode })}
+        className={`w-full ${input}`}
+      >
+        {Object.entries(PRIVACY_MODE_LABELS).map(([mode, label]) => <option key={mode} value={mode}>Rows: {label}</option>)}
+      </select>
+
+      <ul className="max-h-48 overflow-y-auto divide-y divide-slate-800 bg-slate-900 rounded-xl border border-slate-800">
+        {dataset.columns.map(column => {
+          const rule = columnPrivacy(privacy, pii, column);
+          return (
+            <li key={column} className="px-3 py-1.5 text-xs flex items-center gap-2">
+              <span className={`flex-grow min-w-0 truncate ${rule === 'exclude' ? 'text-slate-600 line-through' : 'text-slate-300'}`} title={column}>{column}</span>
+              {pii[column] && (
+                <span className="px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wide bg-rose-500/10 text-rose-300" title="Looks like personal data">
+                  {PII_LABELS[pii[column]]}
+                </span>
+              )}
+              <select
+                value={rule}
+                onChange={(e) => setRule(column, e.target.value as ColumnPrivacy)}
+                className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-xs outline-none"
+              >
+                {Object.entries(RULE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </li>
+          );
+        })}
+      </ul>
+
+      <label className="flex items-center gap-2 text-xs text-slate-400">
+        <input
+          type="checkbox"
+          checked={privacy.reviewBeforeSend}
+          onChange={(e) => onChange({ ...privacy, reviewBeforeSend: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        Review each request before it is sent
+      </label>
+      <button
+        onClick={onPreview}
+        disabled={!remote}
+        className="w-full flex items-center justify-center gap-2 py-1.5 rounded-lg bg-slate-900 border border-slate-700 hover:border-indigo-500 disabled:opacity-40 text-slate-300 text-xs"
+      >
+        <Eye className="w-3.5 h-3.5" /> Preview what is sent
+      </button>
+    </div>
+  );
+};
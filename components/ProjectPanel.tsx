@@ -0,0 +1,81 @@
+import React from 'react';
+import { FolderOpen, Link, Plus, Save, Trash2, Upload } from 'lucide-react';
+import { ProjectSummary } from '../types';
+
+interface ProjectPanelProps {
+  projectId: string;
+  projectName: string;
+  library: ProjectSummary[];
+  onRename: (name: string) => void;
+  onSave: () => void;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onShare: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const ProjectPanel = ({
+  projectId, projectName, library, onRename, onSave, onNew, onOpen, onDelete, onExport, onImport, onShare
+}: ProjectPanelProps) => {
+  const iconButton = 'p-1.5 rounded-lg text-slate-400 hover:text-slate-100 hover:bg-slate-800 transition-colors';
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <FolderOpen className="w-4 h-4" /> Project
+      </h2>
+      <div className="flex items-center gap-1">
+        <input
+          value={projectName}
+          onChange={(e) => onRename(e.target.value)}
+          className="flex-grow min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button onClick={onSave} title="Save to library" className={iconButton}><Save className="w-4 h-4" /></button>
+        <button onClick={onNew} title="New project" className={iconButton}><Plus className="w-4 h-4" /></button>
+      </div>
+      <div className="flex gap-2 text-xs">
+        <button onClick={onExport} className="flex-1 py-1.5 rounded-lg bg-slate-900 border border-slate-700 hover:border-indigo-500 text-slate-300">
+          Export JSON
+        </button>
+        <label className="flex-1 py-1.5 rounded-lg bg-slate-900 border border-slate-700 hover:border-indigo-500 text-slate-300 text-center cursor-pointer flex items-center justify-center gap-1">
+          <Upload className="w-3 h-3" /> Import
+          <input
+            type="file"
+            accept=".json,.html,application/json,text/html"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button onClick={onShare} title="Copy share link" className="px-2 rounded-lg bg-slate-900 border border-slate-700 hover:border-indigo-500 text-slate-300">
+          <Link className="w-3 h-3" />
+        </button>
+      </div>
+      {library.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto divide-y divide-slate-800 bg-slate-900 rounded-xl border border-slate-800">
+          {library.map(entry => (
+            <li key={entry.id} className={`flex items-center gap-2 px-3 py-2 text-xs ${entry.id === projectId ? 'bg-indigo-500/10' : ''}`}>
+              <button onClick={() => onOpen(entry.id)} className="flex-grow min-w-0 text-left">
+                <div className="font-medium text-slate-300 truncate">{entry.name}</div>
+                <div className="text-slate-500 truncate">
+                  {[entry.chartType, entry.datasetName, formatTime(entry.updatedAt)].filter(Boolean).join(' · ')}
+                </div>
+              </button>
+              <button onClick={() => onDelete(entry.id)} title="Delete" className="text-slate-500 hover:text-red-400">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Palette, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { ChartTheme, SavedTheme } from '../types';
+import { DEFAULT_THEME } from '../utils/themes';
+
+interface ThemePanelProps {
+  current?: ChartTheme; // Theme of the chart on screen
+  themes: SavedTheme[];
+  hasChart: boolean;
+  onSave: (name: string) => void;
+  onApply: (theme: ChartTheme | undefined) => void; // undefined goes back to the default look
+  onDelete: (name: string) => void;
+}
+
+const Swatches = ({ theme }: { theme: ChartTheme }) => (
+  <span
+    className="flex items-center gap-0.5 p-0.5 rounded border border-slate-700 shrink-0"
+    style={{ backgroundColor: theme.background ?? DEFAULT_THEME.background }}
+  >
+    {(theme.palette?.length ? theme.palette : DEFAULT_THEME.palette).slice(0, 6).map((color, i) => (
+      <span key={i} className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: color }} />
+    ))}
+  </span>
+);
+
+// Named themes live in the browser, so they carry over to every project
+export const ThemePanel = ({ current, themes, hasChart, onSave, onApply, onDelete }: ThemePanelProps) => {
+  const [name, setName] = useState('');
+  const hasTheme = Boolean(current && Object.keys(current).length > 0);
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <Palette className="w-4 h-4" /> Themes
+      </h2>
+
+      {hasTheme && (
+        <div className="p-2 bg-slate-900 rounded-xl border border-slate-800 space-y-2">
+          <div className="flex items-center justify-between gap-2 text-xs text-slate-400">
+            <span className="flex items-center gap-2 min-w-0">
+              <Swatches theme={current!} />
+              <span className="truncate">Current chart theme</span>
+            </span>
+            <button onClick={() => onApply(undefined)} title="Back to the default style" className="text-slate-500 hover:text-slate-200">
+              <RotateCcw className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && save()}
+              placeholder="Theme name (same name replaces)"
+              className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+              onClick={save}
+              disabled={!name.trim()}
+              className="flex items-center gap-1 px-2 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white text-xs"
+            >
+              <Save className="w-3.5 h-3.5" /> Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {themes.length > 0 ? (
+        <ul className="divide-y divide-slate-800 bg-slate-900 rounded-xl border border-slate-800">
+          {themes.map(saved => (
+            <li key={saved.name} className="px-3 py-2 text-xs flex items-center gap-2">
+              <Swatches theme={saved.theme} />
+              <span className="flex-grow min-w-0 truncate text-slate-300" title={saved.name}>{saved.name}</span>
+              <button
+                onClick={() => onApply(saved.theme)}
+                disabled={!hasChart}
+                className="px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-300"
+              >
+                Apply
+              </button>
+              <button onClick={() => onDelete(saved.name)} title="Delete theme" className="text-slate-500 hover:text-red-400">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-500">
+          {hasTheme ? 'Save the current style to reuse it on later charts.' : 'Generate a chart from a reference image to pick up its style.'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, Pencil, Trash2, Workflow } from 'lucide-react';
+import { CastType, Dataset, DatePart, FilterOperator, TransformStep } from '../types';
+import { FUNCTIONS, parseExpression } from '../utils/expression';
+import { DATE_PART_LABELS, StepError, TRANSFORM_LABELS, describeStep, suggestBreaks } from '../utils/transforms';
+import { isMissing } from '../utils/profiler';
+
+interface TransformPanelProps {
+  source: Dataset; // Raw rows, holding the steps
+  result: Dataset; // After the steps
+  errors: StepError[];
+  onChange: (steps: TransformStep[]) => void;
+}
+
+const MAX_VALUE_CHOICES = 50;
+
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  notMissing: 'is not missing',
+  missing: 'is missing',
+  in: 'is one of',
+  notIn: 'is not one of'
+};
+
+const newStep = (type: TransformStep['type'], column: string): TransformStep => {
+  switch (type) {
+    case 'filter': return { type, expression: '' };
+    case 'filterValues': return { type, column, operator: 'notMissing', values: [] };
+    case 'derive': return { type, column: '', expression: '' };
+    case 'rename': return { type, from: column, to: '' };
+    case 'cast': return { type, column, to: 'number' };
+    case 'bin': return { type, column, as: `${column}_range`, breaks: [] };
+    case 'datePart': return { type, column, part: 'year', as: `${column}_year` };
+    case 'dedupe': return { type, columns: [] };
+  }
+};
+
+const expressionError = (source: string) => {
+  if (!source.trim()) return null;
+  try {
+    parseExpression(source);
+    return null;
+  } catch (err: any) {
+    return err.message as string;
+  }
+};
+
+// Why the draft cannot be added yet, or null when it is complete
+const draftProblem = (step: TransformStep): string | null => {
+  switch (step.type) {
+    case 'filter':
+      return step.expression.trim() ? expressionError(step.expression) : 'Enter a condition';
+    case 'derive':
+      if (!step.column.trim()) return 'Name the new column';
+      return step.expression.trim() ? expressionError(step.expression) : 'Enter an expression';
+    case 'rename':
+      return step.to.trim() ? null : 'Enter the new name';
+    case 'bin':
+      if (!step.as.trim()) return 'Name the new column';
+      return step.breaks.length >= 2 ? null : 'Enter at least two edges';
+    case 'datePart':
+      return step.as.trim() ? null : 'Name the new column';
+    case 'filterValues':
+      return (step.operator === 'in' || step.operator === 'notIn') && !step.values?.length ? 'Pick at least one value' : null;
+    default:
+      return null;
+  }
+};
+
+export const TransformPanel = ({ source, result, errors, onChange }: TransformPanelProps) => {
+  const steps = source.transforms ?? [];
+  // Steps may use raw columns and the ones earlier steps create
+  const columns = [...new Set([...source.columns, ...result.columns])];
+  // Value pickers read raw rows where they can, so a filter never hides its own choices
+  const rowsFor = (column: string) => (source.columns.includes(column) ? source.data : result.data);
+  // index is null while adding a new step
+  const [draft, setDraft] = useState<{ index: number | null; step: TransformStep } | null>(null);
+  const [breaksText, setBreaksText] = useState('');
+  const input = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-indigo-500';
+  const iconButton = 'p-1 rounded text-slate-500 hover:text-slate-200 disabled:opacity-30';
+
+  const edit = (index: number | null, step: TransformStep) => {
+    setDraft({ index, step });
+    setBreaksText(step.type === 'bin' ? step.breaks.join(', ') : '');
+  };
+  const update = (fields: Partial<TransformStep>) => draft && setDraft({ ...draft, step: { ...draft.step, ...fields } as TransformStep });
+
+  const save = () => {
+    if (!draft) return;
+    const next = [...steps];
+    if (draft.index === null) next.push(draft.step);
+    else next[draft.index] = draft.step;
+    onChange(next);
+    setDraft(null);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const columnSelect = (value: string, onSelect: (column: string) => void) => (
+    <select value={value} onChange={(e) => onSelect(e.target.value)} className={input}>
+      {!columns.includes(value) && <option value={value}>{value}</option>}
+      {columns.map(c => <option key={c} value={c}>{c}</option>)}
+    </select>
+  );
+
+  const distinctValues = (column: string) => {
+    const values = new Map<string, any>();
+    for (const row of rowsFor(column)) {
+      const value = row[column];
+      if (!isMissing(value)) values.set(String(value), value);
+      if (values.size >= MAX_VALUE_CHOICES) break;
+    }
+    return [...values.values()];
+  };
+
+  const renderFields = (step: TransformStep) => {
+    switch (step.type) {
+      case 'filter':
+      case 'derive':
+        return (
+          <>
+            {step.type === 'derive' && (
+              <input value={step.column} onChange={(e) => update({ column: e.target.value })} placeholder="New column, e.g. FamilySize" className={input} />
+            )}
+            <input
+              value={step.expression}
+              onChange={(e) => update({ expression: e.target.value })}
+              placeholder={step.type === 'filter' ? 'e.g. Age >= 18 and Sex == "female"' : 'e.g. SibSp + Parch + 1'}
+              className={`${input} font-mono`}
+            />
+            <p className="text-[10px] text-slate-500">Functions: {Object.keys(FUNCTIONS).join(', ')}. Backticks for `Column Names`.</p>
+          </>
+        );
+      case 'filterValues':
+        return (
+          <>
+            {columnSelect(step.column, column => update({ column, values: [] }))}
+            <select value={step.operator} onChange={(e) => update({ operator: e.target.value as FilterOperator })} className={input}>
+              {Object.entries(OPERATOR_LABELS).map(([op, label]) => <option key={op} value={op}>{label}</option>)}
+            </select>
+            {(step.operator === 'in' || step.operator === 'notIn') && (
+              <div className="max-h-32 overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg p-2 space-y-1">
+                {distinctValues(step.column).map(value => {
+                  const checked = (step.values ?? []).some(v => String(v) === String(value));
+                  return (
+                    <label key={String(value)} className="flex items-center gap-2 text-xs text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        onChange={() => update({
+                          values: checked ? (step.values ?? []).filter(v => String(v) !== String(value)) : [...(step.values ?? []), value]
+                        })}
+                      />
+                      <span className="truncate">{String(value)}</span>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        );
+      case 'rename':
+        return (
+          <>
+            {columnSelect(step.from, from => update({ from }))}
+            <input value={step.to} onChange={(e) => update({ to: e.target.value })} placeholder="New name" className={input} />
+          </>
+        );
+      case 'cast':
+        return (
+          <>
+            {columnSelect(step.column, column => update({ column }))}
+            <select value={step.to} onChange={(e) => update({ to: e.target.value as CastType })} className={input}>
+              {(['number', 'string', 'boolean', 'date'] as CastType[]).map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </>
+        );
+      case 'bin':
+        return (
+          <>
+            {columnSelect(step.column, column => update({ column, as: `${column}_range` }))}
+            <input value={step.as} onChange={(e) => update({ as: e.target.value })} placeholder="New column" className={input} />
+            <div className="flex gap-1">
+              <input
+                value={breaksText}
+                onChange={(e) => {
+                  setBreaksText(e.target.value);
+                  update({ breaks: e.target.value.split(/[\s,;]+/).filter(Boolean).map(Number).filter(n => !isNaN(n)) });
+                }}
+                placeholder="Edges, e.g. 0, 18, 40, 65, 100"
+                className={`${input} font-mono`}
+              />
+              <button
+                onClick={() => {
+                  const breaks = suggestBreaks(rowsFor(step.column), step.column);
+                  setBreaksText(breaks.join(', '));
+                  update({ breaks });
+                }}
+                className="px-2 rounded-lg bg-slate-900 border border-slate-700 hover:border-indigo-500 text-slate-300 text-xs"
+              >
+                Auto
+              </button>
+            </div>
+          </>
+        );
+      case 'datePart':
+        return (
+          <>
+            {columnSelect(step.column, column => update({ column, as: `${column}_${step.part}` }))}
+            <select value={step.part} onChange={(e) => update({ part: e.target.value as DatePart, as: `${step.column}_${e.target.value}` })} className={input}>
+              {Object.entries(DATE_PART_LABELS).map(([part, label]) => <option key={part} value={part}>{label}</option>)}
+            </select>
+            <input value={step.as} onChange={(e) => update({ as: e.target.value })} placeholder="New column" className={input} />
+          </>
+        );
+      case 'dedupe':
+        return (
+          <select
+            multiple
+            value={step.columns ?? []}
+            onChange={(e) => update({ columns: Array.from(e.target.selectedOptions, (o: HTMLOptionElement) => o.value) })}
+            title="Columns that identify a duplicate; none selected compares whole rows"
+            className={`${input} h-24`}
+          >
+            {columns.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        );
+    }
+  };
+
+  const problem = draft && draftProblem(draft.step);
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <Workflow className="w-4 h-4" /> Transforms
+      </h2>
+
+      {steps.length > 0 && (
+        <ol className="divide-y divide-slate-800 bg-slate-900 rounded-xl border border-slate-800 text-xs">
+          {steps.map((step, i) => {
+            const error = errors.find(e => e.index === i);
+            return (
+              <li key={i} className="px-3 py-2">
+                <div className="flex items-center gap-1">
+                  <span className="flex-grow min-w-0 truncate text-slate-300" title={describeStep(step)}>
+                    {i + 1}. {describeStep(step)}
+                  </span>
+                  <button onClick={() => move(i, -1)} disabled={i === 0} title="Move up" className={iconButton}><ArrowUp className="w-3 h-3" /></button>
+                  <button onClick={() => move(i, 1)} disabled={i === steps.length - 1} title="Move down" className={iconButton}><ArrowDown className="w-3 h-3" /></button>
+                  <button onClick={() => edit(i, step)} title="Edit" className={iconButton}><Pencil className="w-3 h-3" /></button>
+                  <button onClick={() => onChange(steps.filter((_, j) => j !== i))} title="Remove" className={iconButton}><Trash2 className="w-3 h-3" /></button>
+                </div>
+                {error && (
+                  <p className="mt-1 text-red-300 flex items-start gap-1">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> Skipped: {error.message}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {draft ? (
+        <div className="space-y-2 p-3 bg-slate-900/50 rounded-xl border border-slate-800">
+          <div className="text-xs font-medium text-slate-300">{TRANSFORM_LABELS[draft.step.type]}</div>
+          {renderFields(draft.step)}
+          {problem && <p className="text-[11px] text-amber-300">{problem}</p>}
+          <div className="flex gap-2 text-xs">
+            <button onClick={save} disabled={Boolean(problem)} className="flex-1 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-500 text-white">
+              {draft.index === null ? 'Add step' : 'Save step'}
+            </button>
+            <button onClick={() => setDraft(null)} className="flex-1 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-slate-300">Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <select
+          value=""
+          onChange={(e) => edit(null, newStep(e.target.value as TransformStep['type'], columns[0] ?? ''))}
+          className={`${input} text-slate-400`}
+        >
+          <option value="" disabled>Add a step...</option>
+          {Object.entries(TRANSFORM_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+        </select>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { FileInput, Link } from 'lucide-react';
+import { CodeView } from './CodeView';
+
+interface VegaLiteViewProps {
+  code: string;
+  placeholder: string;
+  dataUrl: string; // Empty embeds the rows in the spec
+  canImport: boolean;
+  onDataUrlChange: (url: string) => void;
+  onImport: (text: string) => boolean; // False keeps the pasted spec for another try
+}
+
+export const VegaLiteView = ({ code, placeholder, dataUrl, canImport, onDataUrlChange, onImport }: VegaLiteViewProps) => {
+  const [importing, setImporting] = useState(false);
+  const [pasted, setPasted] = useState('');
+
+  const convert = () => {
+    if (!pasted.trim() || !onImport(pasted)) return;
+    setPasted('');
+    setImporting(false);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <label className="flex items-center gap-2 flex-grow min-w-0 text-slate-400">
+          <Link className="w-3.5 h-3.5 shrink-0" />
+          <input
+            value={dataUrl}
+            onChange={(e) => onDataUrlChange(e.target.value)}
+            placeholder="Data URL (CSV or JSON of the charted columns); empty embeds the rows"
+            className="flex-grow min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+        <button
+          onClick={() => setImporting(!importing)}
+          disabled={!canImport}
+          title={canImport ? 'Rebuild a Vega-Lite chart on the current dataset' : 'Load a dataset first'}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 hover:border-indigo-500 disabled:opacity-40 text-slate-300"
+        >
+          <FileInput className="w-3.5 h-3.5" /> Import spec
+        </button>
+      </div>
+
+      {importing && (
+        <div className="space-y-2 p-3 bg-slate-900 rounded-xl border border-slate-800">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder='Paste a Vega-Lite spec, e.g. { "mark": "bar", "encoding": { ... } }'
+            className="w-full h-40 bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs font-mono text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500 resize-y"
+          />
+          <div className="flex justify-end gap-2 text-xs">
+            <button onClick={() => setImporting(false)} className="px-3 py-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-300">Cancel</button>
+            <button
+              onClick={convert}
+              disabled={!pasted.trim()}
+              className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white"
+            >
+              Convert to chart
+            </button>
+          </div>
+        </div>
+      )}
+
+      <CodeView
+        generated={code}
+        placeholder={placeholder}
+        textClass="text-pink-200"
+        toolbar={<span className="text-slate-500">Vega-Lite v5 spec</span>}
+      />
+    </div>
+  );
+};
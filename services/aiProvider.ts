@@ -0,0 +1,42 @@
+import { AISettings, ChatMessage, ConfigIssue, DataColumn, TransformStep, VisualizationConfig } from "../types";
+
+// A config plus any transform steps the model wants appended to the dataset
+export interface ConfigProposal extends VisualizationConfig {
+  transforms?: TransformStep[];
+}
+
+export interface AnalyzeRequest {
+  image: string | null; // Reference chart as a data URL
+  sample: any[];
+  columns: string[];
+  prompt: string;
+  profile: DataColumn[];
+  transforms: TransformStep[]; // Steps already applied, so the model does not repeat them
+}
+
+export interface RefineRequest {
+  config: VisualizationConfig;
+  prompt: string;
+  conversation: ChatMessage[];
+  profile: DataColumn[];
+  transforms: TransformStep[];
+}
+
+export interface RepairRequest {
+  config: VisualizationConfig;
+  issues: ConfigIssue[];
+  profile: DataColumn[];
+}
+
+export interface AIProvider {
+  label: string;
+  defaultModel: string;
+  supportsImages: boolean;
+  remote: boolean; // Whether requests leave the browser
+  // Why the provider cannot be used with these settings, or null when it is ready
+  checkSettings: (settings: AISettings) => string | null;
+  analyze: (request: AnalyzeRequest, settings: AISettings) => Promise<ConfigProposal>;
+  refine: (request: RefineRequest, settings: AISettings) => Promise<ConfigProposal>;
+  // Optional second pass for configs that local validation could not fix
+  repair?: (request: RepairRequest, settings: AISettings) => Promise<VisualizationConfig>;
+}
@@ -0,0 +1,85 @@
+import { AIProviderId, AISettings, VisualizationConfig } from "../types";
+import { AIProvider, AnalyzeRequest, ConfigProposal, RefineRequest, RepairRequest } from "./aiProvider";
+import { buildAnalyzePrompt, buildRefinePrompt, buildRepairPrompt } from "./prompts";
+import { geminiProvider } from "./geminiService";
+import { openAiProvider } from "./openAiService";
+import { offlineProvider } from "./offlineService";
+
+export const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  offline: offlineProvider
+};
+
+const SETTINGS_KEY = 'vizai-ai-settings';
+
+// Without a build-time key the app starts offline instead of failing on the first request
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: process.env.API_KEY ? 'gemini' : 'offline',
+  model: '',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: ''
+};
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (stored && Object.hasOwn(PROVIDERS, stored.provider)) return { ...DEFAULT_AI_SETTINGS, ...stored };
+  } catch (err) {
+    console.error(err);
+  }
+  return DEFAULT_AI_SETTINGS;
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const getReadyProvider = (settings: AISettings) => {
+  const provider = PROVIDERS[settings.provider];
+  const problem = provider.checkSettings(settings);
+  if (problem) throw new Error(problem);
+  return provider;
+};
+
+export interface PayloadPreview {
+  provider: string;
+  text: string; // Prompt text as sent, earlier chat turns first
+  image: string | null; // Attached reference image
+}
+
+// What a request would send; null when the provider never leaves the browser
+export const previewAnalyze = ({ image, sample, columns, prompt, profile, transforms }: AnalyzeRequest, settings: AISettings): PayloadPreview | null => {
+  const provider = PROVIDERS[settings.provider];
+  if (!provider.remote) return null;
+  return {
+    provider: provider.label,
+    text: buildAnalyzePrompt(prompt, columns, sample, profile, transforms),
+    image: provider.supportsImages ? image : null
+  };
+};
+
+export const previewRefine = ({ config, prompt, conversation, transforms }: RefineRequest, settings: AISettings): PayloadPreview | null => {
+  const provider = PROVIDERS[settings.provider];
+  if (!provider.remote) return null;
+  const turns = conversation.map(message => `[${message.role}] ${message.text}`);
+  return { provider: provider.label, text: [...turns, `[user] ${buildRefinePrompt(config, prompt, transforms)}`].join('\n\n'), image: null };
+};
+
+export const previewRepair = ({ config, issues, profile }: RepairRequest, settings: AISettings): PayloadPreview | null => {
+  const provider = PROVIDERS[settings.provider];
+  if (!provider.remote || !provider.repair) return null;
+  return { provider: provider.label, text: buildRepairPrompt(config, issues, profile), image: null };
+};
+
+export const analyzeImageAndData = (request: AnalyzeRequest, settings: AISettings): Promise<ConfigProposal> =>
+  getReadyProvider(settings).analyze(request, settings);
+
+export const refineConfig = (request: RefineRequest, settings: AISettings): Promise<ConfigProposal> =>
+  getReadyProvider(settings).refine(request, settings);
+
+// Resolves to null for providers that cannot do a targeted repair pass
+export const repairConfigWithModel = async (request: RepairRequest, settings: AISettings): Promise<VisualizationConfig | null> => {
+  const provider = getReadyProvider(settings);
+  return provider.repair ? provider.repair(request, settings) : null;
+};
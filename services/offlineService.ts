@@ -0,0 +1,13 @@
+import { AIProvider } from "./aiProvider";
+import { recommendConfig, refineConfigOffline } from "../utils/recommend";
+
+// No network at all: suggestions come from column types and cardinality
+export const offlineProvider: AIProvider = {
+  label: 'Offline (rule-based)',
+  defaultModel: '',
+  supportsImages: false,
+  remote: false,
+  checkSettings: () => null,
+  analyze: async ({ prompt, profile }) => recommendConfig(profile, prompt),
+  refine: async ({ config, prompt, profile }) => refineConfigOffline(config, prompt, profile)
+};
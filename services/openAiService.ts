@@ -0,0 +1,64 @@
+import { AISettings } from "../types";
+import { AIProvider, ConfigProposal } from "./aiProvider";
+import {
+  analyzeSchema, buildAnalyzePrompt, buildRefinePrompt, buildRepairPrompt, parseConfigResponse, refineSchema
+} from "./prompts";
+
+// Gemini spells JSON Schema types in upper case ("OBJECT"); everything else is already compatible
+const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (typeof schema !== 'object' || schema === null) return schema;
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+    key,
+    key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value)
+  ]));
+};
+
+const chatCompletion = async (messages: any[], schema: object, settings: AISettings): Promise<ConfigProposal> => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: settings.model || openAiProvider.defaultModel,
+      messages,
+      response_format: { type: 'json_schema', json_schema: { name: 'visualization_config', schema: toJsonSchema(schema) } }
+    })
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${baseUrl} answered ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+
+  const body = await response.json();
+  return parseConfigResponse(body.choices?.[0]?.message?.content);
+};
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, vLLM, Ollama, llama.cpp, LM Studio
+export const openAiProvider: AIProvider = {
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+  supportsImages: true,
+  remote: true,
+
+  checkSettings: settings => (settings.baseUrl ? null : "Enter the base URL of your OpenAI-compatible server in the AI provider settings."),
+
+  analyze: ({ image, sample, columns, prompt, profile, transforms }, settings) => {
+    const text = buildAnalyzePrompt(prompt, columns, sample, profile, transforms);
+    const content = image
+      ? [{ type: 'text', text }, { type: 'image_url', image_url: { url: image } }]
+      : text;
+    return chatCompletion([{ role: 'user', content }], analyzeSchema, settings);
+  },
+
+  refine: ({ config, prompt, conversation, transforms }, settings) => chatCompletion([
+    ...conversation.map(message => ({ role: message.role === 'model' ? 'assistant' : 'user', content: message.text })),
+    { role: 'user', content: buildRefinePrompt(config, prompt, transforms) }
+  ], refineSchema, settings),
+
+  repair: ({ config, issues, profile }, settings) =>
+    chatCompletion([{ role: 'user', content: buildRepairPrompt(config, issues, profile) }], refineSchema, settings)
+};
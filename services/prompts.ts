@@ -0,0 +1,302 @@
+import { Type } from "@google/genai";
+import { ChartType, ConfigIssue, DataColumn, TransformStep, VisualizationConfig } from "../types";
+import { describeProfile } from "../utils/profiler";
+import { FUNCTIONS } from "../utils/expression";
+import { ConfigProposal } from "./aiProvider";
+
+// Response schemas use Gemini's Type names; other providers convert them to plain JSON Schema
+
+const aggregationSchema = {
+  type: Type.OBJECT,
+  description: "How to summarize rows per X value (and groupBy) before plotting. Omit to plot raw rows.",
+  properties: {
+    func: { type: Type.STRING, enum: ['sum', 'mean', 'median', 'min', 'max', 'count', 'countDistinct'] },
+    sortBy: { type: Type.STRING, enum: ['x', 'value', 'none'] },
+    sortOrder: { type: Type.STRING, enum: ['asc', 'desc'] },
+    topN: { type: Type.INTEGER, description: "Keep only the N largest categories; the rest are merged into otherLabel" },
+    otherLabel: { type: Type.STRING }
+  },
+  required: ["func"]
+};
+
+const seriesOptionsSchema = {
+  type: Type.ARRAY,
+  description: "For composed charts: mark type and Y axis per series key (e.g. revenue bars on the left, margin line on the right)",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      key: { type: Type.STRING, description: "A yAxisKey or seriesKeys entry" },
+      mark: { type: Type.STRING, enum: ['bar', 'line', 'area'] },
+      axis: { type: Type.STRING, enum: ['left', 'right'] }
+    },
+    required: ["key"]
+  }
+};
+
+const binningSchema = {
+  type: Type.OBJECT,
+  description: "Histogram bins over xAxisKey: either a bin count or a bin width",
+  properties: {
+    bins: { type: Type.INTEGER },
+    binWidth: { type: Type.NUMBER }
+  }
+};
+
+// One flat object per step; which fields apply depends on "type"
+const timeSeriesSchema = {
+  type: Type.OBJECT,
+  description: "Only when xAxisKey is a date or datetime column",
+  properties: {
+    resample: { type: Type.STRING, enum: ['day', 'week', 'month', 'quarter', 'year'], description: "Bucket dates into periods combined with aggregation.func" },
+    cumulative: { type: Type.BOOLEAN, description: "Running total of each series" },
+    rolling: {
+      type: Type.OBJECT,
+      properties: {
+        window: { type: Type.INTEGER, description: "Number of points, e.g. 7 for a 7-day average of daily data" },
+        func: { type: Type.STRING, enum: ['mean', 'sum'] }
+      },
+      required: ["window", "func"]
+    },
+    change: {
+      type: Type.OBJECT,
+      properties: {
+        kind: { type: Type.STRING, enum: ['difference', 'percent'] },
+        lag: { type: Type.INTEGER, description: "Periods back to compare with, e.g. 12 for year-over-year of monthly data" }
+      },
+      required: ["kind"]
+    }
+  }
+};
+
+const trendLineSchema = {
+  type: Type.OBJECT,
+  description: "Fitted curve over scatter points, or over line/area charts with a date X axis",
+  properties: {
+    method: { type: Type.STRING, enum: ['linear', 'polynomial', 'loess'] },
+    degree: { type: Type.INTEGER, description: "Polynomial order, 2 to 6" },
+    span: { type: Type.NUMBER, description: "LOESS smoothing between 0 and 1, default 0.75" },
+    band: { type: Type.BOOLEAN, description: "Show the 95% confidence band" },
+    perGroup: { type: Type.BOOLEAN, description: "false fits all groups together; by default each series gets its own fit" }
+  },
+  required: ["method"]
+};
+
+const referenceLinesSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      axis: { type: Type.STRING, enum: ['x', 'y'], description: "y draws a horizontal line at a value, x a vertical one" },
+      value: { type: Type.STRING, description: "A number, a date or category on X, or \"mean\"/\"median\" of the plotted values" },
+      label: { type: Type.STRING }
+    },
+    required: ["axis", "value"]
+  }
+};
+
+const annotationsSchema = {
+  type: Type.ARRAY,
+  description: "Callouts drawn on the chart: text labels, arrows to points, highlighted categories and shaded ranges",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      type: { type: Type.STRING, enum: ['text', 'arrow', 'highlight', 'range'] },
+      text: { type: Type.STRING, description: "Label; text and arrows show the value they point at when left out" },
+      x: { type: Type.STRING, description: "text/arrow: X of the point (number, date or category); highlight: the category to emphasize" },
+      y: { type: Type.STRING, description: "text/arrow: Y of the point, or \"max\"/\"min\" for the highest/lowest plotted value" },
+      axis: { type: Type.STRING, enum: ['x', 'y'], description: "range: the axis the shaded band spans" },
+      from: { type: Type.STRING, description: "range: start value on that axis" },
+      to: { type: Type.STRING, description: "range: end value on that axis" },
+      color: { type: Type.STRING }
+    },
+    required: ["type"]
+  }
+};
+
+const lineDash = { type: Type.STRING, enum: ['solid', 'dashed', 'dotted'] };
+
+const themeSchema = {
+  type: Type.OBJECT,
+  description: "Visual style of the chart; leave out anything the reference does not show",
+  properties: {
+    palette: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Series colors in order, as hex" },
+    background: { type: Type.STRING, description: "Chart background color" },
+    textColor: { type: Type.STRING, description: "Color of tick labels, legend and title" },
+    fontFamily: { type: Type.STRING, description: "CSS font stack, e.g. \"Helvetica, Arial, sans-serif\"" },
+    fontSize: { type: Type.NUMBER, description: "Tick and legend label size in px" },
+    titleSize: { type: Type.NUMBER, description: "Title size in px" },
+    grid: { type: Type.STRING, enum: ['both', 'horizontal', 'vertical', 'none'], description: "Which grid lines are drawn" },
+    gridColor: { type: Type.STRING },
+    gridDash: lineDash,
+    axisColor: { type: Type.STRING },
+    axisLine: { type: Type.BOOLEAN, description: "Whether the axis baselines are drawn" },
+    legendPosition: { type: Type.STRING, enum: ['top', 'bottom', 'left', 'right', 'none'] },
+    barRadius: { type: Type.NUMBER, description: "Rounded bar corner radius in px, 0 for square bars" },
+    lineDash: lineDash,
+    lineWidth: { type: Type.NUMBER, description: "Line width in px" },
+    marker: { type: Type.STRING, enum: ['circle', 'square', 'triangle', 'diamond', 'none'], description: "Point shape on lines and scatter plots" }
+  }
+};
+
+const transformsSchema = {
+  type: Type.ARRAY,
+  description: "New data transform steps to append before charting, e.g. dropping missing values or deriving a column. Omit when the columns already fit.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      type: { type: Type.STRING, enum: ['filter', 'filterValues', 'derive', 'rename', 'cast', 'bin', 'datePart', 'dedupe'] },
+      expression: { type: Type.STRING, description: "filter: condition to keep rows; derive: value of the new column" },
+      column: { type: Type.STRING, description: "Source column (filterValues, cast, bin, datePart) or new column name (derive)" },
+      operator: { type: Type.STRING, enum: ['in', 'notIn', 'missing', 'notMissing'] },
+      values: { type: Type.ARRAY, items: { type: Type.STRING }, description: "filterValues with in/notIn" },
+      from: { type: Type.STRING, description: "rename: current column name" },
+      to: { type: Type.STRING, description: "rename: new column name; cast: number, string, boolean or date" },
+      as: { type: Type.STRING, description: "bin/datePart: name of the new column" },
+      breaks: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "bin: increasing edges, e.g. [0, 18, 40, 65, 100]" },
+      part: { type: Type.STRING, enum: ['year', 'quarter', 'month', 'monthName', 'weekday', 'day', 'hour', 'date'] },
+      columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "dedupe: columns that identify a duplicate; omit for whole rows" }
+    },
+    required: ["type"]
+  }
+};
+
+const describeTransforms = (steps: TransformStep[]) =>
+  steps.length > 0 ? JSON.stringify(steps) : 'None';
+
+const TRANSFORM_GUIDE = `Expressions support + - * / %, == != < <= > >=, and/or/not, "strings", numbers, true/false/null,
+       column names (in backticks when they contain spaces) and the functions ${Object.keys(FUNCTIONS).join(', ')}.
+       Example: {"type": "derive", "column": "FamilySize", "expression": "SibSp + Parch + 1"}`;
+
+// Shared by follow-up calls that edit an existing config
+export const refineSchema = {
+  type: Type.OBJECT,
+  properties: {
+    chartType: { type: Type.STRING, enum: Object.values(ChartType) },
+    xAxisKey: { type: Type.STRING },
+    yAxisKey: { type: Type.STRING },
+    seriesKeys: { type: Type.ARRAY, items: { type: Type.STRING } },
+    groupBy: { type: Type.STRING },
+    aggregation: aggregationSchema,
+    barMode: { type: Type.STRING, enum: ['grouped', 'stacked'], description: "Layout of groupBy series in bar charts" },
+    seriesOptions: seriesOptionsSchema,
+    binning: binningSchema,
+    timeSeries: timeSeriesSchema,
+    trendLine: trendLineSchema,
+    referenceLines: referenceLinesSchema,
+    annotations: annotationsSchema,
+    colorKey: { type: Type.STRING, description: "Heatmap only: numeric column aggregated into the cell color; omit to count rows" },
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    xLabel: { type: Type.STRING },
+    yLabel: { type: Type.STRING },
+    colors: { type: Type.ARRAY, items: { type: Type.STRING } },
+    theme: themeSchema,
+    rCode: { type: Type.STRING, description: "Optional AI-enhanced R script" },
+    pythonCode: { type: Type.STRING, description: "Optional AI-enhanced Python script" },
+    transforms: transformsSchema
+  },
+  required: ["chartType", "xAxisKey", "yAxisKey", "title"]
+};
+
+export const analyzeSchema = {
+  type: Type.OBJECT,
+  properties: {
+    chartType: { type: Type.STRING, enum: Object.values(ChartType) },
+    xAxisKey: { type: Type.STRING, description: "Key from data to use for X axis" },
+    yAxisKey: { type: Type.STRING, description: "Key from data to use for Y axis (primary metric)" },
+    seriesKeys: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Array of keys for multiple lines/bars if applicable" },
+    groupBy: { type: Type.STRING, description: "Key to group by for colors (e.g., 'Pclass' or 'Sex')" },
+    aggregation: aggregationSchema,
+    barMode: { type: Type.STRING, enum: ['grouped', 'stacked'], description: "Layout of groupBy series in bar charts" },
+    seriesOptions: seriesOptionsSchema,
+    binning: binningSchema,
+    timeSeries: timeSeriesSchema,
+    trendLine: trendLineSchema,
+    referenceLines: referenceLinesSchema,
+    annotations: annotationsSchema,
+    colorKey: { type: Type.STRING, description: "Heatmap only: numeric column aggregated into the cell color; omit to count rows" },
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    xLabel: { type: Type.STRING },
+    yLabel: { type: Type.STRING },
+    colors: { type: Type.ARRAY, items: { type: Type.STRING } },
+    theme: themeSchema,
+    rCode: { type: Type.STRING, description: "Optional AI-enhanced R script using ggplot2" },
+    pythonCode: { type: Type.STRING, description: "Optional AI-enhanced Python script using seaborn/matplotlib" },
+    transforms: transformsSchema
+  },
+  required: ["chartType", "xAxisKey", "yAxisKey", "title"]
+};
+
+export const buildAnalyzePrompt = (
+  userPrompt: string, columns: string[], dataSample: any[], profile: DataColumn[], transforms: TransformStep[]
+) => `
+    You are an expert Data Visualization Engineer. 
+    
+    Task:
+    1. Analyze the provided dataset structure (columns, inferred column profile and sample data).
+       Respect the inferred column types: never use an "id" column as a metric, and prefer "number" columns for numeric axes.
+    2. If an image is provided, analyze the chart type and layout, and read its full visual style into "theme": palette, background, fonts and sizes,
+       grid lines, axis styling, legend position, bar corner radius, line dash and markers. Put the series colors in theme.palette rather than "colors".
+    3. Generate a configuration to recreate a similar visualization using the provided dataset.
+    4. If no image is provided, suggest the best chart type based on the data and user prompt.
+    5. Use "groupBy" to split the chart into one colored series per category (the fill=/hue= mapping in R/Python); set "barMode" to "grouped" or "stacked" for bar charts.
+    6. For "radar" charts, xAxisKey holds the spokes and each series becomes one polygon. For "composed" charts, list every series in "seriesKeys" and use "seriesOptions" to give each one a mark (bar/line/area) and an axis (left/right), e.g. for dual-axis charts.
+    7. For distributions use "histogram" (xAxisKey = numeric column, optional "binning" and groupBy), "box" or "violin" (xAxisKey = category, yAxisKey = numeric column), and "heatmap" (xAxisKey and yAxisKey = categories, "colorKey" = numeric column aggregated with aggregation.func).
+    8. If several rows share an X value (e.g. Fare by Pclass), set "aggregation" (sum, mean, median, min, max, count, countDistinct, optional sorting and topN).
+       Use yAxisKey "count" with func "count" to count rows.
+    9. Plain R and Python code is generated locally from the configuration. Only fill "rCode" (ggplot2) and "pythonCode" (matplotlib/seaborn) if you can add something beyond it, such as styling the theme cannot express.
+    10. If the chart needs data the columns do not hold directly (a derived column, age ranges, rows without missing values, a year from a date),
+       propose "transforms" steps. Axis keys may then use the columns those steps create.
+       ${TRANSFORM_GUIDE}
+    11. When xAxisKey is a date or datetime column, line, area, bar, composed and scatter charts get a time axis. Use "timeSeries" to resample into
+       day/week/month/quarter/year periods, and for running totals (cumulative), moving averages or sums (rolling) and period-over-period change.
+    12. Use "trendLine" (linear, polynomial or loess, optional confidence band) instead of adding geom_smooth/regplot to the code, and "referenceLines"
+       for averages, medians and targets; both are drawn in the preview and in the generated code.
+    13. Use "annotations" for callouts the user asks for: "text" or "arrow" at an x/y point (y "max" or "min" marks the extreme value),
+       "highlight" to emphasize one category, and "range" to shade a span of X (e.g. a date period) or Y.
+
+    User Prompt: ${userPrompt}
+    Data Columns: ${JSON.stringify(columns)}
+    Column Profile (name (type), nulls, distinct values, range):
+${profile.length > 0 ? describeProfile(profile) : 'Not available'}
+    Data Sample (First 3 rows): ${JSON.stringify(dataSample.slice(0, 3))}
+    Transform steps already applied: ${describeTransforms(transforms)}
+  `;
+
+export const buildRefinePrompt = (currentConfig: VisualizationConfig, userPrompt: string, transforms: TransformStep[]) => `
+    Current Configuration: ${JSON.stringify(currentConfig)}
+    Transform steps already applied: ${describeTransforms(transforms)}
+    User Update Request: "${userPrompt}"
+
+    Update the visualization configuration based on the user's request. 
+    Keep honoring the instructions from earlier turns of this conversation unless the user overrides them.
+    You can change the chart type, axis keys, groupBy/barMode, per-series marks and axes (seriesOptions), histogram binning, heatmap colorKey, aggregation, date resampling and rolling statistics (timeSeries), trend lines (trendLine), reference lines (referenceLines), annotations such as "mark the max value" or "shade 2020" (annotations), titles, colors, or the visual style (theme).
+    Pick colors that stay distinct with color blindness and have at least 3:1 contrast against the chart background.
+    If the request needs new or reshaped data (filtering rows, a derived column, ranges, date parts), add only the new steps in "transforms".
+       ${TRANSFORM_GUIDE}
+    If the current configuration has rCode or pythonCode, update them to reflect these changes; otherwise leave them out.
+  `;
+
+export const buildRepairPrompt = (config: VisualizationConfig, issues: ConfigIssue[], profile: DataColumn[]) => `
+    The following visualization configuration does not match the dataset it is meant to plot.
+    Configuration: ${JSON.stringify(config)}
+
+    Problems found:
+${issues.map(issue => `    - ${issue.field}: ${issue.message}`).join('\n')}
+
+    Available columns (name (type), nulls, distinct values, range):
+${describeProfile(profile)}
+
+    Fix only these problems. Use exact column names from the list above and valid CSS colors.
+    Keep everything else (chart intent, titles, aggregation) unchanged, and update any rCode or pythonCode to match.
+  `;
+
+export const parseConfigResponse = (text: string | undefined): ConfigProposal => {
+  if (!text) {
+    throw new Error("No response from AI");
+  }
+  // Some self-hosted models wrap JSON in a markdown fence despite the response format
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(json) as ConfigProposal;
+};
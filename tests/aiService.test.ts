@@ -0,0 +1,20 @@
+import { afterEach, expect, it, vi } from 'vitest';
+import { DEFAULT_AI_SETTINGS, loadAISettings } from '../services/aiService';
+
+const storeSettings = (settings: unknown) => {
+  vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(settings) });
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+it('loads stored settings for a known provider', () => {
+  storeSettings({ ...DEFAULT_AI_SETTINGS, provider: 'offline' });
+  expect(loadAISettings().provider).toBe('offline');
+});
+
+it.each(['constructor', 'toString', 'missing'])('falls back to the defaults for a stored provider named %s', provider => {
+  storeSettings({ ...DEFAULT_AI_SETTINGS, provider });
+  expect(loadAISettings()).toEqual(DEFAULT_AI_SETTINGS);
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { ChartType, Dataset } from '../types';
+import { joinDatasets, unionDatasets } from '../utils/joins';
+import { applyTransforms } from '../utils/transforms';
+import { createDataset } from '../utils/profiler';
+import { generatePythonCode } from '../utils/pythonCode';
+import { generateRCode } from '../utils/rCode';
+import { validateConfig } from '../utils/validation';
+import { CHART_CONFIGS, salesDataset } from './fixtures';
+
+const dataset = salesDataset();
+
+describe.each(Object.values(ChartType))('%s chart', chartType => {
+  const config = CHART_CONFIGS[chartType];
+
+  it('is a valid fixture', () => {
+    expect(validateConfig(config, dataset).filter(issue => issue.severity === 'error')).toEqual([]);
+  });
+
+  it('generates R code', () => {
+    const code = generateRCode(config, dataset);
+    expect(code).toContain('read.csv("sales.csv"');
+    expect(code).toMatchSnapshot();
+  });
+
+  it('generates Python code', () => {
+    const code = generatePythonCode(config, dataset);
+    expect(code).toContain('pd.read_csv("sales.csv"');
+    expect(code).toMatchSnapshot();
+  });
+});
+
+describe('tables read from uploads', () => {
+  const targets = (): Dataset => ({
+    ...createDataset('targets.xlsx [2024]', [{ Region: 'North', Target: 500 }, { Region: 'South', Target: 400 }], ['Region', 'Target']),
+    file: { name: 'targets.xlsx', format: 'excel', sheet: '2024' }
+  });
+  // A second upload of sales.csv, renamed in the catalog
+  const renamed = (): Dataset => ({ ...salesDataset(), name: 'sales.csv (2)', file: { name: 'sales.csv', format: 'delimited' } });
+  const config = { ...CHART_CONFIGS[ChartType.BAR], groupBy: undefined, barMode: undefined };
+
+  it('reads each source of a derived table from its own file with the reader for its format', () => {
+    const stacked = unionDatasets([{ ...salesDataset(), file: { name: 'sales.csv', format: 'delimited' } }, renamed()], 'Source').dataset;
+    const joined = joinDatasets(stacked, targets(), { how: 'left', leftKeys: ['Region'], rightKeys: ['Region'] }).dataset;
+
+    const r = generateRCode(config, joined);
+    expect(r).toContain('library(readxl)');
+    expect(r).toContain('read_excel("targets.xlsx", sheet = "2024")');
+    expect(r.match(/read\.csv\("sales\.csv", check\.names = FALSE\)/g)).toHaveLength(1);
+    expect(r).not.toMatch(/read[^\n]*sales[^\n]*2/);
+
+    const python = generatePythonCode(config, joined);
+    expect(python).toContain('pd.read_excel("targets.xlsx", sheet_name="2024")');
+    expect(python.match(/pd\.read_csv\("sales\.csv"\)/g)).toHaveLength(1);
+    expect(python).not.toMatch(/read[^\n]*sales[^\n]*2/);
+  });
+
+  it('keeps the source file of an upload with transform steps', () => {
+    const upload: Dataset = {
+      ...salesDataset(),
+      file: { name: 'sales.xlsx', format: 'excel' },
+      transforms: [{ type: 'filterValues', column: 'Region', operator: 'in', values: ['North', 'South'] }]
+    };
+    const { dataset: working } = applyTransforms(upload);
+
+    const r = generateRCode(config, working);
+    expect(r).toContain('df <- read_excel("sales.xlsx")');
+    expect(r).toContain('filter(Region %in% c("North", "South"))');
+    expect(generatePythonCode(config, working)).toContain('df = pd.read_excel("sales.xlsx")');
+  });
+
+  it('keeps the merge code of a joined table with transform steps', () => {
+    const sales: Dataset = { ...salesDataset(), file: { name: 'sales.csv', format: 'delimited' } };
+    const joined = joinDatasets(sales, targets(), { how: 'inner', leftKeys: ['Region'], rightKeys: ['Region'] }).dataset;
+    const { dataset: working } = applyTransforms({ ...joined, transforms: [{ type: 'filter', expression: 'Revenue > Target' }] });
+
+    const r = generateRCode(config, working);
+    expect(r).toContain('sales <- read.csv("sales.csv", check.names = FALSE)');
+    expect(r).toContain('df <- inner_join(sales, targets_2024');
+    expect(r).toContain('filter(Revenue > Target)');
+    const python = generatePythonCode(config, working);
+    expect(python).toContain('targets_2024 = pd.read_excel("targets.xlsx", sheet_name="2024")');
+    expect(python).toContain('df = sales.merge(targets_2024');
+  });
+
+  it.each([
+    [{ name: 'sales.parquet', format: 'parquet' }, 'read_parquet("sales.parquet")', 'pd.read_parquet("sales.parquet")'],
+    [{ name: 'sales.json', format: 'json' }, 'fromJSON("sales.json", flatten = TRUE)', 'pd.read_json("sales.json")'],
+    [{ name: 'sales.ndjson', format: 'json' }, 'stream_in(file("sales.ndjson"))', 'pd.read_json("sales.ndjson", lines=True)'],
+    [{ name: 'sales.tsv', format: 'delimited', delimiter: '\t' }, 'read.csv("sales.tsv", sep = "\\t", check.names = FALSE)', 'pd.read_csv("sales.tsv", sep="\\t")'],
+    [{ name: 'sales.txt', format: 'delimited', delimiter: '|' }, 'read.csv("sales.txt", sep = "|", check.names = FALSE)', 'pd.read_csv("sales.txt", sep="|")'],
+    [
+      { name: 'sales.csv', format: 'delimited', delimiter: ';', decimal: ',' },
+      'read.csv2("sales.csv", check.names = FALSE)',
+      'pd.read_csv("sales.csv", sep=";", decimal=",")'
+    ],
+    [
+      { name: 'sales.csv', format: 'delimited', delimiter: ';', decimal: ',', thousands: '.' },
+      'read_delim("sales.csv", delim = ";", locale = locale(decimal_mark = ",", grouping_mark = "."))',
+      'pd.read_csv("sales.csv", sep=";", decimal=",", thousands=".")'
+    ]
+  ] as const)('reads %o with the matching reader', (file, rRead, pythonRead) => {
+    const dataset = { ...salesDataset(), file };
+    expect(generateRCode(config, dataset)).toContain(`df <- ${rRead}`);
+    expect(generatePythonCode(config, dataset)).toContain(`df = ${pythonRead}`);
+  });
+});
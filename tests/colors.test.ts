@@ -0,0 +1,11 @@
+import { expect, it } from 'vitest';
+import { PREVIEW_BACKGROUND, checkColors } from '../utils/accessibility';
+import { COLORBLIND_PALETTES, DEFAULT_COLORS } from '../utils/colors';
+
+it('uses a default palette that passes the color checks', () => {
+  expect(checkColors(DEFAULT_COLORS, PREVIEW_BACKGROUND)).toEqual([]);
+});
+
+it.each(COLORBLIND_PALETTES.map(p => [p.name, p.colors] as const))('offers %s as a palette that passes the color checks', (_, colors) => {
+  expect(checkColors(colors, PREVIEW_BACKGROUND)).toEqual([]);
+});
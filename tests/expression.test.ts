@@ -0,0 +1,20 @@
+import { expect, it } from 'vitest';
+import { compileExpression, parseExpression } from '../utils/expression';
+import { normalizeProposedSteps } from '../utils/transforms';
+import { salesDataset } from './fixtures';
+
+it('rejects object prototype keys as function names', () => {
+  for (const name of ['constructor', 'toString', 'hasOwnProperty']) {
+    expect(() => parseExpression(`${name}(1)`)).toThrow(`Unknown function "${name}"`);
+  }
+});
+
+it('reads prototype keys as column names', () => {
+  expect(parseExpression('constructor')).toEqual({ kind: 'column', name: 'constructor' });
+  expect(compileExpression('toString + 1').evaluate({ toString: 2 })).toBe(3);
+});
+
+it('drops proposed steps whose type is an object prototype key', () => {
+  const steps = [{ type: 'toString' }, { type: 'constructor' }, { type: 'filter', expression: 'Units > 20' }];
+  expect(normalizeProposedSteps(steps, salesDataset())).toEqual([{ type: 'filter', expression: 'Units > 20' }]);
+});
@@ -0,0 +1,67 @@
+import { ChartType, Dataset, VisualizationConfig } from '../types';
+import { createDataset } from '../utils/profiler';
+
+const REGIONS = ['North', 'South', 'East'];
+const PRODUCTS = ['Basic', 'Pro'];
+
+// Two years of monthly sales per region and product, with values derived from the row index so snapshots stay stable
+export const salesDataset = (): Dataset => {
+  const rows: any[] = [];
+  for (let month = 0; month < 24; month++) {
+    const date = `${2023 + Math.floor(month / 12)}-${String((month % 12) + 1).padStart(2, '0')}-01`;
+    REGIONS.forEach((region, r) => PRODUCTS.forEach((product, p) => {
+      const units = 10 + ((month * 7 + r * 5 + p * 3) % 23);
+      rows.push({ Date: date, Region: region, Product: product, Units: units, Revenue: units * (p === 0 ? 12 : 30), Cost: units * (p === 0 ? 7 : 18) });
+    }));
+  }
+  return createDataset('sales.csv', rows, ['Date', 'Region', 'Product', 'Units', 'Revenue', 'Cost']);
+};
+
+const base = { title: 'Sales', description: 'Fixture chart', xLabel: 'X label', yLabel: 'Y label' };
+
+// One config per chart type, each with a group split, axis labels and chosen colors where the type takes them;
+// box and violin plots have no group split, pies no Y axis
+export const CHART_CONFIGS: Record<ChartType, VisualizationConfig> = {
+  [ChartType.BAR]: {
+    ...base, chartType: ChartType.BAR, xAxisKey: 'Region', yAxisKey: 'Revenue', seriesKeys: ['Revenue'], groupBy: 'Product',
+    aggregation: { func: 'sum' }, barMode: 'stacked', colors: ['#0072b2', '#e69f00']
+  },
+  [ChartType.LINE]: {
+    ...base, chartType: ChartType.LINE, xAxisKey: 'Date', yAxisKey: 'Revenue', seriesKeys: ['Revenue'], groupBy: 'Region',
+    aggregation: { func: 'sum' }, timeSeries: { resample: 'quarter' }, colors: ['#0072b2', '#e69f00', '#009e73']
+  },
+  [ChartType.SCATTER]: {
+    ...base, chartType: ChartType.SCATTER, xAxisKey: 'Units', yAxisKey: 'Revenue', groupBy: 'Product', colors: ['#0072b2', '#d55e00']
+  },
+  [ChartType.AREA]: {
+    ...base, chartType: ChartType.AREA, xAxisKey: 'Date', yAxisKey: 'Revenue', seriesKeys: ['Revenue', 'Cost'],
+    aggregation: { func: 'sum' }, colors: ['#56b4e9', '#cc79a7']
+  },
+  [ChartType.PIE]: {
+    ...base, yLabel: undefined, chartType: ChartType.PIE, xAxisKey: 'Region', yAxisKey: 'Revenue', seriesKeys: ['Revenue'],
+    aggregation: { func: 'sum' }, colors: ['#0072b2', '#e69f00', '#009e73']
+  },
+  [ChartType.RADAR]: {
+    ...base, chartType: ChartType.RADAR, xAxisKey: 'Region', yAxisKey: 'Units', seriesKeys: ['Units'], groupBy: 'Product',
+    aggregation: { func: 'mean' }, colors: ['#0072b2', '#e69f00']
+  },
+  [ChartType.COMPOSED]: {
+    ...base, chartType: ChartType.COMPOSED, xAxisKey: 'Region', yAxisKey: 'Revenue', seriesKeys: ['Revenue', 'Units'],
+    aggregation: { func: 'sum' }, seriesOptions: [{ key: 'Revenue', mark: 'bar' }, { key: 'Units', mark: 'line', axis: 'right' }],
+    colors: ['#0072b2', '#d55e00']
+  },
+  [ChartType.HISTOGRAM]: {
+    ...base, chartType: ChartType.HISTOGRAM, xAxisKey: 'Revenue', yAxisKey: '', groupBy: 'Product', binning: { bins: 8 },
+    colors: ['#0072b2', '#e69f00']
+  },
+  [ChartType.BOX]: {
+    ...base, chartType: ChartType.BOX, xAxisKey: 'Region', yAxisKey: 'Revenue', colors: ['#0072b2']
+  },
+  [ChartType.HEATMAP]: {
+    ...base, chartType: ChartType.HEATMAP, xAxisKey: 'Region', yAxisKey: 'Product', colorKey: 'Revenue',
+    aggregation: { func: 'sum' }, colors: ['#f0f9ff', '#0072b2']
+  },
+  [ChartType.VIOLIN]: {
+    ...base, chartType: ChartType.VIOLIN, xAxisKey: 'Region', yAxisKey: 'Revenue', colors: ['#0072b2']
+  }
+};
@@ -0,0 +1,22 @@
+import { expect, it } from 'vitest';
+import { parseDelimitedText } from '../utils/parsers';
+
+it('records a comma-separated file without a dialect', () => {
+  expect(parseDelimitedText('Region,Units\nNorth,3\nSouth,4').dialect).toBeUndefined();
+});
+
+it('records the delimiter of a pipe-separated file', () => {
+  expect(parseDelimitedText('Region|Units\nNorth|3\nSouth|4').dialect).toEqual({ delimiter: '|' });
+});
+
+it('records decimal commas in a semicolon file', () => {
+  const table = parseDelimitedText('Region;Price\nNorth;3,5\nSouth;4,25');
+  expect(table.data.map(row => row.Price)).toEqual([3.5, 4.25]);
+  expect(table.dialect).toEqual({ delimiter: ';', decimal: ',' });
+});
+
+it('records digits grouped with dots next to decimal commas', () => {
+  const table = parseDelimitedText('Region;Price\nNorth;1.234,5\nSouth;4,25');
+  expect(table.data.map(row => row.Price)).toEqual([1234.5, 4.25]);
+  expect(table.dialect).toEqual({ delimiter: ';', decimal: ',', thousands: '.' });
+});
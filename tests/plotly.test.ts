@@ -0,0 +1,10 @@
+import { expect, it } from 'vitest';
+import { ChartType } from '../types';
+import { generatePlotlyFigure } from '../utils/plotly';
+import { CHART_CONFIGS, salesDataset } from './fixtures';
+
+const dataset = salesDataset();
+
+it.each(Object.values(ChartType))('builds the Plotly figure for a %s chart', chartType => {
+  expect(generatePlotlyFigure(CHART_CONFIGS[chartType], dataset)).toMatchSnapshot();
+});
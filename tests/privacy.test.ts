@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { ChartType, PrivacySettings, TransformStep, VisualizationConfig } from '../types';
+import { createDataset } from '../utils/profiler';
+import { DEFAULT_PRIVACY, buildPayload, detectPii, protectConfig, protectIssues, restoreConfig } from '../utils/privacy';
+import { validateConfig } from '../utils/validation';
+
+const dataset = createDataset('people.csv', [
+  { Name: 'Jane Doe', Email: 'jane@example.com', Team: 'Red', Salary: 52000 },
+  { Name: 'John Roe', Email: 'john@example.com', Team: 'Blue', Salary: 61000 }
+], ['Name', 'Email', 'Team', 'Salary']);
+const pii = detectPii(dataset);
+const privacy: PrivacySettings = { ...DEFAULT_PRIVACY, columns: { Email: 'exclude' } };
+
+describe('buildPayload', () => {
+  const payload = (steps: TransformStep[]) => buildPayload(dataset, steps, privacy, pii).transforms;
+
+  it('masks literals in expressions over masked columns', () => {
+    expect(payload([{ type: 'filter', expression: 'Name == "Jane Doe" and Salary > 50000' }]))
+      .toEqual([{ type: 'filter', expression: 'Name == "Xxxx Xxx" and Salary > 99999' }]);
+  });
+
+  it('keeps expressions over columns sent as they are', () => {
+    const steps: TransformStep[] = [{ type: 'derive', column: 'Monthly', expression: '`Salary` / 12' }];
+    expect(payload(steps)).toEqual(steps);
+  });
+
+  it('leaves out steps that name excluded columns', () => {
+    expect(payload([
+      { type: 'filter', expression: 'is_missing(Email)' },
+      { type: 'filterValues', column: 'Email', operator: 'in', values: ['jane@example.com'] },
+      { type: 'rename', from: 'Email', to: 'Contact' },
+      { type: 'dedupe', columns: ['Email', 'Team'] }
+    ])).toEqual([{ type: 'dedupe', columns: ['Team'] }]);
+  });
+});
+
+describe('protectConfig', () => {
+  const config: VisualizationConfig = {
+    chartType: ChartType.BAR, xAxisKey: 'Name', yAxisKey: 'Salary', groupBy: 'Email', title: 'Pay', description: '',
+    referenceLines: [{ axis: 'y', value: 'mean', label: 'Average' }],
+    annotations: [{ type: 'text', x: 'Jane Doe', y: 'max', text: 'Jane' }],
+    rCode: 'df <- read.csv("people.csv")'
+  };
+  const sent = protectConfig(config, privacy, pii);
+
+  it('drops generated code, renames excluded columns and masks values of masked columns', () => {
+    expect(sent).not.toHaveProperty('rCode');
+    expect(sent.groupBy).toBe('excluded column 1');
+    expect(sent.annotations).toEqual([{ type: 'text', x: 'Xxxx Xxx', y: 'max', text: 'Xxxx' }]);
+    expect(sent.referenceLines).toEqual([{ axis: 'y', value: 'mean', label: 'Xxxxxxx' }]);
+    expect(JSON.stringify(sent)).not.toMatch(/Jane|Email/);
+  });
+
+  it('restores what the model returned unchanged', () => {
+    const proposed = { ...sent, title: 'Pay by person', chartType: ChartType.LINE };
+    expect(restoreConfig(proposed, sent, config)).toEqual({ ...config, rCode: undefined, title: 'Pay by person', chartType: ChartType.LINE });
+  });
+});
+
+describe('protectIssues', () => {
+  it('renames excluded columns and masks values in the issues sent for repair', () => {
+    const config: VisualizationConfig = {
+      chartType: ChartType.BAR, xAxisKey: 'Team', yAxisKey: 'Email', title: 'Contacts', description: '',
+      referenceLines: [{ axis: 'y', value: 'jane@example.com' }]
+    };
+    const sent = protectConfig(config, privacy, pii);
+    const messages = protectIssues(validateConfig(config, dataset), config, sent).map(issue => issue.message);
+
+    expect(messages).toContain('"excluded column 1" is string, but it is plotted as a numeric value');
+    expect(messages).toContain('"xxxx@xxxxxxx.xxx" is not a number, "mean" or "median"');
+    expect(messages.join('\n')).not.toMatch(/Email|jane/);
+  });
+});
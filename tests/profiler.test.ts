@@ -0,0 +1,41 @@
+import { expect, it } from 'vitest';
+import { ChartType } from '../types';
+import { createDataset, profileColumn } from '../utils/profiler';
+import { validateConfig } from '../utils/validation';
+
+// Twelve rows in which Year, Month and Temp each climb by exactly one
+const climate = () => {
+  const rows = Array.from({ length: 12 }, (_, i) => ({ Year: 2005 + i, Month: i + 1, Temp: 5 + i, Sales: 100 + ((i * 37) % 50) }));
+  return createDataset('climate.csv', rows, ['Year', 'Month', 'Temp', 'Sales']);
+};
+
+it.each(['Year', 'Month', 'Temp'])('types a steadily rising %s column as a number', column => {
+  expect(climate().profile.find(c => c.name === column)?.type).toBe('number');
+});
+
+it('lets a year column be charted as a measure', () => {
+  const config = { chartType: ChartType.SCATTER, title: 'Sales by year', description: '', xAxisKey: 'Year', yAxisKey: 'Sales' };
+  expect(validateConfig(config, climate()).filter(issue => issue.severity === 'error')).toEqual([]);
+});
+
+it.each([
+  ['Unnamed: 0', 0],
+  ['index', 1],
+  ['...1', 1]
+])('types a %s row number column as an id', (name, start) => {
+  const rows = Array.from({ length: 5 }, (_, i) => ({ [name]: start + i }));
+  expect(profileColumn(name, rows).type).toBe('id');
+});
+
+it('keeps a row number column with gaps as a number', () => {
+  const rows = [1, 2, 3, null, 5].map(index => ({ index }));
+  expect(profileColumn('index', rows).type).toBe('number');
+});
+
+it.each(['passenger_id', 'orderId', 'ID'])('types integer %s values as an id', name => {
+  expect(profileColumn(name, [{ [name]: 7 }, { [name]: 3 }, { [name]: 12 }]).type).toBe('id');
+});
+
+it.each(['Paid', 'Grid'])('keeps %s as a number', name => {
+  expect(profileColumn(name, [{ [name]: 7 }, { [name]: 3 }, { [name]: 12 }]).type).toBe('number');
+});
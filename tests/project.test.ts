@@ -0,0 +1,12 @@
+import { expect, it } from 'vitest';
+import { createProject, validateProject } from '../utils/project';
+
+it('accepts a new project', () => {
+  expect(validateProject(createProject())).toEqual([]);
+});
+
+it.each(['constructor', 'toString', 'public'])('rejects a privacy mode named %s', mode => {
+  const project = createProject();
+  expect(validateProject({ ...project, privacy: { ...project.privacy, mode } }))
+    .toEqual(['privacy must have a known mode and a columns object']);
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { ChartType, VisualizationConfig } from '../types';
+import { formatSpec, generateVegaLiteSpec, parseVegaLiteSpec } from '../utils/vegaLite';
+import { CHART_CONFIGS, salesDataset } from './fixtures';
+
+const dataset = salesDataset();
+
+const roundTrip = (config: VisualizationConfig) => parseVegaLiteSpec(formatSpec(generateVegaLiteSpec(config, dataset)));
+
+// A single series may be written as seriesKeys or left to yAxisKey; both draw the same chart
+const normalize = (config: VisualizationConfig) => {
+  const { seriesKeys, ...rest } = config;
+  return seriesKeys?.length === 1 && seriesKeys[0] === config.yAxisKey ? rest : config;
+};
+
+// Overlays and styling on top of the per-type fixtures
+const EXTRA_CONFIGS: Record<string, VisualizationConfig> = {
+  'scatter with a trend line and reference lines': {
+    ...CHART_CONFIGS[ChartType.SCATTER],
+    trendLine: { method: 'polynomial', degree: 3 },
+    referenceLines: [{ axis: 'y', value: 500, label: 'Target' }, { axis: 'x', value: 'mean' }]
+  },
+  'bar with top N, value sort and a theme': {
+    ...CHART_CONFIGS[ChartType.BAR],
+    groupBy: undefined,
+    barMode: undefined,
+    colors: undefined,
+    aggregation: { func: 'mean', sortBy: 'value', sortOrder: 'asc', topN: 2, otherLabel: 'Rest' },
+    theme: { palette: ['#0072b2', '#e69f00'], background: '#ffffff', fontSize: 13, gridColor: '#dddddd' }
+  },
+  'bar with annotations': {
+    ...CHART_CONFIGS[ChartType.BAR],
+    annotations: [
+      { type: 'text', x: 'North', y: 900, text: 'Peak' },
+      { type: 'arrow', x: 'South', y: 400, text: 'Dip', color: '#d55e00' },
+      { type: 'highlight', x: 'East' },
+      { type: 'range', axis: 'y', from: 200, to: 600, text: 'Band' }
+    ]
+  }
+};
+
+describe.each(Object.values(ChartType).filter(type => type !== ChartType.RADAR))('%s chart', chartType => {
+  const config = CHART_CONFIGS[chartType];
+
+  it('keeps every field through a Vega-Lite round trip', () => {
+    const { config: imported, notes } = roundTrip(config);
+    expect(notes).toEqual([]);
+    expect(normalize(imported)).toEqual(normalize(config));
+  });
+});
+
+describe.each(Object.entries(EXTRA_CONFIGS))('%s', (_, config) => {
+  it('keeps every field through a Vega-Lite round trip', () => {
+    const { config: imported, notes } = roundTrip(config);
+    expect(notes).toEqual([]);
+    expect(normalize(imported)).toEqual(normalize(config));
+  });
+});
+
+it('explains that radar charts have no Vega-Lite equivalent', () => {
+  expect(() => generateVegaLiteSpec(CHART_CONFIGS[ChartType.RADAR], dataset)).toThrow(/Plotly/);
+});
+
+it('puts the second layer of a spec with independent Y scales on the right axis', () => {
+  const spec = {
+    data: { values: [] },
+    encoding: { x: { field: 'Region', type: 'nominal' } },
+    layer: [
+      { mark: 'bar', encoding: { y: { field: 'Revenue', aggregate: 'sum', type: 'quantitative' } } },
+      { mark: 'line', encoding: { y: { field: 'Units', aggregate: 'sum', type: 'quantitative' } } }
+    ],
+    resolve: { scale: { y: 'independent' } }
+  };
+  const { config, notes } = parseVegaLiteSpec(JSON.stringify(spec));
+  expect(notes).toEqual([]);
+  expect(config.seriesOptions).toEqual([{ key: 'Revenue', mark: 'bar' }, { key: 'Units', mark: 'line', axis: 'right' }]);
+});
@@ -5,12 +5,126 @@ export enum ChartType {
   AREA = 'area',
   PIE = 'pie',
   RADAR = 'radar',
-  COMPOSED = 'composed'
+  COMPOSED = 'composed',
+  HISTOGRAM = 'histogram',
+  BOX = 'box',
+  HEATMAP = 'heatmap',
+  VIOLIN = 'violin'
 }
 
+export type ColumnType = 'number' | 'string' | 'date' | 'datetime' | 'boolean' | 'id';
+
+// How a date column is written: ISO year-first, numeric day-first or month-first, or with month names
+export type DateFormat = 'iso' | 'dmy' | 'mdy' | 'text';
+
 export interface DataColumn {
   name: string;
-  type: 'number' | 'string' | 'date';
+  type: ColumnType;
+  nullCount: number;
+  distinctCount: number;
+  min?: number | string; // Numbers for numeric columns, ISO strings for dates
+  max?: number | string;
+  mean?: number; // For booleans this is the share of true values
+  dateFormat?: DateFormat; // Date and datetime columns only
+}
+
+export type AggregateFunction = 'sum' | 'mean' | 'median' | 'min' | 'max' | 'count' | 'countDistinct';
+
+export interface AggregationConfig {
+  func: AggregateFunction;
+  sortBy?: 'x' | 'value' | 'none'; // 'none' keeps first-appearance order
+  sortOrder?: 'asc' | 'desc';
+  topN?: number; // Keep the N largest x categories, the rest become otherLabel
+  otherLabel?: string;
+}
+
+export interface BinningConfig {
+  bins?: number; // Number of bins, ignored when binWidth is set
+  binWidth?: number;
+}
+
+export type TimeUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+// Applied to date X axes in this order: resample, cumulative, rolling, change
+export interface TimeSeriesConfig {
+  resample?: TimeUnit; // Bucket dates into periods, combined with aggregation.func (sum, or count without a Y column)
+  cumulative?: boolean; // Running total of each series
+  rolling?: { window: number; func: 'mean' | 'sum' }; // Over the last window points, empty until the window is full
+  change?: { kind: 'difference' | 'percent'; lag?: number }; // Against the point lag periods back, default 1
+}
+
+export type TrendMethod = 'linear' | 'polynomial' | 'loess';
+
+export interface TrendLineConfig {
+  method: TrendMethod;
+  degree?: number; // Polynomial order, default 2
+  span?: number; // LOESS share of points in each local fit, default 0.75
+  band?: boolean; // 95% confidence band around the fit
+  perGroup?: boolean; // One fit per series (default) or, when false, one over all points
+}
+
+export interface ReferenceLineConfig {
+  axis: 'x' | 'y';
+  value: number | string; // A number, a date or category on X, or "mean"/"median" of the plotted values
+  label?: string;
+}
+
+export type AnnotationType = 'text' | 'arrow' | 'highlight' | 'range';
+
+export interface ChartAnnotation {
+  type: AnnotationType;
+  text?: string; // Label; text and arrows fall back to the value they point at
+  x?: number | string; // text/arrow: X of the point (a number, date or category); highlight: the category
+  y?: number | string; // text/arrow: Y of the point, or "max"/"min" to anchor on the highest/lowest plotted value
+  axis?: 'x' | 'y'; // range: the axis the shaded band spans
+  from?: number | string; // range: start and end on that axis
+  to?: number | string;
+  color?: string;
+}
+
+export type LineDash = 'solid' | 'dashed' | 'dotted';
+
+export type MarkerShape = 'circle' | 'square' | 'triangle' | 'diamond' | 'none';
+
+export type LegendPosition = 'top' | 'bottom' | 'left' | 'right' | 'none';
+
+// Chart styling, usually read off a reference image; fields left out keep the app's own look
+export interface ChartTheme {
+  palette?: string[]; // Series colors when config.colors is not set
+  background?: string;
+  textColor?: string; // Tick labels, legend and title
+  fontFamily?: string;
+  fontSize?: number; // Tick and legend labels, px
+  titleSize?: number; // px
+  grid?: 'both' | 'horizontal' | 'vertical' | 'none'; // Which grid lines are drawn
+  gridColor?: string;
+  gridDash?: LineDash;
+  axisColor?: string;
+  axisLine?: boolean; // Draw the axis baselines
+  legendPosition?: LegendPosition;
+  barRadius?: number; // Top corner radius, px
+  lineDash?: LineDash;
+  lineWidth?: number; // px
+  marker?: MarkerShape; // Points on line charts and scatter plots
+}
+
+export interface SavedTheme {
+  name: string;
+  theme: ChartTheme;
+  createdAt: number;
+}
+
+export interface ChartSeries {
+  key: string; // dataKey in the processed rows
+  label: string; // Legend/tooltip name
+  metric: string; // yAxisKey/seriesKeys entry the values come from
+  group?: string; // groupBy value this series was pivoted from
+}
+
+export interface SeriesOptions {
+  key: string; // Matches a yAxisKey/seriesKeys entry
+  mark?: 'bar' | 'line' | 'area'; // Composed charts only
+  axis?: 'left' | 'right';
 }
 
 export interface VisualizationConfig {
@@ -19,23 +133,174 @@ export interface VisualizationConfig {
   yAxisKey: string; // For simple charts
   seriesKeys?: string[]; // For multi-line/bar
   groupBy?: string; // For categorizing colors
+  aggregation?: AggregationConfig; // Group rows by xAxisKey (and groupBy) before plotting
+  barMode?: 'grouped' | 'stacked'; // How bar charts lay out groupBy series
+  seriesOptions?: SeriesOptions[]; // Per-series mark and axis for composed charts
+  binning?: BinningConfig; // Histogram bins over xAxisKey
+  colorKey?: string; // Heatmap cell value, aggregated per xAxisKey/yAxisKey pair
+  timeSeries?: TimeSeriesConfig; // Date X axes only
+  trendLine?: TrendLineConfig; // Scatter plots, and line/area charts on a date axis
+  referenceLines?: ReferenceLineConfig[];
+  annotations?: ChartAnnotation[];
   title: string;
   description: string;
   colors?: string[];
+  theme?: ChartTheme;
   xLabel?: string;
   yLabel?: string;
   rCode?: string; // Generated R code
   pythonCode?: string; // Generated Python code
 }
 
+export interface ConfigIssue {
+  field: string;
+  message: string;
+  severity: 'error' | 'warning'; // Errors leave the chart empty or wrong, warnings are worth a look
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  revisionId?: string; // Revision this turn produced (model) or asked for (user)
 }
 
+export interface ConfigRevision {
+  id: string;
+  parentId: string | null; // Revisions form a tree so any earlier one can be branched from
+  prompt: string;
+  config: VisualizationConfig;
+  timestamp: number;
+}
+
+export interface RevisionState {
+  revisions: ConfigRevision[];
+  currentId: string | null;
+  redoStack: string[]; // Revisions left by undo, most recent last
+}
+
+export interface ConfigChange {
+  field: keyof VisualizationConfig;
+  before: unknown;
+  after: unknown;
+}
+
+export type FilterOperator = 'in' | 'notIn' | 'missing' | 'notMissing';
+
+export type CastType = 'number' | 'string' | 'boolean' | 'date';
+
+export type DatePart = 'year' | 'quarter' | 'month' | 'monthName' | 'weekday' | 'day' | 'hour' | 'date';
+
+// Row-level steps applied in order between loading and charting; expressions use utils/expression
+export type TransformStep =
+  | { type: 'filter'; expression: string } // Keep rows where the expression is true
+  | { type: 'filterValues'; column: string; operator: FilterOperator; values?: (string | number | boolean)[] }
+  | { type: 'derive'; column: string; expression: string } // Adds or overwrites a column
+  | { type: 'rename'; from: string; to: string }
+  | { type: 'cast'; column: string; to: CastType }
+  | { type: 'bin'; column: string; as: string; breaks: number[] } // Ascending edges, bins are [a, b)
+  | { type: 'datePart'; column: string; part: DatePart; as: string }
+  | { type: 'dedupe'; columns?: string[] }; // All columns when empty
+
 export interface Dataset {
   name: string;
   data: any[];
   columns: string[];
+  profile: DataColumn[]; // Inferred schema, same order as columns
+  transforms?: TransformStep[]; // Stored with the raw rows; the charted dataset is the result of applying them
+  origin?: DatasetOrigin; // Set on tables built from other catalog entries, so code can rebuild them
+  file?: DataFile; // The upload the rows came from; catalog renames leave it as it was
+}
+
+export type DataFormat = 'delimited' | 'json' | 'excel' | 'parquet';
+
+// What generated code needs to read a table back from disk
+export interface DataFile {
+  name: string; // As uploaded, e.g. "sales.xlsx"
+  format: DataFormat;
+  sheet?: string; // Only when a workbook sheet other than the default was picked
+  delimiter?: string; // Delimited files split on something other than a comma
+  decimal?: ','; // Numbers were read with decimal commas, e.g. "3,14"
+  thousands?: '.'; // Those numbers also grouped digits with dots, e.g. "1.234,5"
+}
+
+export type JoinType = 'inner' | 'left' | 'outer';
+
+// A catalog entry a derived table was built from, with its own recipe when it is derived too
+export interface DatasetSource {
+  name: string;
+  origin?: DatasetOrigin;
+  file?: DataFile;
+}
+
+export type DatasetOrigin =
+  | { type: 'join'; how: JoinType; left: DatasetSource; right: DatasetSource; leftKeys: string[]; rightKeys: string[] }
+  | { type: 'union'; inputs: DatasetSource[]; sourceColumn: string };
+
+export interface ChartSelection {
+  column: string;
+  value?: string | number | boolean; // Clicked category, slice or legend entry
+  range?: [number, number]; // Clicked histogram bin or date period, [from, to)
+  label?: string; // Readable form of the range, e.g. "Mar 2024"
+  dateFormat?: DateFormat; // Set when the range is of dates, so raw values are parsed the same way
+}
+
+// A selection in one dashboard panel that filters the rows of all the others
+export interface CrossFilter extends ChartSelection {
+  panelId: string;
+}
+
+export interface DashboardPanel {
+  id: string;
+  config: VisualizationConfig;
+  prompt: string; // Last refinement asked of this panel
+  span: number; // Grid columns, 1 to DASHBOARD_COLUMNS
+  height: number; // Pixels
+}
+
+export interface VizProject {
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  dataset: Dataset | null;
+  config: VisualizationConfig | null;
+  prompt: string;
+  referenceImage: string | null; // Data URL
+  revisions: ConfigRevision[];
+  currentRevisionId: string | null;
+  dashboard: DashboardPanel[]; // In display order
+  catalog: Dataset[]; // Other loaded tables; the charted one is dataset
+  privacy: PrivacySettings;
+}
+
+export type PrivacyMode = 'sample' | 'synthetic' | 'schema';
+
+export type ColumnPrivacy = 'send' | 'mask' | 'exclude';
+
+export type PiiKind = 'name' | 'email' | 'phone' | 'id' | 'address' | 'birthDate' | 'ip';
+
+// What of the dataset may be sent to a model provider
+export interface PrivacySettings {
+  mode: PrivacyMode; // Real sample rows, synthetic look-alikes, or no rows at all
+  columns: Record<string, ColumnPrivacy>; // The user's choices; other columns are masked when they look like PII
+  reviewBeforeSend: boolean; // Show each payload and wait for confirmation
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  datasetName?: string;
+  chartType?: ChartType;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'offline';
+
+export interface AISettings {
+  provider: AIProviderId;
+  model: string;
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  apiKey: string; // Empty to fall back to the build-time key
 }
@@ -0,0 +1,318 @@
+import { ChartType, VisualizationConfig } from '../types';
+import { toNumber } from './aggregation';
+import {
+  COLOR_VISION_LABELS, ColorVision, MIN_COLOR_DIFFERENCE, MIN_GRAPHIC_CONTRAST, colorDifference, contrastRatio, parseColor, simulateColorVision
+} from './colors';
+import { formatDate } from './dates';
+import { ProcessedData } from './processing';
+import { resolveTheme } from './themes';
+
+// What a transparent chart background sits on in the preview and dark exports
+export const PREVIEW_BACKGROUND = '#0f172a';
+
+export interface ChartTable {
+  columns: string[];
+  rows: string[][];
+  keyColumns: number; // Leading columns that name a point; the rest are its values
+}
+
+const CHART_NAMES: Record<ChartType, string> = {
+  [ChartType.BAR]: 'Bar chart',
+  [ChartType.LINE]: 'Line chart',
+  [ChartType.AREA]: 'Area chart',
+  [ChartType.SCATTER]: 'Scatter plot',
+  [ChartType.PIE]: 'Pie chart',
+  [ChartType.RADAR]: 'Radar chart',
+  [ChartType.COMPOSED]: 'Combined bar and line chart',
+  [ChartType.HISTOGRAM]: 'Histogram',
+  [ChartType.BOX]: 'Box plot',
+  [ChartType.VIOLIN]: 'Violin plot',
+  [ChartType.HEATMAP]: 'Heatmap'
+};
+
+// Series charts described one line at a time; longer lists are summarized by count
+const MAX_DESCRIBED_SERIES = 3;
+
+const round = (value: number) => Number(value.toPrecision(4)).toLocaleString('en-US');
+
+const xName = (config: VisualizationConfig) => config.xLabel || config.xAxisKey;
+
+// Box and violin rows hold their category under xAxisKey, or "group" when there is none
+const categoryKey = (config: VisualizationConfig) =>
+  config.xAxisKey && config.xAxisKey !== config.yAxisKey ? config.xAxisKey : 'group';
+
+const pointLabel = (processed: ProcessedData) => {
+  const time = processed.time;
+  return (value: any) =>
+    time && typeof value === 'number' ? formatDate(value, time.unit ?? (time.hasTime ? 'minute' : 'day')) : cell(value);
+};
+
+// Twelve significant digits keep the value exact while hiding float noise like 62.191649999999996
+const cell = (value: any) => {
+  if (value === null || value === undefined || (typeof value === 'number' && isNaN(value))) return '';
+  if (typeof value === 'number') return String(Number(value.toPrecision(12)));
+  return Array.isArray(value) ? value.map(cell).join(' – ') : String(value);
+};
+
+// Scatter rows the renderer can place; the others are skipped when drawing
+const plottedPoints = (config: VisualizationConfig, processed: ProcessedData) =>
+  processed.rows.filter(row => isFinite(toNumber(row[config.xAxisKey])) && isFinite(toNumber(row[config.yAxisKey])));
+
+const numbers = (rows: any[], key: string) =>
+  rows.map(row => ({ row, value: row[key] })).filter((p): p is { row: any; value: number } => typeof p.value === 'number' && isFinite(p.value));
+
+// The numbers behind the chart as drawn, one row per point, for the data table and keyboard navigation
+export const chartTable = (config: VisualizationConfig, processed: ProcessedData): ChartTable => {
+  const label = pointLabel(processed);
+
+  switch (config.chartType) {
+    case ChartType.HISTOGRAM:
+      return {
+        columns: [`${xName(config)} bin`, ...processed.series.map(s => s.label)],
+        rows: processed.data.map(row => [row.bin, ...processed.series.map(s => cell(row[s.key]))]),
+        keyColumns: 1
+      };
+    case ChartType.BOX:
+    case ChartType.VIOLIN: {
+      const key = categoryKey(config);
+      const stats = ['count', 'min', 'q1', 'median', 'q3', 'max', 'mean'];
+      return {
+        columns: [key === 'group' ? 'Group' : xName(config), 'Count', 'Minimum', 'Lower quartile', 'Median', 'Upper quartile', 'Maximum', 'Mean', 'Outliers'],
+        rows: processed.rows.map(row => [cell(row[key]), ...stats.map(stat => cell(row[stat])), String(row.outliers?.length ?? 0)]),
+        keyColumns: 1
+      };
+    }
+    case ChartType.HEATMAP:
+      return {
+        columns: [xName(config), config.yLabel || config.yAxisKey, processed.series[0]?.label ?? 'value'],
+        rows: processed.rows.map(row => [cell(row[config.xAxisKey]), cell(row[config.yAxisKey]), cell(row.value)]),
+        keyColumns: 2
+      };
+    case ChartType.SCATTER: {
+      // Every column names the point, so navigation moves along X only
+      const columns = [xName(config), config.yLabel || config.yAxisKey, ...(config.groupBy ? [config.groupBy] : [])];
+      const rows = plottedPoints(config, processed)
+        .sort((a, b) => toNumber(a[config.xAxisKey]) - toNumber(b[config.xAxisKey]))
+        .map(row => [label(row[config.xAxisKey]), cell(row[config.yAxisKey]), ...(config.groupBy ? [cell(row[config.groupBy])] : [])]);
+      return { columns, rows, keyColumns: columns.length };
+    }
+    default:
+      return {
+        columns: [xName(config), ...processed.series.map(s => s.label)],
+        rows: processed.data.map(row => [label(row[config.xAxisKey]), ...processed.series.map(s => cell(row[s.key]))]),
+        keyColumns: 1
+      };
+  }
+};
+
+// Spoken description of one table cell, e.g. "Pclass 1, Fare: 84.15"
+export const describeCell = (table: ChartTable, row: number, column: number) => {
+  const values = table.rows[row];
+  if (!values) return '';
+  const keys = values.slice(0, table.keyColumns).map((value, i) => `${table.columns[i]} ${value || 'missing'}`);
+  const value = column >= table.keyColumns && column < table.columns.length ? `, ${table.columns[column]}: ${values[column] || 'no value'}` : '';
+  return `${keys.join(', ')}${value}. Point ${row + 1} of ${table.rows.length}.`;
+};
+
+const pearson = (points: [number, number][]) => {
+  const n = points.length;
+  const mx = points.reduce((sum, [x]) => sum + x, 0) / n;
+  const my = points.reduce((sum, [, y]) => sum + y, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (const [x, y] of points) {
+    sxy += (x - mx) * (y - my);
+    sxx += (x - mx) ** 2;
+    syy += (y - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+};
+
+const strength = (r: number) => {
+  const size = Math.abs(r);
+  if (size < 0.1) return 'no clear';
+  return `${size < 0.3 ? 'a weak' : size < 0.7 ? 'a moderate' : 'a strong'} ${r > 0 ? 'positive' : 'negative'}`;
+};
+
+const extremes = <T>(items: T[], value: (item: T) => number) => {
+  const sorted = [...items].sort((a, b) => value(b) - value(a));
+  return { high: sorted[0], low: sorted[sorted.length - 1] };
+};
+
+const describeSeries = (config: VisualizationConfig, processed: ProcessedData): string[] => {
+  const label = pointLabel(processed);
+  const ordered = Boolean(processed.time) || [ChartType.LINE, ChartType.AREA].includes(config.chartType);
+  const described = processed.series.slice(0, MAX_DESCRIBED_SERIES);
+  const sentences = described.flatMap(series => {
+    const points = numbers(processed.data, series.key);
+    if (points.length === 0) return [];
+    const name = processed.series.length > 1 ? series.label : 'It';
+    const { high, low } = extremes(points, p => p.value);
+    const at = (p: { row: any; value: number }) => `${round(p.value)} at ${label(p.row[config.xAxisKey])}`;
+    let sentence = points.length > 1 ? `${name} peaks at ${at(high)} and is lowest at ${at(low)}` : `${name} is ${at(high)}`;
+
+    if (ordered && points.length >= 3) {
+      const first = points[0];
+      const last = points[points.length - 1];
+      const change = first.value !== 0 ? ((last.value - first.value) / Math.abs(first.value)) * 100 : null;
+      const direction = last.value > first.value ? 'rises' : last.value < first.value ? 'falls' : 'is unchanged';
+      sentence += `; overall it ${direction} from ${at(first)} to ${at(last)}${change !== null && direction !== 'is unchanged' ? ` (${change > 0 ? '+' : ''}${round(change)}%)` : ''}`;
+    }
+    return [`${sentence}.`];
+  });
+  if (processed.series.length > MAX_DESCRIBED_SERIES) {
+    sentences.push(`${processed.series.length - MAX_DESCRIBED_SERIES} more series are listed in the data table.`);
+  }
+  return sentences;
+};
+
+const describePie = (config: VisualizationConfig, processed: ProcessedData): string[] => {
+  const series = processed.series[0];
+  const slices = series ? numbers(processed.data, series.key) : [];
+  const total = slices.reduce((sum, p) => sum + p.value, 0);
+  if (slices.length === 0 || total <= 0) return [];
+  const { high, low } = extremes(slices, p => p.value);
+  const share = (p: { row: any; value: number }) => `${String(p.row[config.xAxisKey])} (${round((p.value / total) * 100)}%)`;
+  return [`${slices.length} slices totalling ${round(total)}. The largest is ${share(high)} and the smallest is ${share(low)}.`];
+};
+
+const describeScatter = (config: VisualizationConfig, processed: ProcessedData): string[] => {
+  const label = pointLabel(processed);
+  const points = plottedPoints(config, processed)
+    .map(row => [toNumber(row[config.xAxisKey]), toNumber(row[config.yAxisKey])] as [number, number]);
+  if (points.length === 0) return [];
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const r = pearson(points);
+  return [
+    `${points.length.toLocaleString('en-US')} points. ${xName(config)} runs from ${label(Math.min(...xs))} to ${label(Math.max(...xs))} `
+      + `and ${config.yLabel || config.yAxisKey} from ${round(Math.min(...ys))} to ${round(Math.max(...ys))}.`,
+    `The two show ${strength(r)} correlation (r = ${r.toFixed(2)}).`
+  ];
+};
+
+const describeHistogram = (config: VisualizationConfig, processed: ProcessedData): string[] => {
+  const totals = processed.data.map(row => ({ row, value: processed.series.reduce((sum, s) => sum + (row[s.key] || 0), 0) }));
+  if (totals.length === 0) return [];
+  const count = totals.reduce((sum, t) => sum + t.value, 0);
+  const { high } = extremes(totals, t => t.value);
+  return [`${count.toLocaleString('en-US')} values of ${xName(config)} in ${totals.length} bins. The most common range is ${high.row.bin} with ${high.value.toLocaleString('en-US')} values.`];
+};
+
+const describeDistribution = (config: VisualizationConfig, processed: ProcessedData): string[] => {
+  const key = categoryKey(config);
+  const groups = processed.rows;
+  if (groups.length === 0) return [];
+  const metric = config.yLabel || config.yAxisKey;
+  if (groups.length === 1) {
+    const g = groups[0];
+    return [`The median ${metric} is ${round(g.median)}, the middle half lies between ${round(g.q1)} and ${round(g.q3)}, and values range from ${round(g.min)} to ${round(g.max)}.`];
+  }
+  const { high, low } = extremes(groups, g => g.median);
+  const outliers = groups.reduce((sum, g) => sum + (g.outliers?.length ?? 0), 0);
+  return [
+    `${groups.length} groups. The median ${metric} is highest for ${String(high[key])} (${round(high.median)}) and lowest for ${String(low[key])} (${round(low.median)}).`,
+    ...(outliers > 0 ? [`${outliers} values fall outside the whiskers.`] : [])
+  ];
+};
+
+const describeHeatmap = (config: VisualizationConfig, processed: ProcessedData): string[] => {
+  const cells = numbers(processed.rows, 'value');
+  if (cells.length === 0) return [];
+  const { high, low } = extremes(cells, c => c.value);
+  const at = (c: { row: any; value: number }) => `${String(c.row[config.xAxisKey])} / ${String(c.row[config.yAxisKey])} (${round(c.value)})`;
+  return [`${cells.length} cells. The highest is ${at(high)} and the lowest is ${at(low)}.`];
+};
+
+const describeOverlays = (processed: ProcessedData): string[] => {
+  const label = pointLabel(processed);
+  return [
+    ...(processed.trends ?? []).map(fit => `Trend line: ${fit.label}.`),
+    ...(processed.references ?? []).map(line => `Reference line at ${line.label}.`),
+    ...(processed.annotations ?? []).map(a => {
+      const text = a.label ? ` "${a.label}"` : '';
+      switch (a.type) {
+        case 'highlight': return `Highlighted${text}: ${label(a.x)}.`;
+        case 'range': return `Shaded ${a.axis === 'y' ? 'values' : 'range'}${text} from ${a.axis === 'y' ? round(Number(a.from)) : label(a.from)} to ${a.axis === 'y' ? round(Number(a.to)) : label(a.to)}.`;
+        default: return `Note${text} at ${label(a.x)}, ${round(a.y!)}.`;
+      }
+    })
+  ];
+};
+
+// Alt text computed from the processed data: what is plotted, its extremes and its trend
+export const describeChart = (config: VisualizationConfig, processed: ProcessedData): string => {
+  const name = CHART_NAMES[config.chartType] ?? 'Chart';
+  const metrics = [...new Set(processed.series.map(s => s.metric))];
+  const measure = config.yLabel || (config.chartType === ChartType.HISTOGRAM ? 'count' : metrics.join(', ') || config.yAxisKey);
+  const by = config.chartType === ChartType.SCATTER ? ` against ${xName(config)}` : config.xAxisKey ? ` by ${xName(config)}` : '';
+  const split = config.groupBy && config.chartType !== ChartType.HEATMAP ? `, split by ${config.groupBy}` : '';
+  const subject = config.chartType === ChartType.HEATMAP
+    ? `${processed.series[0]?.label ?? 'count'} by ${xName(config)} and ${config.yLabel || config.yAxisKey}`
+    : `${measure}${by}${split}`;
+  const lead = `${name}${config.title ? ` "${config.title}"` : ''} showing ${subject}.`;
+
+  if (processed.rows.length === 0 && processed.data.length === 0) return `${lead} There is no data to show.`;
+
+  const body = (() => {
+    switch (config.chartType) {
+      case ChartType.PIE: return describePie(config, processed);
+      case ChartType.SCATTER: return describeScatter(config, processed);
+      case ChartType.HISTOGRAM: return describeHistogram(config, processed);
+      case ChartType.BOX:
+      case ChartType.VIOLIN: return describeDistribution(config, processed);
+      case ChartType.HEATMAP: return describeHeatmap(config, processed);
+      default: return [`${processed.data.length.toLocaleString('en-US')} points.`, ...describeSeries(config, processed)];
+    }
+  })();
+  return [lead, ...body, ...describeOverlays(processed)].join(' ');
+};
+
+// The color config.colors is drawn on: the theme background, or the dark preview when transparent
+export const chartBackground = (config: VisualizationConfig) => {
+  const background = resolveTheme(config).background;
+  return parseColor(background) ? background : PREVIEW_BACKGROUND;
+};
+
+export interface ColorProblem {
+  field: string;
+  message: string;
+}
+
+const VISIONS = Object.keys(COLOR_VISION_LABELS) as ColorVision[];
+
+// Contrast against the background (WCAG 1.4.11) and pairs that merge under color vision deficiencies
+export const checkColors = (colors: string[], background: string, field = 'colors'): ColorProblem[] => {
+  const problems: ColorProblem[] = [];
+  const backdrop = parseColor(background);
+  const parsed = colors.map(parseColor);
+
+  parsed.forEach((rgb, i) => {
+    if (!rgb || !backdrop) return;
+    const ratio = contrastRatio(rgb, backdrop);
+    if (ratio < MIN_GRAPHIC_CONTRAST) {
+      problems.push({
+        field: `${field}[${i}]`,
+        message: `${colors[i]} has a contrast of ${ratio.toFixed(1)}:1 against the ${background} background; chart marks need at least ${MIN_GRAPHIC_CONTRAST}:1`
+      });
+    }
+  });
+
+  for (let i = 0; i < parsed.length; i++) {
+    for (let j = i + 1; j < parsed.length; j++) {
+      const a = parsed[i];
+      const b = parsed[j];
+      if (!a || !b) continue;
+      if (colorDifference(a, b) < MIN_COLOR_DIFFERENCE) {
+        problems.push({ field, message: `${colors[i]} and ${colors[j]} look almost the same` });
+        continue;
+      }
+      const vision = VISIONS.find(v => colorDifference(simulateColorVision(a, v), simulateColorVision(b, v)) < MIN_COLOR_DIFFERENCE);
+      if (vision) {
+        problems.push({ field, message: `${colors[i]} and ${colors[j]} are hard to tell apart with ${COLOR_VISION_LABELS[vision]}` });
+      }
+    }
+  }
+  return problems;
+};
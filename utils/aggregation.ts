@@ -0,0 +1,196 @@
+import { AggregateFunction, AggregationConfig, ChartSeries, ChartType, VisualizationConfig } from '../types';
+import { isMissing } from './profiler';
+
+export const MISSING_LABEL = 'NA';
+
+export const getValueKeys = (config: VisualizationConfig) =>
+  config.seriesKeys && config.seriesKeys.length > 0 ? config.seriesKeys : [config.yAxisKey || 'count'];
+
+export const toNumber = (value: any): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+export const compareValues = (a: any, b: any) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+export const median = (sorted: number[]) => {
+  if (sorted.length === 0) return NaN;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const applyAggregate = (func: AggregateFunction, values: any[]): number | null => {
+  if (func === 'count') return values.length;
+  if (func === 'countDistinct') return new Set(values.filter(v => !isMissing(v))).size;
+
+  const nums = values.map(toNumber).filter(v => !isNaN(v));
+  if (nums.length === 0) return null;
+
+  switch (func) {
+    case 'sum':
+      return nums.reduce((a, b) => a + b, 0);
+    case 'mean':
+      return nums.reduce((a, b) => a + b, 0) / nums.length;
+    case 'median':
+      return median([...nums].sort((a, b) => a - b));
+    case 'min':
+      return nums.reduce((a, b) => (b < a ? b : a));
+    case 'max':
+      return nums.reduce((a, b) => (b > a ? b : a));
+  }
+};
+
+interface Group {
+  x: any;
+  g: any;
+  rows: any[];
+}
+
+const labelOf = (value: any) => (isMissing(value) ? MISSING_LABEL : value);
+
+const groupRows = (data: any[], xKey: string, groupKey: string | undefined, bucket: (x: any) => any) => {
+  const groups = new Map<string, Group>();
+  for (const row of data) {
+    const x = bucket(labelOf(row[xKey]));
+    const g = groupKey ? labelOf(row[groupKey]) : undefined;
+    const id = `${String(x)}\u0000${String(g)}`;
+    let group = groups.get(id);
+    if (!group) {
+      group = { x, g, rows: [] };
+      groups.set(id, group);
+    }
+    group.rows.push(row);
+  }
+  return [...groups.values()];
+};
+
+// Decide whether the preview needs aggregation when the model did not ask for one
+export const resolveAggregation = (config: VisualizationConfig, data: any[]): AggregationConfig | null => {
+  if (config.aggregation) return config.aggregation;
+  if (config.chartType === ChartType.SCATTER || !config.xAxisKey) return null;
+
+  const hasColumn = (key: string) => data.length > 0 && key in data[0];
+  if (!config.yAxisKey || (config.yAxisKey === 'count' && !hasColumn('count'))) {
+    return { func: 'count' };
+  }
+
+  // Repeated x values would otherwise be drawn as one mark per row
+  const seen = new Set<any>();
+  for (const row of data) {
+    const x = row[config.xAxisKey];
+    if (seen.has(x)) return { func: 'sum' };
+    seen.add(x);
+  }
+  return null;
+};
+
+export const aggregateData = (data: any[], config: VisualizationConfig, aggregation: AggregationConfig): any[] => {
+  const xKey = config.xAxisKey;
+  const groupKey = hasGroupSplit(config) ? config.groupBy : undefined;
+  const valueKeys = getValueKeys(config);
+  const { func, topN } = aggregation;
+  const otherLabel = aggregation.otherLabel || 'Other';
+  const sortBy = aggregation.sortBy || (topN ? 'value' : 'x');
+  const sortOrder = aggregation.sortOrder || (sortBy === 'value' ? 'desc' : 'asc');
+
+  // x totals (first metric, all groups) drive value sorting and top-N
+  const totalsFor = (groups: Group[]) => {
+    const totals = new Map<any, number>();
+    for (const group of groups) {
+      const value = applyAggregate(func, group.rows.map(r => r[valueKeys[0]])) ?? 0;
+      totals.set(group.x, (totals.get(group.x) || 0) + value);
+    }
+    return totals;
+  };
+
+  let kept: Set<any> | null = null;
+  if (topN && topN > 0) {
+    const totals = totalsFor(groupRows(data, xKey, undefined, x => x));
+    if (totals.size > topN) {
+      kept = new Set([...totals.entries()].sort((a, b) => b[1] - a[1]).slice(0, topN).map(([x]) => x));
+    }
+  }
+
+  const groups = groupRows(data, xKey, groupKey, x => (kept && !kept.has(x) ? otherLabel : x));
+
+  if (sortBy !== 'none') {
+    const direction = sortOrder === 'desc' ? -1 : 1;
+    const totals = sortBy === 'value' ? totalsFor(groups) : null;
+    const isOther = (x: any) => kept !== null && x === otherLabel;
+    groups.sort((a, b) => {
+      if (isOther(a.x) !== isOther(b.x)) return isOther(a.x) ? 1 : -1;
+      const byX = totals
+        ? direction * ((totals.get(a.x) || 0) - (totals.get(b.x) || 0))
+        : direction * compareValues(a.x, b.x);
+      if (byX !== 0 || totals === null) return byX || compareValues(a.g, b.g);
+      // Equal totals: keep each x category together
+      return compareValues(a.x, b.x) || compareValues(a.g, b.g);
+    });
+  }
+
+  return groups.map(group => {
+    const row: Record<string, any> = { [xKey]: group.x };
+    if (groupKey) row[groupKey] = group.g;
+    for (const key of valueKeys) {
+      row[key] = applyAggregate(func, group.rows.map(r => r[key]));
+    }
+    return row;
+  });
+};
+
+// Pie slices are already the categories, so groupBy only splits the other chart types
+export const hasGroupSplit = (config: VisualizationConfig) =>
+  Boolean(config.groupBy) && config.groupBy !== config.xAxisKey && config.chartType !== ChartType.PIE;
+
+export const getGroupValues = (rows: any[], groupKey: string) =>
+  [...new Set(rows.map(r => labelOf(r[groupKey])))].sort(compareValues);
+
+export const splitByGroup = (rows: any[], groupKey: string) =>
+  getGroupValues(rows, groupKey).map(g => ({
+    name: String(g),
+    rows: rows.filter(r => String(labelOf(r[groupKey])) === String(g))
+  }));
+
+// Turn long rows (one per x/group pair) into one row per x with a column per group
+export const pivotByGroup = (rows: any[], config: VisualizationConfig): { data: any[]; series: ChartSeries[] } => {
+  const valueKeys = getValueKeys(config);
+  if (!hasGroupSplit(config)) {
+    return { data: rows, series: valueKeys.map(key => ({ key, label: key, metric: key })) };
+  }
+
+  const xKey = config.xAxisKey;
+  const groupKey = config.groupBy!;
+  const groups = getGroupValues(rows, groupKey);
+  const groupIndex = new Map(groups.map((g, i) => [String(g), i]));
+
+  // Generated keys avoid Recharts reading dotted group values as nested paths
+  const series: ChartSeries[] = valueKeys.flatMap((metric, m) =>
+    groups.map((g, i) => ({
+      key: `__series_${m}_${i}`,
+      label: valueKeys.length > 1 ? `${metric}: ${g}` : String(g),
+      metric,
+      group: String(g)
+    }))
+  );
+
+  const byX = new Map<string, Record<string, any>>();
+  for (const row of rows) {
+    const x = labelOf(row[xKey]);
+    let wide = byX.get(String(x));
+    if (!wide) {
+      wide = { [xKey]: x };
+      byX.set(String(x), wide);
+    }
+    const i = groupIndex.get(String(labelOf(row[groupKey])))!;
+    valueKeys.forEach((metric, m) => {
+      wide![`__series_${m}_${i}`] = row[metric];
+    });
+  }
+
+  return { data: [...byX.values()], series };
+};
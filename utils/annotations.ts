@@ -0,0 +1,156 @@
+import { AnnotationType, ChartAnnotation, ChartType, VisualizationConfig } from '../types';
+import { toNumber } from './aggregation';
+import { formatDate, parseDate } from './dates';
+import { ProcessedData } from './processing';
+
+// Annotations sit on a cartesian plot; pies only take highlighted slices
+export const ANNOTATION_CHART_TYPES = [ChartType.BAR, ChartType.LINE, ChartType.AREA, ChartType.SCATTER, ChartType.COMPOSED, ChartType.PIE];
+
+export const ANNOTATION_TYPE_LABELS: Record<AnnotationType, string> = {
+  text: 'Text',
+  arrow: 'Arrow',
+  highlight: 'Highlight',
+  range: 'Shaded range'
+};
+
+export const ANNOTATION_COLOR = '#f43f5e';
+
+// Arrow tails sit this many pixels up and to the right of the point they mark
+export const ARROW_OFFSET = 36;
+
+export interface ResolvedAnnotation {
+  index: number; // Position in config.annotations
+  type: AnnotationType;
+  label: string;
+  color: string;
+  category: boolean; // X positions are categories rather than numbers or dates
+  x?: number | string; // text, arrow and highlight, as a value on the X axis
+  y?: number; // text and arrow
+  axis?: 'x' | 'y'; // range
+  from?: number | string;
+  to?: number | string;
+}
+
+// Bars and composed charts keep one slot per X value, dates included; line and area charts only without dates
+export const isCategoryAxis = (config: VisualizationConfig, processed: ProcessedData) => {
+  switch (config.chartType) {
+    case ChartType.SCATTER: return false;
+    case ChartType.LINE:
+    case ChartType.AREA: return !processed.time;
+    default: return true;
+  }
+};
+
+const formatValue = (value: number) => String(Number(value.toPrecision(4)));
+
+// An X value as stored in the config: dates as text, so they read the same in the list and in prompts
+export const toAnnotationValue = (value: any, processed: ProcessedData): number | string => {
+  const { time } = processed;
+  if (time && typeof value === 'number') return formatDate(value, time.hasTime ? 'minute' : 'day');
+  return typeof value === 'number' || typeof value === 'string' ? value : String(value);
+};
+
+// The X axis value an annotation refers to, or null when the chart has no such position
+const resolveX = (value: unknown, config: VisualizationConfig, processed: ProcessedData): number | string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const { time } = processed;
+  const t = time ? (typeof value === 'number' ? value : parseDate(String(value))) : null;
+  if (isCategoryAxis(config, processed)) {
+    const xs = processed.data.map(row => row[config.xAxisKey]);
+    // A date on a bar chart lands in the period that holds it
+    if (time) return t === null ? null : xs.filter(x => typeof x === 'number' && x <= t).pop() ?? null;
+    return xs.find(x => String(x) === String(value)) ?? null;
+  }
+  if (time) return t;
+  const n = toNumber(value);
+  return isNaN(n) ? null : n;
+};
+
+// Highest or lowest plotted value across every series
+const extremePoint = (which: 'max' | 'min', config: VisualizationConfig, processed: ProcessedData) => {
+  const scatter = config.chartType === ChartType.SCATTER;
+  const rows = scatter ? processed.rows : processed.data;
+  const keys = scatter ? [config.yAxisKey] : processed.series.map(s => s.key);
+  let best: { x: any; y: number } | null = null;
+  for (const row of rows) {
+    for (const key of keys) {
+      const y = toNumber(row[key]);
+      if (isNaN(y)) continue;
+      if (!best || (which === 'max' ? y > best.y : y < best.y)) best = { x: row[config.xAxisKey], y };
+    }
+  }
+  return best;
+};
+
+const resolveAnnotation = (
+  annotation: ChartAnnotation, index: number, config: VisualizationConfig, processed: ProcessedData
+): ResolvedAnnotation | null => {
+  const category = isCategoryAxis(config, processed);
+  const base = { index, type: annotation.type, label: annotation.text ?? '', color: annotation.color || ANNOTATION_COLOR, category };
+  if (config.chartType === ChartType.PIE && annotation.type !== 'highlight') return null;
+
+  switch (annotation.type) {
+    case 'text':
+    case 'arrow': {
+      const stat = annotation.y === 'max' || annotation.y === 'min' ? annotation.y : null;
+      const point = stat
+        ? extremePoint(stat, config, processed)
+        : { x: resolveX(annotation.x, config, processed), y: toNumber(annotation.y) };
+      if (!point || point.x === null || point.x === undefined || isNaN(point.y)) return null;
+      return { ...base, x: point.x, y: point.y, label: annotation.text || formatValue(point.y) };
+    }
+    case 'highlight': {
+      // Continuous axes have no single slot to emphasize; a range covers those
+      if (!category || processed.time) return null;
+      const x = resolveX(annotation.x, config, processed);
+      return x === null ? null : { ...base, x };
+    }
+    case 'range': {
+      const axis = annotation.axis === 'y' ? 'y' : 'x';
+      let from = axis === 'x' ? resolveX(annotation.from, config, processed) : toNumber(annotation.from);
+      let to = axis === 'x' ? resolveX(annotation.to, config, processed) : toNumber(annotation.to);
+      if (from === null || to === null || (typeof from === 'number' && isNaN(from)) || (typeof to === 'number' && isNaN(to))) return null;
+      if (!(axis === 'x' && category) && Number(from) > Number(to)) [from, to] = [to, from];
+      return { ...base, axis, from, to };
+    }
+    default:
+      return null;
+  }
+};
+
+// Annotations placed on the processed data; ones pointing at positions the chart does not have are left out
+export const resolveAnnotations = (config: VisualizationConfig, processed: ProcessedData): ResolvedAnnotation[] =>
+  ANNOTATION_CHART_TYPES.includes(config.chartType)
+    ? (config.annotations ?? []).map((a, i) => resolveAnnotation(a, i, config, processed)).filter((a): a is ResolvedAnnotation => Boolean(a))
+    : [];
+
+// What a click on the preview creates; a range takes two clicks, the first passed back in as start
+export const createAnnotation = (
+  type: AnnotationType, point: { x: any; y?: number }, processed: ProcessedData, start?: number | string
+): ChartAnnotation => {
+  const x = toAnnotationValue(point.x, processed);
+  switch (type) {
+    case 'highlight': return { type, x };
+    case 'range': return { type, axis: 'x', from: start ?? x, to: x };
+    default: return { type, x, ...(point.y !== undefined && { y: Number(point.y.toPrecision(6)) }) };
+  }
+};
+
+// Vertical room for arrow tails and labels in code, where offsets are in data units
+export const valueSpan = (config: VisualizationConfig, processed: ProcessedData) => {
+  const scatter = config.chartType === ChartType.SCATTER;
+  const rows = scatter ? processed.rows : processed.data;
+  const keys = scatter ? [config.yAxisKey] : processed.series.map(s => s.key);
+  let min = Infinity;
+  let max = -Infinity;
+  for (const row of rows) {
+    for (const key of keys) {
+      const v = toNumber(row[key]);
+      if (isNaN(v)) continue;
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+    }
+  }
+  if (min === Infinity) return 1;
+  return max - min || Math.abs(max) || 1;
+};
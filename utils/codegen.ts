@@ -0,0 +1,170 @@
+import { AggregateFunction, AggregationConfig, ChartTheme, ChartType, DataFile, Dataset, DatasetSource, DateFormat, JoinType, TimeSeriesConfig, TrendLineConfig, VisualizationConfig } from '../types';
+import { getValueKeys, hasGroupSplit, resolveAggregation } from './aggregation';
+import { heatmapColors, seriesColor } from './colors';
+import { slugify } from './export';
+import { ResolvedAnnotation } from './annotations';
+import { ResolvedReference } from './overlays';
+import { ProcessedData, numericValues, processData } from './processing';
+import { HistogramBin, histogramBins } from './statistics';
+import { sanitizeTheme } from './themes';
+import { bucketRows, timeAggregation, timeFormatFor } from './timeSeries';
+
+// How code rebuilds a derived table: read each stored file once, then join or stack into new variables
+export type MergeStep =
+  | { type: 'read'; variable: string; file: DataFile }
+  | { type: 'join'; variable: string; how: JoinType; left: string; right: string; leftKeys: string[]; rightKeys: string[] }
+  | { type: 'union'; variable: string; inputs: { variable: string; name: string }[]; sourceColumn: string };
+
+// Everything the R and Python generators need, derived once from the config and data
+export interface CodePlan {
+  config: VisualizationConfig;
+  file: DataFile;
+  merges: MergeStep[]; // Empty unless the dataset was built from other tables; the last step assigns df
+  xKey: string;
+  yKey: string;
+  groupKey?: string;
+  valueKeys: string[];
+  aggregation: AggregationConfig | null;
+  time: { format: DateFormat; settings: TimeSeriesConfig } | null; // Set when X is parsed as dates
+  trend: TrendLineConfig | null; // Only when the preview draws one
+  references: ResolvedReference[]; // Mean and median already computed, as in the preview
+  annotations: ResolvedAnnotation[]; // Placed on the data, with max/min points already found
+  palette: string[];
+  heatmap: { low: string; high: string };
+  theme: ChartTheme; // Only the fields the config sets, so unthemed charts keep each library's defaults
+  bins: HistogramBin[];
+  processed: ProcessedData; // The preview's data over every row, before downsampling
+  title: string;
+  subtitle: string;
+  xLabel: string;
+  yLabel: string;
+}
+
+// Uploads are read from their own file; pasted and example tables are assumed saved as CSV under their name
+export const dataFile = (dataset: { name: string; file?: DataFile }): DataFile =>
+  dataset.file ?? {
+    name: /\.(csv|tsv|txt)$/i.test(dataset.name) ? dataset.name : `${slugify(dataset.name)}.csv`,
+    format: 'delimited'
+  };
+
+// Newline-delimited JSON files need an option on the reader
+export const isJsonLines = (file: DataFile) => /\.(ndjson|jsonl)$/i.test(file.name);
+
+// A valid name in both R and Python, e.g. "sales-2023.csv" -> sales_2023
+const variableName = (name: string, taken: Set<string>) => {
+  const base = name.replace(/\.(csv|tsv|tab|txt|xlsx?|xlsm|ods|n?json|jsonl|parquet|pq)\b/gi, '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  const stem = /^[a-z]/.test(base) ? base : `t_${base}`;
+  let variable = stem;
+  for (let i = 2; taken.has(variable) || variable === 'df'; i++) variable = `${stem}_${i}`;
+  taken.add(variable);
+  return variable;
+};
+
+export const mergeSteps = (dataset: Dataset): MergeStep[] => {
+  if (!dataset.origin) return [];
+  const steps: MergeStep[] = [];
+  const taken = new Set<string>();
+  const read = new Map<string, string>(); // File and sheet -> variable, so a self-join reads once
+  const visit = (source: DatasetSource, target?: string): string => {
+    const { origin } = source;
+    if (!origin) {
+      const file = dataFile(source);
+      const key = JSON.stringify([file.name, file.sheet ?? null]);
+      if (!read.has(key)) {
+        read.set(key, variableName(source.name, taken));
+        steps.push({ type: 'read', variable: read.get(key)!, file });
+      }
+      return read.get(key)!;
+    }
+    if (origin.type === 'join') {
+      const left = visit(origin.left);
+      const right = visit(origin.right);
+      const variable = target ?? variableName(source.name, taken);
+      steps.push({ type: 'join', variable, how: origin.how, left, right, leftKeys: origin.leftKeys, rightKeys: origin.rightKeys });
+      return variable;
+    }
+    const inputs = origin.inputs.map(input => ({ variable: visit(input), name: input.name }));
+    const variable = target ?? variableName(source.name, taken);
+    steps.push({ type: 'union', variable, inputs, sourceColumn: origin.sourceColumn });
+    return variable;
+  };
+  visit(dataset, 'df');
+  return steps;
+};
+
+export const buildCodePlan = (config: VisualizationConfig, dataset: Dataset): CodePlan => {
+  const processed = processData(dataset.data, config);
+  const groupKey = hasGroupSplit(config) ? config.groupBy : undefined;
+  const valueKeys = getValueKeys(config);
+
+  // One color per drawn series, in the same order as the preview
+  let colorCount = processed.series.length;
+  if (config.chartType === ChartType.PIE) colorCount = processed.rows.length;
+  if (config.chartType === ChartType.SCATTER) colorCount = groupKey ? new Set(dataset.data.map(r => String(r[groupKey]))).size : 1;
+
+  const usesAggregation = ![ChartType.HISTOGRAM, ChartType.BOX, ChartType.VIOLIN, ChartType.HEATMAP].includes(config.chartType);
+  const dateFormat = timeFormatFor(config, dataset.data);
+  let aggregation = usesAggregation ? resolveAggregation(config, dataset.data) : null;
+  if (dateFormat) {
+    aggregation = timeAggregation(config, bucketRows(dataset.data, config.xAxisKey, dateFormat, config.timeSeries?.resample ?? null));
+  }
+
+  return {
+    config,
+    file: dataFile(dataset),
+    merges: mergeSteps(dataset),
+    xKey: config.xAxisKey,
+    yKey: config.yAxisKey || 'count',
+    groupKey,
+    valueKeys,
+    aggregation,
+    time: dateFormat ? { format: dateFormat, settings: config.timeSeries ?? {} } : null,
+    trend: processed.trends?.length ? config.trendLine! : null,
+    references: processed.references ?? [],
+    annotations: processed.annotations ?? [],
+    palette: Array.from({ length: Math.max(colorCount, 1) }, (_, i) => seriesColor(config, i)),
+    heatmap: heatmapColors(config),
+    theme: sanitizeTheme(config.theme).theme,
+    bins: config.chartType === ChartType.HISTOGRAM ? histogramBins(numericValues(dataset.data, config.xAxisKey), config.binning) : [],
+    processed,
+    title: config.title || '',
+    subtitle: config.description || '',
+    xLabel: config.xLabel || config.xAxisKey,
+    yLabel: config.yLabel || (config.chartType === ChartType.HISTOGRAM ? 'count' : config.yAxisKey || 'count')
+  };
+};
+
+// Both languages accept JSON-style double-quoted string literals
+export const quote = (text: string) => JSON.stringify(text);
+
+// Indented JSON with arrays of plain values kept on one line, so long data columns stay readable
+export const formatJson = (value: unknown) =>
+  JSON.stringify(value, null, 2).replace(/\[\n\s*([^[\]{}]*?)\n\s*\]/g, (_, items: string) => `[${items.split(/,\n\s*/).join(', ')}]`);
+
+export const formatNumber = (value: number) => String(Number(value.toPrecision(10)));
+
+// Theme sizes are screen pixels; ggplot2 and matplotlib take points
+export const toPoints = (px: number) => formatNumber(Math.round(px * 7.5) / 10);
+
+// A naive timestamp as "2024-03-01 00:00:00", which both lubridate and pandas read back unchanged
+export const dateLiteral = (t: number) => new Date(t).toISOString().slice(0, 19).replace('T', ' ');
+
+export const AGGREGATE_NAMES: Record<AggregateFunction, { r: string; pandas: string }> = {
+  sum: { r: 'sum', pandas: 'sum' },
+  mean: { r: 'mean', pandas: 'mean' },
+  median: { r: 'median', pandas: 'median' },
+  min: { r: 'min', pandas: 'min' },
+  max: { r: 'max', pandas: 'max' },
+  count: { r: 'n', pandas: 'size' },
+  countDistinct: { r: 'n_distinct', pandas: 'nunique' }
+};
+
+export const sortSettings = (aggregation: AggregationConfig) => {
+  const sortBy = aggregation.sortBy || (aggregation.topN ? 'value' : 'x');
+  const sortOrder = aggregation.sortOrder || (sortBy === 'value' ? 'desc' : 'asc');
+  return { sortBy, sortOrder };
+};
+
+// Long-format series pivot needed when several value columns share one chart
+export const needsLongFormat = (plan: CodePlan) =>
+  plan.valueKeys.length > 1 && [ChartType.BAR, ChartType.LINE, ChartType.AREA, ChartType.RADAR].includes(plan.config.chartType);
@@ -0,0 +1,129 @@
+import { VisualizationConfig } from '../types';
+
+export type RGB = [number, number, number];
+
+// Okabe-Ito: distinguishable with every common color vision deficiency, and each color readable on the dark preview
+const OKABE_ITO = ['#56b4e9', '#e69f00', '#009e73', '#f0e442', '#0072b2', '#d55e00', '#cc79a7'];
+
+export const DEFAULT_COLORS = OKABE_ITO;
+
+// Series colors cycle through config.colors, then the theme palette, falling back to the default palette
+export const seriesColor = (config: VisualizationConfig, i: number) => {
+  const colors = config.colors?.length ? config.colors : config.theme?.palette;
+  return colors?.[i % (colors.length || 1)] || DEFAULT_COLORS[i % DEFAULT_COLORS.length];
+};
+
+// Two colors give a low..high scale, one color fades in from the dark background
+export const heatmapColors = (config: VisualizationConfig) => ({
+  low: config.colors?.[1] ? config.colors[0] : '#1e293b',
+  high: config.colors?.[1] || config.colors?.[0] || config.theme?.palette?.[0] || DEFAULT_COLORS[0]
+});
+
+export const parseHexColor = (hex: string): RGB | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as RGB;
+};
+
+export const toHexColor = (rgb: RGB) =>
+  '#' + rgb.map(c => Math.round(Math.max(0, Math.min(255, c))).toString(16).padStart(2, '0')).join('');
+
+// Linear blend between two hex colors, t in [0, 1]
+export const interpolateColor = (from: string, to: string, t: number) => {
+  const a = parseHexColor(from) || [0, 0, 0];
+  const b = parseHexColor(to) || [255, 255, 255];
+  const k = Math.max(0, Math.min(1, t));
+  return toHexColor([a[0] + (b[0] - a[0]) * k, a[1] + (b[1] - a[1]) * k, a[2] + (b[2] - a[2]) * k]);
+};
+
+const FUNCTIONAL_COLOR = /^(rgb|rgba|hsl|hsla)\(\s*[-\d.%\s,/]+\)$/i;
+
+// Accepts hex, rgb()/hsl() and, in the browser, any CSS named color
+export const isValidColor = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value.trim()) return false;
+  const color = value.trim();
+  if (parseHexColor(color) && color.startsWith('#')) return true;
+  if (/^#[0-9a-f]{4}$|^#[0-9a-f]{8}$/i.test(color) || FUNCTIONAL_COLOR.test(color)) return true;
+  if (typeof CSS !== 'undefined' && CSS.supports) return CSS.supports('color', color);
+  return /^[a-z]+$/i.test(color);
+};
+
+// Palettes that stay distinguishable with the common color vision deficiencies; all clear 3:1 on the dark preview
+export const COLORBLIND_PALETTES: { name: string; colors: string[] }[] = [
+  { name: 'Okabe-Ito', colors: OKABE_ITO },
+  { name: 'Tol bright', colors: ['#4477aa', '#ee6677', '#228833', '#ccbb44', '#66ccee', '#bbbbbb'] },
+  { name: 'Tol vibrant', colors: ['#0077bb', '#33bbee', '#009988', '#ee7733', '#cc3311', '#ee3377', '#bbbbbb'] },
+  { name: 'IBM', colors: ['#648fff', '#785ef0', '#dc267f', '#fe6100', '#ffb000'] }
+];
+
+const RGB_FUNCTION = /^rgba?\(\s*(\d+(?:\.\d+)?)[\s,]+(\d+(?:\.\d+)?)[\s,]+(\d+(?:\.\d+)?)/i;
+
+// Hex and rgb() colors; named and hsl() colors cannot be read without the browser
+export const parseColor = (color: string): RGB | null => {
+  const match = RGB_FUNCTION.exec(color.trim());
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : parseHexColor(color);
+};
+
+const toLinear = (c: number) => {
+  const s = c / 255;
+  return s <= 0.04045 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+};
+
+const toGamma = (c: number) => 255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055);
+
+// WCAG 2 relative luminance
+export const relativeLuminance = (rgb: RGB) => {
+  const [r, g, b] = rgb.map(toLinear);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// WCAG contrast ratio, from 1 (same) to 21 (black on white)
+export const contrastRatio = (a: RGB, b: RGB) => {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// Below this colorDifference two series are easy to confuse
+export const MIN_COLOR_DIFFERENCE = 8;
+
+// WCAG 1.4.11: chart marks need 3:1 against what they are drawn on
+export const MIN_GRAPHIC_CONTRAST = 3;
+
+export type ColorVision = 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export const COLOR_VISION_LABELS: Record<ColorVision, string> = {
+  protanopia: 'protanopia (red-blind)',
+  deuteranopia: 'deuteranopia (green-blind)',
+  tritanopia: 'tritanopia (blue-blind)'
+};
+
+// Machado, Oliveira and Fernandes (2009) at full severity, applied to linear RGB
+const VISION_MATRICES: Record<ColorVision, number[][]> = {
+  protanopia: [[0.152286, 1.052583, -0.204868], [0.114503, 0.786281, 0.099216], [-0.003882, -0.048116, 1.051998]],
+  deuteranopia: [[0.367322, 0.860646, -0.227968], [0.280085, 0.672501, 0.047413], [-0.01182, 0.04294, 0.968881]],
+  tritanopia: [[1.255528, -0.076749, -0.178779], [-0.078411, 0.930809, 0.147602], [0.004733, 0.691367, 0.3039]]
+};
+
+export const simulateColorVision = (rgb: RGB, vision: ColorVision): RGB => {
+  const linear = rgb.map(toLinear);
+  return VISION_MATRICES[vision].map(row =>
+    toGamma(Math.max(0, Math.min(1, row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2])))
+  ) as RGB;
+};
+
+const toLab = (rgb: RGB): RGB => {
+  const [r, g, b] = rgb.map(toLinear);
+  const xyz = [
+    (0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047,
+    0.2126 * r + 0.7152 * g + 0.0722 * b,
+    (0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883
+  ].map(t => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116));
+  return [116 * xyz[1] - 16, 500 * (xyz[0] - xyz[1]), 200 * (xyz[1] - xyz[2])];
+};
+
+// CIE76 distance in Lab
+export const colorDifference = (a: RGB, b: RGB) => {
+  const [la, lb] = [toLab(a), toLab(b)];
+  return Math.hypot(la[0] - lb[0], la[1] - lb[1], la[2] - lb[2]);
+};
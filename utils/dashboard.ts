@@ -0,0 +1,57 @@
+import { ChartSelection, DashboardPanel, VisualizationConfig } from '../types';
+import { MISSING_LABEL, toNumber } from './aggregation';
+import { formatNumber } from './codegen';
+import { parseDate } from './dates';
+import { isMissing } from './profiler';
+import { createId } from './project';
+
+export const DASHBOARD_COLUMNS = 3;
+export const MIN_PANEL_HEIGHT = 220;
+export const MAX_PANEL_HEIGHT = 900;
+
+export const createPanel = (config: VisualizationConfig): DashboardPanel => ({
+  id: createId(),
+  config,
+  prompt: '',
+  span: 1,
+  height: 320
+});
+
+export const clampSpan = (span: number) => Math.min(DASHBOARD_COLUMNS, Math.max(1, Math.round(span)));
+
+export const clampHeight = (height: number) => Math.min(MAX_PANEL_HEIGHT, Math.max(MIN_PANEL_HEIGHT, Math.round(height)));
+
+export const movePanel = (panels: DashboardPanel[], id: string, beforeId: string | null) => {
+  const moving = panels.find(p => p.id === id);
+  if (!moving || id === beforeId) return panels;
+  const rest = panels.filter(p => p.id !== id);
+  const at = beforeId ? rest.findIndex(p => p.id === beforeId) : -1;
+  return at < 0 ? [...rest, moving] : [...rest.slice(0, at), moving, ...rest.slice(at)];
+};
+
+// Categories are matched as text; the "NA" bucket of aggregated charts stands for missing values
+export const matchesSelection = (row: any, selection: ChartSelection) => {
+  const value = row[selection.column];
+  if (selection.range) {
+    const n = selection.dateFormat ? parseDate(value, selection.dateFormat) ?? NaN : toNumber(value);
+    return !isNaN(n) && n >= selection.range[0] && n < selection.range[1];
+  }
+  if (isMissing(value)) return String(selection.value) === MISSING_LABEL;
+  return String(value) === String(selection.value);
+};
+
+export const filterRows = (data: any[], selection: ChartSelection | null) =>
+  selection ? data.filter(row => matchesSelection(row, selection)) : data;
+
+export const describeSelection = (selection: ChartSelection) => {
+  if (!selection.range) return `${selection.column} = ${selection.value}`;
+  if (selection.label) return `${selection.column} = ${selection.label}`;
+  const [from, to] = selection.range;
+  return isFinite(to) ? `${selection.column} in ${formatNumber(from)}–${formatNumber(to)}` : `${selection.column} ≥ ${formatNumber(from)}`;
+};
+
+// Clicking the active selection again clears it
+export const toggleSelection = <T extends ChartSelection>(current: T | null, next: T): T | null =>
+  current && current.column === next.column && String(current.value) === String(next.value) && String(current.range) === String(next.range)
+    ? null
+    : next;
@@ -0,0 +1,46 @@
+import { ChartSelection, VisualizationConfig } from '../types';
+import { filterRows } from './dashboard';
+import { LoadOptions, LoadedFile, streamDataFile } from './parsers';
+import { processData } from './processing';
+import { SampledData, downsample } from './sampling';
+
+export type WorkerRequest =
+  | { type: 'parse'; file: File; options: LoadOptions }
+  | { type: 'setData'; data: any[] }
+  | { type: 'process'; id: number; config: VisualizationConfig; filter: ChartSelection | null };
+
+export type WorkerResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'parsed'; loaded: LoadedFile }
+  | { type: 'processed'; id: number; result: SampledData }
+  | { type: 'error'; id?: number; message: string };
+
+// Rows stay here between requests so only the config crosses the thread boundary
+let rows: any[] = [];
+
+const reply = (message: WorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'parse':
+      try {
+        const loaded = await streamDataFile(request.file, request.options, fraction => reply({ type: 'progress', fraction }));
+        reply({ type: 'parsed', loaded });
+      } catch (err: any) {
+        reply({ type: 'error', message: err.message });
+      }
+      break;
+    case 'setData':
+      rows = request.data;
+      break;
+    case 'process':
+      try {
+        const filtered = filterRows(rows, request.filter);
+        reply({ type: 'processed', id: request.id, result: downsample(processData(filtered, request.config), request.config) });
+      } catch (err: any) {
+        reply({ type: 'error', id: request.id, message: err.message });
+      }
+      break;
+  }
+};
@@ -0,0 +1,178 @@
+import { DateFormat, TimeUnit } from '../types';
+
+// Dates are handled as wall-clock times stored in UTC milliseconds, so "2024-03-01" is the same
+// day in every time zone and periods never shift across daylight saving changes
+
+const ISO_DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const NUMERIC_DATE = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const TEXT_DATE = /^(\d{1,2} [A-Za-z]{3,9},? \d{4}|[A-Za-z]{3,9} \d{1,2},? \d{4})/;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAY = 86400000;
+
+// Values checked when only a quick guess is needed, e.g. per chart render
+const SAMPLE_SIZE = 200;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const fromParts = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0, ms = 0) => {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) return null;
+  const t = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+  // Rejects days past the end of the month, e.g. 31/02
+  return new Date(t).getUTCDate() === day ? t : null;
+};
+
+const fullYear = (year: string) => {
+  const n = Number(year);
+  return year.length === 2 ? (n < 50 ? 2000 + n : 1900 + n) : n;
+};
+
+// The wall-clock reading of a Date, whatever zone it was created in
+const fromDate = (date: Date) =>
+  isNaN(date.getTime())
+    ? null
+    : Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+
+// Which format one value could be in; numeric dates are ambiguous unless a part is above 12
+const candidates = (text: string): DateFormat[] => {
+  if (ISO_DATE.test(text)) return ['iso'];
+  const numeric = text.match(NUMERIC_DATE);
+  if (numeric) {
+    if (Number(numeric[1]) > 12) return ['dmy'];
+    if (Number(numeric[2]) > 12) return ['mdy'];
+    return ['mdy', 'dmy'];
+  }
+  return TEXT_DATE.test(text) && !isNaN(Date.parse(text)) ? ['text'] : [];
+};
+
+// The one format every value fits, preferring month-first for ambiguous columns like JavaScript does
+export const detectDateFormat = (values: any[]): DateFormat | null => {
+  let possible: DateFormat[] | null = null;
+  let seen = 0;
+  for (const value of values) {
+    if (value === null || value === undefined || value === '') continue;
+    seen++;
+    if (value instanceof Date) {
+      if (isNaN(value.getTime())) return null;
+      continue;
+    }
+    if (typeof value !== 'string') return null;
+    const fits = candidates(value.trim());
+    possible = possible ? possible.filter(f => fits.includes(f)) : fits;
+    if (possible.length === 0) return null;
+  }
+  if (seen === 0) return null;
+  return possible ? possible[0] : 'iso';
+};
+
+// Detection over the first non-missing values only, for callers without a profile
+export const sampleDateFormat = (data: any[], key: string) => {
+  const sample: any[] = [];
+  for (const row of data) {
+    const value = row?.[key];
+    if (value === null || value === undefined || value === '') continue;
+    sample.push(value);
+    if (sample.length >= SAMPLE_SIZE) break;
+  }
+  return detectDateFormat(sample);
+};
+
+export const parseDate = (value: any, format?: DateFormat | null): number | null => {
+  if (value instanceof Date) return fromDate(value);
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  const fmt = format ?? candidates(text)[0];
+  if (!fmt) return null;
+
+  if (fmt === 'iso') {
+    const m = text.match(ISO_DATE);
+    if (!m) return null;
+    // An explicit zone is a real instant; its UTC reading is used
+    if (m[8]) {
+      const t = Date.parse(text.replace(' ', 'T'));
+      return isNaN(t) ? null : t;
+    }
+    const ms = m[7] ? Math.round(Number(`0.${m[7]}`) * 1000) : 0;
+    return fromParts(Number(m[1]), Number(m[2]), Number(m[3]), Number(m[4] ?? 0), Number(m[5] ?? 0), Number(m[6] ?? 0), ms);
+  }
+  if (fmt === 'dmy' || fmt === 'mdy') {
+    const m = text.match(NUMERIC_DATE);
+    if (!m) return null;
+    const [day, month] = fmt === 'dmy' ? [m[1], m[2]] : [m[2], m[1]];
+    return fromParts(fullYear(m[3]), Number(month), Number(day), Number(m[4] ?? 0), Number(m[5] ?? 0), Number(m[6] ?? 0));
+  }
+  return TEXT_DATE.test(text) ? fromDate(new Date(text)) : null;
+};
+
+export const hasTimeOfDay = (t: number) => t % DAY !== 0;
+
+// Start of the period holding t; weeks start on Monday
+export const truncateDate = (t: number, unit: TimeUnit) => {
+  const d = new Date(t);
+  const year = d.getUTCFullYear();
+  const month = d.getUTCMonth();
+  switch (unit) {
+    case 'day': return Date.UTC(year, month, d.getUTCDate());
+    case 'week': return Date.UTC(year, month, d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+    case 'month': return Date.UTC(year, month, 1);
+    case 'quarter': return Date.UTC(year, month - (month % 3), 1);
+    case 'year': return Date.UTC(year, 0, 1);
+  }
+};
+
+export const nextPeriod = (t: number, unit: TimeUnit) => {
+  const d = new Date(t);
+  const [year, month, day] = [d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()];
+  switch (unit) {
+    case 'day': return Date.UTC(year, month, day + 1);
+    case 'week': return Date.UTC(year, month, day + 7);
+    case 'month': return Date.UTC(year, month + 1, day);
+    case 'quarter': return Date.UTC(year, month + 3, day);
+    case 'year': return Date.UTC(year + 1, month, day);
+  }
+};
+
+export type DateLabelUnit = TimeUnit | 'minute';
+
+export const formatDate = (t: number, unit: DateLabelUnit) => {
+  const d = new Date(t);
+  const year = d.getUTCFullYear();
+  const month = d.getUTCMonth();
+  switch (unit) {
+    case 'year': return String(year);
+    case 'quarter': return `${year} Q${Math.floor(month / 3) + 1}`;
+    case 'month': return `${MONTHS[month]} ${year}`;
+    case 'minute': return `${year}-${pad(month + 1)}-${pad(d.getUTCDate())} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`;
+    default: return `${year}-${pad(month + 1)}-${pad(d.getUTCDate())}`;
+  }
+};
+
+const HOUR = 3600000;
+
+// Tick spacings from finest to coarsest, with the label each one needs
+const TICK_STEPS: { unit: 'hour' | 'day' | 'month' | 'year'; n: number; size: number; label: DateLabelUnit }[] = [
+  ...[1, 2, 3, 6, 12].map(n => ({ unit: 'hour' as const, n, size: n * HOUR, label: 'minute' as const })),
+  ...[1, 2, 7, 14].map(n => ({ unit: 'day' as const, n, size: n * DAY, label: 'day' as const })),
+  ...[1, 2, 3, 6].map(n => ({ unit: 'month' as const, n, size: n * 30.4 * DAY, label: 'month' as const })),
+  ...[1, 2, 5, 10, 20, 50, 100].map(n => ({ unit: 'year' as const, n, size: n * 365.25 * DAY, label: 'year' as const }))
+];
+
+// Round-dated ticks (midnights, month or year starts) across a time axis, at most maxTicks of them
+export const timeTicks = (from: number, to: number, maxTicks = 8): { ticks: number[]; unit: DateLabelUnit } => {
+  if (!(to > from)) return { ticks: [from], unit: hasTimeOfDay(from) ? 'minute' : 'day' };
+  const step = TICK_STEPS.find(s => (to - from) / s.size <= maxTicks) ?? TICK_STEPS[TICK_STEPS.length - 1];
+  const d = new Date(from);
+  const [year, month, day] = [d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()];
+  const at = (i: number) => {
+    switch (step.unit) {
+      case 'hour': return Date.UTC(year, month, day, Math.floor(d.getUTCHours() / step.n) * step.n + i * step.n);
+      case 'day': return Date.UTC(year, month, day + i * step.n);
+      case 'month': return Date.UTC(year, Math.floor(month / step.n) * step.n + i * step.n, 1);
+      case 'year': return Date.UTC(Math.floor(year / step.n) * step.n + i * step.n, 0, 1);
+    }
+  };
+  const ticks: number[] = [];
+  for (let i = 0, t = at(0); t <= to; t = at(++i)) {
+    if (t >= from) ticks.push(t);
+  }
+  return { ticks, unit: step.label };
+};
@@ -0,0 +1,213 @@
+import { Dataset, VisualizationConfig } from '../types';
+import { ChartTable } from './accessibility';
+
+export type ExportBackground = 'transparent' | 'dark';
+
+export interface ExportOptions {
+  title?: string;
+  description?: string;
+  altText?: string; // Becomes the SVG's <desc>, read out in place of the drawing
+  background: ExportBackground;
+}
+
+export interface ChartSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const DARK_BACKGROUND = '#0f172a';
+const FONT_FAMILY = "Inter, 'Helvetica Neue', Arial, sans-serif";
+const HEADER_TITLE_HEIGHT = 32;
+const HEADER_DESCRIPTION_HEIGHT = 22;
+const LEGEND_HEIGHT = 28;
+
+// Computed styles copied onto the clone so the SVG renders the same outside the app
+const INLINE_STYLE_PROPS = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray', 'opacity',
+  'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline', 'visibility'
+];
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineStyles = (source: Element, target: Element) => {
+  const computed = window.getComputedStyle(source);
+  const style = INLINE_STYLE_PROPS
+    .map(prop => [prop, computed.getPropertyValue(prop)])
+    .filter(([, value]) => value && value !== 'none' && value !== 'normal')
+    .map(([prop, value]) => `${prop}:${value}`)
+    .join(';');
+  if (style) target.setAttribute('style', style);
+
+  for (let i = 0; i < source.children.length; i++) {
+    inlineStyles(source.children[i], target.children[i]);
+  }
+};
+
+// Recharts draws its legend as HTML, so the entries are read back and redrawn in SVG
+const readLegend = (container: HTMLElement) =>
+  [...container.querySelectorAll('.recharts-legend-item')].map(item => {
+    const swatch = item.querySelector('path, rect, line');
+    return {
+      label: item.querySelector('.recharts-legend-item-text')?.textContent || '',
+      color: swatch?.getAttribute('fill') || swatch?.getAttribute('stroke') || '#94a3b8'
+    };
+  });
+
+export const findChartSvg = (container: HTMLElement) =>
+  container.querySelector<SVGSVGElement>('.recharts-wrapper > svg') || container.querySelector<SVGSVGElement>('svg');
+
+export const buildChartSvg = (container: HTMLElement, options: ExportOptions): ChartSvg | null => {
+  const chart = findChartSvg(container);
+  if (!chart) return null;
+
+  const { width, height } = chart.getBoundingClientRect();
+  const textColor = options.background === 'dark' ? '#f1f5f9' : '#0f172a';
+  const mutedColor = options.background === 'dark' ? '#94a3b8' : '#475569';
+  const legend = readLegend(container);
+
+  let header = 0;
+  const parts: string[] = [];
+  if (options.title) {
+    header += HEADER_TITLE_HEIGHT;
+    parts.push(`<text x="16" y="24" fill="${textColor}" font-family="${FONT_FAMILY}" font-size="18" font-weight="700">${escapeXml(options.title)}</text>`);
+  }
+  if (options.description) {
+    header += HEADER_DESCRIPTION_HEIGHT;
+    parts.push(`<text x="16" y="${header - 6}" fill="${mutedColor}" font-family="${FONT_FAMILY}" font-size="12">${escapeXml(options.description)}</text>`);
+  }
+
+  const clone = chart.cloneNode(true) as SVGSVGElement;
+  inlineStyles(chart, clone);
+  clone.setAttribute('x', '0');
+  clone.setAttribute('y', String(header));
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  parts.push(new XMLSerializer().serializeToString(clone));
+
+  const totalHeight = header + height + (legend.length > 0 ? LEGEND_HEIGHT : 0);
+  if (legend.length > 0) {
+    let x = 16;
+    const y = header + height + 18;
+    for (const item of legend) {
+      parts.push(`<rect x="${x}" y="${y - 10}" width="10" height="10" rx="2" fill="${item.color}"/>`);
+      parts.push(`<text x="${x + 14}" y="${y}" fill="${mutedColor}" font-family="${FONT_FAMILY}" font-size="12">${escapeXml(item.label)}</text>`);
+      x += 28 + item.label.length * 7;
+    }
+  }
+
+  const background = options.background === 'dark'
+    ? `<rect width="100%" height="100%" fill="${DARK_BACKGROUND}"/>`
+    : '';
+
+  const label = `<title>${escapeXml(options.title || 'Chart')}</title>${options.altText ? `<desc>${escapeXml(options.altText)}</desc>` : ''}`;
+
+  return {
+    width,
+    height: totalHeight,
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" role="img" width="${width}" height="${totalHeight}" viewBox="0 0 ${width} ${totalHeight}">${label}${background}${parts.join('')}</svg>`
+  };
+};
+
+export const svgToPng = (chartSvg: ChartSvg, scale: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([chartSvg.svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(chartSvg.width * scale);
+      canvas.height = Math.round(chartSvg.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not supported"));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode PNG"))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render SVG"));
+    };
+    image.src = url;
+  });
+};
+
+// JSON inside <script> must not be able to close the tag
+const embedJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const tableHtml = (table: ChartTable) => {
+  const row = (values: string[]) => values
+    .map((value, i) => (i < table.keyColumns ? `<th scope="row">${escapeXml(value)}</th>` : `<td>${escapeXml(value)}</td>`))
+    .join('');
+  return `<table>
+<thead><tr>${table.columns.map(column => `<th scope="col">${escapeXml(column)}</th>`).join('')}</tr></thead>
+<tbody>
+${table.rows.map(values => `<tr>${row(values)}</tr>`).join('\n')}
+</tbody>
+</table>`;
+};
+
+// Self-contained page: the rendered SVG plus the dataset and config needed to rebuild the chart
+export const buildStandaloneHtml = (
+  chartSvg: ChartSvg, config: VisualizationConfig, dataset: Dataset, background: ExportBackground, altText: string, table: ChartTable
+) => {
+  const dark = background === 'dark';
+  const title = escapeXml(config.title || 'Chart');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="generator" content="VizAI" />
+<title>${title}</title>
+<style>
+  body { margin: 0; padding: 24px; font-family: ${FONT_FAMILY}; background: ${dark ? DARK_BACKGROUND : '#ffffff'}; color: ${dark ? '#e2e8f0' : '#0f172a'}; }
+  figure { margin: 0; }
+  svg { max-width: 100%; height: auto; }
+  details { margin-top: 16px; font-size: 13px; }
+  pre { white-space: pre-wrap; }
+  figcaption { margin-top: 8px; font-size: 13px; }
+  table { border-collapse: collapse; }
+  th, td { padding: 2px 8px; text-align: left; }
+</style>
+</head>
+<body>
+<figure>
+${chartSvg.svg}
+<figcaption>${escapeXml(altText)}</figcaption>
+</figure>
+<details>
+<summary>Data table</summary>
+${tableHtml(table)}
+</details>
+<details>
+<summary>Configuration and data (${dataset.data.length} rows from ${escapeXml(dataset.name)})</summary>
+<pre id="vizai-summary"></pre>
+</details>
+<script type="application/json" id="vizai-config">${embedJson(config)}</script>
+<script type="application/json" id="vizai-dataset">${embedJson({ name: dataset.name, columns: dataset.columns, data: dataset.data })}</script>
+<script>
+  (function () {
+    var config = JSON.parse(document.getElementById('vizai-config').textContent);
+    document.getElementById('vizai-summary').textContent = JSON.stringify(config, null, 2);
+  })();
+</script>
+</body>
+</html>`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chart';
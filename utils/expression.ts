@@ -0,0 +1,380 @@
+import { toNumber } from './aggregation';
+import { isMissing } from './profiler';
+
+// A small, eval-free expression language for filters and derived columns, e.g.
+//   SibSp + Parch + 1
+//   Sex == "female" and not is_missing(Age)
+//   if(Fare > 50, "high", "low")
+// Column names that are not plain identifiers go in backticks: `Ticket Price` * 2
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or';
+
+export type Expr =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'column'; name: string }
+  | { kind: 'unary'; op: '-' | 'not'; arg: Expr }
+  | { kind: 'binary'; op: BinaryOperator; left: Expr; right: Expr }
+  | { kind: 'call'; name: string; args: Expr[] };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'column' | 'op' | 'end';
+  text: string;
+  pos: number;
+}
+
+interface FunctionSpec {
+  min: number;
+  max: number;
+  apply: (...args: any[]) => any;
+}
+
+const numeric = (value: any) => (isMissing(value) ? NaN : toNumber(value));
+
+// Missing or non-numeric operands give a missing result rather than NaN in the rows
+const math = (fn: (...nums: number[]) => number) => (...args: any[]) => {
+  const nums = args.map(numeric);
+  if (nums.some(isNaN)) return null;
+  const result = fn(...nums);
+  return isFinite(result) ? result : null;
+};
+
+const text = (fn: (value: string) => any) => (value: any) => (isMissing(value) ? null : fn(String(value)));
+
+export const isTruthy = (value: any) => value === true || (typeof value === 'number' && value !== 0 && !isNaN(value));
+
+const present = (args: any[]) => args.map(numeric).filter(v => !isNaN(v));
+
+export const FUNCTIONS: Record<string, FunctionSpec> = {
+  abs: { min: 1, max: 1, apply: math(Math.abs) },
+  round: { min: 1, max: 2, apply: math((x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits) },
+  floor: { min: 1, max: 1, apply: math(Math.floor) },
+  ceil: { min: 1, max: 1, apply: math(Math.ceil) },
+  sqrt: { min: 1, max: 1, apply: math(Math.sqrt) },
+  log: { min: 1, max: 1, apply: math(Math.log) },
+  exp: { min: 1, max: 1, apply: math(Math.exp) },
+  // min/max skip missing values, like na.rm = TRUE
+  min: { min: 2, max: 10, apply: (...args) => { const nums = present(args); return nums.length ? Math.min(...nums) : null; } },
+  max: { min: 2, max: 10, apply: (...args) => { const nums = present(args); return nums.length ? Math.max(...nums) : null; } },
+  lower: { min: 1, max: 1, apply: text(s => s.toLowerCase()) },
+  upper: { min: 1, max: 1, apply: text(s => s.toUpperCase()) },
+  trim: { min: 1, max: 1, apply: text(s => s.trim()) },
+  len: { min: 1, max: 1, apply: text(s => s.length) },
+  contains: { min: 2, max: 2, apply: (value, part) => (isMissing(value) ? null : String(value).includes(String(part ?? ''))) },
+  concat: { min: 1, max: 10, apply: (...args) => args.map(v => (isMissing(v) ? '' : String(v))).join('') },
+  if: { min: 3, max: 3, apply: (test, yes, no) => (isTruthy(test) ? yes : no) },
+  is_missing: { min: 1, max: 1, apply: isMissing },
+  coalesce: { min: 2, max: 10, apply: (...args) => args.find(v => !isMissing(v)) ?? null }
+};
+
+const KEYWORDS: Record<string, Expr> = {
+  true: { kind: 'literal', value: true },
+  false: { kind: 'literal', value: false },
+  null: { kind: 'literal', value: null }
+};
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '(', ')', ',', '!'];
+
+const fail = (message: string, pos: number): never => {
+  throw new Error(`${message} at position ${pos + 1}`);
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+      if (!match) fail(`Unexpected "${ch}"`, i);
+      tokens.push({ type: 'number', text: match![0], pos: start });
+      i += match![0].length;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) fail(ch === '`' ? 'Unclosed column name' : 'Unclosed string', start);
+      i++;
+      tokens.push({ type: ch === '`' ? 'column' : 'string', text: value, pos: start });
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'name', text: match[0], pos: start });
+      i += match[0].length;
+    } else {
+      const op = OPERATORS.find(o => source.startsWith(o, i));
+      if (!op) fail(ch === '=' ? 'Use == to compare values' : `Unexpected "${ch}"`, i);
+      tokens.push({ type: 'op', text: op!, pos: start });
+      i += op!.length;
+    }
+  }
+  tokens.push({ type: 'end', text: '', pos: source.length });
+  return tokens;
+};
+
+// Precedence climbing: or < and < not < comparison < + - < * / % < unary minus
+export const parseExpression = (source: string): Expr => {
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isWord = (word: string) => peek().type === 'name' && peek().text.toLowerCase() === word;
+  const isOp = (...ops: string[]) => peek().type === 'op' && ops.includes(peek().text);
+  const expect = (op: string) => {
+    if (!isOp(op)) fail(`Expected "${op}"`, peek().pos);
+    next();
+  };
+
+  const parseOr = (): Expr => {
+    let left = parseAnd();
+    while (isWord('or') || isOp('||')) {
+      next();
+      left = { kind: 'binary', op: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Expr => {
+    let left = parseNot();
+    while (isWord('and') || isOp('&&')) {
+      next();
+      left = { kind: 'binary', op: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): Expr => {
+    if (isWord('not') || isOp('!')) {
+      next();
+      return { kind: 'unary', op: 'not', arg: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): Expr => {
+    const left = parseAdditive();
+    if (isOp('==', '!=', '<', '<=', '>', '>=')) {
+      const op = next().text as BinaryOperator;
+      return { kind: 'binary', op, left, right: parseAdditive() };
+    }
+    return left;
+  };
+
+  const parseAdditive = (): Expr => {
+    let left = parseMultiplicative();
+    while (isOp('+', '-')) {
+      const op = next().text as BinaryOperator;
+      left = { kind: 'binary', op, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): Expr => {
+    let left = parseUnary();
+    while (isOp('*', '/', '%')) {
+      const op = next().text as BinaryOperator;
+      left = { kind: 'binary', op, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expr => {
+    if (isOp('-')) {
+      next();
+      return { kind: 'unary', op: '-', arg: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.text) };
+      case 'string':
+        return { kind: 'literal', value: token.text };
+      case 'column':
+        return { kind: 'column', name: token.text };
+      case 'name': {
+        if (isOp('(')) {
+          const name = token.text.toLowerCase();
+          const spec = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+          if (!spec) fail(`Unknown function "${token.text}"`, token.pos);
+          next();
+          const args: Expr[] = [];
+          if (!isOp(')')) {
+            args.push(parseOr());
+            while (isOp(',')) {
+              next();
+              args.push(parseOr());
+            }
+          }
+          expect(')');
+          if (args.length < spec.min || args.length > spec.max) {
+            const expected = spec.min === spec.max ? `${spec.min}` : `${spec.min}-${spec.max}`;
+            fail(`${name}() takes ${expected} argument${spec.max === 1 ? '' : 's'}`, token.pos);
+          }
+          return { kind: 'call', name, args };
+        }
+        const word = token.text.toLowerCase();
+        return Object.hasOwn(KEYWORDS, word) ? KEYWORDS[word] : { kind: 'column', name: token.text };
+      }
+      case 'op':
+        if (token.text === '(') {
+          const inner = parseOr();
+          expect(')');
+          return inner;
+        }
+        return fail(`Unexpected "${token.text}"`, token.pos);
+      default:
+        return fail('Unexpected end of expression', token.pos);
+    }
+  };
+
+  if (peek().type === 'end') fail('Expression is empty', 0);
+  const expr = parseOr();
+  if (peek().type !== 'end') fail(`Unexpected "${peek().text}"`, peek().pos);
+  return expr;
+};
+
+export const referencedColumns = (expr: Expr): string[] => {
+  switch (expr.kind) {
+    case 'column':
+      return [expr.name];
+    case 'unary':
+      return referencedColumns(expr.arg);
+    case 'binary':
+      return [...new Set([...referencedColumns(expr.left), ...referencedColumns(expr.right)])];
+    case 'call':
+      return [...new Set(expr.args.flatMap(referencedColumns))];
+    default:
+      return [];
+  }
+};
+
+// Numbers compare numerically (also when stored as text), everything else as strings
+const compare = (a: any, b: any) => {
+  const x = numeric(a);
+  const y = numeric(b);
+  if (!isNaN(x) && !isNaN(y)) return x - y;
+  return String(a).localeCompare(String(b));
+};
+
+type Evaluator = (row: any) => any;
+
+// Comparisons against a missing value are false, so filters drop those rows like dplyr does
+const binary = (op: BinaryOperator, left: Evaluator, right: Evaluator): Evaluator => {
+  switch (op) {
+    case 'and':
+      return row => isTruthy(left(row)) && isTruthy(right(row));
+    case 'or':
+      return row => isTruthy(left(row)) || isTruthy(right(row));
+    case '==':
+    case '!=':
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      return row => {
+        const a = left(row);
+        const b = right(row);
+        if (isMissing(a) || isMissing(b)) return false;
+        const order = compare(a, b);
+        switch (op) {
+          case '==': return order === 0;
+          case '!=': return order !== 0;
+          case '<': return order < 0;
+          case '<=': return order <= 0;
+          case '>': return order > 0;
+          default: return order >= 0;
+        }
+      };
+    default: {
+      const apply = math((a, b) => {
+        switch (op) {
+          case '+': return a + b;
+          case '-': return a - b;
+          case '*': return a * b;
+          case '/': return a / b;
+          default: return a % b;
+        }
+      });
+      return row => apply(left(row), right(row));
+    }
+  }
+};
+
+const build = (expr: Expr): Evaluator => {
+  switch (expr.kind) {
+    case 'literal':
+      return () => expr.value;
+    case 'column':
+      return row => row[expr.name];
+    case 'unary': {
+      const arg = build(expr.arg);
+      if (expr.op === 'not') return row => !isTruthy(arg(row));
+      const negate = math(x => -x);
+      return row => negate(arg(row));
+    }
+    case 'binary':
+      return binary(expr.op, build(expr.left), build(expr.right));
+    case 'call': {
+      const args = expr.args.map(build);
+      const { apply } = FUNCTIONS[expr.name];
+      return row => apply(...args.map(arg => arg(row)));
+    }
+  }
+};
+
+// Parses once and returns a row function; throws with a readable message on bad syntax
+export const compileExpression = (source: string) => {
+  const expr = parseExpression(source);
+  return { expr, columns: referencedColumns(expr), evaluate: build(expr) };
+};
+
+// How an expression is spelled in a target language (R, pandas)
+export interface ExpressionDialect {
+  literal: (value: string | number | boolean | null) => string;
+  column: (name: string) => string;
+  operators: Partial<Record<BinaryOperator | 'not', string>>;
+  call: (name: string, args: string[]) => string;
+}
+
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  or: 1, and: 2, '==': 3, '!=': 3, '<': 3, '<=': 3, '>': 3, '>=': 3, '+': 4, '-': 4, '*': 5, '/': 5, '%': 5
+};
+
+// Operands of and/or/not are always bracketed: pandas' & | ~ bind tighter than comparisons
+export const formatExpression = (expr: Expr, dialect: ExpressionDialect): string => {
+  const format = (node: Expr, parent?: BinaryOperator, right = false): string => {
+    switch (node.kind) {
+      case 'literal':
+        return dialect.literal(node.value);
+      case 'column':
+        return dialect.column(node.name);
+      case 'call':
+        return dialect.call(node.name, node.args.map(arg => format(arg)));
+      case 'unary': {
+        const arg = format(node.arg, node.op === 'not' ? 'and' : '*');
+        return node.op === 'not' ? `${dialect.operators.not ?? '!'}${arg}` : `-${arg}`;
+      }
+      case 'binary': {
+        const text = `${format(node.left, node.op)} ${dialect.operators[node.op] ?? node.op} ${format(node.right, node.op, true)}`;
+        if (!parent) return text;
+        const logical = parent === 'and' || parent === 'or';
+        const outer = PRECEDENCE[parent];
+        const inner = PRECEDENCE[node.op];
+        // R's %% binds tighter than * and /, so mixed modulo is bracketed too
+        const needs = logical || inner < outer || (inner === outer && (right || (node.op !== parent && (node.op === '%' || parent === '%'))));
+        return needs ? `(${text})` : text;
+      }
+    }
+  };
+  return format(expr);
+};
@@ -0,0 +1,157 @@
+import { Dataset, DatasetSource, JoinType } from '../types';
+import { createDataset, isMissing } from './profiler';
+
+export interface JoinOptions {
+  how: JoinType;
+  leftKeys: string[];
+  rightKeys: string[]; // Paired with leftKeys by position
+}
+
+export interface JoinReport {
+  rows: number;
+  unmatchedLeft: number; // Left rows without a partner, dropped by inner joins
+  unmatchedRight: number; // Right rows without a partner, kept only by outer joins
+  duplicateLeftKeys: number; // Key values found on more than one row, which multiply the matches
+  duplicateRightKeys: number;
+  renamed: string[]; // Right columns that clashed with a left column and got the suffix
+}
+
+export interface UnionReport {
+  rows: number;
+  missing: { name: string; columns: string[] }[]; // Columns an input lacks, filled with nulls
+}
+
+export const JOIN_LABELS: Record<JoinType, string> = {
+  inner: 'Inner: matching rows only',
+  left: 'Left: all rows of the first table',
+  outer: 'Outer: all rows of both tables'
+};
+
+// Appended to right-hand columns whose name is already taken, like suffix = c("", "_y") in dplyr
+export const JOIN_SUFFIX = '_y';
+
+// Missing keys match each other, as in dplyr and pandas
+const keyOf = (row: any, keys: string[]) =>
+  JSON.stringify(keys.map(k => (isMissing(row[k]) ? null : String(row[k]))));
+
+const toSource = ({ name, origin, file }: Dataset): DatasetSource => ({
+  name,
+  ...(origin ? { origin } : {}),
+  ...(file ? { file } : {})
+});
+
+const indexRows = (rows: any[], keys: string[]) => {
+  const index = new Map<string, number[]>();
+  rows.forEach((row, i) => {
+    const key = keyOf(row, keys);
+    const matches = index.get(key);
+    if (matches) matches.push(i);
+    else index.set(key, [i]);
+  });
+  return index;
+};
+
+const countDuplicates = (index: Map<string, number[]>) => {
+  let count = 0;
+  index.forEach(rows => { if (rows.length > 1) count++; });
+  return count;
+};
+
+const checkKeys = (dataset: Dataset, keys: string[]) => {
+  const missing = keys.filter(k => !dataset.columns.includes(k));
+  if (missing.length > 0) throw new Error(`${dataset.name} has no column ${missing.map(k => `"${k}"`).join(', ')}`);
+};
+
+// Joins the stored rows of two tables; key columns keep the left names and right key columns are dropped
+export const joinDatasets = (left: Dataset, right: Dataset, options: JoinOptions): { dataset: Dataset; report: JoinReport } => {
+  const { how, leftKeys, rightKeys } = options;
+  if (leftKeys.length === 0 || leftKeys.length !== rightKeys.length) throw new Error('Pick the same number of key columns on both sides');
+  checkKeys(left, leftKeys);
+  checkKeys(right, rightKeys);
+
+  const rightColumns = right.columns.filter(c => !rightKeys.includes(c));
+  const renamed = rightColumns.filter(c => left.columns.includes(c));
+  const outputName = (c: string) => (renamed.includes(c) ? c + JOIN_SUFFIX : c);
+  const columns = [...left.columns, ...rightColumns.map(outputName)];
+
+  const leftIndex = indexRows(left.data, leftKeys);
+  const rightIndex = indexRows(right.data, rightKeys);
+  const emptyLeft = Object.fromEntries(left.columns.map(c => [c, null]));
+  const emptyRight = Object.fromEntries(rightColumns.map(c => [outputName(c), null]));
+  const rightPart = (row: any) => Object.fromEntries(rightColumns.map(c => [outputName(c), row[c]]));
+
+  const rows: any[] = [];
+  const matchedRight = new Set<number>();
+  let unmatchedLeft = 0;
+  for (const row of left.data) {
+    const matches = rightIndex.get(keyOf(row, leftKeys));
+    if (matches) {
+      for (const i of matches) {
+        matchedRight.add(i);
+        rows.push({ ...row, ...rightPart(right.data[i]) });
+      }
+    } else {
+      unmatchedLeft++;
+      if (how !== 'inner') rows.push({ ...row, ...emptyRight });
+    }
+  }
+  const unmatchedRight = right.data.length - matchedRight.size;
+  if (how === 'outer') {
+    right.data.forEach((row, i) => {
+      if (matchedRight.has(i)) return;
+      const keys = Object.fromEntries(leftKeys.map((k, j) => [k, row[rightKeys[j]]]));
+      rows.push({ ...emptyLeft, ...keys, ...rightPart(row) });
+    });
+  }
+
+  const name = `${left.name} + ${right.name}`;
+  return {
+    dataset: {
+      ...createDataset(name, rows, columns),
+      transforms: [],
+      origin: { type: 'join', how, left: toSource(left), right: toSource(right), leftKeys, rightKeys }
+    },
+    report: {
+      rows: rows.length,
+      unmatchedLeft,
+      unmatchedRight,
+      duplicateLeftKeys: countDuplicates(leftIndex),
+      duplicateRightKeys: countDuplicates(rightIndex),
+      renamed
+    }
+  };
+};
+
+// Stacks tables with the same columns, recording which one each row came from
+export const unionDatasets = (inputs: Dataset[], sourceColumn: string): { dataset: Dataset; report: UnionReport } => {
+  if (inputs.length < 2) throw new Error('Pick at least two tables to stack');
+  if (!sourceColumn.trim()) throw new Error('Name the column that records the source table');
+  const columns = [...new Set(inputs.flatMap(d => d.columns))];
+  if (columns.includes(sourceColumn)) throw new Error(`Column "${sourceColumn}" already exists`);
+
+  const rows = inputs.flatMap(input => {
+    const empty = Object.fromEntries(columns.map(c => [c, null]));
+    return input.data.map(row => ({ ...empty, ...row, [sourceColumn]: input.name }));
+  });
+  const missing = inputs
+    .map(input => ({ name: input.name, columns: columns.filter(c => !input.columns.includes(c)) }))
+    .filter(entry => entry.columns.length > 0);
+
+  return {
+    dataset: {
+      ...createDataset(inputs.map(d => d.name).join(' + '), rows, [...columns, sourceColumn]),
+      transforms: [],
+      origin: { type: 'union', inputs: inputs.map(toSource), sourceColumn }
+    },
+    report: { rows: rows.length, missing }
+  };
+};
+
+// Catalog entries are referenced by name, so a second "sales.csv" becomes "sales (2).csv"
+export const uniqueDatasetName = (name: string, taken: string[]) => {
+  if (!taken.includes(name)) return name;
+  const match = name.match(/^(.*?)(\.[a-z0-9]+)?$/i)!;
+  let i = 2;
+  while (taken.includes(`${match[1]} (${i})${match[2] ?? ''}`)) i++;
+  return `${match[1]} (${i})${match[2] ?? ''}`;
+};
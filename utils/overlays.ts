@@ -0,0 +1,159 @@
+import { ChartType, ReferenceLineConfig, TrendLineConfig, TrendMethod, VisualizationConfig } from '../types';
+import { hasGroupSplit, median, splitByGroup, toNumber } from './aggregation';
+import { resolveAnnotations } from './annotations';
+import { formatDate, parseDate } from './dates';
+import { ProcessedData } from './processing';
+import { CurveFit, loessFit, polynomialFit, tQuantile95 } from './statistics';
+
+// Trend lines need a continuous X axis: scatter plots, or line/area charts on dates
+export const TREND_CHART_TYPES = [ChartType.SCATTER, ChartType.LINE, ChartType.AREA];
+export const REFERENCE_CHART_TYPES = [ChartType.BAR, ChartType.LINE, ChartType.AREA, ChartType.SCATTER, ChartType.COMPOSED];
+
+export const TREND_METHOD_LABELS: Record<TrendMethod, string> = {
+  linear: 'Linear fit',
+  polynomial: 'Polynomial fit',
+  loess: 'LOESS'
+};
+
+export const MAX_POLYNOMIAL_DEGREE = 6;
+
+export const REFERENCE_COLOR = '#f59e0b';
+
+export interface TrendFit {
+  key: string; // dataKey of the fitted values; the band is under `${key}_band`
+  label: string; // Legend name with the equation and R²
+  series: number; // Index of the series whose color it takes
+  r2: number;
+  points: any[]; // Own rows along X, separate from the chart data
+}
+
+export interface ResolvedReference {
+  axis: 'x' | 'y';
+  value: number | string;
+  label: string;
+}
+
+// Points along X where each fitted curve is drawn
+const CURVE_POINTS = 60;
+
+const SUPERSCRIPTS = ['', '', '²', '³', '⁴', '⁵', '⁶'];
+
+const short = (value: number) => String(Number(value.toPrecision(3)));
+
+// "y = 0.5x² − 2.1x + 3", highest power first
+const equation = (coefficients: number[]) => {
+  const terms = coefficients
+    .map((c, power) => ({ c, power }))
+    .reverse()
+    .filter(t => Number(t.c.toPrecision(3)) !== 0);
+  if (terms.length === 0) return 'y = 0';
+  return 'y = ' + terms.map((t, i) => {
+    const size = short(Math.abs(t.c));
+    const term = t.power === 0 ? size : `${size === '1' ? '' : size}x${SUPERSCRIPTS[t.power]}`;
+    const sign = t.c < 0 ? (i === 0 ? '−' : ' − ') : i === 0 ? '' : ' + ';
+    return sign + term;
+  }).join('');
+};
+
+const fitCurve = (trend: TrendLineConfig, xs: number[], ys: number[]): CurveFit | null =>
+  trend.method === 'loess'
+    ? loessFit(xs, ys, trend.span ?? 0.75)
+    : polynomialFit(xs, ys, trend.method === 'linear' ? 1 : Math.round(trend.degree ?? 2));
+
+// Each drawn series as x/y pairs; scatter groups are split from the raw rows
+const fitInputs = (processed: ProcessedData, config: VisualizationConfig, pooled: boolean) => {
+  const xKey = config.xAxisKey;
+  const pairs = (rows: any[], yKey: string) => {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const row of rows) {
+      const x = toNumber(row[xKey]);
+      const y = toNumber(row[yKey]);
+      if (!isNaN(x) && !isNaN(y)) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+    return { xs, ys };
+  };
+
+  if (config.chartType === ChartType.SCATTER) {
+    const groups = hasGroupSplit(config) && !pooled ? splitByGroup(processed.rows, config.groupBy!) : [{ name: '', rows: processed.rows }];
+    return groups.map((group, i) => ({ name: group.name, series: i, ...pairs(group.rows, config.yAxisKey) }));
+  }
+  const series = processed.series.map((s, i) => ({ name: processed.series.length > 1 ? s.label : '', series: i, ...pairs(processed.data, s.key) }));
+  if (!pooled || series.length < 2) return series;
+  return [{ name: '', series: 0, xs: series.flatMap(s => s.xs), ys: series.flatMap(s => s.ys) }];
+};
+
+const computeTrends = (processed: ProcessedData, config: VisualizationConfig): TrendFit[] => {
+  const trend = config.trendLine!;
+  const t = (df: number) => (trend.band ? tQuantile95(df) : 0);
+
+  return fitInputs(processed, config, trend.perGroup === false).flatMap(input => {
+    const fit = fitCurve(trend, input.xs, input.ys);
+    if (!fit) return [];
+    const key = `__trend_${input.series}`;
+    let min = Infinity, max = -Infinity;
+    for (const x of input.xs) {
+      if (x < min) min = x;
+      if (x > max) max = x;
+    }
+    const points = Array.from({ length: CURVE_POINTS }, (_, i) => {
+      const x = min + ((max - min) * i) / (CURVE_POINTS - 1);
+      const { y, se } = fit.predict(x);
+      const point: any = { [config.xAxisKey]: x, [key]: y };
+      if (trend.band) point[`${key}_band`] = [y - t(fit.df) * se, y + t(fit.df) * se];
+      return point;
+    });
+    // Equations in milliseconds since 1970 say nothing useful, so date axes show R² only
+    const name = fit.coefficients && !processed.time ? equation(fit.coefficients) : TREND_METHOD_LABELS[trend.method];
+    const label = `${input.name ? `${input.name}: ` : ''}${name}, R² = ${fit.r2.toFixed(2)}`;
+    return [{ key, label, series: input.series, r2: fit.r2, points }];
+  });
+};
+
+const STAT_LABELS = { mean: 'Mean', median: 'Median' };
+
+const resolveReference = (line: ReferenceLineConfig, processed: ProcessedData, config: VisualizationConfig): ResolvedReference | null => {
+  const { time } = processed;
+  const scatter = config.chartType === ChartType.SCATTER;
+  // Bar and other category axes only take an existing category
+  const categorical = line.axis === 'x' && !time && !scatter;
+  const stat = line.value === 'mean' || line.value === 'median' ? line.value : null;
+
+  const format = (value: number) =>
+    line.axis === 'x' && time ? formatDate(value, time.hasTime ? 'minute' : 'day') : String(Number(value.toPrecision(4)));
+
+  if (categorical) {
+    if (stat) return null;
+    const match = processed.data.find(row => String(row[config.xAxisKey]) === String(line.value));
+    return match ? { axis: 'x', value: match[config.xAxisKey], label: line.label ?? String(line.value) } : null;
+  }
+
+  if (stat) {
+    const keys = line.axis === 'x' ? [config.xAxisKey] : scatter ? [config.yAxisKey] : processed.series.map(s => s.key);
+    const rows = scatter ? processed.rows : processed.data;
+    const values = rows.flatMap(row => keys.map(key => toNumber(row[key]))).filter(v => !isNaN(v));
+    if (values.length === 0) return null;
+    const value = stat === 'mean' ? values.reduce((a, b) => a + b, 0) / values.length : median(values.sort((a, b) => a - b));
+    return { axis: line.axis, value, label: line.label ?? `${STAT_LABELS[stat]} ${format(value)}` };
+  }
+
+  const value = line.axis === 'x' && time && typeof line.value === 'string'
+    ? parseDate(line.value) ?? NaN
+    : toNumber(line.value);
+  return isNaN(value) ? null : { axis: line.axis, value, label: line.label ?? format(value) };
+};
+
+// Trend lines, reference lines and annotations over the full data, before the preview is downsampled
+export const addOverlays = (processed: ProcessedData, config: VisualizationConfig): ProcessedData => {
+  const trends = config.trendLine && TREND_CHART_TYPES.includes(config.chartType) && (config.chartType === ChartType.SCATTER || processed.time)
+    ? computeTrends(processed, config)
+    : [];
+  const references = REFERENCE_CHART_TYPES.includes(config.chartType)
+    ? (config.referenceLines ?? []).map(line => resolveReference(line, processed, config)).filter((r): r is ResolvedReference => Boolean(r))
+    : [];
+  const annotations = resolveAnnotations(config, processed);
+  return trends.length > 0 || references.length > 0 || annotations.length > 0 ? { ...processed, trends, references, annotations } : processed;
+};
@@ -1,26 +1,280 @@
 import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { parquetReadObjects } from 'hyparquet';
+import { DataFile, DataFormat, Dataset } from '../types';
+import { createDataset } from './profiler';
 
-export const parseCSV = (file: File): Promise<{ data: any[], columns: string[] }> => {
-  return new Promise((resolve, reject) => {
-    Papa.parse(file, {
+export interface ParsedTable {
+  data: any[];
+  columns: string[];
+  sheets?: string[]; // Every sheet name, for workbooks
+  // How a delimited file was read, so generated code reads it the same way
+  dialect?: Pick<DataFile, 'delimiter' | 'decimal' | 'thousands'>;
+}
+
+export interface LoadOptions {
+  sheet?: string; // Workbook sheet to read; defaults to the first one
+}
+
+export interface DataLoader {
+  id: DataFormat;
+  label: string;
+  extensions: string[];
+  // Recognizes the format from the first bytes when the extension is missing or misleading
+  sniff: (head: Uint8Array, text: string) => boolean;
+  load: (buffer: ArrayBuffer, options: LoadOptions) => Promise<ParsedTable>;
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+const SNIFF_BYTES = 512;
+const STREAM_SAMPLE_BYTES = 64 * 1024; // Enough lines to detect the delimiter and encoding
+const STREAM_CHUNK_BYTES = 1024 * 1024;
+
+const startsWith = (bytes: Uint8Array, signature: number[]) => signature.every((b, i) => bytes[i] === b);
+
+// BOMs first, then strict UTF-8, then the Windows code page most European exports use.
+// A partial buffer may end inside a multibyte character; streaming holds that back instead of failing on it
+export const decodeText = (buffer: ArrayBuffer, partial = false): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  if (startsWith(bytes, [0xef, 0xbb, 0xbf])) return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+  if (startsWith(bytes, [0xff, 0xfe])) return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  if (startsWith(bytes, [0xfe, 0xff])) return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: partial }), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+  }
+};
+
+// The delimiter that splits the first lines into the most, equally sized fields
+export const detectDelimiter = (text: string) => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 20).join('\n');
+  let best = { delimiter: ',', score: 0 };
+  for (const delimiter of DELIMITERS) {
+    const rows = Papa.parse<string[]>(sample, { delimiter }).data;
+    if (rows.length === 0 || rows[0].length < 2) continue;
+    const consistent = rows.filter(row => row.length === rows[0].length).length / rows.length;
+    const score = consistent >= 0.8 ? rows[0].length * consistent : 0;
+    if (score > best.score) best = { delimiter, score };
+  }
+  return best.delimiter;
+};
+
+// "1.234,5" and "3,14" in semicolon files; converted only when a whole column looks like this
+const DECIMAL_COMMA = /^-?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/;
+
+const convertDecimalCommas = (table: ParsedTable): ParsedTable => {
+  let converted = false;
+  let grouped = false;
+  for (const column of table.columns) {
+    const values = table.data.map(row => row[column]).filter(v => v !== null && v !== undefined && v !== '');
+    if (values.length === 0 || !values.every(v => typeof v === 'number' || (typeof v === 'string' && DECIMAL_COMMA.test(v)))) continue;
+    if (!values.some(v => typeof v === 'string')) continue;
+    for (const row of table.data) {
+      const value = row[column];
+      if (typeof value !== 'string' || value === '') continue;
+      converted = true;
+      grouped ||= value.includes('.');
+      row[column] = Number(value.replace(/\./g, '').replace(',', '.'));
+    }
+  }
+  return converted ? { ...table, dialect: { ...table.dialect, decimal: ',', ...(grouped ? { thousands: '.' } : {}) } } : table;
+};
+
+const withDelimiter = (table: ParsedTable, delimiter: string): ParsedTable =>
+  delimiter === ',' ? table : { ...table, dialect: { ...table.dialect, delimiter } };
+
+export const parseDelimitedText = (text: string, delimiter = detectDelimiter(text)): ParsedTable => {
+  const results = Papa.parse<any>(text.trim(), { header: true, delimiter, dynamicTyping: true, skipEmptyLines: true });
+  if (!results.meta.fields || results.meta.fields.length === 0) {
+    throw new Error("Could not parse columns from the text");
+  }
+  const table = withDelimiter({ data: results.data, columns: results.meta.fields }, delimiter);
+  return delimiter === ';' ? convertDecimalCommas(table) : table;
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+// Nested records become dotted paths ("address.city"); lists are kept as readable text
+const flattenRecord = (record: Record<string, any>, prefix = '', out: Record<string, any> = {}) => {
+  for (const [key, value] of Object.entries(record)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isRecord(value)) flattenRecord(value, path, out);
+    else if (Array.isArray(value)) out[path] = value.every(v => !isRecord(v)) ? value.join(', ') : JSON.stringify(value);
+    else out[path] = normalizeValue(value);
+  }
+  return out;
+};
+
+// Values the profiler understands: numbers, strings, booleans and null
+const normalizeValue = (value: unknown) => {
+  if (typeof value === 'bigint') return Number(value);
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+};
+
+// Columns in order of first appearance across all records
+const toTable = (records: Record<string, any>[]): ParsedTable => {
+  const data = records.map(record => flattenRecord(record));
+  const columns = new Set<string>();
+  data.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+  return { data, columns: [...columns] };
+};
+
+// API dumps often wrap the rows, e.g. { "data": { "items": [...] } }
+const findRecords = (value: unknown): Record<string, any>[] | null => {
+  if (Array.isArray(value)) return value.some(isRecord) ? value.filter(isRecord) : null;
+  if (!isRecord(value)) return null;
+  for (const child of Object.values(value)) {
+    const records = findRecords(child);
+    if (records) return records;
+  }
+  return null;
+};
+
+const parseJsonText = (text: string): ParsedTable => {
+  const trimmed = text.trim();
+  let doc: unknown;
+  try {
+    doc = JSON.parse(trimmed);
+  } catch (err) {
+    // Newline-delimited JSON: one record per line
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim());
+    if (lines.length < 2) throw err;
+    doc = lines.map(line => JSON.parse(line));
+  }
+  const records = findRecords(doc) ?? (isRecord(doc) ? [doc] : null);
+  if (!records || records.length === 0) throw new Error("The JSON file does not contain any records");
+  return toTable(records);
+};
+
+const readSheet = (buffer: ArrayBuffer, sheet?: string): ParsedTable => {
+  const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+  const name = sheet && workbook.SheetNames.includes(sheet) ? sheet : workbook.SheetNames[0];
+  if (!name) throw new Error("The workbook has no sheets");
+  const rows = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[name], { header: 1, defval: null, blankrows: false });
+  if (rows.length === 0) throw new Error(`Sheet "${name}" is empty`);
+
+  // Blank or repeated header cells still need distinct column names
+  const seen = new Map<string, number>();
+  const columns = rows[0].map((cell, i) => {
+    const base = cell === null || String(cell).trim() === '' ? `Column ${i + 1}` : String(cell).trim();
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count}`;
+  });
+  const data = rows.slice(1).map(row => Object.fromEntries(columns.map((column, i) => [column, normalizeValue(row[i] ?? null)])));
+  return { data, columns, sheets: workbook.SheetNames };
+};
+
+export const LOADERS: DataLoader[] = [
+  {
+    id: 'parquet',
+    label: 'Parquet',
+    extensions: ['parquet', 'pq'],
+    sniff: head => startsWith(head, [0x50, 0x41, 0x52, 0x31]), // "PAR1"
+    load: async buffer => toTable(await parquetReadObjects({ file: buffer }))
+  },
+  {
+    id: 'excel',
+    label: 'Excel workbook',
+    extensions: ['xlsx', 'xlsm', 'xls', 'ods'],
+    // Zip container (xlsx, ods) or the legacy OLE2 container (xls)
+    sniff: head => startsWith(head, [0x50, 0x4b, 0x03, 0x04]) || startsWith(head, [0xd0, 0xcf, 0x11, 0xe0]),
+    load: async (buffer, options) => readSheet(buffer, options.sheet)
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    extensions: ['json', 'ndjson', 'jsonl'],
+    sniff: (_, text) => /^\s*[[{]/.test(text),
+    load: async buffer => parseJsonText(decodeText(buffer).text)
+  },
+  {
+    id: 'delimited',
+    label: 'CSV / TSV',
+    extensions: ['csv', 'tsv', 'tab', 'txt'],
+    sniff: () => true,
+    load: async buffer => parseDelimitedText(decodeText(buffer).text)
+  }
+];
+
+const extensionOf = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+// Binary signatures are checked before the extension, so a mislabeled file still loads
+export const findLoader = (fileName: string, buffer: ArrayBuffer): DataLoader => {
+  const head = new Uint8Array(buffer.slice(0, SNIFF_BYTES));
+  const text = new TextDecoder('utf-8').decode(head);
+  const binary = LOADERS.find(loader => (loader.id === 'parquet' || loader.id === 'excel') && loader.sniff(head, text));
+  if (binary) return binary;
+  return LOADERS.find(loader => loader.extensions.includes(extensionOf(fileName)))
+    ?? LOADERS.find(loader => loader.sniff(head, text))!;
+};
+
+export const SUPPORTED_EXTENSIONS = LOADERS.flatMap(loader => loader.extensions.map(ext => `.${ext}`)).join(',');
+
+export interface LoadedFile {
+  dataset: Dataset;
+  loader: DataLoader['id'];
+  sheets: string[]; // Sheet names for workbooks, empty otherwise
+}
+
+export const loadDataFile = async (file: File, options: LoadOptions = {}): Promise<LoadedFile> => {
+  const buffer = await file.arrayBuffer();
+  const loader = findLoader(file.name, buffer);
+  const table = await loader.load(buffer, options);
+  if (table.columns.length === 0) throw new Error(`No columns found in ${file.name}`);
+
+  const sheets = table.sheets ?? [];
+  const sheet = options.sheet && sheets.length > 1 ? options.sheet : undefined;
+  const dataset = createDataset(sheet ? `${file.name} [${sheet}]` : file.name, table.data, table.columns);
+  const source: DataFile = { name: file.name, format: loader.id, ...(sheet ? { sheet } : {}), ...table.dialect };
+  return { dataset: { ...dataset, file: source }, loader: loader.id, sheets };
+};
+
+// Delimited files are parsed chunk by chunk so progress can be reported; other formats load in one go
+export const streamDataFile = async (
+  file: File,
+  options: LoadOptions,
+  onProgress: (fraction: number) => void
+): Promise<LoadedFile> => {
+  const sample = await file.slice(0, STREAM_SAMPLE_BYTES).arrayBuffer();
+  if (findLoader(file.name, sample).id !== 'delimited') return loadDataFile(file, options);
+
+  const { text, encoding } = decodeText(sample, sample.byteLength < file.size);
+  const delimiter = detectDelimiter(text);
+  const table = await new Promise<ParsedTable>((resolve, reject) => {
+    const data: any[] = [];
+    let columns: string[] = [];
+    Papa.parse<any>(file, {
       header: true,
       dynamicTyping: true,
       skipEmptyLines: true,
-      complete: (results) => {
-        if (results.meta.fields) {
-          resolve({
-            data: results.data,
-            columns: results.meta.fields
-          });
-        } else {
-          reject(new Error("Could not parse columns from CSV"));
-        }
+      delimiter,
+      encoding,
+      chunkSize: STREAM_CHUNK_BYTES,
+      chunk: results => {
+        for (const row of results.data) data.push(row);
+        columns = results.meta.fields ?? columns;
+        onProgress(Math.min(1, results.meta.cursor / Math.max(file.size, 1)));
       },
-      error: (error) => {
-        reject(error);
-      }
+      complete: () => (columns.length > 0 ? resolve({ data, columns }) : reject(new Error("Could not parse columns from the file"))),
+      error: reject
     });
   });
+
+  const delimited = withDelimiter(table, delimiter);
+  const parsed = delimiter === ';' ? convertDecimalCommas(delimited) : delimited;
+  const dataset = createDataset(file.name, parsed.data, parsed.columns);
+  return { dataset: { ...dataset, file: { name: file.name, format: 'delimited', ...parsed.dialect } }, loader: 'delimited', sheets: [] };
+};
+
+// Cells copied from a spreadsheet arrive tab-separated; anything else delimited is detected the same way
+export const parsePastedText = (text: string, name = 'Pasted data'): Dataset => {
+  const table = /^\s*[[{]/.test(text) ? parseJsonText(text) : parseDelimitedText(text);
+  return createDataset(name, table.data, table.columns);
 };
 
 export const loadExampleTitanic = async (): Promise<{ data: any[], columns: string[] }> => {
@@ -0,0 +1,323 @@
+import { ChartTheme, ChartType, Dataset, LineDash, MarkerShape, VisualizationConfig } from '../types';
+import { splitByGroup } from './aggregation';
+import { ARROW_OFFSET, ResolvedAnnotation } from './annotations';
+import { CodePlan, buildCodePlan, dateLiteral } from './codegen';
+import { parseHexColor } from './colors';
+import { REFERENCE_COLOR } from './overlays';
+import { numericValues } from './processing';
+
+type Figure = Record<string, any>;
+
+const PLOTLY_DASHES: Record<LineDash, string> = { solid: 'solid', dashed: 'dash', dotted: 'dot' };
+
+const PLOTLY_SYMBOLS: Record<MarkerShape, string> = {
+  circle: 'circle',
+  square: 'square',
+  triangle: 'triangle-up',
+  diamond: 'diamond',
+  none: 'circle'
+};
+
+// Plotly reads "2024-03-01 00:00:00" as a date; other X values go in as they are
+const xValues = (plan: CodePlan, rows: any[]) =>
+  rows.map(row => (plan.processed.time ? dateLiteral(row[plan.xKey]) : row[plan.xKey]));
+
+const lineStyle = (theme: ChartTheme, color: string) => ({
+  color,
+  ...(theme.lineWidth !== undefined && { width: theme.lineWidth }),
+  ...(theme.lineDash && { dash: PLOTLY_DASHES[theme.lineDash] })
+});
+
+const seriesTraces = (plan: CodePlan): Figure[] => {
+  const { config, processed, palette, theme } = plan;
+  const x = config.chartType === ChartType.HISTOGRAM ? processed.data.map(row => row.bin) : xValues(plan, processed.data);
+  const markers = theme.marker === 'none' ? 'lines' : 'lines+markers';
+  const optionsFor = (metric: string) => config.seriesOptions?.find(o => o.key === metric);
+
+  return processed.series.map((s, i) => {
+    const color = palette[i % palette.length];
+    const y = processed.data.map(row => row[s.key] ?? null);
+    // Composed series pick their mark; the other chart types share their name with it ('line', 'area', 'bar')
+    const mark: string = config.chartType === ChartType.COMPOSED ? optionsFor(s.metric)?.mark ?? 'bar' : config.chartType;
+    const axis = config.chartType === ChartType.COMPOSED && optionsFor(s.metric)?.axis === 'right' ? { yaxis: 'y2' } : {};
+    if (mark === 'line') {
+      return { type: 'scatter', mode: markers, name: s.label, x, y, line: lineStyle(theme, color), marker: { color }, ...axis };
+    }
+    if (mark === 'area') {
+      // The preview stacks areas; composed charts overlay them
+      const stack = config.chartType === ChartType.AREA ? { stackgroup: 'one' } : { fill: 'tozeroy' };
+      return { type: 'scatter', mode: 'lines', name: s.label, x, y, line: lineStyle(theme, color), ...stack, ...axis };
+    }
+    return { type: 'bar', name: s.label, x, y, marker: { color }, ...axis };
+  });
+};
+
+const scatterTraces = (plan: CodePlan): Figure[] => {
+  const { processed, palette, theme } = plan;
+  const groups = plan.groupKey ? splitByGroup(processed.data, plan.groupKey) : [{ name: plan.title, rows: processed.data }];
+  const symbol = theme.marker && theme.marker !== 'none' ? PLOTLY_SYMBOLS[theme.marker] : 'circle';
+  return groups.map((group, i) => ({
+    type: 'scatter',
+    mode: 'markers',
+    name: group.name,
+    x: xValues(plan, group.rows),
+    y: group.rows.map(row => row[plan.yKey]),
+    marker: { color: palette[i % palette.length], symbol }
+  }));
+};
+
+const pieTraces = (plan: CodePlan): Figure[] => {
+  const { processed, palette } = plan;
+  const key = processed.series[0]?.key ?? plan.yKey;
+  return [{
+    type: 'pie',
+    labels: processed.data.map(row => String(row[plan.xKey])),
+    values: processed.data.map(row => row[key]),
+    marker: { colors: processed.data.map((_, i) => palette[i % palette.length]) },
+    sort: false
+  }];
+};
+
+// Traces close back on the first category so each outline is a full loop
+const radarTraces = (plan: CodePlan): Figure[] => {
+  const { processed, palette } = plan;
+  const theta = processed.data.map(row => String(row[plan.xKey]));
+  return processed.series.map((s, i) => {
+    const r = processed.data.map(row => row[s.key] ?? null);
+    return {
+      type: 'scatterpolar',
+      name: s.label,
+      r: [...r, r[0]],
+      theta: [...theta, theta[0]],
+      fill: 'toself',
+      opacity: 0.6,
+      line: { color: palette[i % palette.length] }
+    };
+  });
+};
+
+// Quartiles come precomputed, so Plotly draws the same boxes as the preview
+const boxTraces = (plan: CodePlan): Figure[] => {
+  const { processed, palette } = plan;
+  const categoryKey = plan.xKey && plan.xKey !== plan.yKey ? plan.xKey : 'group';
+  const rows = processed.data;
+  const x = rows.map(row => String(row[categoryKey]));
+  const outliers = rows.flatMap(row => row.outliers.map((value: number) => ({ x: String(row[categoryKey]), y: value })));
+  return [
+    {
+      type: 'box',
+      name: plan.yKey,
+      x,
+      q1: rows.map(row => row.q1),
+      median: rows.map(row => row.median),
+      q3: rows.map(row => row.q3),
+      lowerfence: rows.map(row => row.whiskerLow),
+      upperfence: rows.map(row => row.whiskerHigh),
+      mean: rows.map(row => row.mean),
+      marker: { color: palette[0] },
+      showlegend: false
+    },
+    ...(outliers.length > 0 ? [{
+      type: 'scatter',
+      mode: 'markers',
+      name: 'Outliers',
+      x: outliers.map(o => o.x),
+      y: outliers.map(o => o.y),
+      marker: { color: palette[0], symbol: 'circle-open' },
+      showlegend: false
+    }] : [])
+  ];
+};
+
+// Violins need the raw values; Plotly estimates the same kind of kernel density from them
+const violinTraces = (plan: CodePlan, dataset: Dataset): Figure[] => {
+  const categorical = plan.xKey && plan.xKey !== plan.yKey;
+  const groups = categorical ? splitByGroup(dataset.data, plan.xKey) : [{ name: 'All', rows: dataset.data }];
+  return groups.map(group => {
+    const y = numericValues(group.rows, plan.yKey);
+    return {
+      type: 'violin',
+      name: group.name,
+      x: y.map(() => group.name),
+      y,
+      box: { visible: true },
+      meanline: { visible: true },
+      line: { color: plan.palette[0] },
+      showlegend: false
+    };
+  });
+};
+
+const heatmapTraces = (plan: CodePlan): Figure[] => {
+  const rows = plan.processed.data;
+  const xs = [...new Set(rows.map(row => String(row[plan.xKey])))];
+  const ys = [...new Set(rows.map(row => String(row[plan.yKey])))];
+  const cells = new Map(rows.map(row => [`${row[plan.xKey]}\u0000${row[plan.yKey]}`, row.value]));
+  return [{
+    type: 'heatmap',
+    x: xs,
+    y: ys,
+    z: ys.map(y => xs.map(x => cells.get(`${x}\u0000${y}`) ?? null)),
+    colorscale: [[0, plan.heatmap.low], [1, plan.heatmap.high]],
+    colorbar: { title: { text: plan.config.colorKey || 'count' } }
+  }];
+};
+
+const mainTraces = (plan: CodePlan, dataset: Dataset): Figure[] => {
+  switch (plan.config.chartType) {
+    case ChartType.SCATTER:
+      return scatterTraces(plan);
+    case ChartType.PIE:
+      return pieTraces(plan);
+    case ChartType.RADAR:
+      return radarTraces(plan);
+    case ChartType.BOX:
+      return boxTraces(plan);
+    case ChartType.VIOLIN:
+      return violinTraces(plan, dataset);
+    case ChartType.HEATMAP:
+      return heatmapTraces(plan);
+    default:
+      return seriesTraces(plan);
+  }
+};
+
+const translucent = (color: string) => {
+  const rgb = parseHexColor(color);
+  return rgb ? `rgba(${rgb.join(', ')}, 0.2)` : color;
+};
+
+// Fitted curves as dashed lines, with the confidence band as a filled pair of edges
+const trendTraces = (plan: CodePlan): Figure[] =>
+  (plan.processed.trends ?? []).flatMap(fit => {
+    const color = plan.palette[fit.series % plan.palette.length];
+    const x = xValues(plan, fit.points);
+    const band = fit.points[0]?.[`${fit.key}_band`]
+      ? [
+        { type: 'scatter', mode: 'lines', x, y: fit.points.map(p => p[`${fit.key}_band`][0]), line: { width: 0 }, showlegend: false, hoverinfo: 'skip' },
+        { type: 'scatter', mode: 'lines', x, y: fit.points.map(p => p[`${fit.key}_band`][1]), line: { width: 0 }, fill: 'tonexty', fillcolor: translucent(color), showlegend: false, hoverinfo: 'skip' }
+      ]
+      : [];
+    return [...band, { type: 'scatter', mode: 'lines', name: fit.label, x, y: fit.points.map(p => p[fit.key]), line: { color, dash: 'dash' } }];
+  });
+
+// Reference lines span the plot in the other direction, labelled at their end
+const referenceShapes = (plan: CodePlan) => {
+  const position = (value: number | string) => (plan.processed.time && typeof value === 'number' ? dateLiteral(value) : value);
+  const shapes = plan.references.map(ref => ref.axis === 'y'
+    ? { type: 'line', xref: 'paper', x0: 0, x1: 1, y0: ref.value, y1: ref.value, line: { color: REFERENCE_COLOR, dash: 'dash' } }
+    : { type: 'line', yref: 'paper', y0: 0, y1: 1, x0: position(ref.value), x1: position(ref.value), line: { color: REFERENCE_COLOR, dash: 'dash' } });
+  const annotations = plan.references.filter(ref => ref.label).map(ref => ref.axis === 'y'
+    ? { xref: 'paper', x: 1, y: ref.value, text: ref.label, showarrow: false, xanchor: 'right', yanchor: 'bottom', font: { color: REFERENCE_COLOR } }
+    : { yref: 'paper', y: 1, x: position(ref.value), text: ref.label, showarrow: false, xanchor: 'left', yanchor: 'top', font: { color: REFERENCE_COLOR } });
+  return { shapes, annotations };
+};
+
+// Text, arrows and shaded bands from the config's annotations; pies and radars have no axes to place them on
+const annotationShapes = (plan: CodePlan) => {
+  const shapes: Figure[] = [];
+  const annotations: Figure[] = [];
+  if ([ChartType.PIE, ChartType.RADAR].includes(plan.config.chartType)) return { shapes, annotations };
+  const position = (value: number | string) => (plan.processed.time && typeof value === 'number' ? dateLiteral(value) : value);
+  // Category bands run half a slot either side; string categories sit at their index, dated bars at their period
+  const slot = (value: number | string) =>
+    typeof value === 'string' ? plan.processed.data.findIndex(row => String(row[plan.xKey]) === value) : value;
+  const band = (a: ResolvedAnnotation, from: number | string, to: number | string) => (a.category && !plan.processed.time
+    ? { x0: Math.min(slot(from), slot(to)) - 0.5, x1: Math.max(slot(from), slot(to)) + 0.5 }
+    : { x0: position(from), x1: position(to) });
+  const fill = (a: ResolvedAnnotation, extent: Figure) =>
+    ({ type: 'rect', ...extent, fillcolor: translucent(a.color), line: { width: 0 }, layer: 'below' });
+  const font = (a: ResolvedAnnotation) => ({ color: a.color });
+
+  for (const a of plan.annotations) {
+    switch (a.type) {
+      case 'text':
+        annotations.push({ x: position(a.x!), y: a.y, text: a.label, showarrow: false, yanchor: 'bottom', yshift: 4, font: font(a) });
+        shapes.push({
+          type: 'circle', xsizemode: 'pixel', ysizemode: 'pixel', xanchor: position(a.x!), yanchor: a.y,
+          x0: -3, x1: 3, y0: -3, y1: 3, fillcolor: a.color, line: { width: 0 }
+        });
+        break;
+      case 'arrow':
+        annotations.push({ x: position(a.x!), y: a.y, text: a.label, showarrow: true, arrowhead: 2, arrowcolor: a.color, ax: ARROW_OFFSET, ay: -ARROW_OFFSET, font: font(a) });
+        break;
+      case 'highlight':
+        shapes.push(fill(a, { yref: 'paper', y0: 0, y1: 1, ...band(a, a.x!, a.x!) }));
+        if (a.label) annotations.push({ yref: 'paper', y: 1, x: position(a.x!), text: a.label, showarrow: false, yanchor: 'top', font: font(a) });
+        break;
+      case 'range':
+        if (a.axis === 'y') {
+          shapes.push(fill(a, { xref: 'paper', x0: 0, x1: 1, y0: a.from, y1: a.to }));
+          if (a.label) annotations.push({ xref: 'paper', x: 0, y: a.to, text: a.label, showarrow: false, xanchor: 'left', yanchor: 'bottom', font: font(a) });
+        } else {
+          const extent = band(a, a.from!, a.to!);
+          shapes.push(fill(a, { yref: 'paper', y0: 0, y1: 1, ...extent }));
+          if (a.label) annotations.push({ yref: 'paper', y: 1, x: extent.x0, text: a.label, showarrow: false, xanchor: 'left', yanchor: 'top', font: font(a) });
+        }
+        break;
+    }
+  }
+  return { shapes, annotations };
+};
+
+// Layout settings for the theme fields the config sets, like the R and Python scripts
+const themeLayout = (theme: ChartTheme): Figure => {
+  const layout: Figure = {};
+  const axis: Figure = {};
+  if (theme.background) Object.assign(layout, { paper_bgcolor: theme.background, plot_bgcolor: theme.background });
+  const font = {
+    ...(theme.fontFamily && { family: theme.fontFamily }),
+    ...(theme.fontSize && { size: theme.fontSize }),
+    ...(theme.textColor && { color: theme.textColor })
+  };
+  if (Object.keys(font).length > 0) layout.font = font;
+  if (theme.gridColor) axis.gridcolor = theme.gridColor;
+  if (theme.gridDash) axis.griddash = PLOTLY_DASHES[theme.gridDash];
+  if (theme.axisColor) Object.assign(axis, { linecolor: theme.axisColor, tickcolor: theme.axisColor });
+  if (theme.axisLine !== undefined) axis.showline = theme.axisLine;
+  const xaxis = { ...axis, ...(theme.grid && { showgrid: theme.grid === 'both' || theme.grid === 'vertical' }) };
+  const yaxis = { ...axis, ...(theme.grid && { showgrid: theme.grid === 'both' || theme.grid === 'horizontal' }) };
+  if (Object.keys(xaxis).length > 0) layout.xaxis = xaxis;
+  if (Object.keys(yaxis).length > 0) layout.yaxis = yaxis;
+  if (theme.legendPosition === 'none') layout.showlegend = false;
+  if (theme.legendPosition === 'top' || theme.legendPosition === 'bottom') {
+    layout.legend = { orientation: 'h', x: 0.5, xanchor: 'center', y: theme.legendPosition === 'top' ? 1.1 : -0.2 };
+  }
+  if (theme.legendPosition === 'left') layout.legend = { x: -0.2, xanchor: 'right', y: 0.5 };
+  if (theme.barRadius) layout.barcornerradius = theme.barRadius;
+  return layout;
+};
+
+// A Plotly figure ({ data, layout }) holding the preview's aggregated values, ready for Plotly.newPlot or plotly.io
+export const generatePlotlyFigure = (config: VisualizationConfig, dataset: Dataset): Figure => {
+  const plan = buildCodePlan(config, dataset);
+  const { chartType } = config;
+  const themed = themeLayout(plan.theme);
+  const cartesian = ![ChartType.PIE, ChartType.RADAR].includes(chartType);
+  const references = referenceShapes(plan);
+  const marked = annotationShapes(plan);
+  const shapes = [...references.shapes, ...marked.shapes];
+  const annotations = [...references.annotations, ...marked.annotations];
+  const rightAxis = chartType === ChartType.COMPOSED && config.seriesOptions?.some(o => o.axis === 'right');
+
+  const layout: Figure = {
+    title: { text: plan.subtitle ? `${plan.title}<br><sub>${plan.subtitle}</sub>` : plan.title },
+    colorway: plan.palette,
+    ...themed,
+    ...(cartesian && {
+      xaxis: { title: { text: plan.xLabel }, ...(plan.processed.time && { type: 'date' }), ...themed.xaxis },
+      yaxis: { title: { text: plan.yLabel }, ...themed.yaxis }
+    }),
+    ...(rightAxis && { yaxis2: { overlaying: 'y', side: 'right', ...themed.yaxis } }),
+    ...([ChartType.BAR, ChartType.HISTOGRAM, ChartType.COMPOSED].includes(chartType) && {
+      barmode: config.barMode === 'stacked' ? 'stack' : 'group',
+      ...(chartType === ChartType.HISTOGRAM && { bargap: 0.02 })
+    }),
+    ...(chartType === ChartType.VIOLIN && { violinmode: 'group' }),
+    ...(shapes.length > 0 && { shapes }),
+    ...(annotations.length > 0 && { annotations })
+  };
+  if (plan.theme.titleSize) layout.title.font = { size: plan.theme.titleSize };
+
+  return { data: [...mainTraces(plan, dataset), ...trendTraces(plan)], layout };
+};
@@ -0,0 +1,317 @@
+import {
+  ChartAnnotation, ChartType, ColumnPrivacy, ConfigIssue, DataColumn, Dataset, PiiKind, PrivacyMode, PrivacySettings, ReferenceLineConfig, TransformStep,
+  VisualizationConfig
+} from '../types';
+import { parseDate } from './dates';
+import { parseExpression, referencedColumns } from './expression';
+import { mulberry32 } from './sampling';
+
+export const DEFAULT_PRIVACY: PrivacySettings = {
+  mode: 'sample',
+  columns: {},
+  reviewBeforeSend: true
+};
+
+export const PRIVACY_MODE_LABELS: Record<PrivacyMode, string> = {
+  sample: 'First rows, as they are',
+  synthetic: 'Synthetic rows of the same shape',
+  schema: 'Schema only, no rows'
+};
+
+export const PII_LABELS: Record<PiiKind, string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  id: 'ID',
+  address: 'Address',
+  birthDate: 'Birth date',
+  ip: 'IP address'
+};
+
+// Rows the analyze prompt shows the model
+export const SAMPLE_ROWS = 3;
+
+// Words in a column name that point at personal data; "name" only counts without a non-personal qualifier
+const NAME_WORDS: [PiiKind, string[]][] = [
+  ['email', ['email', 'mail']],
+  ['phone', ['phone', 'mobile', 'tel', 'telephone', 'fax', 'cell']],
+  ['birthDate', ['birth', 'birthday', 'dob', 'birthdate']],
+  ['address', ['address', 'street', 'zip', 'zipcode', 'postcode', 'postal']],
+  ['ip', ['ip']],
+  ['id', ['id', 'ssn', 'passport', 'ticket', 'account', 'iban', 'license', 'licence', 'uuid', 'guid', 'nin']],
+  ['name', ['name', 'surname', 'firstname', 'lastname', 'fullname', 'username']]
+];
+
+const NOT_PERSONAL = ['product', 'company', 'item', 'country', 'city', 'state', 'category', 'file', 'team', 'brand', 'store', 'region', 'sheet'];
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+const PHONE = /^\+?[\d\s().-]{7,}$/;
+
+// "PassengerId" -> ["passenger", "id"], "e-mail_address" -> ["e", "mail", "address"]
+const nameWords = (name: string) =>
+  name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+const kindFromName = (name: string): PiiKind | null => {
+  const words = nameWords(name);
+  for (const [kind, markers] of NAME_WORDS) {
+    if (!words.some(word => markers.includes(word))) continue;
+    if (kind === 'name' && words.some(word => NOT_PERSONAL.includes(word))) continue;
+    return kind;
+  }
+  return null;
+};
+
+// Most non-empty values have to match, so a stray email in a notes column does not count
+const kindFromValues = (values: any[]): PiiKind | null => {
+  const strings = values.filter(v => typeof v === 'string' && v.trim() !== '') as string[];
+  if (strings.length === 0) return null;
+  const share = (pattern: RegExp) => strings.filter(v => pattern.test(v.trim())).length / strings.length;
+  if (share(EMAIL) >= 0.5) return 'email';
+  if (strings.filter(v => PHONE.test(v.trim()) && v.replace(/\D/g, '').length >= 7).length / strings.length >= 0.5) return 'phone';
+  return null;
+};
+
+// Likely personal data by column, from names, values and the profiler's id type
+export const detectPii = (dataset: Dataset): Record<string, PiiKind> => {
+  const found: Record<string, PiiKind> = {};
+  for (const column of dataset.profile) {
+    const kind = kindFromName(column.name)
+      ?? (column.type === 'string' ? kindFromValues(dataset.data.slice(0, 500).map(row => row[column.name])) : null)
+      ?? (column.type === 'id' ? 'id' : null);
+    if (kind) found[column.name] = kind;
+  }
+  return found;
+};
+
+export const columnPrivacy = (privacy: PrivacySettings, pii: Record<string, PiiKind>, column: string): ColumnPrivacy =>
+  privacy.columns[column] ?? (pii[column] ? 'mask' : 'send');
+
+// Letters become x, digits 9, so the model still sees the format ("xxxx@xxxxx.xxx")
+export const maskValue = (value: any): any => {
+  if (value === null || value === undefined || value === '') return value;
+  const masked = String(value).replace(/[A-Z]/g, 'X').replace(/[a-z]/g, 'x').replace(/[0-9]/g, '9');
+  return typeof value === 'number' ? Number(masked) : masked;
+};
+
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+// A made-up value of the column's type: numbers and dates inside the column's range, text with the same pattern
+const syntheticValue = (value: any, column: DataColumn, random: () => number): any => {
+  if (value === null || value === undefined || value === '') return value;
+  const pick = (chars: string) => chars[Math.floor(random() * chars.length)];
+  if (typeof value === 'boolean') return random() < 0.5;
+  if (typeof value === 'number' && typeof column.min === 'number' && typeof column.max === 'number') {
+    const decimals = (String(value).split('.')[1] ?? '').length;
+    return Number((column.min + random() * (column.max - column.min)).toFixed(decimals));
+  }
+  if ((column.type === 'date' || column.type === 'datetime') && column.min !== undefined && column.max !== undefined) {
+    const from = parseDate(column.min);
+    const to = parseDate(column.max);
+    if (from !== null && to !== null) {
+      const iso = new Date(from + Math.floor(random() * (to - from))).toISOString();
+      return column.type === 'date' ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+    }
+  }
+  const text = String(value)
+    .replace(/[A-Z]/g, () => pick(LETTERS).toUpperCase())
+    .replace(/[a-z]/g, () => pick(LETTERS))
+    .replace(/[0-9]/g, () => pick('0123456789'));
+  return typeof value === 'number' ? Number(text) : text;
+};
+
+// Everything about the dataset a prompt may contain, after the privacy settings are applied
+export interface ModelPayload {
+  columns: string[];
+  sample: any[];
+  profile: DataColumn[];
+  transforms: TransformStep[];
+}
+
+// Backticked column names are kept; quoted strings and numbers are masked like cell values
+const EXPRESSION_LITERALS = /`[^`]*`|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/gi;
+
+const maskExpression = (source: string) => source.replace(EXPRESSION_LITERALS, token => {
+  if (token.startsWith('`')) return token;
+  if (token.startsWith('"') || token.startsWith("'")) return `${token[0]}${maskValue(token.slice(1, -1))}${token[0]}`;
+  return String(maskValue(token));
+});
+
+const stepColumns = (step: TransformStep): string[] => {
+  switch (step.type) {
+    case 'filter': return referencedColumns(parseExpression(step.expression));
+    case 'derive': return [step.column, ...referencedColumns(parseExpression(step.expression))];
+    case 'rename': return [step.from, step.to];
+    case 'bin':
+    case 'datePart': return [step.column, step.as];
+    case 'dedupe': return [];
+    default: return [step.column];
+  }
+};
+
+// Steps that name an excluded column are left out; values and expression literals follow their columns' rules
+const protectStep = (step: TransformStep, rule: (column: string) => ColumnPrivacy, mode: PrivacyMode): TransformStep | null => {
+  let columns: string[];
+  try {
+    columns = stepColumns(step);
+  } catch {
+    return null; // An expression that does not parse cannot be checked
+  }
+  if (columns.some(column => rule(column) === 'exclude')) return null;
+  const guarded = mode !== 'sample' || columns.some(column => rule(column) !== 'send');
+  switch (step.type) {
+    case 'filterValues':
+      return guarded && step.values ? { ...step, values: step.values.map(maskValue) } : step;
+    case 'filter':
+    case 'derive':
+      return guarded ? { ...step, expression: maskExpression(step.expression) } : step;
+    case 'dedupe': {
+      if (!step.columns?.length) return step;
+      const kept = step.columns.filter(column => rule(column) !== 'exclude');
+      // Dropping every listed column would turn it into a dedupe over all columns
+      return kept.length > 0 ? { ...step, columns: kept } : null;
+    }
+    default:
+      return step;
+  }
+};
+
+export const buildPayload = (
+  dataset: Dataset, transforms: TransformStep[], privacy: PrivacySettings, pii: Record<string, PiiKind>
+): ModelPayload => {
+  const rule = (column: string) => columnPrivacy(privacy, pii, column);
+  const columns = dataset.columns.filter(column => rule(column) !== 'exclude');
+
+  // Ranges and means are real values too, so only columns sent as they are keep them
+  const profile = dataset.profile
+    .filter(column => rule(column.name) !== 'exclude')
+    .map(column => {
+      if (privacy.mode !== 'schema' && rule(column.name) === 'send') return column;
+      return { ...column, min: undefined, max: undefined, mean: undefined };
+    });
+
+  const random = mulberry32(1);
+  const sample = privacy.mode === 'schema'
+    ? []
+    : dataset.data.slice(0, SAMPLE_ROWS).map(row => Object.fromEntries(profile.map(column => {
+      const value = row[column.name];
+      if (rule(column.name) === 'mask') return [column.name, maskValue(value)];
+      return [column.name, privacy.mode === 'synthetic' ? syntheticValue(value, dataset.profile.find(c => c.name === column.name)!, random) : value];
+    })));
+
+  const protectedSteps = transforms.flatMap(step => protectStep(step, rule, privacy.mode) ?? []);
+
+  return { columns, sample, profile, transforms: protectedSteps };
+};
+
+// Excluded columns the config refers to are sent as "excluded column 1", "excluded column 2"...
+const EXCLUDED_COLUMN = 'excluded column';
+
+// Every column a config names, in a fixed order, so a protected config lines up with its original
+const configColumns = (config: VisualizationConfig): string[] => [
+  config.xAxisKey,
+  config.yAxisKey,
+  ...(config.seriesKeys ?? []),
+  config.groupBy ?? '',
+  config.colorKey ?? '',
+  ...(config.seriesOptions ?? []).map(o => o.key)
+];
+
+// Statistics and anchors the app computes itself carry no data
+const KEYWORD_VALUES = ['max', 'min', 'mean', 'median'];
+const isKeyword = (value: unknown) => typeof value === 'string' && KEYWORD_VALUES.includes(value);
+
+// The config as a prompt may contain it: generated code left out, excluded columns renamed,
+// and annotation and reference line values masked when their column's values would be
+export const protectConfig = (config: VisualizationConfig, privacy: PrivacySettings, pii: Record<string, PiiKind>): VisualizationConfig => {
+  const rule = (column: string) => columnPrivacy(privacy, pii, column);
+  const excluded = [...new Set(configColumns(config).filter(column => column && rule(column) === 'exclude'))];
+  const rename = (column: string) => (excluded.includes(column) ? `${EXCLUDED_COLUMN} ${excluded.indexOf(column) + 1}` : column);
+  const guarded = (columns: string[]) => columns.some(column => column && (privacy.mode !== 'sample' || rule(column) !== 'send'));
+
+  const measures = config.chartType === ChartType.HEATMAP ? [config.colorKey ?? ''] : [config.yAxisKey, ...(config.seriesKeys ?? [])];
+  const onX = guarded([config.xAxisKey]);
+  const onY = guarded(measures);
+  const value = <T>(v: T, masked: boolean): T => (masked && !isKeyword(v) ? maskValue(v) : v);
+  const text = (label: string | undefined) => (label && (onX || onY) ? maskValue(label) : label);
+
+  const referenceLines = config.referenceLines?.map((ref): ReferenceLineConfig => ({
+    ...ref,
+    value: value(ref.value, ref.axis === 'x' ? onX : onY),
+    ...(ref.label !== undefined && { label: text(ref.label) })
+  }));
+  const annotations = config.annotations?.map((a): ChartAnnotation => {
+    const rangeOnY = a.type === 'range' && a.axis === 'y';
+    return {
+      ...a,
+      ...(a.text !== undefined && { text: text(a.text) }),
+      ...(a.x !== undefined && { x: value(a.x, onX) }),
+      ...(a.y !== undefined && { y: value(a.y, onY) }),
+      ...(a.from !== undefined && { from: value(a.from, rangeOnY ? onY : onX) }),
+      ...(a.to !== undefined && { to: value(a.to, rangeOnY ? onY : onX) })
+    };
+  });
+
+  const { rCode, pythonCode, ...rest } = config;
+  return {
+    ...rest,
+    xAxisKey: rename(config.xAxisKey),
+    yAxisKey: rename(config.yAxisKey),
+    ...(config.seriesKeys && { seriesKeys: config.seriesKeys.map(rename) }),
+    ...(config.groupBy && { groupBy: rename(config.groupBy) }),
+    ...(config.colorKey && { colorKey: rename(config.colorKey) }),
+    ...(config.seriesOptions && { seriesOptions: config.seriesOptions.map(o => ({ ...o, key: rename(o.key) })) }),
+    ...(referenceLines && { referenceLines }),
+    ...(annotations && { annotations })
+  };
+};
+
+// Puts back what protectConfig replaced in a config the model returned: excluded column names,
+// and the original of every reference line and annotation the model kept as it was sent
+export const restoreConfig = <T extends VisualizationConfig>(proposed: T, sent: VisualizationConfig, original: VisualizationConfig): T => {
+  const names = new Map<string, string>();
+  const sentColumns = configColumns(sent);
+  configColumns(original).forEach((column, i) => {
+    if (sentColumns[i] !== column) names.set(sentColumns[i], column);
+  });
+  const column = (name: string) => names.get(name) ?? name;
+  const unchanged = <I>(items: I[] | undefined, sentItems: I[] | undefined, originals: I[] | undefined) => items?.map(item => {
+    const i = (sentItems ?? []).findIndex(s => JSON.stringify(s) === JSON.stringify(item));
+    return i >= 0 && originals?.[i] !== undefined ? originals[i] : item;
+  });
+
+  const referenceLines = unchanged(proposed.referenceLines, sent.referenceLines, original.referenceLines);
+  const annotations = unchanged(proposed.annotations, sent.annotations, original.annotations);
+  return {
+    ...proposed,
+    xAxisKey: column(proposed.xAxisKey),
+    yAxisKey: column(proposed.yAxisKey),
+    ...(proposed.seriesKeys && { seriesKeys: proposed.seriesKeys.map(column) }),
+    ...(proposed.groupBy && { groupBy: column(proposed.groupBy) }),
+    ...(proposed.colorKey && { colorKey: column(proposed.colorKey) }),
+    ...(proposed.seriesOptions && { seriesOptions: proposed.seriesOptions.map(o => ({ ...o, key: column(o.key) })) }),
+    ...(referenceLines && { referenceLines }),
+    ...(annotations && { annotations })
+  };
+};
+
+// Validation messages quote the columns and values they are about; each one protectConfig replaced
+// is swapped for what was sent, so the issues leak no more than the config beside them
+export const protectIssues = (issues: ConfigIssue[], original: VisualizationConfig, sent: VisualizationConfig): ConfigIssue[] => {
+  const swaps = new Map<string, string>();
+  const swap = (from: unknown, to: unknown) => {
+    if (from !== undefined && from !== to) swaps.set(`"${from}"`, `"${to}"`);
+  };
+  const sentColumns = configColumns(sent);
+  configColumns(original).forEach((column, i) => swap(column, sentColumns[i]));
+  original.referenceLines?.forEach((ref, i) => {
+    swap(ref.value, sent.referenceLines?.[i]?.value);
+    swap(ref.label, sent.referenceLines?.[i]?.label);
+  });
+  original.annotations?.forEach((a, i) => {
+    (['x', 'y', 'from', 'to', 'text'] as const).forEach(key => swap(a[key], sent.annotations?.[i]?.[key]));
+  });
+  return issues.map(issue => ({
+    ...issue,
+    message: [...swaps].reduce((message, [from, to]) => message.split(from).join(to), issue.message)
+  }));
+};
@@ -0,0 +1,118 @@
+import { ChartSeries, ChartType, VisualizationConfig } from '../types';
+import {
+  aggregateData, applyAggregate, compareValues, hasGroupSplit, pivotByGroup, resolveAggregation, splitByGroup, toNumber
+} from './aggregation';
+import { ResolvedAnnotation } from './annotations';
+import { ResolvedReference, TrendFit, addOverlays } from './overlays';
+import { isMissing } from './profiler';
+import { binIndex, boxStats, histogramBins, kernelDensity } from './statistics';
+import { TimeAxis, processTimeSeries, timeFormatFor } from './timeSeries';
+
+export interface ProcessedData {
+  rows: any[]; // Long rows after aggregation or statistics
+  data: any[]; // Rows shaped for the renderer (pivoted on groupBy)
+  series: ChartSeries[];
+  time?: TimeAxis; // Set when X values are timestamps for a time axis
+  trends?: TrendFit[]; // Fitted curves, computed before downsampling
+  references?: ResolvedReference[];
+  annotations?: ResolvedAnnotation[];
+}
+
+export const EMPTY_PROCESSED: ProcessedData = { rows: [], data: [], series: [] };
+
+export const numericValues = (rows: any[], key: string) =>
+  rows.map(r => toNumber(r[key])).filter(v => !isNaN(v));
+
+const formatEdge = (value: number) => String(Number(value.toPrecision(4)));
+
+const processHistogram = (data: any[], config: VisualizationConfig): ProcessedData => {
+  const xKey = config.xAxisKey;
+  const bins = histogramBins(numericValues(data, xKey), config.binning);
+  const groups = hasGroupSplit(config) ? splitByGroup(data, config.groupBy!) : [{ name: 'count', rows: data }];
+
+  const rows = bins.map(bin => {
+    const row: Record<string, any> = { bin: `${formatEdge(bin.x0)}–${formatEdge(bin.x1)}`, x0: bin.x0, x1: bin.x1 };
+    groups.forEach((_, i) => { row[`__series_0_${i}`] = 0; });
+    return row;
+  });
+  groups.forEach((group, i) => {
+    for (const value of numericValues(group.rows, xKey)) {
+      const b = binIndex(bins, value);
+      if (b >= 0) rows[b][`__series_0_${i}`]++;
+    }
+  });
+
+  const series = groups.map((group, i) => ({ key: `__series_0_${i}`, label: group.name, metric: 'count', group: group.name }));
+  return { rows, data: rows, series };
+};
+
+// One row per xAxisKey category with quartiles (box) and a density curve (violin) of yAxisKey
+const processDistribution = (data: any[], config: VisualizationConfig): ProcessedData => {
+  const xKey = config.xAxisKey;
+  const yKey = config.yAxisKey;
+  const categorical = Boolean(xKey) && xKey !== yKey;
+  const groups = categorical ? splitByGroup(data, xKey) : [{ name: 'All', rows: data }];
+  const categoryKey = categorical ? xKey : 'group';
+
+  const rows = groups.flatMap(group => {
+    const values = numericValues(group.rows, yKey);
+    const stats = boxStats(values);
+    if (!stats) return [];
+    const row: Record<string, any> = { [categoryKey]: group.name, ...stats, range: [stats.min, stats.max] };
+    if (config.chartType === ChartType.VIOLIN) row.density = kernelDensity(values);
+    return [row];
+  });
+
+  return { rows, data: rows, series: [{ key: 'range', label: yKey, metric: yKey }] };
+};
+
+// Long rows of x/y category pairs with the aggregated colorKey (or a row count)
+const processHeatmap = (data: any[], config: VisualizationConfig): ProcessedData => {
+  const xKey = config.xAxisKey;
+  const yKey = config.yAxisKey;
+  const func = config.aggregation?.func || (config.colorKey ? 'mean' : 'count');
+  const cells = new Map<string, { x: any; y: any; values: any[] }>();
+
+  for (const row of data) {
+    if (isMissing(row[xKey]) || isMissing(row[yKey])) continue;
+    const id = `${String(row[xKey])}\u0000${String(row[yKey])}`;
+    let cell = cells.get(id);
+    if (!cell) {
+      cell = { x: row[xKey], y: row[yKey], values: [] };
+      cells.set(id, cell);
+    }
+    cell.values.push(config.colorKey ? row[config.colorKey] : 1);
+  }
+
+  const rows = [...cells.values()]
+    .map(cell => ({ [xKey]: cell.x, [yKey]: cell.y, value: applyAggregate(func, cell.values) }))
+    .sort((a, b) => compareValues(a[xKey], b[xKey]) || compareValues(a[yKey], b[yKey]));
+
+  const label = config.colorKey || 'count';
+  return { rows, data: rows, series: [{ key: 'value', label, metric: label }] };
+};
+
+const shapeData = (data: any[], config: VisualizationConfig): ProcessedData => {
+  switch (config.chartType) {
+    case ChartType.HISTOGRAM:
+      return processHistogram(data, config);
+    case ChartType.BOX:
+    case ChartType.VIOLIN:
+      return processDistribution(data, config);
+    case ChartType.HEATMAP:
+      return processHeatmap(data, config);
+  }
+
+  const dateFormat = timeFormatFor(config, data);
+  if (dateFormat) return processTimeSeries(data, config, dateFormat);
+
+  const aggregation = resolveAggregation(config, data);
+  const rows = aggregation ? aggregateData(data, config, aggregation) : data;
+  return { rows, ...pivotByGroup(rows, config) };
+};
+
+// Shape raw dataset rows into what renderChart draws for the given config
+export const processData = (data: any[], config: VisualizationConfig | null): ProcessedData => {
+  if (!data || !config) return EMPTY_PROCESSED;
+  return addOverlays(shapeData(data, config), config);
+};
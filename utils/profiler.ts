@@ -0,0 +1,125 @@
+import { ColumnType, DataColumn, Dataset, DateFormat } from '../types';
+import { detectDateFormat, parseDate } from './dates';
+
+const ID_NAME_PATTERN = /(^id$|^id_|_id$|uuid|guid)/i;
+// Case matters here, or "Paid" and "Grid" would read as userId and orderID
+const CAMEL_ID_PATTERN = /([a-z]Id|ID)$/;
+
+const isIdName = (name: string) => ID_NAME_PATTERN.test(name) || CAMEL_ID_PATTERN.test(name);
+// Row numbers written out with an exported table, e.g. "Unnamed: 0" from pandas or "...1" from readr
+const INDEX_NAME_PATTERN = /^(|#|index|row|unnamed: ?\d+|\.\.\.\d+)$/i;
+
+// Only a full run from 0 or 1 counts, so years, months and other steady counts stay numbers
+const isRowIndex = (name: string, values: number[], rowCount: number) =>
+  INDEX_NAME_PATTERN.test(name.trim())
+  && values.length === rowCount
+  && (values[0] === 0 || values[0] === 1)
+  && values.every((v, i) => v === values[0] + i);
+const TIME_PATTERN = /\d{1,2}:\d{2}/;
+const BOOLEAN_STRINGS = new Set(['true', 'false', 'yes', 'no', 't', 'f', 'y', 'n']);
+const TRUE_STRINGS = new Set(['true', 'yes', 't', 'y']);
+
+export const isMissing = (value: any) =>
+  value === null || value === undefined || value === '' || (typeof value === 'number' && isNaN(value));
+
+const toBoolean = (value: any) => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value === 1;
+  return TRUE_STRINGS.has(String(value).trim().toLowerCase());
+};
+
+// Numeric and boolean columns can both be summed/averaged in charts
+export const isNumericType = (type: ColumnType | undefined) => type === 'number' || type === 'boolean';
+
+export const isTemporalType = (type: ColumnType | undefined) => type === 'date' || type === 'datetime';
+
+const inferType = (name: string, values: any[], rowCount: number, distinctCount: number, dateFormat: DateFormat | null): ColumnType => {
+  if (values.length === 0) return 'string';
+
+  if (values.every(v => typeof v === 'boolean' || (typeof v === 'string' && BOOLEAN_STRINGS.has(v.trim().toLowerCase())))) {
+    return 'boolean';
+  }
+
+  if (values.every(v => typeof v === 'number')) {
+    // 0/1 flags such as "Survived" behave like booleans
+    if (distinctCount === 2 && values.every(v => v === 0 || v === 1)) return 'boolean';
+    const allUnique = distinctCount === values.length;
+    if (allUnique && values.length > 1 && values.every(Number.isInteger)) {
+      if (isIdName(name) || isRowIndex(name, values, rowCount)) return 'id';
+    }
+    return 'number';
+  }
+
+  if (dateFormat) {
+    return values.some(v => v instanceof Date || TIME_PATTERN.test(v)) ? 'datetime' : 'date';
+  }
+
+  if (isIdName(name) && distinctCount === values.length) return 'id';
+
+  return 'string';
+};
+
+export const profileColumn = (name: string, data: any[]): DataColumn => {
+  const values = data.map(row => row?.[name]).filter(v => !isMissing(v));
+  const distinctCount = new Set(values.map(v => (v instanceof Date ? v.getTime() : v))).size;
+  const dateFormat = detectDateFormat(values);
+  const type = inferType(name, values, data.length, distinctCount, dateFormat);
+
+  const column: DataColumn = {
+    name,
+    type,
+    nullCount: data.length - values.length,
+    distinctCount
+  };
+
+  if (type === 'number' && values.length > 0) {
+    let min = Infinity, max = -Infinity, sum = 0;
+    for (const v of values as number[]) {
+      if (v < min) min = v;
+      if (v > max) max = v;
+      sum += v;
+    }
+    column.min = min;
+    column.max = max;
+    column.mean = sum / values.length;
+  } else if (type === 'boolean' && values.length > 0) {
+    column.mean = values.filter(toBoolean).length / values.length;
+  } else if (isTemporalType(type) && values.length > 0) {
+    let min = Infinity, max = -Infinity;
+    for (const v of values) {
+      const t = parseDate(v, dateFormat) ?? NaN;
+      if (t < min) min = t;
+      if (t > max) max = t;
+    }
+    column.dateFormat = dateFormat!;
+    if (min !== Infinity) {
+      column.min = new Date(min).toISOString();
+      column.max = new Date(max).toISOString();
+    }
+  }
+
+  return column;
+};
+
+export const profileData = (data: any[], columns: string[]): DataColumn[] =>
+  columns.map(name => profileColumn(name, data));
+
+export const createDataset = (name: string, data: any[], columns: string[]): Dataset => ({
+  name,
+  data,
+  columns,
+  profile: profileData(data, columns)
+});
+
+export const getColumn = (dataset: Dataset | null, name: string | undefined) =>
+  dataset?.profile.find(c => c.name === name);
+
+// Compact, model-friendly summary of the schema
+export const describeProfile = (profile: DataColumn[]) =>
+  profile.map(c => {
+    const parts = [`${c.name} (${c.type})`, `nulls=${c.nullCount}`, `distinct=${c.distinctCount}`];
+    if (c.min !== undefined) parts.push(`min=${c.min}`, `max=${c.max}`);
+    if (c.mean !== undefined) parts.push(`mean=${Number(c.mean.toFixed(3))}`);
+    if (c.dateFormat) parts.push(`format=${c.dateFormat}`);
+    return parts.join(', ');
+  }).join('\n');
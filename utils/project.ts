@@ -0,0 +1,282 @@
+import { ChartType, ConfigRevision, Dataset, VizProject } from '../types';
+import { DEFAULT_PRIVACY, PRIVACY_MODE_LABELS } from './privacy';
+import { createDataset } from './profiler';
+import { TRANSFORM_LABELS } from './transforms';
+
+export const PROJECT_VERSION = 5;
+export const PROJECT_FORMAT = 'vizai-project';
+
+// Share links beyond this length are rejected by many browsers and chat tools
+const MAX_SHARE_LENGTH = 60000;
+const SHARE_PREFIX = '#project=';
+
+const TRANSFORM_TYPES = Object.keys(TRANSFORM_LABELS);
+
+type Migration = (doc: any) => any;
+
+// Keyed by the version a document is upgraded *from*
+const MIGRATIONS: Record<number, Migration> = {
+  // Unversioned documents are bare { config, dataset } pairs, e.g. pulled from an HTML export
+  0: doc => ({
+    version: 1,
+    id: doc.id,
+    name: doc.name || doc.config?.title || doc.dataset?.name || 'Imported project',
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+    dataset: doc.dataset ?? null,
+    config: doc.config ?? null,
+    prompt: doc.prompt ?? '',
+    referenceImage: doc.referenceImage ?? null,
+    history: doc.history ?? []
+  }),
+  // v1 kept a flat list of { prompt, config } refinements; v2 stores a revision tree
+  1: doc => {
+    const { history = [], ...rest } = doc;
+    const revisions: ConfigRevision[] = [];
+    for (const entry of history) {
+      revisions.push({
+        id: createId(),
+        parentId: revisions[revisions.length - 1]?.id ?? null,
+        prompt: entry.prompt,
+        config: entry.config,
+        timestamp: entry.timestamp ?? Date.now()
+      });
+    }
+    if (revisions.length === 0 && doc.config) {
+      revisions.push({ id: createId(), parentId: null, prompt: doc.prompt ?? '', config: doc.config, timestamp: Date.now() });
+    }
+    return { ...rest, version: 2, revisions, currentRevisionId: revisions[revisions.length - 1]?.id ?? null };
+  },
+  // v3 adds dashboard panels next to the main chart
+  2: doc => ({ ...doc, version: 3, dashboard: [] }),
+  // v4 keeps other loaded tables for joins and unions
+  3: doc => ({ ...doc, version: 4, catalog: [] }),
+  // v5 records what may be sent to model providers
+  4: doc => ({ ...doc, version: 5, privacy: DEFAULT_PRIVACY })
+};
+
+export const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createProject = (fields: Partial<VizProject> = {}): VizProject => {
+  const now = Date.now();
+  return {
+    version: PROJECT_VERSION,
+    id: createId(),
+    name: 'Untitled project',
+    createdAt: now,
+    updatedAt: now,
+    dataset: null,
+    config: null,
+    prompt: '',
+    referenceImage: null,
+    revisions: [],
+    currentRevisionId: null,
+    dashboard: [],
+    catalog: [],
+    privacy: DEFAULT_PRIVACY,
+    ...fields
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateConfig = (config: unknown, path: string, errors: string[]) => {
+  if (!isObject(config)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (!Object.values(ChartType).includes(config.chartType)) errors.push(`${path}.chartType "${config.chartType}" is not a known chart type`);
+  if (typeof config.xAxisKey !== 'string') errors.push(`${path}.xAxisKey must be a string`);
+  if (typeof config.yAxisKey !== 'string') errors.push(`${path}.yAxisKey must be a string`);
+  if (typeof config.title !== 'string') errors.push(`${path}.title must be a string`);
+  if (config.seriesKeys !== undefined && !Array.isArray(config.seriesKeys)) errors.push(`${path}.seriesKeys must be an array`);
+  if (config.colors !== undefined && !Array.isArray(config.colors)) errors.push(`${path}.colors must be an array`);
+  if (config.theme !== undefined && !isObject(config.theme)) errors.push(`${path}.theme must be an object`);
+};
+
+const validateDataset = (dataset: unknown, path: string, errors: string[]) => {
+  if (!isObject(dataset)) {
+    errors.push(`${path} must be an object${path === 'dataset' ? ' or null' : ''}`);
+    return;
+  }
+  if (typeof dataset.name !== 'string') errors.push(`${path}.name must be a string`);
+  if (!Array.isArray(dataset.columns) || dataset.columns.some((c: unknown) => typeof c !== 'string')) {
+    errors.push(`${path}.columns must be an array of strings`);
+  }
+  if (!Array.isArray(dataset.data) || dataset.data.some((row: unknown) => !isObject(row))) {
+    errors.push(`${path}.data must be an array of row objects`);
+  }
+  if (dataset.transforms !== undefined && !Array.isArray(dataset.transforms)) {
+    errors.push(`${path}.transforms must be an array`);
+  } else {
+    (dataset.transforms ?? []).forEach((step: unknown, i: number) => {
+      if (!isObject(step) || !TRANSFORM_TYPES.includes(step.type)) errors.push(`${path}.transforms[${i}] is not a known transform step`);
+    });
+  }
+  if (dataset.origin !== undefined && (!isObject(dataset.origin) || !['join', 'union'].includes(dataset.origin.type))) {
+    errors.push(`${path}.origin must be a join or union`);
+  }
+};
+
+export const validateProject = (doc: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isObject(doc)) return ['Project must be a JSON object'];
+
+  if (doc.version !== PROJECT_VERSION) errors.push(`Unsupported version ${doc.version}`);
+  if (typeof doc.id !== 'string' || !doc.id) errors.push('id must be a non-empty string');
+  if (typeof doc.name !== 'string') errors.push('name must be a string');
+  if (typeof doc.prompt !== 'string') errors.push('prompt must be a string');
+  if (doc.referenceImage !== null && (typeof doc.referenceImage !== 'string' || !doc.referenceImage.startsWith('data:image/'))) {
+    errors.push('referenceImage must be an image data URL or null');
+  }
+
+  if (doc.dataset !== null) validateDataset(doc.dataset, 'dataset', errors);
+
+  if (!Array.isArray(doc.catalog)) {
+    errors.push('catalog must be an array');
+  } else {
+    doc.catalog.forEach((entry: unknown, i: number) => validateDataset(entry, `catalog[${i}]`, errors));
+  }
+
+  if (doc.config !== null) validateConfig(doc.config, 'config', errors);
+
+  if (!isObject(doc.privacy) || !Object.hasOwn(PRIVACY_MODE_LABELS, doc.privacy.mode) || !isObject(doc.privacy.columns)) {
+    errors.push('privacy must have a known mode and a columns object');
+  }
+
+  if (!Array.isArray(doc.revisions)) {
+    errors.push('revisions must be an array');
+  } else {
+    const ids = new Set(doc.revisions.map((r: any) => r?.id));
+    doc.revisions.forEach((revision: any, i: number) => {
+      if (!isObject(revision) || typeof revision.id !== 'string') {
+        errors.push(`revisions[${i}].id must be a string`);
+        return;
+      }
+      if (typeof revision.prompt !== 'string') errors.push(`revisions[${i}].prompt must be a string`);
+      if (revision.parentId !== null && !ids.has(revision.parentId)) errors.push(`revisions[${i}].parentId points to a missing revision`);
+      validateConfig(revision.config, `revisions[${i}].config`, errors);
+    });
+    if (doc.currentRevisionId !== null && !ids.has(doc.currentRevisionId)) {
+      errors.push('currentRevisionId points to a missing revision');
+    }
+  }
+
+  if (!Array.isArray(doc.dashboard)) {
+    errors.push('dashboard must be an array');
+  } else {
+    doc.dashboard.forEach((panel: any, i: number) => {
+      if (!isObject(panel) || typeof panel.id !== 'string') {
+        errors.push(`dashboard[${i}].id must be a string`);
+        return;
+      }
+      if (typeof panel.prompt !== 'string') errors.push(`dashboard[${i}].prompt must be a string`);
+      if (typeof panel.span !== 'number' || typeof panel.height !== 'number') errors.push(`dashboard[${i}] needs a numeric span and height`);
+      validateConfig(panel.config, `dashboard[${i}].config`, errors);
+    });
+  }
+
+  return errors;
+};
+
+export const migrateProject = (doc: any) => {
+  let current = doc;
+  let version = typeof current?.version === 'number' ? current.version : 0;
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from project version ${version}`);
+    current = migrate(current);
+    version = current.version;
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project version ${version} is newer than this app supports (${PROJECT_VERSION})`);
+  }
+  return current;
+};
+
+// Migrate, validate and normalize a parsed document into a project
+// Profiles are derived data, so they are rebuilt rather than trusted
+const restoreDataset = (stored: any): Dataset => ({
+  ...createDataset(stored.name, stored.data, stored.columns),
+  transforms: stored.transforms ?? [],
+  ...(stored.origin ? { origin: stored.origin } : {}),
+  ...(stored.file ? { file: stored.file } : {})
+});
+
+// Profiles are rebuilt on load, so they are left out of the file
+const storedDataset = ({ profile, ...rest }: Dataset) => ({ ...rest, transforms: rest.transforms ?? [] });
+
+export const loadProject = (doc: unknown): VizProject => {
+  const migrated = migrateProject(doc);
+  const now = Date.now();
+  migrated.id = migrated.id || createId();
+  migrated.createdAt = migrated.createdAt || now;
+  migrated.updatedAt = migrated.updatedAt || now;
+
+  const errors = validateProject(migrated);
+  if (errors.length > 0) {
+    throw new Error(`Invalid project file:\n${errors.join('\n')}`);
+  }
+
+  return {
+    ...migrated,
+    dataset: migrated.dataset ? restoreDataset(migrated.dataset) : null,
+    catalog: migrated.catalog.map(restoreDataset)
+  };
+};
+
+// The HTML export embeds its config and dataset as JSON script blocks
+const extractFromHtml = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const config = doc.getElementById('vizai-config')?.textContent;
+  const dataset = doc.getElementById('vizai-dataset')?.textContent;
+  if (!config) throw new Error("This HTML file was not exported from VizAI");
+  return { config: JSON.parse(config), dataset: dataset ? JSON.parse(dataset) : null };
+};
+
+export const parseProjectFile = (text: string): VizProject => {
+  const trimmed = text.trim();
+  const doc = trimmed.startsWith('<') ? extractFromHtml(trimmed) : JSON.parse(trimmed);
+  return loadProject(doc.format === PROJECT_FORMAT ? doc.project : doc);
+};
+
+export const serializeProject = (project: VizProject) => {
+  const dataset = project.dataset && storedDataset(project.dataset);
+  const catalog = project.catalog.map(storedDataset);
+  return JSON.stringify({ format: PROJECT_FORMAT, project: { ...project, version: PROJECT_VERSION, dataset, catalog } }, null, 2);
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Reference images are left out: they would blow the URL length limit on their own
+export const encodeShareHash = async (project: VizProject) => {
+  const json = serializeProject({ ...project, referenceImage: null });
+  const compressed = await pipeThrough(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  const hash = SHARE_PREFIX + toBase64Url(compressed);
+  if (hash.length > MAX_SHARE_LENGTH) {
+    throw new Error("This dataset is too large to share as a link. Export the project file instead.");
+  }
+  return hash;
+};
+
+export const decodeShareHash = async (hash: string): Promise<VizProject | null> => {
+  if (!hash.startsWith(SHARE_PREFIX)) return null;
+  const bytes = await pipeThrough(fromBase64Url(hash.slice(SHARE_PREFIX.length)), new DecompressionStream('deflate-raw'));
+  return parseProjectFile(new TextDecoder().decode(bytes));
+};
@@ -0,0 +1,110 @@
+import { Dataset, ProjectSummary, VizProject } from '../types';
+
+const DB_NAME = 'vizai';
+const DB_VERSION = 2;
+const PROJECTS = 'projects'; // Everything but the tables
+const TABLES = 'tables'; // Charted dataset and catalog, keyed by project id
+const SUMMARIES = 'summaries'; // What the library lists, so listing never loads rows
+
+interface StoredTables {
+  id: string;
+  dataset: Dataset | null;
+  catalog: Dataset[];
+}
+
+const summarize = (p: VizProject): ProjectSummary => ({
+  id: p.id,
+  name: p.name,
+  updatedAt: p.updatedAt,
+  datasetName: p.dataset?.name,
+  chartType: p.config?.chartType
+});
+
+const splitProject = ({ dataset, catalog, ...rest }: VizProject) => ({
+  project: rest,
+  tables: { id: rest.id, dataset, catalog }
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        const projects = db.objectStoreNames.contains(PROJECTS)
+          ? request.transaction!.objectStore(PROJECTS)
+          : db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        const tables = db.createObjectStore(TABLES, { keyPath: 'id' });
+        const summaries = db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+        if (event.oldVersion === 0) return;
+
+        // Version 1 kept whole projects in one store
+        const cursorRequest = projects.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const { project, tables: stored } = splitProject(cursor.value);
+          tables.put(stored);
+          summaries.put(summarize(cursor.value));
+          cursor.update(project);
+          cursor.continue();
+        };
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// One transaction over the given stores; resolves with each request's result once it commits
+const transact = async (stores: string[], mode: IDBTransactionMode, run: (tx: IDBTransaction) => IDBRequest[]): Promise<any[]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const requests = run(tx);
+    tx.oncomplete = () => resolve(requests.map(request => request.result));
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Tables last written per project. Unchanged tables stay the same objects in app state,
+// so saves after config edits skip rewriting the rows
+const savedTables = new Map<string, Pick<StoredTables, 'dataset' | 'catalog'>>();
+
+export const saveProject = async (project: VizProject) => {
+  const { project: rest, tables } = splitProject(project);
+  const saved = savedTables.get(project.id);
+  const tablesChanged = !saved || saved.dataset !== tables.dataset || saved.catalog !== tables.catalog;
+  await transact([PROJECTS, TABLES, SUMMARIES], 'readwrite', tx => [
+    tx.objectStore(PROJECTS).put(rest),
+    ...(tablesChanged ? [tx.objectStore(TABLES).put(tables)] : []),
+    tx.objectStore(SUMMARIES).put(summarize(project))
+  ]);
+  savedTables.set(project.id, { dataset: tables.dataset, catalog: tables.catalog });
+  return project;
+};
+
+export const getProject = async (id: string): Promise<VizProject | undefined> => {
+  const [project, tables] = await transact([PROJECTS, TABLES], 'readonly', tx => [
+    tx.objectStore(PROJECTS).get(id),
+    tx.objectStore(TABLES).get(id)
+  ]);
+  return project && { ...project, dataset: tables?.dataset ?? null, catalog: tables?.catalog ?? [] };
+};
+
+export const deleteProject = async (id: string) => {
+  await transact([PROJECTS, TABLES, SUMMARIES], 'readwrite', tx => [PROJECTS, TABLES, SUMMARIES].map(store => tx.objectStore(store).delete(id)));
+  savedTables.delete(id);
+};
+
+// Newest first
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const [summaries] = await transact([SUMMARIES], 'readonly', tx => [tx.objectStore(SUMMARIES).getAll()]);
+  return (summaries as ProjectSummary[]).sort((a, b) => b.updatedAt - a.updatedAt);
+};
@@ -0,0 +1,558 @@
+import { CastType, ChartTheme, ChartType, DataFile, DatePart, Dataset, LineDash, MarkerShape, TimeUnit, TransformStep, VisualizationConfig } from '../types';
+import { AGGREGATE_NAMES, CodePlan, MergeStep, buildCodePlan, dateLiteral, formatNumber, isJsonLines, needsLongFormat, quote, sortSettings, toPoints } from './codegen';
+import { ExpressionDialect, formatExpression, parseExpression } from './expression';
+import { ResolvedAnnotation } from './annotations';
+import { JOIN_SUFFIX } from './joins';
+import { REFERENCE_COLOR, ResolvedReference } from './overlays';
+import { primaryFont } from './themes';
+import { hasWindowStats, windowSize } from './timeSeries';
+import { binLabels } from './transforms';
+
+const list = (items: string[]) => `[${items.join(', ')}]`;
+
+const column = (name: string) => `df[${quote(name)}]`;
+
+const literal = (value: string | number | boolean | null) => {
+  if (value === null) return 'np.nan';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  return typeof value === 'number' ? formatNumber(value) : quote(value);
+};
+
+// Method calls need a bracketed receiver unless it is a plain column
+const method = (receiver: string, call: string) =>
+  `${/^df\["[^"]*"\]$/.test(receiver) ? receiver : `(${receiver})`}.${call}`;
+
+const nest = (args: string[], pair: (a: string, b: string) => string) => args.reduce((acc, arg) => pair(acc, arg));
+
+const PANDAS_FUNCTIONS: Record<string, (args: string[]) => string> = {
+  abs: a => `np.abs(${a[0]})`,
+  round: a => `np.round(${a.join(', ')})`,
+  floor: a => `np.floor(${a[0]})`,
+  ceil: a => `np.ceil(${a[0]})`,
+  sqrt: a => `np.sqrt(${a[0]})`,
+  log: a => `np.log(${a[0]})`,
+  exp: a => `np.exp(${a[0]})`,
+  // fmin/fmax skip NaN like na.rm = TRUE
+  min: a => nest(a, (x, y) => `np.fmin(${x}, ${y})`),
+  max: a => nest(a, (x, y) => `np.fmax(${x}, ${y})`),
+  lower: a => method(a[0], 'str.lower()'),
+  upper: a => method(a[0], 'str.upper()'),
+  trim: a => method(a[0], 'str.strip()'),
+  len: a => method(a[0], 'str.len()'),
+  contains: a => method(a[0], `str.contains(${a[1]}, regex=False)`),
+  concat: a => a.map(arg => (arg.startsWith('"') ? arg : method(arg, 'astype(str)'))).join(' + '),
+  if: a => `np.where(${a.join(', ')})`,
+  is_missing: a => method(a[0], 'isna()'),
+  coalesce: a => nest(a, (x, y) => method(x, `fillna(${y})`))
+};
+
+const PANDAS_DIALECT: ExpressionDialect = {
+  literal,
+  column,
+  operators: { and: '&', or: '|', not: '~' },
+  call: (name, args) => PANDAS_FUNCTIONS[name](args)
+};
+
+const pandasExpression = (source: string) => formatExpression(parseExpression(source), PANDAS_DIALECT);
+
+const PANDAS_CASTS: Record<CastType, (x: string) => string> = {
+  number: x => `pd.to_numeric(${x}, errors="coerce")`,
+  string: x => `${x}.astype("string")`,
+  boolean: x => `${x}.astype("boolean")`,
+  date: x => `pd.to_datetime(${x}, errors="coerce").dt.normalize()`
+};
+
+const PANDAS_DATE_PARTS: Record<DatePart, string> = {
+  year: 'dt.year',
+  quarter: 'dt.quarter',
+  month: 'dt.month',
+  monthName: 'dt.strftime("%b")',
+  weekday: 'dt.strftime("%a")',
+  day: 'dt.day',
+  hour: 'dt.hour',
+  date: 'dt.strftime("%Y-%m-%d")'
+};
+
+const stepLines = (step: TransformStep): string[] => {
+  switch (step.type) {
+    case 'filter':
+      return [`df = df[${pandasExpression(step.expression)}]`];
+    case 'filterValues': {
+      const x = column(step.column);
+      const values = list((step.values ?? []).map(literal));
+      switch (step.operator) {
+        case 'missing': return [`df = df[${x}.isna()]`];
+        case 'notMissing': return [`df = df[${x}.notna()]`];
+        case 'in': return [`df = df[${x}.isin(${values})]`];
+        default: return [`df = df[~${x}.isin(${values})]`];
+      }
+    }
+    case 'derive':
+      return [`${column(step.column)} = ${pandasExpression(step.expression)}`];
+    case 'rename':
+      return [`df = df.rename(columns={${quote(step.from)}: ${quote(step.to)}})`];
+    case 'cast':
+      return [`${column(step.column)} = ${PANDAS_CASTS[step.to](column(step.column))}`];
+    case 'bin': {
+      // right=False gives [a, b) ranges; nudging the last edge keeps the maximum in the top range
+      const edges = step.breaks.map(formatNumber);
+      edges[edges.length - 1] = `np.nextafter(${edges[edges.length - 1]}, np.inf)`;
+      return [`${column(step.as)} = pd.cut(${column(step.column)}, bins=${list(edges)}, labels=${list(binLabels(step.breaks).map(quote))}, right=False)`];
+    }
+    case 'datePart':
+      return [`${column(step.as)} = pd.to_datetime(${column(step.column)}, errors="coerce").${PANDAS_DATE_PARTS[step.part]}`];
+    case 'dedupe':
+      return [step.columns?.length ? `df = df.drop_duplicates(subset=${list(step.columns.map(quote))})` : 'df = df.drop_duplicates()'];
+  }
+};
+
+// read_excel needs openpyxl and read_parquet pyarrow installed next to pandas
+const readCall = (file: DataFile) => {
+  const path = quote(file.name);
+  switch (file.format) {
+    case 'excel':
+      return `pd.read_excel(${path}${file.sheet ? `, sheet_name=${quote(file.sheet)}` : ''})`;
+    case 'json':
+      return `pd.read_json(${path}${isJsonLines(file) ? ', lines=True' : ''})`;
+    case 'parquet':
+      return `pd.read_parquet(${path})`;
+    case 'delimited': {
+      const options = [
+        file.delimiter && `sep=${quote(file.delimiter)}`,
+        file.decimal && `decimal=${quote(file.decimal)}`,
+        file.thousands && `thousands=${quote(file.thousands)}`
+      ].filter(Boolean);
+      return `pd.read_csv(${[path, ...options].join(', ')})`;
+    }
+  }
+};
+
+// Right keys are renamed to the left names first, so the merged table keeps one key column like dplyr
+const mergeLine = (step: MergeStep): string => {
+  switch (step.type) {
+    case 'read':
+      return `${step.variable} = ${readCall(step.file)}`;
+    case 'join': {
+      const renames = step.rightKeys
+        .map((key, i) => (key === step.leftKeys[i] ? null : `${quote(key)}: ${quote(step.leftKeys[i])}`))
+        .filter(Boolean);
+      const right = renames.length > 0 ? `${step.right}.rename(columns={${renames.join(', ')}})` : step.right;
+      return `${step.variable} = ${step.left}.merge(${right}, on=${list(step.leftKeys.map(quote))}, how=${quote(step.how)}, suffixes=("", ${quote(JOIN_SUFFIX)}))`;
+    }
+    case 'union': {
+      const inputs = step.inputs.map(input => `${input.variable}.assign(**{${quote(step.sourceColumn)}: ${quote(input.name)}})`);
+      return `${step.variable} = pd.concat(${list(inputs)}, ignore_index=True)`;
+    }
+  }
+};
+
+const PANDAS_PERIODS: Record<TimeUnit, string> = { day: 'D', week: 'W', month: 'M', quarter: 'Q', year: 'Y' };
+
+// Dates parsed with the detected day/month order, moved to the start of the resampling period and sorted
+const timeLines = (plan: CodePlan): string[] => {
+  if (!plan.time) return [];
+  const x = column(plan.xKey);
+  const unit = plan.time.settings.resample;
+  const lines = [`${x} = pd.to_datetime(${x}, errors="coerce"${plan.time.format === 'dmy' ? ', dayfirst=True' : ''})`];
+  // Weekly periods end on Sunday, so they start on Monday
+  if (unit) lines.push(`${x} = ${x}.dt.to_period(${quote(PANDAS_PERIODS[unit])}).dt.start_time`);
+  lines.push(`df = df.dropna(subset=[${quote(plan.xKey)}]).sort_values(${quote(plan.xKey)})`);
+  return lines;
+};
+
+// Cumulative, rolling and change steps, each over one series at a time
+const windowLines = (plan: CodePlan, target: string): string[] => {
+  const settings = plan.time?.settings;
+  if (!settings || !hasWindowStats(settings)) return [];
+  const ops: ((s: string) => string)[] = [];
+  if (settings.cumulative) ops.push(s => `${s}.fillna(0).cumsum()`);
+  if (settings.rolling) {
+    const { window, func } = settings.rolling;
+    ops.push(s => `${s}.rolling(${windowSize(window)}).${func}()`);
+  }
+  if (settings.change) {
+    const lag = windowSize(settings.change.lag ?? 1);
+    ops.push(settings.change.kind === 'percent' ? s => `(${s} / ${s}.shift(${lag}) - 1) * 100` : s => `${s} - ${s}.shift(${lag})`);
+  }
+  return plan.valueKeys.flatMap(key => {
+    const values = `${target}[${quote(key)}]`;
+    return ops.map(op => (plan.groupKey
+      ? `${values} = ${target}.groupby(${quote(plan.groupKey)})[${quote(key)}].transform(lambda s: ${op('s')})`
+      : `${values} = ${op(values)}`));
+  });
+};
+
+const categoricalTypes = [ChartType.BAR, ChartType.PIE, ChartType.RADAR, ChartType.COMPOSED];
+
+// Named aggregation needs a source column even when counting rows; the X column always exists
+const aggregateSource = (plan: CodePlan, key: string) => (plan.aggregation!.func === 'count' ? plan.xKey : key);
+
+// pandas steps that mirror aggregateData and the category order of the preview
+const aggregateLines = (plan: CodePlan): string[] => {
+  const aggregation = plan.aggregation!;
+  const fn = quote(AGGREGATE_NAMES[aggregation.func].pandas);
+  const x = quote(plan.xKey);
+  const lines: string[] = [];
+
+  if (aggregation.topN) {
+    const other = quote(aggregation.otherLabel || 'Other');
+    const totals = aggregation.func === 'count'
+      ? `df.groupby(${x}).size()`
+      : `df.groupby(${x})[${quote(plan.valueKeys[0])}].agg(${fn})`;
+    lines.push(
+      `# Keep the top ${aggregation.topN} categories, merge the rest`,
+      `top_x = ${totals}.nlargest(${aggregation.topN}).index`,
+      `df[${x}] = df[${x}].where(df[${x}].isin(top_x), ${other})`,
+      ''
+    );
+  }
+
+  const keys = [plan.xKey, plan.groupKey].filter((k): k is string => Boolean(k)).map(quote);
+  const named = plan.valueKeys.map(k => `${quote(k)}: (${quote(aggregateSource(plan, k))}, ${fn})`).join(', ');
+  lines.push(`plot_df = df.groupby(${list(keys)}, as_index=False, dropna=False).agg(**{${named}})`);
+
+  // Dates stay in time order, which groupby already gives
+  if (!categoricalTypes.includes(plan.config.chartType) || plan.time) return lines;
+
+  const { sortBy, sortOrder } = sortSettings(aggregation);
+  lines.push('');
+  if (sortBy === 'value') {
+    lines.push(`x_order = plot_df.groupby(${x})[${quote(plan.valueKeys[0])}].sum().sort_values(ascending=${sortOrder === 'desc' ? 'False' : 'True'}).index.tolist()`);
+  } else if (sortBy === 'x') {
+    lines.push(`x_order = sorted(plot_df[${x}].unique(), reverse=${sortOrder === 'desc' ? 'True' : 'False'})`);
+  } else {
+    lines.push(`x_order = list(df[${x}].unique())`);
+  }
+  if (aggregation.topN) {
+    const other = quote(aggregation.otherLabel || 'Other');
+    lines.push(`x_order = [v for v in x_order if v != ${other}] + [v for v in x_order if v == ${other}]`);
+  }
+  lines.push(
+    `plot_df[${x}] = pd.Categorical(plot_df[${x}], categories=x_order, ordered=True)`,
+    `plot_df = plot_df.sort_values(${x})`
+  );
+  return lines;
+};
+
+const dataLines = (plan: CodePlan): string[] => {
+  const { chartType } = plan.config;
+  if (chartType === ChartType.SCATTER) return windowLines(plan, 'df');
+  if ([ChartType.HISTOGRAM, ChartType.BOX, ChartType.VIOLIN, ChartType.HEATMAP].includes(chartType)) return [];
+
+  const lines = plan.aggregation ? aggregateLines(plan) : ['plot_df = df'];
+  const windows = windowLines(plan, 'plot_df');
+  if (windows.length > 0) lines.push('', ...windows);
+  if (needsLongFormat(plan)) {
+    const ids = [plan.xKey, plan.groupKey].filter((k): k is string => Boolean(k)).map(quote);
+    lines.push(
+      '',
+      `plot_df = plot_df.melt(id_vars=${list(ids)}, value_vars=${list(plan.valueKeys.map(quote))}, var_name="series", value_name="value")`
+    );
+  }
+  return lines;
+};
+
+const MARKERS: Record<MarkerShape, string | null> = { circle: 'o', square: 's', triangle: '^', diamond: 'D', none: null };
+
+const LINE_STYLES: Record<LineDash, string> = { solid: '-', dashed: '--', dotted: ':' };
+
+const plotLines = (plan: CodePlan): string[] => {
+  const { config, theme } = plan;
+  const marker = MARKERS[theme.marker ?? 'circle'];
+  const lineMarker = marker ? `, marker="${marker}"` : '';
+  // Scatter plots always draw points, so "none" keeps seaborn's circles
+  const scatterMarker = marker && marker !== 'o' ? `, marker="${marker}"` : '';
+  const x = quote(plan.xKey);
+  const long = needsLongFormat(plan);
+  const y = long ? '"value"' : quote(plan.valueKeys[0]);
+  const split = long ? '"series"' : plan.groupKey ? quote(plan.groupKey) : null;
+  const palette = `palette = ${list(plan.palette.map(quote))}`;
+  const color0 = quote(plan.palette[0]);
+  const figure = 'fig, ax = plt.subplots(figsize=(10, 6))';
+  const wide = `plot_df.pivot_table(index=${x}, columns=${split}, values=${y}, aggfunc="sum", observed=False)`;
+
+  switch (config.chartType) {
+    case ChartType.LINE:
+      return split
+        ? [palette, figure, `sns.lineplot(data=plot_df, x=${x}, y=${y}, hue=${split}, palette=palette${lineMarker}, ax=ax)`]
+        : [figure, `sns.lineplot(data=plot_df, x=${x}, y=${y}, color=${color0}${lineMarker}, ax=ax)`];
+    case ChartType.AREA:
+      return split
+        ? [palette, figure, `${wide}.plot.area(color=palette, alpha=0.8, ax=ax)`]
+        : [figure, `ax.fill_between(plot_df[${x}], plot_df[${y}], color=${color0}, alpha=0.8)`];
+    case ChartType.SCATTER:
+      return plan.groupKey
+        ? [palette, figure, `sns.scatterplot(data=df, x=${x}, y=${quote(plan.yKey)}, hue=${quote(plan.groupKey)}, palette=palette, s=40, alpha=0.8${scatterMarker}, ax=ax)`]
+        : [figure, `sns.scatterplot(data=df, x=${x}, y=${quote(plan.yKey)}, color=${color0}, s=40, alpha=0.8${scatterMarker}, ax=ax)`];
+    case ChartType.PIE:
+      return [
+        palette,
+        figure,
+        `ax.pie(plot_df[${y}], labels=plot_df[${x}], colors=palette, autopct="%1.1f%%", startangle=90)`,
+        'ax.axis("equal")'
+      ];
+    case ChartType.RADAR:
+      return [
+        palette,
+        `radar = ${split ? `${wide}.fillna(0)` : `plot_df.set_index(${x})[[${y}]]`}`,
+        'angles = np.linspace(0, 2 * np.pi, len(radar), endpoint=False).tolist()',
+        'angles += angles[:1]',
+        '',
+        'fig, ax = plt.subplots(figsize=(8, 8), subplot_kw={"polar": True})',
+        'for column, color in zip(radar.columns, palette):',
+        '    values = radar[column].tolist()',
+        '    values += values[:1]',
+        '    ax.plot(angles, values, color=color, label=str(column))',
+        '    ax.fill(angles, values, color=color, alpha=0.3)',
+        'ax.set_xticks(angles[:-1])',
+        'ax.set_xticklabels(radar.index.astype(str))',
+        ...(split ? ['ax.legend(loc="upper right", bbox_to_anchor=(1.3, 1.1))'] : [])
+      ];
+    case ChartType.COMPOSED: {
+      const lines = [figure, `x = plot_df[${x}].astype(str)`];
+      const hasRight = plan.valueKeys.some(k => config.seriesOptions?.find(o => o.key === k)?.axis === 'right');
+      if (hasRight) lines.push('ax2 = ax.twinx()');
+      plan.valueKeys.forEach((key, i) => {
+        const option = config.seriesOptions?.find(o => o.key === key);
+        const target = option?.axis === 'right' ? 'ax2' : 'ax';
+        const color = quote(plan.palette[i % plan.palette.length]);
+        const values = `plot_df[${quote(key)}]`;
+        const mark = option?.mark || 'bar';
+        if (mark === 'line') lines.push(`${target}.plot(x, ${values}, color=${color}, marker="o", linewidth=2, label=${quote(key)})`);
+        else if (mark === 'area') lines.push(`${target}.fill_between(x, ${values}, color=${color}, alpha=0.3, label=${quote(key)})`);
+        else lines.push(`${target}.bar(x, ${values}, color=${color}, label=${quote(key)})`);
+      });
+      if (hasRight) {
+        const right = plan.valueKeys.find(k => config.seriesOptions?.find(o => o.key === k)?.axis === 'right')!;
+        lines.push(`ax2.set_ylabel(${quote(right)})`);
+      }
+      lines.push('fig.legend(loc="upper right")');
+      return lines;
+    }
+    case ChartType.HISTOGRAM: {
+      const edges = plan.bins.length > 0 ? [...plan.bins.map(b => b.x0), plan.bins[plan.bins.length - 1].x1] : [];
+      const bins = `bins=${list(edges.map(formatNumber))}`;
+      return plan.groupKey
+        ? [palette, figure, `sns.histplot(data=df, x=${x}, hue=${quote(plan.groupKey)}, ${bins}, multiple=${config.barMode === 'stacked' ? '"stack"' : '"dodge"'}, palette=palette, ax=ax)`]
+        : [figure, `sns.histplot(data=df, x=${x}, ${bins}, color=${color0}, ax=ax)`];
+    }
+    case ChartType.BOX:
+    case ChartType.VIOLIN: {
+      const category = config.xAxisKey && config.xAxisKey !== config.yAxisKey ? `x=${x}, ` : '';
+      return config.chartType === ChartType.BOX
+        ? [figure, `sns.boxplot(data=df, ${category}y=${quote(plan.yKey)}, color=${color0}, ax=ax)`]
+        : [figure, `sns.violinplot(data=df, ${category}y=${quote(plan.yKey)}, color=${color0}, cut=0, inner="box", ax=ax)`];
+    }
+    case ChartType.HEATMAP: {
+      const func = config.aggregation?.func || (config.colorKey ? 'mean' : 'count');
+      const values = func === 'count' ? '' : `values=${quote(config.colorKey || plan.yKey)}, `;
+      return [
+        `heat = df.pivot_table(index=${quote(plan.yKey)}, columns=${x}, ${values}aggfunc=${quote(AGGREGATE_NAMES[func].pandas)})`,
+        `cmap = sns.blend_palette([${quote(plan.heatmap.low)}, ${quote(plan.heatmap.high)}], as_cmap=True)`,
+        '',
+        figure,
+        `sns.heatmap(heat, cmap=cmap, annot=True, fmt=".3g", linewidths=0.5, cbar_kws={"label": ${quote(config.colorKey || 'count')}}, ax=ax)`
+      ];
+    }
+    default:
+      if (split && config.barMode === 'stacked') {
+        return [palette, figure, `${wide}.plot(kind="bar", stacked=True, color=palette, ax=ax)`];
+      }
+      return split
+        ? [palette, figure, `sns.barplot(data=plot_df, x=${x}, y=${y}, hue=${split}, palette=palette, errorbar=None, ax=ax)`]
+        : [figure, `sns.barplot(data=plot_df, x=${x}, y=${y}, color=${color0}, errorbar=None, ax=ax)`];
+  }
+};
+
+// Dates are drawn as matplotlib day numbers, so fits and lines on a date axis use the same units
+const xValues = (plan: CodePlan, frame: string) =>
+  plan.time ? `mdates.date2num(${frame}[${quote(plan.xKey)}])` : `${frame}[${quote(plan.xKey)}]`;
+
+const referenceValue = (plan: CodePlan, ref: ResolvedReference) => {
+  if (typeof ref.value !== 'number') return null;
+  return ref.axis === 'x' && plan.time ? `mdates.date2num(pd.Timestamp(${quote(dateLiteral(ref.value))}))` : formatNumber(ref.value);
+};
+
+const overlayLines = (plan: CodePlan): string[] => {
+  const lines: string[] = [];
+  const { trend } = plan;
+  if (trend) {
+    const scatter = plan.config.chartType === ChartType.SCATTER;
+    const source = scatter ? 'df' : 'plot_df';
+    const long = needsLongFormat(plan);
+    const y = long ? '"value"' : quote(scatter ? plan.yKey : plan.valueKeys[0]);
+    const split = long ? '"series"' : plan.groupKey ? quote(plan.groupKey) : null;
+    const fit = [
+      'scatter=False',
+      trend.method === 'polynomial' ? `order=${Math.round(trend.degree ?? 2)}` : '',
+      trend.method === 'loess' ? 'lowess=True' : `ci=${trend.band ? '95' : 'None'}`,
+      'line_kws={"linestyle": "--"}'
+    ].filter(Boolean).join(', ');
+    lines.push('');
+    if (trend.method === 'loess') lines.push('# lowess needs statsmodels; it uses its own span and draws no confidence band');
+    if (split && trend.perGroup !== false) {
+      lines.push(
+        `for (_, part), color in zip(${source}.groupby(${split}, sort=False), palette):`,
+        `    sns.regplot(x=${xValues(plan, 'part')}, y=part[${y}], ${fit}, color=color, ax=ax)`
+      );
+    } else {
+      lines.push(`sns.regplot(x=${xValues(plan, source)}, y=${source}[${y}], ${fit}, color=${quote(plan.palette[0])}, ax=ax)`);
+    }
+  }
+  // Lines on a category axis stay in the preview; matplotlib places those by position rather than value
+  const color = quote(REFERENCE_COLOR);
+  for (const ref of plan.references) {
+    const value = referenceValue(plan, ref);
+    if (!value) continue;
+    if (ref.axis === 'y') {
+      lines.push(
+        `ax.axhline(${value}, color=${color}, linestyle="--")`,
+        `ax.annotate(${quote(ref.label)}, xy=(1, ${value}), xycoords=("axes fraction", "data"), ha="right", va="bottom", color=${color})`
+      );
+    } else {
+      lines.push(
+        `ax.axvline(${value}, color=${color}, linestyle="--")`,
+        `ax.annotate(${quote(ref.label)}, xy=(${value}, 1), xycoords=("data", "axes fraction"), ha="left", va="top", color=${color})`
+      );
+    }
+  }
+  return lines;
+};
+
+// Seaborn and pandas bars sit at 0, 1, 2... whatever their labels, so categories are looked up by tick label
+const CATEGORY_POSITION = [
+  'def category_position(ax, label):',
+  '    ax.figure.canvas.draw()',
+  '    return next(tick for tick, text in zip(ax.get_xticks(), ax.get_xticklabels()) if text.get_text() == label)',
+  ''
+];
+
+const byTickLabel = (plan: CodePlan, a: ResolvedAnnotation, value: number | string) =>
+  a.category && (typeof value === 'string' || [ChartType.BAR, ChartType.COMPOSED].includes(plan.config.chartType)) && !plan.time;
+
+const annotationX = (plan: CodePlan, a: ResolvedAnnotation, value: number | string) => {
+  if (byTickLabel(plan, a, value)) return `category_position(ax, ${quote(String(value))})`;
+  if (typeof value === 'string') return quote(value);
+  return plan.time ? `mdates.date2num(pd.Timestamp(${quote(dateLiteral(value))}))` : formatNumber(value);
+};
+
+// Pie slices are not annotated in code; matplotlib has no axes position for them
+const annotationLines = (plan: CodePlan): string[] => {
+  if (plan.config.chartType === ChartType.PIE || plan.annotations.length === 0) return [];
+  const lines: string[] = [''];
+  if (plan.annotations.some(a => [a.x, a.from, a.to].some(value => value !== undefined && a.axis !== 'y' && byTickLabel(plan, a, value)))) {
+    lines.push(...CATEGORY_POSITION);
+  }
+  for (const a of plan.annotations) {
+    const color = quote(a.color);
+    const label = quote(a.label);
+    switch (a.type) {
+      case 'text':
+        lines.push(
+          `ax.scatter([${annotationX(plan, a, a.x!)}], [${formatNumber(a.y!)}], color=${color}, s=16, zorder=3)`,
+          `ax.annotate(${label}, xy=(${annotationX(plan, a, a.x!)}, ${formatNumber(a.y!)}), xytext=(0, 6), textcoords="offset points", ha="center", va="bottom", color=${color})`
+        );
+        break;
+      case 'arrow':
+        lines.push(
+          `ax.annotate(${label}, xy=(${annotationX(plan, a, a.x!)}, ${formatNumber(a.y!)}), xytext=(30, 30), textcoords="offset points", `
+            + `color=${color}, arrowprops={"arrowstyle": "->", "color": ${color}})`
+        );
+        break;
+      case 'highlight':
+        lines.push(`ax.axvspan(${annotationX(plan, a, a.x!)} - 0.4, ${annotationX(plan, a, a.x!)} + 0.4, color=${color}, alpha=0.15)`);
+        if (a.label) lines.push(`ax.annotate(${label}, xy=(${annotationX(plan, a, a.x!)}, 1), xycoords=("data", "axes fraction"), ha="center", va="top", color=${color})`);
+        break;
+      case 'range':
+        if (a.axis === 'y') {
+          lines.push(`ax.axhspan(${formatNumber(Number(a.from))}, ${formatNumber(Number(a.to))}, color=${color}, alpha=0.12)`);
+          if (a.label) lines.push(`ax.annotate(${label}, xy=(0, ${formatNumber(Number(a.to))}), xycoords=("axes fraction", "data"), ha="left", va="bottom", color=${color})`);
+        } else {
+          const pad = byTickLabel(plan, a, a.from!) ? 0.5 : 0;
+          const [from, to] = [annotationX(plan, a, a.from!), annotationX(plan, a, a.to!)];
+          lines.push(`ax.axvspan(${pad ? `${from} - ${pad}` : from}, ${pad ? `${to} + ${pad}` : to}, color=${color}, alpha=0.12)`);
+          if (a.label) lines.push(`ax.annotate(${label}, xy=(${from}, 1), xycoords=("data", "axes fraction"), ha="${pad ? 'center' : 'left'}", va="top", color=${color})`);
+        }
+        break;
+    }
+  }
+  return lines;
+};
+
+const LEGEND_LOCATIONS = { top: 'upper center', bottom: 'lower center', left: 'center left', right: 'center right' };
+
+// rcParams for the fields the chart's theme sets, as [key, Python literal] pairs
+const themeParams = (theme: ChartTheme): [string, string][] => {
+  const params: [string, string][] = [];
+  const set = (keys: string[], value: string) => keys.forEach(key => params.push([key, value]));
+  const bool = (value: boolean) => (value ? 'True' : 'False');
+  if (theme.background) set(['figure.facecolor', 'axes.facecolor', 'savefig.facecolor'], quote(theme.background));
+  if (theme.textColor) set(['text.color', 'axes.labelcolor', 'xtick.labelcolor', 'ytick.labelcolor'], quote(theme.textColor));
+  if (theme.fontFamily) set(['font.family'], quote(primaryFont(theme.fontFamily)));
+  if (theme.fontSize !== undefined) set(['font.size', 'xtick.labelsize', 'ytick.labelsize', 'legend.fontsize'], toPoints(theme.fontSize));
+  if (theme.titleSize !== undefined) set(['axes.titlesize'], toPoints(theme.titleSize));
+  if (theme.grid) {
+    set(['axes.grid'], bool(theme.grid !== 'none'));
+    // Horizontal grid lines mark the y values
+    if (theme.grid !== 'none') set(['axes.grid.axis'], quote(theme.grid === 'horizontal' ? 'y' : theme.grid === 'vertical' ? 'x' : 'both'));
+  }
+  if (theme.gridColor) set(['grid.color'], quote(theme.gridColor));
+  if (theme.gridDash) set(['grid.linestyle'], quote(LINE_STYLES[theme.gridDash]));
+  if (theme.axisColor) set(['axes.edgecolor', 'xtick.color', 'ytick.color'], quote(theme.axisColor));
+  if (theme.axisLine !== undefined) {
+    set(['axes.spines.left', 'axes.spines.bottom'], bool(theme.axisLine));
+    set(['axes.spines.top', 'axes.spines.right'], 'False');
+  }
+  if (theme.legendPosition && theme.legendPosition !== 'none') set(['legend.loc'], quote(LEGEND_LOCATIONS[theme.legendPosition]));
+  if (theme.lineWidth !== undefined) set(['lines.linewidth'], toPoints(theme.lineWidth));
+  if (theme.lineDash) set(['lines.linestyle'], quote(LINE_STYLES[theme.lineDash]));
+  return params;
+};
+
+export const generatePythonCode = (config: VisualizationConfig, dataset: Dataset) => {
+  const plan = buildCodePlan(config, dataset);
+  const { chartType } = config;
+  const transforms = (dataset.transforms ?? []).flatMap(stepLines);
+  const time = timeLines(plan);
+  const data = dataLines(plan);
+  const plot = [...plotLines(plan), ...overlayLines(plan), ...annotationLines(plan)];
+  const usesSeaborn = plot.some(line => line.includes('sns.'));
+  const usesNumpy = chartType === ChartType.RADAR || transforms.some(line => line.includes('np.'));
+
+  const imports = ['import pandas as pd', 'import matplotlib.pyplot as plt'];
+  if (plot.some(line => line.includes('mdates.'))) imports.push('import matplotlib.dates as mdates');
+  if (usesNumpy) imports.unshift('import numpy as np');
+  const params = themeParams(plan.theme);
+  const themeDict = params.length > 0
+    ? ['', 'theme = {', ...params.map(([key, value], i) => `    ${quote(key)}: ${value}${i < params.length - 1 ? ',' : ''}`), '}']
+    : [];
+  if (usesSeaborn) {
+    const style = plan.theme.grid === 'none' ? 'white' : 'whitegrid';
+    imports.push('import seaborn as sns', ...themeDict, '', `sns.set_theme(style="${style}"${params.length > 0 ? ', rc=theme' : ''})`);
+  } else if (params.length > 0) {
+    imports.push(...themeDict, 'plt.rcParams.update(theme)');
+  }
+
+  const title = plan.subtitle ? `${plan.title}\n${plan.subtitle}` : plan.title;
+  const labels = [`ax.set_title(${quote(title)})`];
+  if (chartType !== ChartType.PIE && chartType !== ChartType.RADAR) {
+    labels.push(`ax.set_xlabel(${quote(plan.xLabel)})`, `ax.set_ylabel(${quote(plan.yLabel)})`);
+  }
+  if (plan.theme.legendPosition === 'none') labels.push('if ax.get_legend():', '    ax.get_legend().remove()');
+
+  return [
+    ...imports,
+    '',
+    ...(plan.merges.length > 0 ? plan.merges.map(mergeLine) : [`df = ${readCall(plan.file)}`]),
+    '',
+    ...(transforms.length > 0 ? [...transforms, ''] : []),
+    ...(time.length > 0 ? [...time, ''] : []),
+    ...(data.length > 0 ? [...data, ''] : []),
+    ...plot,
+    ...labels,
+    '',
+    'plt.tight_layout()',
+    'plt.show()',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,594 @@
+import { CastType, ChartTheme, ChartType, DataFile, DateFormat, DatePart, Dataset, MarkerShape, TransformStep, TrendLineConfig, VisualizationConfig } from '../types';
+import { AGGREGATE_NAMES, CodePlan, MergeStep, buildCodePlan, dateLiteral, formatNumber, isJsonLines, needsLongFormat, quote, sortSettings, toPoints } from './codegen';
+import { ExpressionDialect, formatExpression, parseExpression } from './expression';
+import { ResolvedAnnotation, valueSpan } from './annotations';
+import { JOIN_SUFFIX } from './joins';
+import { REFERENCE_COLOR, ResolvedReference } from './overlays';
+import { primaryFont } from './themes';
+import { hasWindowStats, windowSize } from './timeSeries';
+import { binLabels } from './transforms';
+
+// Non-syntactic names need backticks in R
+const col = (name: string) => (/^[A-Za-z.][A-Za-z0-9._]*$/.test(name) ? name : '`' + name.replace(/`/g, '\\`') + '`');
+
+const vector = (items: string[]) => `c(${items.join(', ')})`;
+
+const literal = (value: string | number | boolean | null) => {
+  if (value === null) return 'NA';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return typeof value === 'number' ? formatNumber(value) : quote(value);
+};
+
+const R_FUNCTIONS: Record<string, (args: string[]) => string> = {
+  abs: a => `abs(${a[0]})`,
+  round: a => `round(${a.join(', ')})`,
+  floor: a => `floor(${a[0]})`,
+  ceil: a => `ceiling(${a[0]})`,
+  sqrt: a => `sqrt(${a[0]})`,
+  log: a => `log(${a[0]})`,
+  exp: a => `exp(${a[0]})`,
+  min: a => `pmin(${a.join(', ')}, na.rm = TRUE)`,
+  max: a => `pmax(${a.join(', ')}, na.rm = TRUE)`,
+  lower: a => `tolower(${a[0]})`,
+  upper: a => `toupper(${a[0]})`,
+  trim: a => `trimws(${a[0]})`,
+  len: a => `nchar(${a[0]})`,
+  contains: a => `grepl(${a[1]}, ${a[0]}, fixed = TRUE)`,
+  concat: a => `paste0(${a.join(', ')})`,
+  if: a => `ifelse(${a.join(', ')})`,
+  is_missing: a => `is.na(${a[0]})`,
+  coalesce: a => `coalesce(${a.join(', ')})`
+};
+
+const R_DIALECT: ExpressionDialect = {
+  literal,
+  column: col,
+  operators: { '%': '%%', and: '&', or: '|', not: '!' },
+  call: (name, args) => R_FUNCTIONS[name](args)
+};
+
+const rExpression = (source: string) => formatExpression(parseExpression(source), R_DIALECT);
+
+const R_CASTS: Record<CastType, string> = {
+  number: 'as.numeric',
+  string: 'as.character',
+  boolean: 'as.logical',
+  date: 'as.Date'
+};
+
+const R_DATE_PARTS: Record<DatePart, (x: string) => string> = {
+  year: x => `year(${x})`,
+  quarter: x => `quarter(${x})`,
+  month: x => `month(${x})`,
+  monthName: x => `as.character(month(${x}, label = TRUE))`,
+  weekday: x => `as.character(wday(${x}, label = TRUE))`,
+  day: x => `day(${x})`,
+  hour: x => `hour(${x})`,
+  date: x => `as.character(as_date(${x}))`
+};
+
+const stepVerb = (step: TransformStep): string => {
+  switch (step.type) {
+    case 'filter':
+      return `filter(${rExpression(step.expression)})`;
+    case 'filterValues': {
+      const x = col(step.column);
+      const values = vector((step.values ?? []).map(literal));
+      switch (step.operator) {
+        case 'missing': return `filter(is.na(${x}))`;
+        case 'notMissing': return `filter(!is.na(${x}))`;
+        case 'in': return `filter(${x} %in% ${values})`;
+        default: return `filter(!(${x} %in% ${values}))`;
+      }
+    }
+    case 'derive':
+      return `mutate(${col(step.column)} = ${rExpression(step.expression)})`;
+    case 'rename':
+      return `rename(${col(step.to)} = ${col(step.from)})`;
+    case 'cast':
+      return `mutate(${col(step.column)} = ${R_CASTS[step.to]}(${col(step.column)}))`;
+    case 'bin': {
+      const labels = vector(binLabels(step.breaks).map(quote));
+      return `mutate(${col(step.as)} = cut(${col(step.column)}, breaks = ${vector(step.breaks.map(formatNumber))}, labels = ${labels}, right = FALSE, include.lowest = TRUE))`;
+    }
+    case 'datePart':
+      return `mutate(${col(step.as)} = ${R_DATE_PARTS[step.part](`as_datetime(${col(step.column)})`)})`;
+    case 'dedupe':
+      return step.columns?.length ? `distinct(${step.columns.map(col).join(', ')}, .keep_all = TRUE)` : 'distinct()';
+  }
+};
+
+// The dataset's transform steps as one dplyr pipeline over the raw file
+const transformLines = (steps: TransformStep[]): string[] => {
+  if (steps.length === 0) return [];
+  const verbs = steps.map(stepVerb);
+  return ['df <- df %>%', ...verbs.map((verb, i) => `  ${verb}${i < verbs.length - 1 ? ' %>%' : ''}`)];
+};
+
+const R_JOINS = { inner: 'inner_join', left: 'left_join', outer: 'full_join' };
+
+// check.names keeps headers such as "Ticket Price" as they are in the file.
+// Grouped decimals such as "1.234,5" need readr; base R reads "3,14" with dec = ","
+const delimitedCall = (file: DataFile) => {
+  const path = quote(file.name);
+  const sep = file.delimiter ?? ',';
+  if (file.thousands) {
+    return `read_delim(${path}, delim = ${quote(sep)}, locale = locale(decimal_mark = ${quote(file.decimal ?? '.')}, grouping_mark = ${quote(file.thousands)}))`;
+  }
+  if (sep === ';' && file.decimal === ',') return `read.csv2(${path}, check.names = FALSE)`;
+  const options = [sep !== ',' && `sep = ${quote(sep)}`, file.decimal && `dec = ${quote(file.decimal)}`].filter(Boolean);
+  return `read.csv(${[path, ...options].join(', ')}, check.names = FALSE)`;
+};
+
+// One reader per source format, with the packages loaded through READ_LIBRARIES
+const readCall = (file: DataFile) => {
+  const path = quote(file.name);
+  switch (file.format) {
+    case 'excel':
+      return `read_excel(${path}${file.sheet ? `, sheet = ${quote(file.sheet)}` : ''})`;
+    case 'json':
+      return isJsonLines(file) ? `stream_in(file(${path}))` : `fromJSON(${path}, flatten = TRUE)`;
+    case 'parquet':
+      return `read_parquet(${path})`;
+    case 'delimited':
+      return delimitedCall(file);
+  }
+};
+
+const READ_LIBRARIES = [
+  { call: 'read_excel(', library: 'library(readxl)' },
+  { call: 'fromJSON(', library: 'library(jsonlite)' },
+  { call: 'stream_in(', library: 'library(jsonlite)' },
+  { call: 'read_parquet(', library: 'library(arrow)' },
+  { call: 'read_delim(', library: 'library(readr)' }
+];
+
+// Reads the files a derived table came from and rebuilds it with dplyr joins and bind_rows
+const mergeLine = (step: MergeStep): string => {
+  switch (step.type) {
+    case 'read':
+      return `${step.variable} <- ${readCall(step.file)}`;
+    case 'join': {
+      const by = vector(step.leftKeys.map((key, i) => `${quote(key)} = ${quote(step.rightKeys[i])}`));
+      return `${step.variable} <- ${R_JOINS[step.how]}(${step.left}, ${step.right}, by = ${by}, suffix = c("", ${quote(JOIN_SUFFIX)}))`;
+    }
+    case 'union': {
+      const inputs = step.inputs.map(input => `${quote(input.name)} = ${input.variable}`);
+      return `${step.variable} <- bind_rows(list(${inputs.join(', ')}), .id = ${quote(step.sourceColumn)})`;
+    }
+  }
+};
+
+const parseDateCall = (x: string, format: DateFormat) => {
+  switch (format) {
+    case 'iso': return `as_datetime(${x})`;
+    case 'text': return `parse_date_time(${x}, orders = c("mdy", "dmy"))`;
+    default: return `parse_date_time(${x}, orders = ${vector([format, `${format} HM`, `${format} HMS`].map(quote))})`;
+  }
+};
+
+// Dates parsed with the detected day/month order, floored to the resampling period and sorted
+const timeLines = (plan: CodePlan): string[] => {
+  if (!plan.time) return [];
+  const x = col(plan.xKey);
+  const unit = plan.time.settings.resample;
+  let value = parseDateCall(x, plan.time.format);
+  if (unit) value = `floor_date(${value}, ${quote(unit)}${unit === 'week' ? ', week_start = 1' : ''})`;
+  return ['df <- df %>%', `  mutate(${x} = ${value}) %>%`, `  filter(!is.na(${x})) %>%`, `  arrange(${x})`];
+};
+
+// Cumulative, rolling and change steps, each over one series at a time
+const windowLines = (plan: CodePlan, target: string): string[] => {
+  const settings = plan.time?.settings;
+  if (!settings || !hasWindowStats(settings)) return [];
+  const ops: string[] = [];
+  if (settings.cumulative) ops.push('cumsum(coalesce(.x, 0))');
+  if (settings.rolling) {
+    const roll = settings.rolling.func === 'sum' ? 'rollsumr' : 'rollmeanr';
+    ops.push(`zoo::${roll}(.x, ${windowSize(settings.rolling.window)}, fill = NA)`);
+  }
+  if (settings.change) {
+    const lag = windowSize(settings.change.lag ?? 1);
+    ops.push(settings.change.kind === 'percent' ? `(.x / lag(.x, ${lag}) - 1) * 100` : `.x - lag(.x, ${lag})`);
+  }
+  const values = vector(plan.valueKeys.map(col));
+  const verbs = [
+    ...(plan.groupKey ? [`group_by(${col(plan.groupKey)})`] : []),
+    ...ops.map(op => `mutate(across(${values}, ~ ${op}))`),
+    ...(plan.groupKey ? ['ungroup()'] : [])
+  ];
+  return ['', `${target} <- ${target} %>%`, ...verbs.map((verb, i) => `  ${verb}${i < verbs.length - 1 ? ' %>%' : ''}`)];
+};
+
+const summariseExpr = (plan: CodePlan, key: string) => {
+  const func = plan.aggregation!.func;
+  if (func === 'count') return 'n()';
+  return `${AGGREGATE_NAMES[func].r}(${col(key)}, na.rm = TRUE)`;
+};
+
+const categoricalTypes = [ChartType.BAR, ChartType.PIE, ChartType.RADAR, ChartType.COMPOSED];
+
+// dplyr steps that mirror aggregateData and the category order of the preview
+const aggregateLines = (plan: CodePlan): string[] => {
+  const aggregation = plan.aggregation!;
+  const x = col(plan.xKey);
+  const lines: string[] = [];
+
+  if (aggregation.topN) {
+    const other = quote(aggregation.otherLabel || 'Other');
+    lines.push(
+      `# Keep the top ${aggregation.topN} categories, merge the rest`,
+      'top_x <- df %>%',
+      `  group_by(${x}) %>%`,
+      `  summarise(total = ${summariseExpr(plan, plan.valueKeys[0])}, .groups = "drop") %>%`,
+      `  slice_max(total, n = ${aggregation.topN}, with_ties = FALSE) %>%`,
+      `  pull(${x})`,
+      'df <- df %>%',
+      `  mutate(${x} = ifelse(${x} %in% top_x, as.character(${x}), ${other}))`,
+      ''
+    );
+  }
+
+  const groupCols = [plan.xKey, plan.groupKey].filter((k): k is string => Boolean(k)).map(col).join(', ');
+  lines.push(
+    'plot_df <- df %>%',
+    `  group_by(${groupCols}) %>%`,
+    `  summarise(${plan.valueKeys.map(k => `${col(k)} = ${summariseExpr(plan, k)}`).join(', ')}, .groups = "drop")`
+  );
+
+  // Dates stay in time order, which group_by already gives
+  if (!categoricalTypes.includes(plan.config.chartType) || plan.time) return lines;
+
+  const { sortBy, sortOrder } = sortSettings(aggregation);
+  const descending = sortOrder === 'desc' ? 'TRUE' : 'FALSE';
+  lines.push('');
+  if (sortBy === 'value') {
+    lines.push(
+      'x_order <- plot_df %>%',
+      `  group_by(${x}) %>%`,
+      `  summarise(total = sum(${col(plan.valueKeys[0])}, na.rm = TRUE)) %>%`,
+      `  arrange(${sortOrder === 'desc' ? 'desc(total)' : 'total'}) %>%`,
+      `  pull(${x})`
+    );
+  } else if (sortBy === 'x') {
+    lines.push(`x_order <- sort(unique(plot_df[[${quote(plan.xKey)}]]), decreasing = ${descending})`);
+  } else {
+    lines.push(`x_order <- unique(df[[${quote(plan.xKey)}]])`);
+  }
+  if (aggregation.topN) {
+    const other = quote(aggregation.otherLabel || 'Other');
+    lines.push(`x_order <- c(setdiff(x_order, ${other}), intersect(x_order, ${other}))`);
+  }
+  lines.push(`plot_df[[${quote(plan.xKey)}]] <- factor(plot_df[[${quote(plan.xKey)}]], levels = x_order)`);
+  return lines;
+};
+
+const dataLines = (plan: CodePlan): string[] => {
+  const { chartType } = plan.config;
+  const lines: string[] = [];
+  if (chartType === ChartType.SCATTER) return windowLines(plan, 'df').slice(1);
+  if ([ChartType.HISTOGRAM, ChartType.BOX, ChartType.VIOLIN].includes(chartType)) return lines;
+
+  if (chartType === ChartType.HEATMAP) {
+    const func = plan.config.aggregation?.func || (plan.config.colorKey ? 'mean' : 'count');
+    const value = func === 'count' ? 'n()' : `${AGGREGATE_NAMES[func].r}(${col(plan.config.colorKey || plan.yKey)}, na.rm = TRUE)`;
+    return [
+      'plot_df <- df %>%',
+      `  filter(!is.na(${col(plan.xKey)}), !is.na(${col(plan.yKey)})) %>%`,
+      `  group_by(${col(plan.xKey)}, ${col(plan.yKey)}) %>%`,
+      `  summarise(value = ${value}, .groups = "drop")`
+    ];
+  }
+
+  if (plan.aggregation) lines.push(...aggregateLines(plan));
+  else lines.push('plot_df <- df');
+  lines.push(...windowLines(plan, 'plot_df'));
+
+  if (needsLongFormat(plan)) {
+    lines.push(
+      '',
+      'plot_df <- plot_df %>%',
+      `  pivot_longer(cols = ${vector(plan.valueKeys.map(col))}, names_to = "series", values_to = "value")`
+    );
+  }
+  return lines;
+};
+
+const manualScale = (aesthetic: 'fill' | 'color', plan: CodePlan) =>
+  `scale_${aesthetic}_manual(values = ${vector(plan.palette.map(quote))})`;
+
+const POINT_SHAPES: Record<MarkerShape, number | null> = { circle: 16, square: 15, triangle: 17, diamond: 18, none: null };
+
+// geom_line arguments; linewidth 1 matches the preview's default 2px line
+const lineArgs = (theme: ChartTheme) => [
+  `linewidth = ${theme.lineWidth !== undefined ? formatNumber(theme.lineWidth / 2) : '1'}`,
+  theme.lineDash && theme.lineDash !== 'solid' ? `linetype = "${theme.lineDash}"` : ''
+].filter(Boolean).join(', ');
+
+const shapeArg = (theme: ChartTheme) => {
+  const shape = theme.marker ? POINT_SHAPES[theme.marker] : null;
+  return shape && theme.marker !== 'circle' ? `, shape = ${shape}` : '';
+};
+
+const plotLayers = (plan: CodePlan): string[] => {
+  const { config, theme } = plan;
+  const x = col(plan.xKey);
+  const long = needsLongFormat(plan);
+  const y = long ? 'value' : col(plan.valueKeys[0]);
+  const split = long ? 'series' : plan.groupKey ? `factor(${col(plan.groupKey)})` : null;
+  const color0 = quote(plan.palette[0]);
+  const barPosition = config.barMode === 'stacked' ? '"stack"' : '"dodge"';
+
+  switch (config.chartType) {
+    case ChartType.LINE: {
+      const points = theme.marker !== 'none';
+      return split
+        ? [
+          `ggplot(plot_df, aes(x = ${x}, y = ${y}, color = ${split}, group = ${split}))`,
+          `geom_line(${lineArgs(theme)})`,
+          ...(points ? [`geom_point(size = 2${shapeArg(theme)})`] : []),
+          manualScale('color', plan)
+        ]
+        : [
+          `ggplot(plot_df, aes(x = ${x}, y = ${y}, group = 1))`,
+          `geom_line(color = ${color0}, ${lineArgs(theme)})`,
+          ...(points ? [`geom_point(color = ${color0}, size = 2${shapeArg(theme)})`] : [])
+        ];
+    }
+    case ChartType.AREA:
+      return split
+        ? [`ggplot(plot_df, aes(x = ${x}, y = ${y}, fill = ${split}, group = ${split}))`, 'geom_area(position = "stack", alpha = 0.8)', manualScale('fill', plan)]
+        : [`ggplot(plot_df, aes(x = ${x}, y = ${y}))`, `geom_area(fill = ${color0}, alpha = 0.8)`];
+    case ChartType.SCATTER:
+      return plan.groupKey
+        ? [`ggplot(df, aes(x = ${x}, y = ${col(plan.yKey)}, color = factor(${col(plan.groupKey)})))`, `geom_point(size = 2.5, alpha = 0.8${shapeArg(theme)})`, manualScale('color', plan)]
+        : [`ggplot(df, aes(x = ${x}, y = ${col(plan.yKey)}))`, `geom_point(color = ${color0}, size = 2.5, alpha = 0.8${shapeArg(theme)})`];
+    case ChartType.PIE:
+      return [`ggplot(plot_df, aes(x = "", y = ${y}, fill = ${x}))`, 'geom_col(width = 1)', 'coord_polar(theta = "y")', manualScale('fill', plan)];
+    case ChartType.RADAR: {
+      const radarSplit = split || '1';
+      return [
+        `ggplot(plot_df, aes(x = ${x}, y = ${y}, group = ${radarSplit}${split ? `, color = ${split}, fill = ${split}` : ''}))`,
+        split ? 'geom_polygon(alpha = 0.3)' : `geom_polygon(color = ${color0}, fill = ${color0}, alpha = 0.3)`,
+        'coord_polar()',
+        ...(split ? [manualScale('color', plan), manualScale('fill', plan)] : [])
+      ];
+    }
+    case ChartType.COMPOSED: {
+      const options = (key: string) => config.seriesOptions?.find(o => o.key === key);
+      const right = plan.valueKeys.filter(k => options(k)?.axis === 'right');
+      const left = plan.valueKeys.filter(k => options(k)?.axis !== 'right');
+      const scaled = (key: string) => (right.includes(key) ? `${col(key)} * scale_factor` : col(key));
+      const layers = [`ggplot(plot_df, aes(x = ${x}))`];
+      plan.valueKeys.forEach((key, i) => {
+        const color = quote(plan.palette[i % plan.palette.length]);
+        const mark = options(key)?.mark || 'bar';
+        if (mark === 'line') layers.push(`geom_line(aes(y = ${scaled(key)}, group = 1), color = ${color}, ${lineArgs(theme)})`);
+        else if (mark === 'area') layers.push(`geom_area(aes(y = ${scaled(key)}, group = 1), fill = ${color}, alpha = 0.3)`);
+        else layers.push(`geom_col(aes(y = ${scaled(key)}), fill = ${color})`);
+      });
+      if (right.length > 0) {
+        layers.push(`scale_y_continuous(name = ${quote(left[0] || '')}, sec.axis = sec_axis(~ . / scale_factor, name = ${quote(right[0])}))`);
+      }
+      return layers;
+    }
+    case ChartType.HISTOGRAM: {
+      const edges = plan.bins.length > 0 ? [...plan.bins.map(b => b.x0), plan.bins[plan.bins.length - 1].x1] : [];
+      const breaks = `breaks = ${vector(edges.map(formatNumber))}`;
+      return plan.groupKey
+        ? [`ggplot(df, aes(x = ${x}, fill = factor(${col(plan.groupKey)})))`, `geom_histogram(${breaks}, position = ${barPosition}, color = "white")`, manualScale('fill', plan)]
+        : [`ggplot(df, aes(x = ${x}))`, `geom_histogram(${breaks}, fill = ${color0}, color = "white")`];
+    }
+    case ChartType.BOX:
+    case ChartType.VIOLIN: {
+      const category = config.xAxisKey && config.xAxisKey !== config.yAxisKey ? `factor(${x})` : '"All"';
+      const layers = [`ggplot(df, aes(x = ${category}, y = ${col(plan.yKey)}))`];
+      if (config.chartType === ChartType.BOX) {
+        layers.push(`geom_boxplot(fill = ${color0}, color = ${color0}, alpha = 0.35, outlier.shape = 1)`);
+      } else {
+        layers.push(`geom_violin(fill = ${color0}, color = ${color0}, alpha = 0.35, trim = TRUE)`, 'geom_boxplot(width = 0.1, fill = "white", outlier.shape = NA)');
+      }
+      return layers;
+    }
+    case ChartType.HEATMAP:
+      return [
+        `ggplot(plot_df, aes(x = factor(${x}), y = factor(${col(plan.yKey)}), fill = value))`,
+        'geom_tile(color = "white")',
+        `scale_fill_gradient(low = ${quote(plan.heatmap.low)}, high = ${quote(plan.heatmap.high)}, name = ${quote(config.colorKey || 'count')})`
+      ];
+    default:
+      return split
+        ? [`ggplot(plot_df, aes(x = ${x}, y = ${y}, fill = ${split}))`, `geom_col(position = ${barPosition})`, manualScale('fill', plan)]
+        : [`ggplot(plot_df, aes(x = ${x}, y = ${y}))`, `geom_col(fill = ${color0})`];
+  }
+};
+
+const smoothMethod = (trend: TrendLineConfig) => {
+  switch (trend.method) {
+    case 'linear': return 'method = "lm", formula = y ~ x';
+    case 'polynomial': return `method = "lm", formula = y ~ poly(x, ${Math.round(trend.degree ?? 2)})`;
+    case 'loess': return `method = "loess", formula = y ~ x, span = ${formatNumber(trend.span ?? 0.75)}`;
+  }
+};
+
+// Lines on a category axis stay in the preview; ggplot places those by position rather than value
+const referenceValue = (plan: CodePlan, ref: ResolvedReference) => {
+  if (typeof ref.value !== 'number') return null;
+  return ref.axis === 'x' && plan.time ? `as_datetime(${quote(dateLiteral(ref.value))})` : formatNumber(ref.value);
+};
+
+// geom_smooth follows the color mapping, so split charts get one fit per series unless it is pooled
+const overlayLayers = (plan: CodePlan): string[] => {
+  const layers: string[] = [];
+  const color = quote(REFERENCE_COLOR);
+  if (plan.trend) {
+    const split = needsLongFormat(plan) || Boolean(plan.groupKey);
+    const pooled = split && plan.trend.perGroup === false;
+    const args = [smoothMethod(plan.trend), `se = ${plan.trend.band ? 'TRUE' : 'FALSE'}`, 'linetype = "dashed"'];
+    if (!split || pooled) args.push(`color = ${quote(plan.palette[0])}`, `fill = ${quote(plan.palette[0])}`);
+    layers.push(`geom_smooth(${pooled ? 'aes(group = 1), ' : ''}${args.join(', ')})`);
+  }
+  for (const ref of plan.references) {
+    const value = referenceValue(plan, ref);
+    if (!value) continue;
+    if (ref.axis === 'y') {
+      layers.push(
+        `geom_hline(yintercept = ${value}, linetype = "dashed", color = ${color})`,
+        `annotate("text", x = Inf, y = ${value}, label = ${quote(ref.label)}, hjust = 1.1, vjust = -0.5, color = ${color})`
+      );
+    } else {
+      layers.push(
+        `geom_vline(xintercept = ${value}, linetype = "dashed", color = ${color})`,
+        `annotate("text", x = ${value}, y = Inf, label = ${quote(ref.label)}, hjust = -0.1, vjust = 1.5, color = ${color})`
+      );
+    }
+  }
+  return layers;
+};
+
+// Category labels on a discrete axis, numbers and dates by value
+const annotationX = (plan: CodePlan, value: number | string) => {
+  if (typeof value === 'string') return quote(value);
+  return plan.time ? `as_datetime(${quote(dateLiteral(value))})` : formatNumber(value);
+};
+
+// Edges of a category slot: discrete axes count positions from 1 in level order
+const slotEdge = (plan: CodePlan, value: number | string, side: -1 | 1) => {
+  const offset = side < 0 ? '- 0.5' : '+ 0.5';
+  if (typeof value === 'string') return `match(${quote(value)}, levels(factor(plot_df[[${quote(plan.xKey)}]]))) ${offset}`;
+  return plan.time ? annotationX(plan, value) : formatNumber(value + side * 0.5);
+};
+
+// Pie slices are not annotated in code; ggplot draws them through coord_polar
+const annotationLayers = (plan: CodePlan): string[] => {
+  if (plan.config.chartType === ChartType.PIE) return [];
+  const rise = valueSpan(plan.config, plan.processed) * 0.12;
+  return plan.annotations.flatMap((a: ResolvedAnnotation) => {
+    const color = quote(a.color);
+    const label = quote(a.label);
+    switch (a.type) {
+      case 'text':
+        return [
+          `annotate("point", x = ${annotationX(plan, a.x!)}, y = ${formatNumber(a.y!)}, color = ${color})`,
+          `annotate("text", x = ${annotationX(plan, a.x!)}, y = ${formatNumber(a.y!)}, label = ${label}, vjust = -0.8, color = ${color})`
+        ];
+      case 'arrow':
+        return [
+          `annotate("segment", x = ${annotationX(plan, a.x!)}, xend = ${annotationX(plan, a.x!)}, y = ${formatNumber(a.y! + rise)}, yend = ${formatNumber(a.y!)}, `
+            + `arrow = arrow(length = unit(0.2, "cm")), color = ${color})`,
+          `annotate("text", x = ${annotationX(plan, a.x!)}, y = ${formatNumber(a.y! + rise)}, label = ${label}, vjust = -0.5, color = ${color})`
+        ];
+      case 'highlight':
+        return [
+          `annotate("rect", xmin = ${slotEdge(plan, a.x!, -1)}, xmax = ${slotEdge(plan, a.x!, 1)}, ymin = -Inf, ymax = Inf, fill = ${color}, alpha = 0.15)`,
+          ...(a.label ? [`annotate("text", x = ${annotationX(plan, a.x!)}, y = Inf, label = ${label}, vjust = 1.5, color = ${color})`] : [])
+        ];
+      case 'range': {
+        const [from, to] = [a.from!, a.to!];
+        const band = a.axis === 'y'
+          ? `annotate("rect", xmin = -Inf, xmax = Inf, ymin = ${formatNumber(Number(from))}, ymax = ${formatNumber(Number(to))}, fill = ${color}, alpha = 0.12)`
+          : a.category
+            ? `annotate("rect", xmin = ${slotEdge(plan, from, -1)}, xmax = ${slotEdge(plan, to, 1)}, ymin = -Inf, ymax = Inf, fill = ${color}, alpha = 0.12)`
+            : `annotate("rect", xmin = ${annotationX(plan, from)}, xmax = ${annotationX(plan, to)}, ymin = -Inf, ymax = Inf, fill = ${color}, alpha = 0.12)`;
+        if (!a.label) return [band];
+        return [band, a.axis === 'y'
+          ? `annotate("text", x = -Inf, y = ${formatNumber(Number(to))}, label = ${label}, hjust = -0.1, vjust = -0.5, color = ${color})`
+          : `annotate("text", x = ${annotationX(plan, from)}, y = Inf, label = ${label}, hjust = ${a.category ? 0.5 : -0.1}, vjust = 1.5, color = ${color})`];
+      }
+    }
+  });
+};
+
+const R_FONT_FAMILIES: Record<string, string> = { 'sans-serif': 'sans', serif: 'serif', monospace: 'mono' };
+
+// theme() settings on top of theme_minimal(), only for the fields the chart's theme sets
+const themeLayer = (theme: ChartTheme): string | null => {
+  const args: string[] = [];
+  const text = (fields: (string | false | undefined)[]) => `element_text(${fields.filter(Boolean).join(', ')})`;
+  const color = theme.textColor && `color = ${quote(theme.textColor)}`;
+  const size = theme.fontSize !== undefined && `size = ${toPoints(theme.fontSize)}`;
+  if (theme.fontFamily || color || size) {
+    const family = primaryFont(theme.fontFamily ?? '');
+    args.push(`text = ${text([family && `family = ${quote(R_FONT_FAMILIES[family] ?? family)}`, color, size])}`);
+    // theme_minimal() sets its own grey and relative size on axis and legend labels
+    if (color || size) args.push(`axis.text = ${text([color, size])}`, `legend.text = ${text([color, size])}`);
+  }
+  if (theme.titleSize !== undefined) args.push(`plot.title = element_text(size = ${toPoints(theme.titleSize)})`);
+  if (theme.background) {
+    args.push(`plot.background = element_rect(fill = ${quote(theme.background)}, color = NA)`);
+    args.push(`panel.background = element_rect(fill = ${quote(theme.background)}, color = NA)`);
+  }
+  if (theme.grid === 'none') {
+    args.push('panel.grid = element_blank()');
+  } else {
+    if (theme.gridColor || theme.gridDash) {
+      const line = [theme.gridColor && `color = ${quote(theme.gridColor)}`, theme.gridDash && `linetype = "${theme.gridDash}"`].filter(Boolean);
+      args.push(`panel.grid.major = element_line(${line.join(', ')})`, 'panel.grid.minor = element_blank()');
+    }
+    // Horizontal grid lines mark the y values
+    const hidden = theme.grid === 'horizontal' ? 'x' : theme.grid === 'vertical' ? 'y' : null;
+    if (hidden) args.push(`panel.grid.major.${hidden} = element_blank()`, `panel.grid.minor.${hidden} = element_blank()`);
+  }
+  if (theme.axisLine === true) args.push(`axis.line = element_line(color = ${quote(theme.axisColor ?? 'grey30')})`);
+  if (theme.axisLine === false) args.push('axis.line = element_blank()');
+  if (theme.axisColor) args.push(`axis.ticks = element_line(color = ${quote(theme.axisColor)})`);
+  if (theme.legendPosition) args.push(`legend.position = "${theme.legendPosition}"`);
+  return args.length > 0 ? `theme(\n    ${args.join(',\n    ')}\n  )` : null;
+};
+
+export const generateRCode = (config: VisualizationConfig, dataset: Dataset) => {
+  const plan = buildCodePlan(config, dataset);
+  const { chartType } = config;
+  const transforms = transformLines(dataset.transforms ?? []);
+  const time = timeLines(plan);
+  const data = dataLines(plan);
+  const reads = plan.merges.length > 0 ? plan.merges.map(mergeLine) : [`df <- ${readCall(plan.file)}`];
+  const usesDplyr = plan.merges.length > 0 || [...transforms, ...time, ...data].some(line => line.includes('%>%'));
+  const usesTidyr = data.some(line => line.includes('pivot_longer'));
+  const usesLubridate = time.length > 0 || transforms.some(line => line.includes('as_datetime('));
+
+  const libraries = ['library(ggplot2)'];
+  if (usesDplyr) libraries.push('library(dplyr)');
+  if (usesTidyr) libraries.push('library(tidyr)');
+  if (usesLubridate) libraries.push('library(lubridate)');
+  READ_LIBRARIES.forEach(({ call, library }) => {
+    if (reads.some(line => line.includes(call)) && !libraries.includes(library)) libraries.push(library);
+  });
+
+  const layers = [...plotLayers(plan), ...overlayLayers(plan), ...annotationLayers(plan)];
+  const labels = [
+    `title = ${quote(plan.title)}`,
+    plan.subtitle && `subtitle = ${quote(plan.subtitle)}`,
+    chartType !== ChartType.PIE && `x = ${quote(plan.xLabel)}`,
+    chartType !== ChartType.PIE && `y = ${quote(plan.yLabel)}`,
+    plan.groupKey && `fill = ${quote(plan.groupKey)}`,
+    plan.groupKey && `color = ${quote(plan.groupKey)}`
+  ].filter(Boolean);
+  layers.push(`labs(${labels.join(', ')})`);
+  layers.push(chartType === ChartType.PIE ? 'theme_void()' : 'theme_minimal()');
+  const themed = themeLayer(plan.theme);
+  if (themed) layers.push(themed);
+
+  const composedRight = chartType === ChartType.COMPOSED
+    ? plan.valueKeys.filter(k => config.seriesOptions?.find(o => o.key === k)?.axis === 'right')
+    : [];
+  const composedLeft = plan.valueKeys.filter(k => !composedRight.includes(k));
+  const scaleLine = composedRight.length > 0
+    ? [`# Right-axis series are rescaled onto the left axis`, `scale_factor <- max(plot_df$${col(composedLeft[0] || plan.valueKeys[0])}, na.rm = TRUE) / max(plot_df$${col(composedRight[0])}, na.rm = TRUE)`, '']
+    : [];
+
+  return [
+    ...libraries,
+    '',
+    ...reads,
+    '',
+    ...(transforms.length > 0 ? [...transforms, ''] : []),
+    ...(time.length > 0 ? [...time, ''] : []),
+    ...(data.length > 0 ? [...data, ''] : []),
+    ...scaleLine,
+    'p <- ' + layers.join(' +\n  '),
+    '',
+    'print(p)',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,306 @@
+import { AggregateFunction, ChartType, DataColumn, VisualizationConfig } from '../types';
+import { isTemporalType } from './profiler';
+
+// Rule-based stand-in for the model: picks chart type and axes from column types and cardinality
+
+const MAX_CATEGORIES = 20; // More bars than this stop being readable
+const MAX_GROUPS = 6; // Colored series before the legend turns into noise
+const MAX_PIE_SLICES = 8;
+const MAX_NUMERIC_CATEGORIES = 10; // Numeric columns like Pclass or ratings behave like categories
+const MIN_MEASURE_DISTINCT = 3; // Numeric columns with a few more values can be either, e.g. SibSp
+
+const isCategory = (c: DataColumn) =>
+  c.distinctCount >= 2 && (
+    ((c.type === 'string' || c.type === 'boolean') && c.distinctCount <= MAX_CATEGORIES)
+    || (c.type === 'number' && c.distinctCount <= MAX_NUMERIC_CATEGORIES)
+  );
+
+const isMeasure = (c: DataColumn) => c.type === 'number' && c.distinctCount > MIN_MEASURE_DISTINCT;
+
+const CHART_KEYWORDS: [ChartType, RegExp][] = [
+  [ChartType.HISTOGRAM, /histogram|distribution of/],
+  [ChartType.BOX, /box ?plot|whisker/],
+  [ChartType.VIOLIN, /violin/],
+  [ChartType.HEATMAP, /heat ?map|matrix/],
+  [ChartType.SCATTER, /scatter|correlat|relationship|\bvs\.?\b|versus/],
+  [ChartType.PIE, /\bpie\b|donut|share of|proportion/],
+  [ChartType.RADAR, /radar|spider/],
+  [ChartType.COMPOSED, /combo|dual.axis|composed|bars? and (a )?line/],
+  [ChartType.AREA, /\barea\b/],
+  [ChartType.LINE, /\bline\b|trend|over time/],
+  [ChartType.BAR, /\bbars?\b|column chart|compare|ranking/]
+];
+
+export const detectChartType = (text: string): ChartType | null =>
+  CHART_KEYWORDS.find(([, pattern]) => pattern.test(text.toLowerCase()))?.[0] ?? null;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Columns named in the text, in the order they appear
+export const findMentionedColumns = (text: string, profile: DataColumn[]) => {
+  const lower = text.toLowerCase();
+  return profile
+    .map(column => ({ column, index: lower.search(new RegExp(`(^|[^a-z0-9_])${escapeRegExp(column.name.toLowerCase())}($|[^a-z0-9_])`)) }))
+    .filter(match => match.index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map(match => match.column);
+};
+
+const AGGREGATE_WORDS: [AggregateFunction, RegExp][] = [
+  ['mean', /average|\bmean\b|\bavg\b/],
+  ['median', /median/],
+  ['sum', /total|\bsum\b/],
+  ['min', /minimum|\bmin\b|lowest/],
+  ['max', /maximum|\bmax\b|highest/],
+  ['countDistinct', /distinct|unique/],
+  ['count', /\bcount\b|number of|how many/]
+];
+
+const detectAggregate = (text: string): AggregateFunction | null =>
+  AGGREGATE_WORDS.find(([, pattern]) => pattern.test(text.toLowerCase()))?.[0] ?? null;
+
+const AGGREGATE_TITLES: Record<AggregateFunction, string> = {
+  sum: 'Total', mean: 'Average', median: 'Median', min: 'Minimum', max: 'Maximum', count: 'Count', countDistinct: 'Distinct'
+};
+
+interface Candidates {
+  measures: DataColumn[];
+  categories: DataColumn[];
+  times: DataColumn[];
+  mentioned: DataColumn[];
+  func: AggregateFunction | null;
+}
+
+const valueAxis = (c: Candidates, measure: DataColumn | undefined, fallback: AggregateFunction) => {
+  const func = c.func && (measure || c.func === 'count') ? c.func : measure ? fallback : 'count';
+  const yAxisKey = func === 'count' || !measure ? 'count' : measure.name;
+  return { yAxisKey, func: yAxisKey === 'count' ? 'count' as const : func };
+};
+
+// Second category for colors, only when it was asked for or the chart type benefits from it by default
+const pickGroup = (c: Candidates, exclude: string[], byDefault: boolean) => {
+  const usable = c.categories.filter(col => col.distinctCount <= MAX_GROUPS && !isMeasure(col) && !exclude.includes(col.name));
+  const mentioned = usable.find(col => c.mentioned.includes(col));
+  return (mentioned ?? (byDefault ? usable[0] : undefined))?.name;
+};
+
+const buildForType = (type: ChartType, c: Candidates): Omit<VisualizationConfig, 'description'> | null => {
+  const category = c.categories[0];
+  // A low-cardinality numeric column can be both, but never on both axes
+  const measure = c.measures.find(col => col !== category);
+
+  switch (type) {
+    case ChartType.HISTOGRAM: {
+      const [values] = c.measures;
+      if (!values) return null;
+      const groupBy = pickGroup(c, [values.name], false);
+      return { chartType: type, xAxisKey: values.name, yAxisKey: '', groupBy, title: `Distribution of ${values.name}` };
+    }
+    case ChartType.BOX:
+    case ChartType.VIOLIN:
+      if (!measure || !category) return null;
+      return { chartType: type, xAxisKey: category.name, yAxisKey: measure.name, title: `${measure.name} by ${category.name}` };
+    case ChartType.SCATTER: {
+      const numeric = [...new Set([...c.measures, ...c.categories.filter(col => col.type === 'number')])];
+      if (numeric.length < 2) return null;
+      const [x, y] = numeric;
+      const groupBy = pickGroup(c, [x.name, y.name], true);
+      return { chartType: type, xAxisKey: x.name, yAxisKey: y.name, groupBy, title: `${y.name} vs ${x.name}` };
+    }
+    case ChartType.HEATMAP: {
+      const [x, y] = c.categories;
+      if (!x || !y) return null;
+      const value = c.measures.find(col => col !== x && col !== y);
+      const { func } = valueAxis(c, value, 'mean');
+      const colorKey = func === 'count' ? undefined : value?.name;
+      return {
+        chartType: type, xAxisKey: x.name, yAxisKey: y.name, colorKey, aggregation: { func },
+        title: colorKey ? `${AGGREGATE_TITLES[func]} ${colorKey} by ${x.name} and ${y.name}` : `Rows by ${x.name} and ${y.name}`
+      };
+    }
+    case ChartType.PIE: {
+      if (!category) return null;
+      const { yAxisKey, func } = valueAxis(c, c.mentioned.includes(measure) ? measure : undefined, 'sum');
+      const topN = category.distinctCount > MAX_PIE_SLICES ? MAX_PIE_SLICES - 1 : undefined;
+      return {
+        chartType: type, xAxisKey: category.name, yAxisKey, aggregation: { func, sortBy: 'value', sortOrder: 'desc', topN },
+        title: `${AGGREGATE_TITLES[func]} ${yAxisKey === 'count' ? 'of rows' : yAxisKey} by ${category.name}`
+      };
+    }
+    case ChartType.RADAR: {
+      const values = c.measures.filter(col => col !== category);
+      if (!category || values.length === 0) return null;
+      const seriesKeys = values.slice(0, 3).map(col => col.name);
+      return {
+        chartType: type, xAxisKey: category.name, yAxisKey: seriesKeys[0], seriesKeys, aggregation: { func: c.func || 'mean' },
+        title: `${seriesKeys.join(', ')} by ${category.name}`
+      };
+    }
+    case ChartType.COMPOSED: {
+      const x = c.times[0] ?? category;
+      const values = c.measures.filter(col => col !== x);
+      if (!x || values.length < 2) return null;
+      const [left, right] = values;
+      return {
+        chartType: type, xAxisKey: x.name, yAxisKey: left.name, seriesKeys: [left.name, right.name],
+        seriesOptions: [{ key: left.name, mark: 'bar', axis: 'left' }, { key: right.name, mark: 'line', axis: 'right' }],
+        aggregation: { func: c.func || 'mean', sortBy: 'x' },
+        title: `${left.name} and ${right.name} by ${x.name}`
+      };
+    }
+    case ChartType.LINE:
+    case ChartType.AREA: {
+      const x = c.times[0] ?? category ?? c.measures.find(col => col !== measure);
+      if (!x) return null;
+      const { yAxisKey, func } = valueAxis(c, measure !== x ? measure : undefined, 'mean');
+      const groupBy = pickGroup(c, [x.name], false);
+      return {
+        chartType: type, xAxisKey: x.name, yAxisKey, groupBy, aggregation: { func, sortBy: 'x' },
+        title: `${AGGREGATE_TITLES[func]} ${yAxisKey === 'count' ? 'of rows' : yAxisKey} over ${x.name}`
+      };
+    }
+    default: {
+      const x = category ?? c.times[0];
+      if (!x) return null;
+      const { yAxisKey, func } = valueAxis(c, measure, 'mean');
+      const groupBy = pickGroup(c, [x.name], false);
+      return {
+        chartType: ChartType.BAR, xAxisKey: x.name, yAxisKey, groupBy, barMode: groupBy ? 'grouped' : undefined,
+        aggregation: { func, sortBy: x.type === 'string' ? 'value' : 'x' },
+        title: `${AGGREGATE_TITLES[func]} ${yAxisKey === 'count' ? 'of rows' : yAxisKey} by ${x.name}`
+      };
+    }
+  }
+};
+
+// Most natural chart for the columns at hand, preferring the ones the prompt names
+const defaultChartType = (c: Candidates): ChartType => {
+  const focus = c.mentioned.length > 0 ? c.mentioned : [...c.measures, ...c.categories, ...c.times];
+  const has = (list: DataColumn[]) => focus.some(col => list.includes(col));
+  const measures = focus.filter(col => c.measures.includes(col));
+  const measureCount = measures.length;
+  const splitsMeasure = focus.some(col => c.categories.includes(col) && measures.some(m => m !== col));
+
+  if (has(c.times) && (has(c.measures) || c.mentioned.length === 0)) return ChartType.LINE;
+  if (splitsMeasure) return ChartType.BAR;
+  if (measureCount >= 2) return ChartType.SCATTER;
+  if (has(c.measures)) return ChartType.HISTOGRAM;
+  return ChartType.BAR;
+};
+
+export const recommendConfig = (profile: DataColumn[], prompt: string): VisualizationConfig => {
+  const mentioned = findMentionedColumns(prompt, profile);
+  // Columns named in the prompt go first, in the order they were named
+  const rank = (list: DataColumn[], penalize: (c: DataColumn) => boolean = () => false) => {
+    const key = (c: DataColumn) => {
+      const index = mentioned.indexOf(c);
+      return (index < 0 ? 2 * profile.length : 0) + (penalize(c) ? profile.length : 0) + (index < 0 ? 0 : index);
+    };
+    return [...list].sort((a, b) => key(a) - key(b));
+  };
+
+  const candidates: Candidates = {
+    measures: rank(profile.filter(isMeasure)),
+    // In "Fare by Pclass" both could be categories; prefer the one that cannot be a measure
+    categories: rank(profile.filter(isCategory), isMeasure),
+    times: rank(profile.filter(c => isTemporalType(c.type))),
+    mentioned,
+    func: detectAggregate(prompt)
+  };
+
+  const requested = detectChartType(prompt);
+  const config = (requested && buildForType(requested, candidates)) || buildForType(defaultChartType(candidates), candidates);
+  if (config) {
+    return { ...config, description: 'Suggested offline from column types and cardinality.' };
+  }
+
+  // Nothing typed usefully: count rows of the first column
+  const first = profile[0];
+  if (!first) throw new Error("The dataset has no columns to chart");
+  return {
+    chartType: ChartType.BAR,
+    xAxisKey: first.name,
+    yAxisKey: 'count',
+    aggregation: { func: 'count', sortBy: 'value', sortOrder: 'desc', topN: MAX_CATEGORIES },
+    title: `Rows by ${first.name}`,
+    description: 'Suggested offline from column types and cardinality.'
+  };
+};
+
+const COLOR_NAMES = ['red', 'blue', 'green', 'orange', 'purple', 'pink', 'teal', 'gray', 'grey', 'black', 'yellow', 'indigo'];
+
+// Applies the edits a short instruction can express without a model; throws when nothing matched
+export const refineConfigOffline = (config: VisualizationConfig, prompt: string, profile: DataColumn[]): VisualizationConfig => {
+  const text = prompt.toLowerCase();
+  let next: VisualizationConfig = { ...config };
+  let understood = false;
+
+  const requested = detectChartType(prompt);
+  const rebuilt = Boolean(requested && requested !== config.chartType);
+  if (rebuilt) {
+    // Rebuild around the columns already on screen, with any newly named ones first
+    const current = [config.xAxisKey, config.yAxisKey, ...(config.seriesKeys ?? []), config.groupBy].filter(Boolean).join(' ');
+    next = { ...recommendConfig(profile, `${prompt} ${current}`), colors: config.colors };
+    understood = true;
+  }
+
+  if (/stack/.test(text)) {
+    next.barMode = 'stacked';
+    understood = true;
+  } else if (/side by side|grouped|dodge/.test(text)) {
+    next.barMode = 'grouped';
+    understood = true;
+  }
+
+  if (/no group|ungroup|remove (the )?(group|color|legend)/.test(text)) {
+    delete next.groupBy;
+    understood = true;
+  } else {
+    const byMatch = text.match(/\bby\s+(.+)$/);
+    const group = byMatch && findMentionedColumns(byMatch[1], profile).find(c => c.name !== next.xAxisKey);
+    if (group && !rebuilt) {
+      next.groupBy = group.name;
+      understood = true;
+    }
+  }
+
+  const func = detectAggregate(prompt);
+  if (func && next.chartType !== ChartType.SCATTER && !rebuilt) {
+    next.aggregation = { ...next.aggregation, func };
+    if (func === 'count') next.yAxisKey = 'count';
+    understood = true;
+  }
+
+  const top = text.match(/\btop\s+(\d+)/);
+  if (top) {
+    next.aggregation = { func: 'sum', ...next.aggregation, topN: Number(top[1]), sortBy: 'value', sortOrder: 'desc' };
+    understood = true;
+  }
+
+  if (/sort|order|rank/.test(text)) {
+    const sortOrder = /asc|smallest|lowest first|a-z|alphabetical/.test(text) ? 'asc' : 'desc';
+    const sortBy = /alphabetical|a-z|by name|by label/.test(text) ? 'x' : 'value';
+    next.aggregation = { func: 'sum', ...next.aggregation, sortBy, sortOrder };
+    understood = true;
+  }
+
+  const title = prompt.match(/title[^"']*["']([^"']+)["']/i);
+  if (title) {
+    next.title = title[1];
+    understood = true;
+  }
+
+  const colors = [
+    ...(prompt.match(/#[0-9a-f]{6}\b|#[0-9a-f]{3}\b/gi) ?? []),
+    ...COLOR_NAMES.filter(name => new RegExp(`\\b${name}\\b`).test(text))
+  ];
+  if (colors.length > 0) {
+    next.colors = colors;
+    understood = true;
+  }
+
+  if (!understood) {
+    throw new Error(`The offline assistant did not understand "${prompt}". Try a chart type, "by <column>", "stacked", "top 5", "sort ascending", a color or a title in quotes.`);
+  }
+  return next;
+};
@@ -0,0 +1,116 @@
+import { ChatMessage, ConfigChange, ConfigRevision, RevisionState, VisualizationConfig } from '../types';
+import { createId } from './project';
+
+export const EMPTY_REVISIONS: RevisionState = { revisions: [], currentId: null, redoStack: [] };
+
+// Code is regenerated on every turn, so it is reported as changed without its contents
+export const CODE_FIELDS: (keyof VisualizationConfig)[] = ['rCode', 'pythonCode'];
+
+export const findRevision = (state: RevisionState, id: string | null) =>
+  id ? state.revisions.find(r => r.id === id) : undefined;
+
+export const getCurrentConfig = (state: RevisionState) =>
+  findRevision(state, state.currentId)?.config ?? null;
+
+export const commitRevision = (state: RevisionState, config: VisualizationConfig, prompt: string): RevisionState => {
+  const revision: ConfigRevision = {
+    id: createId(),
+    parentId: state.currentId,
+    prompt,
+    config,
+    timestamp: Date.now()
+  };
+  return { revisions: [...state.revisions, revision], currentId: revision.id, redoStack: [] };
+};
+
+// Manual edits to the same field in quick succession (dragging a color picker) fold into one revision
+const EDIT_MERGE_MS = 3000;
+
+export const commitEdit = (state: RevisionState, config: VisualizationConfig, prompt: string): RevisionState => {
+  const current = findRevision(state, state.currentId);
+  const mergeable = current
+    && current.prompt === prompt
+    && Date.now() - current.timestamp < EDIT_MERGE_MS
+    && !state.revisions.some(r => r.parentId === current.id);
+  if (!mergeable) return commitRevision(state, config, prompt);
+  return {
+    revisions: state.revisions.map(r => (r.id === current.id ? { ...r, config, timestamp: Date.now() } : r)),
+    currentId: current.id,
+    redoStack: []
+  };
+};
+
+export const canUndo = (state: RevisionState) => Boolean(findRevision(state, state.currentId)?.parentId);
+
+export const canRedo = (state: RevisionState) => state.redoStack.length > 0;
+
+export const undoRevision = (state: RevisionState): RevisionState => {
+  const current = findRevision(state, state.currentId);
+  if (!current?.parentId) return state;
+  return { ...state, currentId: current.parentId, redoStack: [...state.redoStack, current.id] };
+};
+
+export const redoRevision = (state: RevisionState): RevisionState => {
+  if (state.redoStack.length === 0) return state;
+  return {
+    ...state,
+    currentId: state.redoStack[state.redoStack.length - 1],
+    redoStack: state.redoStack.slice(0, -1)
+  };
+};
+
+// Jump to any revision; the next refinement branches from it
+export const checkoutRevision = (state: RevisionState, id: string): RevisionState =>
+  findRevision(state, id) ? { ...state, currentId: id, redoStack: [] } : state;
+
+// Root-to-current path: the conversation that produced the current config
+export const getLineage = (state: RevisionState, id = state.currentId): ConfigRevision[] => {
+  const lineage: ConfigRevision[] = [];
+  let revision = findRevision(state, id);
+  while (revision) {
+    lineage.unshift(revision);
+    revision = findRevision(state, revision.parentId);
+  }
+  return lineage;
+};
+
+export const getDepth = (state: RevisionState, id: string) => getLineage(state, id).length - 1;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const diffConfigs = (before: VisualizationConfig | null, after: VisualizationConfig): ConfigChange[] => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after)]) as Set<keyof VisualizationConfig>;
+  return [...fields]
+    .filter(field => !sameValue(before?.[field], after[field]))
+    .map(field => ({ field, before: before?.[field], after: after[field] }));
+};
+
+export const describeChange = (change: ConfigChange) => {
+  if (CODE_FIELDS.includes(change.field)) return `${change.field} regenerated`;
+  const format = (value: unknown) => (value === undefined ? '∅' : typeof value === 'string' ? value : JSON.stringify(value));
+  return `${change.field}: ${format(change.before)} → ${format(change.after)}`;
+};
+
+export const summarizeChanges = (changes: ConfigChange[]) => {
+  const visible = changes.filter(c => !CODE_FIELDS.includes(c.field));
+  if (visible.length === 0) return changes.length > 0 ? 'Regenerated code only' : 'No changes';
+  return `Changed ${visible.map(c => c.field).join(', ')}`;
+};
+
+// Each revision is one user turn and one model turn
+export const toConversation = (lineage: ConfigRevision[]): ChatMessage[] =>
+  lineage.flatMap((revision, i) => {
+    const parent = i > 0 ? lineage[i - 1].config : null;
+    const summary = parent ? summarizeChanges(diffConfigs(parent, revision.config)) : `Created a ${revision.config.chartType} chart`;
+    return [
+      { role: 'user' as const, text: revision.prompt, timestamp: revision.timestamp, revisionId: revision.id },
+      { role: 'model' as const, text: `${summary}: "${revision.config.title}"`, timestamp: revision.timestamp, revisionId: revision.id }
+    ];
+  });
+
+// Rebuild editor state from a stored project
+export const toRevisionState = (revisions: ConfigRevision[], currentId: string | null): RevisionState => ({
+  revisions,
+  currentId: currentId && revisions.some(r => r.id === currentId) ? currentId : revisions[revisions.length - 1]?.id ?? null,
+  redoStack: []
+});
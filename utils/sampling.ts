@@ -0,0 +1,108 @@
+import { ChartType, VisualizationConfig } from '../types';
+import { toNumber } from './aggregation';
+import { ProcessedData } from './processing';
+
+// Beyond these counts Recharts slows down without showing anything more
+export const MAX_LINE_POINTS = 2000;
+export const MAX_SCATTER_POINTS = 5000;
+// Datasets at least this large are parsed and aggregated in a worker
+export const LARGE_DATASET_ROWS = 50000;
+
+export interface SamplingInfo {
+  method: 'lttb' | 'random';
+  from: number;
+  to: number;
+}
+
+export interface SampledData {
+  processed: ProcessedData;
+  sampling: SamplingInfo | null; // Set when the preview shows fewer points than the data has
+}
+
+// Largest-Triangle-Three-Buckets: keeps the points that shape the line, always including both ends
+export const lttb = <T>(rows: T[], threshold: number, x: (row: T, i: number) => number, y: (row: T) => number): T[] => {
+  if (threshold >= rows.length || threshold < 3) return rows;
+
+  const sampled: T[] = [rows[0]];
+  const bucketSize = (rows.length - 2) / (threshold - 2);
+  let a = 0;
+
+  for (let i = 0; i < threshold - 2; i++) {
+    // Average of the next bucket is the third corner of the triangle
+    const nextStart = Math.floor((i + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((i + 2) * bucketSize) + 1, rows.length);
+    let avgX = 0;
+    let avgY = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      avgX += x(rows[j], j);
+      avgY += y(rows[j]);
+    }
+    const count = Math.max(nextEnd - nextStart, 1);
+    avgX /= count;
+    avgY /= count;
+
+    const start = Math.floor(i * bucketSize) + 1;
+    const end = Math.floor((i + 1) * bucketSize) + 1;
+    const ax = x(rows[a], a);
+    const ay = y(rows[a]);
+    let maxArea = -1;
+    let chosen = start;
+    for (let j = start; j < end; j++) {
+      const area = Math.abs((ax - avgX) * (y(rows[j]) - ay) - (ax - x(rows[j], j)) * (avgY - ay));
+      if (area > maxArea) {
+        maxArea = area;
+        chosen = j;
+      }
+    }
+    sampled.push(rows[chosen]);
+    a = chosen;
+  }
+
+  sampled.push(rows[rows.length - 1]);
+  return sampled;
+};
+
+// Seeded so the same data always previews the same points
+export const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// One random row per equal-width stride, so the sample keeps the original order and spread
+export const sampleRows = <T>(rows: T[], size: number, seed = 1): T[] => {
+  if (size >= rows.length) return rows;
+  const random = mulberry32(seed);
+  const stride = rows.length / size;
+  return Array.from({ length: size }, (_, i) => rows[Math.min(rows.length - 1, Math.floor(i * stride + random() * stride))]);
+};
+
+// Numeric or date X values keep their spacing; categories fall back to their position
+const xAccessor = (rows: any[], key: string) => {
+  const numeric = rows.length > 0 && !isNaN(toNumber(rows[0][key]));
+  if (numeric) return (row: any, i: number) => { const v = toNumber(row[key]); return isNaN(v) ? i : v; };
+  const temporal = rows.length > 0 && !isNaN(Date.parse(String(rows[0][key])));
+  if (temporal) return (row: any, i: number) => { const v = Date.parse(String(row[key])); return isNaN(v) ? i : v; };
+  return (_: any, i: number) => i;
+};
+
+export const downsample = (processed: ProcessedData, config: VisualizationConfig | null): SampledData => {
+  if (!config) return { processed, sampling: null };
+
+  if ((config.chartType === ChartType.LINE || config.chartType === ChartType.AREA) && processed.data.length > MAX_LINE_POINTS) {
+    // Grouped lines share X positions, so buckets are scored on the sum of all series
+    const keys = processed.series.map(s => s.key);
+    const total = (row: any) => keys.reduce((sum, key) => sum + (toNumber(row[key]) || 0), 0);
+    const data = lttb(processed.data, MAX_LINE_POINTS, xAccessor(processed.data, config.xAxisKey), total);
+    const rows = processed.rows === processed.data ? data : processed.rows;
+    return { processed: { ...processed, rows, data }, sampling: { method: 'lttb', from: processed.data.length, to: data.length } };
+  }
+
+  if (config.chartType === ChartType.SCATTER && processed.rows.length > MAX_SCATTER_POINTS) {
+    const rows = sampleRows(processed.rows, MAX_SCATTER_POINTS);
+    return { processed: { ...processed, rows, data: rows }, sampling: { method: 'random', from: processed.rows.length, to: rows.length } };
+  }
+
+  return { processed, sampling: null };
+};
@@ -0,0 +1,300 @@
+import { BinningConfig } from '../types';
+import { median } from './aggregation';
+
+export interface BoxStats {
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  mean: number;
+  whiskerLow: number; // Most extreme values within 1.5 * IQR of the box
+  whiskerHigh: number;
+  outliers: number[];
+}
+
+export interface HistogramBin {
+  x0: number;
+  x1: number;
+}
+
+export interface DensityPoint {
+  value: number;
+  density: number;
+}
+
+// Linear interpolation between order statistics (R's default type 7)
+export const quantile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * p;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / (values.length - 1));
+};
+
+export const boxStats = (values: number[]): BoxStats | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const lowFence = q1 - 1.5 * iqr;
+  const highFence = q3 + 1.5 * iqr;
+  const inside = sorted.filter(v => v >= lowFence && v <= highFence);
+
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    q1,
+    median: median(sorted),
+    q3,
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((a, b) => a + b, 0) / sorted.length,
+    whiskerLow: inside[0],
+    whiskerHigh: inside[inside.length - 1],
+    outliers: sorted.filter(v => v < lowFence || v > highFence)
+  };
+};
+
+// Bin edges from an explicit width, a bin count, or Sturges' rule
+export const histogramBins = (values: number[], binning: BinningConfig = {}): HistogramBin[] => {
+  if (values.length === 0) return [];
+  let min = Infinity, max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+
+  let width: number;
+  let start: number;
+  let count: number;
+  if (binning.binWidth && binning.binWidth > 0) {
+    width = binning.binWidth;
+    start = Math.floor(min / width) * width;
+    count = Math.floor((max - start) / width) + 1;
+  } else {
+    count = binning.bins && binning.bins > 0 ? Math.round(binning.bins) : Math.ceil(Math.log2(values.length)) + 1;
+    width = (max - min) / count || 1;
+    start = min;
+  }
+
+  // Guard against tiny widths
+  return Array.from({ length: Math.min(count, 1000) }, (_, i) => ({
+    x0: start + i * width,
+    x1: start + (i + 1) * width
+  }));
+};
+
+// Index of the bin holding value; the last bin is closed on the right
+export const binIndex = (bins: HistogramBin[], value: number) => {
+  if (bins.length === 0 || value < bins[0].x0) return -1;
+  const width = bins[0].x1 - bins[0].x0;
+  const i = Math.floor((value - bins[0].x0) / width);
+  return Math.min(i, bins.length - 1);
+};
+
+// Gaussian kernel density estimate over the data range with Silverman's bandwidth
+export const kernelDensity = (values: number[], points = 40): DensityPoint[] => {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [{ value: min, density: 1 }];
+
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  const spread = Math.min(standardDeviation(sorted), iqr / 1.34) || standardDeviation(sorted) || (max - min) / 4;
+  const bandwidth = 0.9 * spread * Math.pow(sorted.length, -0.2);
+  const norm = 1 / (sorted.length * bandwidth * Math.sqrt(2 * Math.PI));
+
+  const result: DensityPoint[] = [];
+  for (let i = 0; i < points; i++) {
+    const value = min + ((max - min) * i) / (points - 1);
+    let sum = 0;
+    for (const v of sorted) {
+      const u = (value - v) / bandwidth;
+      sum += Math.exp(-0.5 * u * u);
+    }
+    result.push({ value, density: sum * norm });
+  }
+  return result;
+};
+
+export interface FitPoint {
+  y: number;
+  se: number; // Standard error of the fitted mean, for confidence bands
+}
+
+export interface CurveFit {
+  predict: (x: number) => FitPoint;
+  r2: number;
+  df: number; // Residual degrees of freedom
+  coefficients?: number[]; // Polynomial terms in x, constant first
+}
+
+// LOESS refits at every point, so larger inputs are thinned to this many points first
+const MAX_LOESS_POINTS = 1500;
+
+// Two-sided 95% quantile of Student's t (Cornish-Fisher expansion around the normal quantile)
+export const tQuantile95 = (df: number) => {
+  const z = 1.959964;
+  if (!(df > 0)) return NaN;
+  const [z3, z5, z7] = [z ** 3, z ** 5, z ** 7];
+  return z + (z3 + z) / (4 * df) + (5 * z5 + 16 * z3 + 3 * z) / (96 * df ** 2) + (3 * z7 + 19 * z5 + 17 * z3 - 15 * z) / (384 * df ** 3);
+};
+
+// Gauss-Jordan inverse of a small symmetric matrix; null when singular
+const invert = (matrix: number[][]): number[][] | null => {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = a[r][col];
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= f * a[col][j];
+    }
+  }
+  return a.map(row => row.slice(n));
+};
+
+const rSquared = (ys: number[], fitted: number[]) => {
+  const mean = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let ssRes = 0, ssTot = 0;
+  ys.forEach((y, i) => {
+    ssRes += (y - fitted[i]) ** 2;
+    ssTot += (y - mean) ** 2;
+  });
+  return { r2: ssTot > 0 ? 1 - ssRes / ssTot : 1, ssRes };
+};
+
+const binomial = (n: number, k: number) => {
+  let result = 1;
+  for (let i = 1; i <= k; i++) result = (result * (n - k + i)) / i;
+  return result;
+};
+
+// Least squares in x standardized to mean 0 and sd 1, which keeps high orders and timestamps well conditioned
+export const polynomialFit = (xs: number[], ys: number[], degree: number): CurveFit | null => {
+  const p = degree + 1;
+  if (xs.length <= p) return null;
+  const center = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const scale = standardDeviation(xs) || 1;
+  const terms = (x: number) => {
+    const z = (x - center) / scale;
+    return Array.from({ length: p }, (_, k) => z ** k);
+  };
+
+  const xtx = Array.from({ length: p }, () => new Array(p).fill(0));
+  const xty = new Array(p).fill(0);
+  xs.forEach((x, i) => {
+    const v = terms(x);
+    for (let r = 0; r < p; r++) {
+      xty[r] += v[r] * ys[i];
+      for (let c = 0; c < p; c++) xtx[r][c] += v[r] * v[c];
+    }
+  });
+  const inverse = invert(xtx);
+  if (!inverse) return null;
+  const beta = inverse.map(row => row.reduce((sum, value, c) => sum + value * xty[c], 0));
+  const value = (v: number[]) => v.reduce((sum, t, k) => sum + t * beta[k], 0);
+
+  const { r2, ssRes } = rSquared(ys, xs.map(x => value(terms(x))));
+  const df = xs.length - p;
+  const sigma2 = ssRes / df;
+
+  // Expands sum(beta_k * ((x - center) / scale)^k) into plain powers of x
+  const coefficients = new Array(p).fill(0);
+  beta.forEach((b, k) => {
+    for (let j = 0; j <= k; j++) coefficients[j] += (b / scale ** k) * binomial(k, j) * (-center) ** (k - j);
+  });
+
+  return {
+    predict: x => {
+      const v = terms(x);
+      const variance = v.reduce((sum, vr, r) => sum + vr * v.reduce((s, vc, c) => s + inverse[r][c] * vc, 0), 0);
+      return { y: value(v), se: Math.sqrt(Math.max(0, sigma2 * variance)) };
+    },
+    r2,
+    df,
+    coefficients
+  };
+};
+
+// Locally weighted linear regression with tricube weights over the nearest span share of points, like R's loess(degree = 1)
+export const loessFit = (xs: number[], ys: number[], span = 0.75): CurveFit | null => {
+  let order = xs.map((_, i) => i).sort((a, b) => xs[a] - xs[b]);
+  if (order.length > MAX_LOESS_POINTS) {
+    const step = order.length / MAX_LOESS_POINTS;
+    order = Array.from({ length: MAX_LOESS_POINTS }, (_, i) => order[Math.floor(i * step)]);
+  }
+  const x = order.map(i => xs[i]);
+  const y = order.map(i => ys[i]);
+  const n = x.length;
+  const q = Math.min(n, Math.max(3, Math.ceil(span * n)));
+  if (n < 4) return null;
+
+  // Weights of the q nearest points; returns each point's share of the fitted value
+  const weightsAt = (x0: number): { index: number; l: number }[] => {
+    let lo = 0;
+    let hi = n;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (x[mid] < x0) lo = mid + 1;
+      else hi = mid;
+    }
+    let left = lo - 1;
+    let right = lo;
+    while (right - left - 1 < q) {
+      if (left < 0) right++;
+      else if (right >= n) left--;
+      else if (x0 - x[left] <= x[right] - x0) left--;
+      else right++;
+    }
+    const members: { index: number; w: number }[] = [];
+    const h = Math.max(x0 - x[left + 1], x[right - 1] - x0) * Math.max(1, span);
+    for (let i = left + 1; i < right; i++) {
+      const u = h > 0 ? Math.abs(x[i] - x0) / h : 0;
+      members.push({ index: i, w: u < 1 ? (1 - u ** 3) ** 3 : 0 });
+    }
+    const total = members.reduce((s, m) => s + m.w, 0) || 1;
+    const mean = members.reduce((s, m) => s + m.w * x[m.index], 0) / total;
+    const sxx = members.reduce((s, m) => s + m.w * (x[m.index] - mean) ** 2, 0);
+    return members.map(m => ({
+      index: m.index,
+      l: m.w * (1 / total + (sxx > 0 ? ((x[m.index] - mean) * (x0 - mean)) / sxx : 0))
+    }));
+  };
+
+  const fitted: number[] = [];
+  let trace = 0;
+  for (let i = 0; i < n; i++) {
+    const shares = weightsAt(x[i]);
+    fitted.push(shares.reduce((s, m) => s + m.l * y[m.index], 0));
+    trace += shares.find(m => m.index === i)?.l ?? 0;
+  }
+  const { r2, ssRes } = rSquared(y, fitted);
+  const df = Math.max(1, n - trace);
+  const sigma2 = ssRes / df;
+
+  return {
+    predict: x0 => {
+      const shares = weightsAt(x0);
+      const norm = shares.reduce((s, m) => s + m.l * m.l, 0);
+      return { y: shares.reduce((s, m) => s + m.l * y[m.index], 0), se: Math.sqrt(sigma2 * norm) };
+    },
+    r2,
+    df
+  };
+};
@@ -0,0 +1,124 @@
+import { ChartTheme, LegendPosition, LineDash, MarkerShape, SavedTheme, VisualizationConfig } from '../types';
+import { DEFAULT_COLORS, isValidColor } from './colors';
+
+// The app's dark preview look, used for every field a theme leaves out
+export const DEFAULT_THEME: Required<ChartTheme> = {
+  palette: DEFAULT_COLORS,
+  background: 'transparent',
+  textColor: '#94a3b8',
+  fontFamily: 'inherit',
+  fontSize: 12,
+  titleSize: 20,
+  grid: 'both',
+  gridColor: '#334155',
+  gridDash: 'dashed',
+  axisColor: '#94a3b8',
+  axisLine: true,
+  legendPosition: 'bottom',
+  barRadius: 0,
+  lineDash: 'solid',
+  lineWidth: 2,
+  marker: 'circle'
+};
+
+export const LINE_DASHES: LineDash[] = ['solid', 'dashed', 'dotted'];
+export const MARKER_SHAPES: MarkerShape[] = ['circle', 'square', 'triangle', 'diamond', 'none'];
+export const LEGEND_POSITIONS: LegendPosition[] = ['top', 'bottom', 'left', 'right', 'none'];
+export const GRID_LINES: NonNullable<ChartTheme['grid']>[] = ['both', 'horizontal', 'vertical', 'none'];
+
+// SVG stroke-dasharray of each dash style
+export const DASH_ARRAYS: Record<LineDash, string | undefined> = {
+  solid: undefined,
+  dashed: '3 3',
+  dotted: '2 3'
+};
+
+const between = (min: number, max: number) => (value: unknown): value is number =>
+  typeof value === 'number' && value >= min && value <= max;
+const oneOf = <T extends string>(options: readonly T[]) => (value: unknown): value is T => options.some(option => option === value);
+
+// Keeps the fields of a model- or file-supplied theme that can be drawn, naming the ones dropped
+export const sanitizeTheme = (raw: unknown): { theme: ChartTheme; dropped: string[] } => {
+  const theme: ChartTheme = {};
+  const dropped: string[] = [];
+  if (!raw || typeof raw !== 'object') return { theme, dropped };
+  const input = raw as Record<string, unknown>;
+
+  const take = <K extends keyof ChartTheme>(field: K, valid: (value: unknown) => value is NonNullable<ChartTheme[K]>) => {
+    const value = input[field];
+    if (value === undefined || value === null || value === '') return;
+    if (valid(value)) theme[field] = value;
+    else dropped.push(field);
+  };
+
+  if (Array.isArray(input.palette)) {
+    const valid = input.palette.filter(isValidColor);
+    if (valid.length > 0) theme.palette = valid;
+    if (valid.length !== input.palette.length) dropped.push('palette');
+  } else {
+    take('palette', (_value): _value is string[] => false);
+  }
+  take('background', isValidColor);
+  take('textColor', isValidColor);
+  take('fontFamily', (value): value is string => typeof value === 'string' && value.trim() !== '');
+  take('fontSize', between(6, 48));
+  take('titleSize', between(8, 72));
+  take('grid', oneOf(GRID_LINES));
+  take('gridColor', isValidColor);
+  take('gridDash', oneOf(LINE_DASHES));
+  take('axisColor', isValidColor);
+  take('axisLine', (value): value is boolean => typeof value === 'boolean');
+  take('legendPosition', oneOf(LEGEND_POSITIONS));
+  take('barRadius', between(0, 40));
+  take('lineDash', oneOf(LINE_DASHES));
+  take('lineWidth', between(0.5, 10));
+  take('marker', oneOf(MARKER_SHAPES));
+  return { theme, dropped };
+};
+
+export const resolveTheme = (config: VisualizationConfig): Required<ChartTheme> =>
+  ({ ...DEFAULT_THEME, ...sanitizeTheme(config.theme).theme });
+
+// CSS-only font keywords and the generic family R and matplotlib understand instead
+const CSS_FONT_KEYWORDS: Record<string, string> = {
+  inherit: 'sans-serif',
+  'system-ui': 'sans-serif',
+  '-apple-system': 'sans-serif',
+  'ui-sans-serif': 'sans-serif',
+  'ui-serif': 'serif',
+  'ui-monospace': 'monospace'
+};
+
+// First family of a CSS font stack for generated code, e.g. "Roboto" from "'Roboto', sans-serif"
+export const primaryFont = (fontFamily: string) => {
+  const first = fontFamily.split(',')[0].trim().replace(/^["']|["']$/g, '');
+  return CSS_FONT_KEYWORDS[first] ?? first;
+};
+
+// The theme's palette replaces any per-chart colors, so the chart matches the theme
+export const applyTheme = (config: VisualizationConfig, theme: ChartTheme | undefined): VisualizationConfig => {
+  const next = { ...config, theme };
+  if (!theme) delete next.theme;
+  else if (theme.palette?.length) delete next.colors;
+  return next;
+};
+
+const THEMES_KEY = 'vizai-themes';
+
+export const loadThemes = (): SavedTheme[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(THEMES_KEY) || '[]');
+    if (Array.isArray(stored)) {
+      return stored
+        .filter(entry => entry && typeof entry.name === 'string')
+        .map(entry => ({ name: entry.name, theme: sanitizeTheme(entry.theme).theme, createdAt: Number(entry.createdAt) || 0 }));
+    }
+  } catch (err) {
+    console.error(err);
+  }
+  return [];
+};
+
+export const saveThemes = (themes: SavedTheme[]) => {
+  localStorage.setItem(THEMES_KEY, JSON.stringify(themes));
+};
@@ -0,0 +1,124 @@
+import { AggregationConfig, ChartType, DateFormat, TimeSeriesConfig, TimeUnit, VisualizationConfig } from '../types';
+import { aggregateData, getValueKeys, hasGroupSplit, pivotByGroup, resolveAggregation, toNumber } from './aggregation';
+import { hasTimeOfDay, parseDate, sampleDateFormat, truncateDate } from './dates';
+import { ProcessedData } from './processing';
+
+// Chart types whose X axis becomes a time scale when xAxisKey holds dates
+export const TIME_CHART_TYPES = [ChartType.LINE, ChartType.AREA, ChartType.BAR, ChartType.COMPOSED, ChartType.SCATTER];
+
+export const TIME_UNIT_LABELS: Record<TimeUnit, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+  year: 'Year'
+};
+
+export interface TimeAxis {
+  format: DateFormat;
+  unit: TimeUnit | null; // Resampling period, null when every timestamp is plotted
+  hasTime: boolean; // Some points fall between midnights
+}
+
+// The X column's date format when this chart should be drawn on a time axis
+export const timeFormatFor = (config: VisualizationConfig, data: any[]): DateFormat | null =>
+  TIME_CHART_TYPES.includes(config.chartType) && config.xAxisKey ? sampleDateFormat(data, config.xAxisKey) : null;
+
+// Copies rows with X as a timestamp (or its period start); rows without a readable date are dropped
+export const bucketRows = (data: any[], xKey: string, format: DateFormat, unit: TimeUnit | null) => {
+  const rows: any[] = [];
+  for (const row of data) {
+    const t = parseDate(row[xKey], format);
+    if (t !== null) rows.push({ ...row, [xKey]: unit ? truncateDate(t, unit) : t });
+  }
+  return rows;
+};
+
+// Periods are combined like any repeated X value, but always in time order and without top-N
+export const timeAggregation = (config: VisualizationConfig, rows: any[]): AggregationConfig | null => {
+  if (config.chartType === ChartType.SCATTER) return null;
+  const aggregation = resolveAggregation(config, rows);
+  return aggregation && { func: aggregation.func, sortBy: 'x', sortOrder: 'asc' };
+};
+
+// Rolling windows and lags count whole points
+export const windowSize = (n: number) => Math.max(1, Math.round(n));
+
+const rollingValue = (values: (number | null)[], end: number, window: number, func: 'mean' | 'sum') => {
+  if (end + 1 < window) return null;
+  let sum = 0;
+  for (let i = end - window + 1; i <= end; i++) {
+    if (values[i] === null) return null;
+    sum += values[i]!;
+  }
+  return func === 'mean' ? sum / window : sum;
+};
+
+const changeValue = (values: (number | null)[], i: number, lag: number, kind: 'difference' | 'percent') => {
+  const current = values[i];
+  const previous = i >= lag ? values[i - lag] : null;
+  if (current === null || previous === null) return null;
+  if (kind === 'difference') return current - previous;
+  return previous === 0 ? null : (current / previous - 1) * 100;
+};
+
+// One series of numbers through cumulative, rolling and change, in that order
+export const windowValues = (input: (number | null)[], settings: TimeSeriesConfig): (number | null)[] => {
+  let values = input;
+  if (settings.cumulative) {
+    // Missing values add nothing, like cumsum over coalesce(x, 0)
+    let total = 0;
+    values = values.map(v => (total += v ?? 0));
+  }
+  if (settings.rolling) {
+    const { window, func } = settings.rolling;
+    const source = values;
+    values = source.map((_, i) => rollingValue(source, i, windowSize(window), func));
+  }
+  if (settings.change) {
+    const { kind, lag = 1 } = settings.change;
+    const source = values;
+    values = source.map((_, i) => changeValue(source, i, windowSize(lag), kind));
+  }
+  return values;
+};
+
+export const hasWindowStats = (settings: TimeSeriesConfig | undefined) =>
+  Boolean(settings && (settings.cumulative || settings.rolling || settings.change));
+
+// Rows are already in time order; each groupBy category is its own series
+const applyWindows = (rows: any[], config: VisualizationConfig) => {
+  const settings = config.timeSeries;
+  if (!hasWindowStats(settings)) return rows;
+  const groupKey = hasGroupSplit(config) ? config.groupBy! : null;
+  const series = new Map<string, any[]>();
+  for (const row of rows) {
+    const id = groupKey ? String(row[groupKey]) : '';
+    if (!series.has(id)) series.set(id, []);
+    series.get(id)!.push(row);
+  }
+  series.forEach(members => {
+    for (const key of getValueKeys(config)) {
+      const values = windowValues(members.map(r => {
+        const n = toNumber(r[key]);
+        return isNaN(n) ? null : n;
+      }), settings!);
+      members.forEach((r, i) => { r[key] = values[i]; });
+    }
+  });
+  return rows;
+};
+
+// Date X values become timestamps, sorted and optionally resampled, for a time-scaled axis
+export const processTimeSeries = (data: any[], config: VisualizationConfig, format: DateFormat): ProcessedData => {
+  const xKey = config.xAxisKey;
+  const unit = config.timeSeries?.resample ?? null;
+  const bucketed = bucketRows(data, xKey, format, unit);
+  const aggregation = timeAggregation(config, bucketed);
+  const rows = aggregation
+    ? aggregateData(bucketed, config, aggregation)
+    : bucketed.sort((a, b) => a[xKey] - b[xKey]);
+  const time: TimeAxis = { format, unit, hasTime: !unit && rows.some(r => hasTimeOfDay(r[xKey])) };
+
+  return { rows, ...pivotByGroup(applyWindows(rows, config), config), time };
+};
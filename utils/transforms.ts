@@ -0,0 +1,302 @@
+import { CastType, DateFormat, DatePart, Dataset, TransformStep } from '../types';
+import { toNumber } from './aggregation';
+import { compileExpression, isTruthy } from './expression';
+import { createDataset, isMissing } from './profiler';
+import { formatNumber } from './codegen';
+import { parseDate, sampleDateFormat } from './dates';
+
+export interface StepError {
+  index: number;
+  message: string;
+}
+
+export interface TransformResult {
+  dataset: Dataset;
+  errors: StepError[]; // Failing steps are skipped so the rest of the pipeline still runs
+}
+
+export const TRANSFORM_LABELS: Record<TransformStep['type'], string> = {
+  filter: 'Filter by expression',
+  filterValues: 'Filter by value',
+  derive: 'Derived column',
+  rename: 'Rename',
+  cast: 'Change type',
+  bin: 'Bin into ranges',
+  datePart: 'Date part',
+  dedupe: 'Remove duplicates'
+};
+
+export const DATE_PART_LABELS: Record<DatePart, string> = {
+  year: 'Year',
+  quarter: 'Quarter',
+  month: 'Month number',
+  monthName: 'Month name',
+  weekday: 'Weekday',
+  day: 'Day of month',
+  hour: 'Hour',
+  date: 'Date (no time)'
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TRUE_VALUES = new Set(['true', 'yes', 't', 'y', '1']);
+const FALSE_VALUES = new Set(['false', 'no', 'f', 'n', '0']);
+
+const formatValues = (values: (string | number | boolean)[] = []) => {
+  const shown = values.slice(0, 3).map(v => JSON.stringify(v)).join(', ');
+  return values.length > 3 ? `${shown} +${values.length - 3} more` : shown;
+};
+
+export const describeStep = (step: TransformStep): string => {
+  switch (step.type) {
+    case 'filter':
+      return `Keep rows where ${step.expression}`;
+    case 'filterValues':
+      switch (step.operator) {
+        case 'missing': return `Keep rows where ${step.column} is missing`;
+        case 'notMissing': return `Drop rows where ${step.column} is missing`;
+        case 'in': return `Keep ${step.column} in ${formatValues(step.values)}`;
+        default: return `Drop ${step.column} in ${formatValues(step.values)}`;
+      }
+    case 'derive':
+      return `${step.column} = ${step.expression}`;
+    case 'rename':
+      return `Rename ${step.from} to ${step.to}`;
+    case 'cast':
+      return `${step.column} as ${step.to}`;
+    case 'bin':
+      return `${step.as} = ${step.column} in ${Math.max(step.breaks.length - 1, 0)} ranges`;
+    case 'datePart':
+      return `${step.as} = ${DATE_PART_LABELS[step.part].toLowerCase()} of ${step.column}`;
+    case 'dedupe':
+      return step.columns?.length ? `Remove duplicate ${step.columns.join(', ')}` : 'Remove duplicate rows';
+  }
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// format is the column's detected date format; without it each value is read on its own
+export const extractDatePart = (value: any, part: DatePart, format?: DateFormat | null): number | string | null => {
+  const t = isMissing(value) ? null : parseDate(value, format);
+  if (t === null) return null;
+  const date = new Date(t);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  switch (part) {
+    case 'year': return year;
+    case 'quarter': return Math.floor(month / 3) + 1;
+    case 'month': return month + 1;
+    case 'monthName': return MONTHS[month];
+    case 'weekday': return WEEKDAYS[date.getUTCDay()];
+    case 'day': return day;
+    case 'hour': return date.getUTCHours();
+    case 'date': return `${year}-${pad(month + 1)}-${pad(day)}`;
+  }
+};
+
+export const castValue = (value: any, to: CastType, format?: DateFormat | null): any => {
+  if (isMissing(value)) return null;
+  switch (to) {
+    case 'number': {
+      const n = toNumber(value);
+      return isNaN(n) ? null : n;
+    }
+    case 'string':
+      return value instanceof Date ? value.toISOString() : String(value);
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const text = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.has(text)) return true;
+      return FALSE_VALUES.has(text) ? false : null;
+    }
+    case 'date':
+      return extractDatePart(value, 'date', format);
+  }
+};
+
+// "10–20" covers [10, 20); the last range also includes its upper edge, like histogram bins
+export const binLabels = (breaks: number[]) =>
+  breaks.slice(0, -1).map((edge, i) => `${formatNumber(edge)}–${formatNumber(breaks[i + 1])}`);
+
+export const binValue = (value: any, breaks: number[], labels: string[]) => {
+  const n = isMissing(value) ? NaN : toNumber(value);
+  if (isNaN(n) || n < breaks[0] || n > breaks[breaks.length - 1]) return null;
+  for (let i = 0; i < labels.length; i++) {
+    if (n < breaks[i + 1] || i === labels.length - 1) return labels[i];
+  }
+  return null;
+};
+
+// Round-numbered equal-width edges covering the current values, for filling in a bin step
+export const suggestBreaks = (data: any[], column: string, bins = 5) => {
+  let min = Infinity, max = -Infinity;
+  for (const row of data) {
+    const v = toNumber(row[column]);
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min === Infinity) return [];
+  if (min === max) return [min, min + 1];
+  const raw = (max - min) / bins;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw)!;
+  const start = Math.floor(min / step) * step;
+  const edges = [start];
+  while (edges[edges.length - 1] < max) edges.push(Number((start + edges.length * step).toPrecision(12)));
+  return edges;
+};
+
+const requireColumns = (columns: string[], names: string[]) => {
+  const missing = names.filter(name => !columns.includes(name));
+  if (missing.length > 0) throw new Error(`Unknown column${missing.length > 1 ? 's' : ''} ${missing.map(n => `"${n}"`).join(', ')}`);
+};
+
+const requireName = (name: string | undefined, what: string) => {
+  if (!name || !name.trim()) throw new Error(`${what} needs a column name`);
+};
+
+const addColumn = (columns: string[], name: string) => (columns.includes(name) ? columns : [...columns, name]);
+
+const sameValue = (a: any, b: any) => a === b || String(a) === String(b);
+
+// Rows are copied on write, so the raw data is never mutated
+const applyStep = (rows: any[], columns: string[], step: TransformStep): { rows: any[]; columns: string[] } => {
+  switch (step.type) {
+    case 'filter': {
+      const { columns: used, evaluate } = compileExpression(step.expression);
+      requireColumns(columns, used);
+      return { rows: rows.filter(row => isTruthy(evaluate(row))), columns };
+    }
+    case 'filterValues': {
+      requireColumns(columns, [step.column]);
+      const values = step.values ?? [];
+      const keep = (value: any) => {
+        switch (step.operator) {
+          case 'missing': return isMissing(value);
+          case 'notMissing': return !isMissing(value);
+          case 'in': return values.some(v => sameValue(v, value));
+          default: return !values.some(v => sameValue(v, value));
+        }
+      };
+      return { rows: rows.filter(row => keep(row[step.column])), columns };
+    }
+    case 'derive': {
+      requireName(step.column, 'A derived column');
+      const { columns: used, evaluate } = compileExpression(step.expression);
+      requireColumns(columns, used);
+      return {
+        rows: rows.map(row => ({ ...row, [step.column]: evaluate(row) })),
+        columns: addColumn(columns, step.column)
+      };
+    }
+    case 'rename': {
+      requireColumns(columns, [step.from]);
+      requireName(step.to, 'Rename');
+      if (step.to !== step.from && columns.includes(step.to)) throw new Error(`Column "${step.to}" already exists`);
+      return {
+        rows: rows.map(row => {
+          const { [step.from]: value, ...rest } = row;
+          return { ...rest, [step.to]: value };
+        }),
+        columns: columns.map(c => (c === step.from ? step.to : c))
+      };
+    }
+    case 'cast': {
+      requireColumns(columns, [step.column]);
+      const format = step.to === 'date' ? sampleDateFormat(rows, step.column) : null;
+      return { rows: rows.map(row => ({ ...row, [step.column]: castValue(row[step.column], step.to, format) })), columns };
+    }
+    case 'bin': {
+      requireColumns(columns, [step.column]);
+      requireName(step.as, 'A bin step');
+      const breaks = step.breaks ?? [];
+      if (breaks.length < 2 || breaks.some((b, i) => typeof b !== 'number' || (i > 0 && b <= breaks[i - 1]))) {
+        throw new Error('Bin edges must be at least two increasing numbers');
+      }
+      const labels = binLabels(breaks);
+      return {
+        rows: rows.map(row => ({ ...row, [step.as]: binValue(row[step.column], breaks, labels) })),
+        columns: addColumn(columns, step.as)
+      };
+    }
+    case 'datePart': {
+      requireColumns(columns, [step.column]);
+      requireName(step.as, 'A date part step');
+      const format = sampleDateFormat(rows, step.column);
+      return {
+        rows: rows.map(row => ({ ...row, [step.as]: extractDatePart(row[step.column], step.part, format) })),
+        columns: addColumn(columns, step.as)
+      };
+    }
+    case 'dedupe': {
+      const keys = step.columns?.length ? step.columns : columns;
+      requireColumns(columns, keys);
+      const seen = new Set<string>();
+      return {
+        rows: rows.filter(row => {
+          const key = JSON.stringify(keys.map(k => row[k] ?? null));
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        }),
+        columns
+      };
+    }
+    default: {
+      // Only reached by steps from hand-edited project files
+      const { type }: TransformStep = step;
+      throw new Error(`Unknown step type "${type}"`);
+    }
+  }
+};
+
+// Runs the dataset's steps over its raw rows; the result keeps the steps so code generation can replay them
+export const applyTransforms = (dataset: Dataset): TransformResult => {
+  const steps = dataset.transforms ?? [];
+  if (steps.length === 0) return { dataset, errors: [] };
+
+  let rows = dataset.data;
+  let columns = dataset.columns;
+  const errors: StepError[] = [];
+  steps.forEach((step, index) => {
+    try {
+      ({ rows, columns } = applyStep(rows, columns, step));
+    } catch (err: any) {
+      errors.push({ index, message: err.message });
+    }
+  });
+
+  const failed = new Set(errors.map(e => e.index));
+  return {
+    dataset: {
+      ...createDataset(dataset.name, rows, columns),
+      transforms: steps.filter((_, i) => !failed.has(i)),
+      // Code for the result still reads the uploaded file, or rebuilds the joins, before the steps
+      ...(dataset.origin ? { origin: dataset.origin } : {}),
+      ...(dataset.file ? { file: dataset.file } : {})
+    },
+    errors
+  };
+};
+
+// Model output carries filter values as strings; swap in the column's own values so "1" matches 1 in code too
+export const normalizeProposedSteps = (steps: unknown, dataset: Dataset): TransformStep[] => {
+  if (!Array.isArray(steps)) return [];
+  return steps
+    .filter(step => step && typeof step === 'object' && Object.hasOwn(TRANSFORM_LABELS, step.type))
+    .map((step): TransformStep => {
+      if (step.type === 'filterValues' && Array.isArray(step.values)) {
+        const actual = new Map<string, any>();
+        for (const row of dataset.data.slice(0, 10000)) {
+          const value = row[step.column];
+          if (!isMissing(value)) actual.set(String(value), value);
+        }
+        return { ...step, values: step.values.map((v: any) => actual.get(String(v)) ?? v) };
+      }
+      if (step.type === 'bin' && Array.isArray(step.breaks)) {
+        return { ...step, breaks: step.breaks.map(Number).filter((b: number) => !isNaN(b)).sort((a: number, b: number) => a - b) };
+      }
+      return step;
+    });
+};
@@ -0,0 +1,50 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChartSelection, Dataset, VisualizationConfig } from '../types';
+import { filterRows } from './dashboard';
+import { EMPTY_PROCESSED, processData } from './processing';
+import { LARGE_DATASET_ROWS, SampledData, downsample } from './sampling';
+import { processInBackground, setBackgroundData } from './workerClient';
+
+const EMPTY: SampledData = { processed: EMPTY_PROCESSED, sampling: null };
+
+interface BackgroundResult {
+  dataset: Dataset;
+  config: VisualizationConfig;
+  filter: ChartSelection | null;
+  result: SampledData;
+}
+
+// Chart-ready rows for one config; large datasets are aggregated in a worker, small ones are quicker to do inline
+export const useChartData = (dataset: Dataset | null, config: VisualizationConfig | null, filter: ChartSelection | null = null) => {
+  const isLarge = Boolean(dataset && dataset.data.length >= LARGE_DATASET_ROWS);
+  const local = useMemo(
+    () => (dataset && config && !isLarge ? downsample(processData(filterRows(dataset.data, filter), config), config) : EMPTY),
+    [dataset, config, filter, isLarge]
+  );
+
+  const [background, setBackground] = useState<BackgroundResult | null>(null);
+  useEffect(() => {
+    if (!dataset || !config || !isLarge) return;
+    let stale = false;
+    setBackgroundData(dataset.data);
+    processInBackground(config, filter)
+      .then(result => { if (!stale) setBackground({ dataset, config, filter, result }); })
+      .catch(err => {
+        console.error(err);
+        if (stale) return;
+        // If the worker itself failed, later charts are processed inline, and so is this one
+        try {
+          setBackground({ dataset, config, filter, result: downsample(processData(filterRows(dataset.data, filter), config), config) });
+        } catch (inlineErr) {
+          console.error(inlineErr);
+        }
+      });
+    return () => { stale = true; };
+  }, [dataset, config, filter, isLarge]);
+
+  if (!isLarge) return { ...local, processing: false };
+  const current = background && background.dataset === dataset && background.config === config && background.filter === filter
+    ? background.result
+    : null;
+  return { ...(current ?? EMPTY), processing: Boolean(config) && !current };
+};
@@ -0,0 +1,302 @@
+import { ChartType, ConfigIssue, Dataset, VisualizationConfig } from '../types';
+import { chartBackground, checkColors } from './accessibility';
+import { ANNOTATION_CHART_TYPES, ANNOTATION_TYPE_LABELS } from './annotations';
+import { isValidColor } from './colors';
+import { toNumber } from './aggregation';
+import { MAX_POLYNOMIAL_DEGREE, REFERENCE_CHART_TYPES, TREND_CHART_TYPES, TREND_METHOD_LABELS } from './overlays';
+import { getColumn, isNumericType, isTemporalType } from './profiler';
+import { sanitizeTheme } from './themes';
+import { TIME_CHART_TYPES } from './timeSeries';
+
+export interface RepairResult {
+  config: VisualizationConfig;
+  fixes: string[]; // Human-readable notes about what was changed
+  issues: ConfigIssue[]; // What is still wrong after the fixes
+}
+
+// 'count' is a virtual metric produced by aggregation rather than a column
+const COUNT_KEY = 'count';
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const levenshtein = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+};
+
+// Closest column name, if it is unambiguously close enough to be a typo or casing slip
+export const matchColumn = (name: string, columns: string[]): string | null => {
+  if (columns.includes(name)) return name;
+  const target = normalize(name);
+  if (!target) return null;
+
+  const exact = columns.filter(c => normalize(c) === target);
+  if (exact.length === 1) return exact[0];
+
+  const threshold = Math.max(1, Math.floor(target.length / 4));
+  const scored = columns
+    .map(c => ({ column: c, distance: levenshtein(normalize(c), target) }))
+    .filter(c => c.distance <= threshold)
+    .sort((a, b) => a.distance - b.distance);
+  if (scored.length === 0 || (scored.length > 1 && scored[1].distance === scored[0].distance)) return null;
+  return scored[0].column;
+};
+
+const countsRows = (config: VisualizationConfig) =>
+  config.aggregation?.func === 'count' || config.aggregation?.func === 'countDistinct';
+
+const needsNumericY = (config: VisualizationConfig) => {
+  switch (config.chartType) {
+    case ChartType.HISTOGRAM:
+    case ChartType.HEATMAP:
+      return false;
+    case ChartType.SCATTER:
+    case ChartType.BOX:
+    case ChartType.VIOLIN:
+      return true;
+    default:
+      return !countsRows(config);
+  }
+};
+
+const needsNumericX = (config: VisualizationConfig) =>
+  config.chartType === ChartType.SCATTER || config.chartType === ChartType.HISTOGRAM;
+
+const allowsCountY = (config: VisualizationConfig) =>
+  ![ChartType.SCATTER, ChartType.BOX, ChartType.VIOLIN, ChartType.HEATMAP].includes(config.chartType);
+
+export const validateConfig = (config: VisualizationConfig, dataset: Dataset): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  const has = (key: string) => dataset.columns.includes(key);
+  const type = (key: string) => getColumn(dataset, key)?.type;
+  const error = (field: string, message: string) => issues.push({ field, message, severity: 'error' });
+  const warning = (field: string, message: string) => issues.push({ field, message, severity: 'warning' });
+
+  if (!Object.values(ChartType).includes(config.chartType)) {
+    error('chartType', `"${config.chartType}" is not a supported chart type`);
+  }
+
+  const xOptional = config.chartType === ChartType.BOX || config.chartType === ChartType.VIOLIN;
+  if (!config.xAxisKey) {
+    if (!xOptional) error('xAxisKey', 'No X axis column is set');
+  } else if (!has(config.xAxisKey)) {
+    error('xAxisKey', `Column "${config.xAxisKey}" does not exist in the dataset`);
+  } else if (needsNumericX(config) && !isNumericType(type(config.xAxisKey))
+    && !(config.chartType === ChartType.SCATTER && isTemporalType(type(config.xAxisKey)))) {
+    error('xAxisKey', `"${config.xAxisKey}" is ${type(config.xAxisKey)}, but a ${config.chartType} chart needs a numeric X axis`);
+  }
+
+  const yIsCount = !config.yAxisKey || (config.yAxisKey === COUNT_KEY && !has(COUNT_KEY));
+  if (config.chartType !== ChartType.HISTOGRAM) {
+    if (yIsCount) {
+      if (!allowsCountY(config)) error('yAxisKey', `A ${config.chartType} chart needs a Y axis column`);
+    } else if (!has(config.yAxisKey)) {
+      error('yAxisKey', `Column "${config.yAxisKey}" does not exist in the dataset`);
+    } else if (needsNumericY(config) && !isNumericType(type(config.yAxisKey))) {
+      const message = `"${config.yAxisKey}" is ${type(config.yAxisKey)}, but it is plotted as a numeric value`;
+      if (type(config.yAxisKey) === 'id') warning('yAxisKey', message);
+      else error('yAxisKey', message);
+    }
+  }
+
+  config.seriesKeys?.forEach((key, i) => {
+    if (!has(key)) error(`seriesKeys[${i}]`, `Series column "${key}" does not exist in the dataset`);
+    else if (!countsRows(config) && !isNumericType(type(key))) warning(`seriesKeys[${i}]`, `Series "${key}" is ${type(key)}, not numeric`);
+  });
+
+  if (config.groupBy && !has(config.groupBy)) {
+    error('groupBy', `Group column "${config.groupBy}" does not exist in the dataset`);
+  } else if (config.groupBy && (getColumn(dataset, config.groupBy)?.distinctCount ?? 0) > 30) {
+    warning('groupBy', `"${config.groupBy}" has ${getColumn(dataset, config.groupBy)?.distinctCount} categories, which makes an unreadable legend`);
+  }
+
+  if (config.colorKey) {
+    if (!has(config.colorKey)) error('colorKey', `Color column "${config.colorKey}" does not exist in the dataset`);
+    else if (!isNumericType(type(config.colorKey))) error('colorKey', `"${config.colorKey}" is ${type(config.colorKey)}, but heatmap colors need a numeric column`);
+  }
+
+  config.seriesOptions?.forEach((option, i) => {
+    const keys = config.seriesKeys?.length ? config.seriesKeys : [config.yAxisKey];
+    if (!keys.includes(option.key)) warning(`seriesOptions[${i}]`, `Options for "${option.key}" do not match any series`);
+  });
+
+  config.colors?.forEach((color, i) => {
+    if (!isValidColor(color)) error(`colors[${i}]`, `"${color}" is not a valid color`);
+  });
+
+  // Heatmap colors are the two ends of a scale and may sit close to the background on purpose
+  if (config.chartType !== ChartType.HEATMAP) {
+    const background = chartBackground(config);
+    if (config.colors?.length) checkColors(config.colors, background).forEach(problem => warning(problem.field, problem.message));
+    else if (config.theme?.palette?.length) checkColors(config.theme.palette, background, 'theme.palette').forEach(problem => warning(problem.field, problem.message));
+  }
+
+  sanitizeTheme(config.theme).dropped.forEach(field => {
+    warning(`theme.${field}`, `The theme's ${field} setting is not valid and is ignored`);
+  });
+
+  if (config.timeSeries) {
+    const { rolling, change } = config.timeSeries;
+    if (!TIME_CHART_TYPES.includes(config.chartType)) {
+      warning('timeSeries', `Time series settings are ignored by ${config.chartType} charts`);
+    } else if (config.xAxisKey && has(config.xAxisKey) && !isTemporalType(type(config.xAxisKey))) {
+      error('timeSeries', `"${config.xAxisKey}" is ${type(config.xAxisKey)}, but time series settings need a date X axis`);
+    }
+    if (rolling && !(Number.isInteger(rolling.window) && rolling.window >= 1)) {
+      error('timeSeries.rolling', 'The rolling window must be a whole number of at least 1');
+    }
+    if (change?.lag !== undefined && !(Number.isInteger(change.lag) && change.lag >= 1)) {
+      error('timeSeries.change', 'The change lag must be a whole number of at least 1');
+    }
+  }
+
+  // Trend lines and numeric reference lines on X need a continuous axis
+  const continuousX = config.chartType === ChartType.SCATTER || (TIME_CHART_TYPES.includes(config.chartType) && isTemporalType(type(config.xAxisKey)));
+
+  if (config.trendLine) {
+    const { method, degree, span } = config.trendLine;
+    if (!TREND_METHOD_LABELS[method]) {
+      error('trendLine.method', `"${method}" is not a supported trend method`);
+    } else if (!TREND_CHART_TYPES.includes(config.chartType)) {
+      warning('trendLine', `Trend lines are not drawn on ${config.chartType} charts`);
+    } else if (!continuousX) {
+      warning('trendLine', `Trend lines on ${config.chartType} charts need a date X axis`);
+    }
+    if (method === 'polynomial' && degree !== undefined && !(Number.isInteger(degree) && degree >= 1 && degree <= MAX_POLYNOMIAL_DEGREE)) {
+      error('trendLine.degree', `The polynomial degree must be a whole number from 1 to ${MAX_POLYNOMIAL_DEGREE}`);
+    }
+    if (method === 'loess' && span !== undefined && !(span > 0 && span <= 1)) {
+      error('trendLine.span', 'The LOESS span must be above 0 and at most 1');
+    }
+  }
+
+  config.referenceLines?.forEach((line, i) => {
+    const field = `referenceLines[${i}]`;
+    const stat = line.value === 'mean' || line.value === 'median';
+    if (line.axis !== 'x' && line.axis !== 'y') {
+      error(field, 'A reference line must cross the x or y axis');
+    } else if (!REFERENCE_CHART_TYPES.includes(config.chartType)) {
+      warning(field, `Reference lines are not drawn on ${config.chartType} charts`);
+    } else if (line.axis === 'y' && !stat && isNaN(toNumber(line.value))) {
+      error(field, `"${line.value}" is not a number, "mean" or "median"`);
+    } else if (line.axis === 'x' && stat && !continuousX) {
+      warning(field, `The ${line.value} of a category axis cannot be drawn`);
+    }
+  });
+
+  config.annotations?.forEach((annotation, i) => {
+    const field = `annotations[${i}]`;
+    const point = annotation.type === 'text' || annotation.type === 'arrow';
+    const stat = annotation.y === 'max' || annotation.y === 'min';
+    if (!ANNOTATION_TYPE_LABELS[annotation.type]) {
+      error(field, `"${annotation.type}" is not a supported annotation type`);
+    } else if (!ANNOTATION_CHART_TYPES.includes(config.chartType) || (config.chartType === ChartType.PIE && annotation.type !== 'highlight')) {
+      warning(field, `${ANNOTATION_TYPE_LABELS[annotation.type]} annotations are not drawn on ${config.chartType} charts`);
+    } else if (point && !stat && (annotation.x === undefined || annotation.x === '' || isNaN(toNumber(annotation.y)))) {
+      error(field, 'A text or arrow annotation needs an X position and a numeric Y, or Y "max"/"min"');
+    } else if (annotation.type === 'highlight' && (annotation.x === undefined || annotation.x === '')) {
+      error(field, 'A highlight needs the category to emphasize in X');
+    } else if (annotation.type === 'highlight' && config.chartType !== ChartType.PIE && (continuousX || isTemporalType(type(config.xAxisKey)))) {
+      warning(field, 'Highlights need a category X axis; shade a range on date or numeric axes instead');
+    } else if (annotation.type === 'range' && (annotation.from === undefined || annotation.to === undefined || annotation.from === '' || annotation.to === '')) {
+      error(field, 'A shaded range needs both "from" and "to"');
+    } else if (annotation.type === 'range' && annotation.axis === 'y' && (isNaN(toNumber(annotation.from)) || isNaN(toNumber(annotation.to)))) {
+      error(field, 'A shaded range on Y needs numeric "from" and "to" values');
+    }
+    if (annotation.color !== undefined && !isValidColor(annotation.color)) error(`${field}.color`, `"${annotation.color}" is not a valid color`);
+  });
+
+  return issues;
+};
+
+// First numeric column not already used elsewhere in the config
+const pickNumericColumn = (dataset: Dataset, exclude: (string | undefined)[]) =>
+  dataset.profile.find(c => c.type === 'number' && !exclude.includes(c.name))?.name
+  ?? dataset.profile.find(c => isNumericType(c.type) && !exclude.includes(c.name))?.name;
+
+// Apply every fix that cannot change the meaning of the chart, then re-validate
+export const repairConfig = (input: VisualizationConfig, dataset: Dataset): RepairResult => {
+  const config: VisualizationConfig = { ...input };
+  const fixes: string[] = [];
+
+  const fixKey = (field: 'xAxisKey' | 'yAxisKey' | 'groupBy' | 'colorKey') => {
+    const value = config[field];
+    if (!value || dataset.columns.includes(value) || (field === 'yAxisKey' && value === COUNT_KEY)) return;
+    const match = matchColumn(value, dataset.columns);
+    if (match) {
+      config[field] = match;
+      fixes.push(`${field}: "${value}" → "${match}"`);
+    } else if (field === 'groupBy') {
+      delete config.groupBy;
+      fixes.push(`Dropped unknown groupBy column "${value}"`);
+    }
+  };
+  fixKey('xAxisKey');
+  fixKey('yAxisKey');
+  fixKey('groupBy');
+  fixKey('colorKey');
+
+  if (config.seriesKeys) {
+    const resolved = config.seriesKeys.map(key => matchColumn(key, dataset.columns));
+    config.seriesKeys.forEach((key, i) => {
+      if (resolved[i] && resolved[i] !== key) fixes.push(`series "${key}" → "${resolved[i]}"`);
+      if (!resolved[i]) fixes.push(`Dropped unknown series "${key}"`);
+    });
+    config.seriesKeys = resolved.filter((key): key is string => Boolean(key));
+  }
+
+  if (config.seriesOptions) {
+    config.seriesOptions = config.seriesOptions.map(option => ({ ...option, key: matchColumn(option.key, dataset.columns) || option.key }));
+  }
+
+  if (config.colors) {
+    const valid = config.colors.filter(isValidColor);
+    if (valid.length !== config.colors.length) {
+      fixes.push(`Removed invalid colors: ${config.colors.filter(c => !isValidColor(c)).join(', ')}`);
+      config.colors = valid.length > 0 ? valid : undefined;
+    }
+  }
+
+  if (config.theme) {
+    const { theme, dropped } = sanitizeTheme(config.theme);
+    if (dropped.length > 0) {
+      fixes.push(`Removed invalid theme settings: ${dropped.join(', ')}`);
+      config.theme = theme;
+    }
+  }
+
+  // Scatter plots need two numeric axes (or dates along X); swap in numeric columns when the model picked categories
+  const type = (key: string) => getColumn(dataset, key)?.type;
+  if (config.chartType === ChartType.SCATTER) {
+    for (const field of ['xAxisKey', 'yAxisKey'] as const) {
+      const fieldType = type(config[field]);
+      if (dataset.columns.includes(config[field]) && (isNumericType(fieldType) || (field === 'xAxisKey' && isTemporalType(fieldType)))) continue;
+      const other = field === 'xAxisKey' ? config.yAxisKey : config.xAxisKey;
+      const replacement = pickNumericColumn(dataset, [other, config.groupBy]);
+      if (replacement) {
+        fixes.push(`${field}: "${config[field]}" → "${replacement}" (scatter axes must be numeric)`);
+        config[field] = replacement;
+      }
+    }
+  }
+
+  // Box and violin plots are often requested the other way round ("Age by Pclass")
+  if ((config.chartType === ChartType.BOX || config.chartType === ChartType.VIOLIN)
+    && isNumericType(type(config.xAxisKey)) && !isNumericType(type(config.yAxisKey)) && dataset.columns.includes(config.yAxisKey)) {
+    fixes.push(`Swapped axes so "${config.xAxisKey}" is the measured value`);
+    [config.xAxisKey, config.yAxisKey] = [config.yAxisKey, config.xAxisKey];
+  }
+
+  return { config, fixes, issues: validateConfig(config, dataset) };
+};
+
+export const hasErrors = (issues: ConfigIssue[]) => issues.some(issue => issue.severity === 'error');
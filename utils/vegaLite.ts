@@ -0,0 +1,1001 @@
+import {
+  AggregateFunction, AggregationConfig, AnnotationType, ChartAnnotation, ChartTheme, ChartType, Dataset, DateFormat, LegendPosition, LineDash, MarkerShape,
+  ReferenceLineConfig, SeriesOptions, TimeSeriesConfig, TimeUnit, TrendLineConfig, VisualizationConfig
+} from '../types';
+import { ANNOTATION_COLOR, ANNOTATION_TYPE_LABELS, ResolvedAnnotation, valueSpan } from './annotations';
+import { CodePlan, buildCodePlan, formatJson, sortSettings } from './codegen';
+import { heatmapColors, seriesColor } from './colors';
+import { hasTimeOfDay, parseDate } from './dates';
+import { DASH_ARRAYS, LINE_DASHES } from './themes';
+import { hasWindowStats, windowSize } from './timeSeries';
+
+export const VEGA_LITE_SCHEMA = 'https://vega.github.io/schema/vega-lite/v5.json';
+
+type Spec = Record<string, any>;
+
+const VEGA_OPS: Record<AggregateFunction, string> = {
+  sum: 'sum',
+  mean: 'mean',
+  median: 'median',
+  min: 'min',
+  max: 'max',
+  count: 'count',
+  countDistinct: 'distinct'
+};
+
+// "average" is Vega-Lite's alias of mean, "valid" counts non-missing values
+const FROM_VEGA_OPS: Record<string, AggregateFunction> = {
+  sum: 'sum',
+  mean: 'mean',
+  average: 'mean',
+  median: 'median',
+  min: 'min',
+  max: 'max',
+  count: 'count',
+  valid: 'count',
+  distinct: 'countDistinct'
+};
+
+// Dates are read and bucketed in UTC, like the preview
+const VEGA_TIME_UNITS: Record<TimeUnit, string> = {
+  day: 'utcyearmonthdate',
+  week: 'utcyearweek',
+  month: 'utcyearmonth',
+  quarter: 'utcyearquarter',
+  year: 'utcyear'
+};
+
+const VEGA_SHAPES: Record<MarkerShape, string> = {
+  circle: 'circle',
+  square: 'square',
+  triangle: 'triangle-up',
+  diamond: 'diamond',
+  none: 'circle'
+};
+
+// Output names of the fold transform that stacks several value columns into one
+const FOLD_KEY = 'series';
+const FOLD_VALUE = 'value';
+// Series label when both several value columns and groupBy split the chart, as "metric: group" in the preview
+const SERIES_LABEL = '__label';
+const RANK = '__rank';
+const TOTAL = '__total';
+
+const dashArray = (dash: LineDash) => (DASH_ARRAYS[dash] ?? '').split(' ').filter(Boolean).map(Number);
+
+// --- Export ---
+
+const columnType = (dataset: Dataset, key: string) => dataset.profile.find(c => c.name === key)?.type;
+
+// Numbers on a category axis keep their numeric order
+const categoryType = (dataset: Dataset, key: string) => (columnType(dataset, key) === 'number' ? 'ordinal' : 'nominal');
+
+const isoDate = (value: any, format: DateFormat) => {
+  const t = parseDate(value, format);
+  if (t === null) return null;
+  const iso = new Date(t).toISOString();
+  return hasTimeOfDay(t) ? iso : iso.slice(0, 10);
+};
+
+// d3 pattern for day/month-ordered dates read from a file, e.g. "%d/%m/%Y"
+const datePattern = (sample: string, format: DateFormat) => {
+  const separator = /[/.-]/.exec(sample)?.[0] ?? '/';
+  const year = /\d{4}/.test(sample) ? '%Y' : '%y';
+  const parts = format === 'dmy' ? ['%d', '%m', year] : ['%m', '%d', year];
+  return parts.join(separator);
+};
+
+const usedColumns = (plan: CodePlan, dataset: Dataset) =>
+  [...new Set([plan.xKey, plan.yKey, ...plan.valueKeys, plan.groupKey, plan.config.colorKey])]
+    .filter((key): key is string => Boolean(key) && dataset.columns.includes(key!));
+
+// Inline rows carry only the charted columns, with the X dates rewritten as ISO so any reader parses them
+const specData = (plan: CodePlan, dataset: Dataset, url?: string): Spec => {
+  if (url) {
+    const type = /\.json$/i.test(url) ? 'json' : /\.tsv$/i.test(url) ? 'tsv' : 'csv';
+    const format: Spec = { type };
+    if (plan.time && (plan.time.format === 'dmy' || plan.time.format === 'mdy')) {
+      const sample = dataset.data.find(row => typeof row[plan.xKey] === 'string')?.[plan.xKey] ?? '';
+      format.parse = { [plan.xKey]: `utc:'${datePattern(sample, plan.time.format)}'` };
+    }
+    return { url, format };
+  }
+  const columns = usedColumns(plan, dataset);
+  const time = plan.time;
+  return {
+    values: dataset.data.map(row => Object.fromEntries(columns.map(key => [
+      key,
+      time && key === plan.xKey ? isoDate(row[key], time.format) : row[key]
+    ])))
+  };
+};
+
+// Chart-level settings for the theme fields the config sets; the rest keep Vega-Lite's defaults, as in the scripts
+const themeConfig = (theme: ChartTheme): Spec | undefined => {
+  const config: Spec = {};
+  const axis: Spec = {};
+  const legend: Spec = {};
+  const title: Spec = {};
+  if (theme.background) config.background = theme.background;
+  if (theme.fontFamily) config.font = theme.fontFamily;
+  if (theme.textColor) {
+    Object.assign(axis, { labelColor: theme.textColor, titleColor: theme.textColor });
+    Object.assign(legend, { labelColor: theme.textColor, titleColor: theme.textColor });
+    title.color = theme.textColor;
+  }
+  if (theme.fontSize) {
+    axis.labelFontSize = theme.fontSize;
+    legend.labelFontSize = theme.fontSize;
+  }
+  if (theme.titleSize) title.fontSize = theme.titleSize;
+  if (theme.axisColor) Object.assign(axis, { domainColor: theme.axisColor, tickColor: theme.axisColor });
+  if (theme.axisLine === false) axis.domain = false;
+  if (theme.gridColor) axis.gridColor = theme.gridColor;
+  if (theme.gridDash) axis.gridDash = dashArray(theme.gridDash);
+  if (theme.grid) {
+    config.axisX = { grid: theme.grid === 'both' || theme.grid === 'vertical' };
+    config.axisY = { grid: theme.grid === 'both' || theme.grid === 'horizontal' };
+  }
+  if (theme.legendPosition) Object.assign(legend, theme.legendPosition === 'none' ? { disable: true } : { orient: theme.legendPosition });
+  if (theme.palette) config.range = { category: theme.palette };
+  if (theme.barRadius !== undefined) config.bar = { cornerRadiusEnd: theme.barRadius };
+  if (theme.lineWidth !== undefined || theme.lineDash) {
+    config.line = {
+      ...(theme.lineWidth !== undefined && { strokeWidth: theme.lineWidth }),
+      ...(theme.lineDash && { strokeDash: dashArray(theme.lineDash) })
+    };
+  }
+  if (theme.marker && theme.marker !== 'none') config.point = { shape: VEGA_SHAPES[theme.marker] };
+  if (Object.keys(axis).length > 0) config.axis = axis;
+  if (Object.keys(legend).length > 0) config.legend = legend;
+  if (Object.keys(title).length > 0) config.title = title;
+  return Object.keys(config).length > 0 ? config : undefined;
+};
+
+// Bar, line and area charts stack several value columns into one series column; composed charts keep a layer each
+const isFolded = (plan: CodePlan) =>
+  plan.valueKeys.length > 1 && [ChartType.BAR, ChartType.LINE, ChartType.AREA].includes(plan.config.chartType);
+
+// Fold, top-N, resampling and window steps shared by the category and time charts
+const seriesTransforms = (plan: CodePlan) => {
+  const { config, aggregation, valueKeys } = plan;
+  const transforms: Spec[] = [];
+  const op = aggregation ? VEGA_OPS[aggregation.func] : null;
+  const windows = plan.time && hasWindowStats(plan.time.settings) ? plan.time.settings : null;
+  const unit = plan.time?.settings.resample;
+  const folded = isFolded(plan);
+
+  // Top-N ranks x categories by the first value column, as the preview does
+  if (aggregation?.topN && !plan.time) {
+    transforms.push(
+      { joinaggregate: [{ op, ...(aggregation.func !== 'count' && { field: valueKeys[0] }), as: TOTAL }], groupby: [plan.xKey] },
+      { window: [{ op: 'dense_rank', as: RANK }], sort: [{ field: TOTAL, order: 'descending' }] },
+      { calculate: `datum.${RANK} <= ${aggregation.topN} ? datum[${JSON.stringify(plan.xKey)}] : ${JSON.stringify(aggregation.otherLabel || 'Other')}`, as: plan.xKey }
+    );
+  }
+
+  // Running totals, rolling windows and changes need the aggregated points first
+  if (windows) {
+    if (unit) transforms.push({ timeUnit: VEGA_TIME_UNITS[unit], field: plan.xKey, as: plan.xKey });
+    if (aggregation) {
+      transforms.push({
+        aggregate: valueKeys.map(key => (config.seriesKeys?.length || key !== 'count' || aggregation.func !== 'count')
+          ? { op, field: key, as: key }
+          : { op: 'count', as: key }),
+        groupby: [plan.xKey, ...(plan.groupKey ? [plan.groupKey] : [])]
+      });
+    }
+  }
+
+  if (folded) transforms.push({ fold: valueKeys, as: [FOLD_KEY, FOLD_VALUE] });
+  if (folded && plan.groupKey) {
+    transforms.push({ calculate: `datum.${FOLD_KEY} + ': ' + datum[${JSON.stringify(plan.groupKey)}]`, as: SERIES_LABEL });
+  }
+
+  if (windows) {
+    const fields = folded ? [FOLD_VALUE] : config.chartType === ChartType.COMPOSED ? valueKeys : [valueKeys[0]];
+    const groupby = [...(folded ? [FOLD_KEY] : []), ...(plan.groupKey ? [plan.groupKey] : [])];
+    const sort = [{ field: plan.xKey }];
+    for (const field of fields) {
+      const f = `datum[${JSON.stringify(field)}]`;
+      if (windows.cumulative) transforms.push({ window: [{ op: 'sum', field, as: field }], sort, groupby, frame: [null, 0] });
+      if (windows.rolling) {
+        const size = windowSize(windows.rolling.window);
+        transforms.push(
+          { window: [{ op: windows.rolling.func, field, as: field }, { op: 'count', as: '__points' }], sort, groupby, frame: [-(size - 1), 0] },
+          { calculate: `datum.__points < ${size} ? null : ${f}`, as: field }
+        );
+      }
+      if (windows.change) {
+        const lag = windowSize(windows.change.lag ?? 1);
+        transforms.push(
+          { window: [{ op: 'lag', param: lag, field, as: '__previous' }], sort, groupby },
+          {
+            calculate: windows.change.kind === 'percent'
+              ? `datum.__previous ? (${f} / datum.__previous - 1) * 100 : null`
+              : `datum.__previous == null ? null : ${f} - datum.__previous`,
+            as: field
+          }
+        );
+      }
+    }
+  }
+
+  return transforms;
+};
+
+// Which field colors the marks, if any
+const colorField = (plan: CodePlan) => {
+  if (isFolded(plan)) return plan.groupKey ? SERIES_LABEL : FOLD_KEY;
+  return plan.groupKey;
+};
+
+const colorEncoding = (plan: CodePlan, field: string) => ({
+  field,
+  type: 'nominal',
+  title: field === plan.groupKey ? plan.groupKey : null,
+  scale: { range: plan.palette }
+});
+
+// X of the category and time charts: time units unless windows already bucketed the dates
+const xEncoding = (plan: CodePlan, dataset: Dataset): Spec => {
+  const { aggregation } = plan;
+  if (plan.time) {
+    const unit = plan.time.settings.resample;
+    const bucketed = unit && !hasWindowStats(plan.time.settings);
+    return {
+      field: plan.xKey,
+      type: 'temporal',
+      ...(bucketed && { timeUnit: VEGA_TIME_UNITS[unit!] }),
+      scale: { type: 'utc' },
+      title: plan.xLabel
+    };
+  }
+  let sort: any = null;
+  if (aggregation) {
+    const { sortBy, sortOrder } = sortSettings(aggregation);
+    if (sortBy === 'value') sort = sortOrder === 'desc' ? '-y' : 'y';
+    if (sortBy === 'x') sort = sortOrder === 'desc' ? 'descending' : 'ascending';
+  }
+  return { field: plan.xKey, type: categoryType(dataset, plan.xKey), sort, title: plan.xLabel };
+};
+
+// Y of the category and time charts; windows leave plain values behind
+const yEncoding = (plan: CodePlan, key: string, title: string): Spec => {
+  const { aggregation } = plan;
+  const field = isFolded(plan) ? FOLD_VALUE : key;
+  if (!aggregation || (plan.time && hasWindowStats(plan.time.settings))) return { field, type: 'quantitative', title };
+  if (aggregation.func === 'count' && !plan.config.seriesKeys?.length && key === 'count') {
+    return { aggregate: 'count', type: 'quantitative', title };
+  }
+  return { field, aggregate: VEGA_OPS[aggregation.func], type: 'quantitative', title };
+};
+
+const markFor = (type: string, plan: CodePlan, extra: Spec = {}): Spec => {
+  const mark: Spec = { type, ...extra };
+  if (!colorField(plan)) mark.color = plan.palette[0];
+  if (type === 'line' && plan.theme.marker !== 'none') mark.point = true;
+  return mark;
+};
+
+const categoryView = (plan: CodePlan, dataset: Dataset): Spec => {
+  const { config } = plan;
+  const color = colorField(plan);
+  const encoding: Spec = { x: xEncoding(plan, dataset), y: yEncoding(plan, plan.valueKeys[0], plan.yLabel) };
+  if (color) encoding.color = colorEncoding(plan, color);
+
+  if (config.chartType === ChartType.BAR) {
+    if (color && config.barMode !== 'stacked') encoding.xOffset = { field: color };
+    return { mark: markFor('bar', plan), encoding };
+  }
+  if (config.chartType === ChartType.AREA) return { mark: markFor('area', plan, { line: true }), encoding };
+  return { mark: markFor('line', plan), encoding };
+};
+
+const pieView = (plan: CodePlan, dataset: Dataset): Spec => {
+  const single = { ...plan, valueKeys: [plan.yKey] };
+  const x = xEncoding(single, dataset);
+  const theta = yEncoding(single, plan.yKey, plan.yLabel);
+  const sort = x.sort === '-y' ? '-theta' : x.sort === 'y' ? 'theta' : x.sort;
+  return {
+    mark: { type: 'arc' },
+    encoding: {
+      theta,
+      color: { field: plan.xKey, type: categoryType(dataset, plan.xKey), sort, title: plan.xLabel, scale: { range: plan.palette } }
+    }
+  };
+};
+
+// Bars or lines per value column, the right-axis ones on a second, independent scale; the Y label names the left axis
+const composedView = (plan: CodePlan, dataset: Dataset): Spec => {
+  const optionsFor = (key: string) => plan.config.seriesOptions?.find(o => o.key === key);
+  const layerFor = (key: string) => {
+    const onRight = optionsFor(key)?.axis === 'right';
+    const y = yEncoding({ ...plan, valueKeys: [key] }, key, (!onRight && plan.config.yLabel) || key);
+    if (onRight) y.axis = { orient: 'right' };
+    const mark = optionsFor(key)?.mark ?? 'bar';
+    return {
+      mark: { type: mark, ...(mark === 'line' && plan.theme.marker !== 'none' && { point: true }) },
+      encoding: { y, color: { datum: key, type: 'nominal', title: null, scale: { domain: plan.valueKeys, range: plan.palette } } }
+    };
+  };
+  const right = plan.valueKeys.filter(key => optionsFor(key)?.axis === 'right');
+  const left = plan.valueKeys.filter(key => !right.includes(key));
+  const encoding = { x: xEncoding({ ...plan, valueKeys: [plan.valueKeys[0]] }, dataset) };
+  if (right.length === 0) return { encoding, layer: left.map(layerFor) };
+  return {
+    encoding,
+    layer: [{ layer: left.map(layerFor) }, { layer: right.map(layerFor) }],
+    resolve: { scale: { y: 'independent' } }
+  };
+};
+
+const histogramView = (plan: CodePlan): Spec => {
+  const { binning } = plan.config;
+  const bin = binning?.binWidth ? { step: binning.binWidth } : { maxbins: binning?.bins ?? plan.bins.length };
+  const encoding: Spec = {
+    x: { field: plan.xKey, bin, type: 'quantitative', title: plan.xLabel },
+    y: { aggregate: 'count', type: 'quantitative', title: plan.yLabel }
+  };
+  const mark: Spec = markFor('bar', plan);
+  if (plan.groupKey) {
+    encoding.color = colorEncoding(plan, plan.groupKey);
+    // The preview draws groups side by side unless stacked; overlapping bars are the nearest a binned axis allows
+    if (plan.config.barMode !== 'stacked') {
+      encoding.y.stack = null;
+      mark.opacity = 0.6;
+    }
+  }
+  return { mark, encoding };
+};
+
+const isCategorical = (plan: CodePlan) => Boolean(plan.xKey) && plan.xKey !== plan.yKey;
+
+const boxView = (plan: CodePlan, dataset: Dataset): Spec => ({
+  mark: { type: 'boxplot', extent: 1.5, color: plan.palette[0] },
+  encoding: {
+    ...(isCategorical(plan) && { x: { field: plan.xKey, type: categoryType(dataset, plan.xKey), title: plan.xLabel } }),
+    y: { field: plan.yKey, type: 'quantitative', title: plan.yLabel }
+  }
+});
+
+// Vega-Lite has no violin mark; the usual recipe mirrors a density area around each category's center
+const violinView = (plan: CodePlan, dataset: Dataset): Spec => ({
+  transform: [{ density: plan.yKey, ...(isCategorical(plan) && { groupby: [plan.xKey] }), as: [plan.yKey, 'density'] }],
+  mark: { type: 'area', orient: 'horizontal', color: plan.palette[0] },
+  width: 80,
+  encoding: {
+    y: { field: plan.yKey, type: 'quantitative', title: plan.yLabel },
+    x: { field: 'density', type: 'quantitative', stack: 'center', impute: null, title: null, axis: { labels: false, grid: false, ticks: false } },
+    ...(isCategorical(plan) && {
+      column: { field: plan.xKey, type: categoryType(dataset, plan.xKey), title: plan.xLabel, header: { orient: 'bottom' } }
+    })
+  }
+});
+
+const heatmapView = (plan: CodePlan, dataset: Dataset): Spec => {
+  const { colorKey, aggregation } = plan.config;
+  const func = aggregation?.func || (colorKey ? 'mean' : 'count');
+  return {
+    mark: { type: 'rect' },
+    encoding: {
+      x: { field: plan.xKey, type: categoryType(dataset, plan.xKey), title: plan.xLabel },
+      y: { field: plan.yKey, type: categoryType(dataset, plan.yKey), title: plan.yLabel },
+      color: {
+        ...(func !== 'count' && colorKey && { field: colorKey }),
+        aggregate: VEGA_OPS[func],
+        type: 'quantitative',
+        title: colorKey || 'count',
+        scale: { range: [plan.heatmap.low, plan.heatmap.high] }
+      }
+    }
+  };
+};
+
+const scatterView = (plan: CodePlan, dataset: Dataset): Spec => {
+  const x: Spec = plan.time
+    ? { field: plan.xKey, type: 'temporal', scale: { type: 'utc' }, title: plan.xLabel }
+    : { field: plan.xKey, type: columnType(dataset, plan.xKey) === 'number' ? 'quantitative' : 'nominal', title: plan.xLabel };
+  const encoding: Spec = { x, y: { field: plan.yKey, type: 'quantitative', title: plan.yLabel } };
+  if (plan.groupKey) encoding.color = colorEncoding(plan, plan.groupKey);
+  const shape = plan.theme.marker && plan.theme.marker !== 'none' ? VEGA_SHAPES[plan.theme.marker] : 'circle';
+  return { mark: markFor('point', plan, { filled: true, shape }), encoding };
+};
+
+const trendLayer = (plan: CodePlan, trend: TrendLineConfig, x: Spec): Spec => {
+  const y = plan.config.chartType === ChartType.SCATTER ? plan.yKey : plan.valueKeys[0];
+  const groupby = plan.groupKey && trend.perGroup !== false ? [plan.groupKey] : [];
+  const fit = trend.method === 'loess'
+    ? { loess: y, on: plan.xKey, bandwidth: trend.span ?? 0.75, groupby }
+    : { regression: y, on: plan.xKey, method: trend.method === 'polynomial' ? 'poly' : 'linear', ...(trend.method === 'polynomial' && { order: trend.degree ?? 2 }), groupby };
+  return {
+    transform: [fit],
+    mark: { type: 'line', strokeDash: [6, 4], ...(groupby.length === 0 && { color: plan.palette[0] }) },
+    encoding: {
+      x: { field: plan.xKey, type: x.type, ...(x.scale && { scale: x.scale }) },
+      y: { field: y, type: 'quantitative' },
+      ...(groupby.length > 0 && { color: colorEncoding(plan, plan.groupKey!) })
+    }
+  };
+};
+
+// A rule and its label; mean and median are computed by Vega-Lite over the rows
+const referenceLayer = (plan: CodePlan, ref: ReferenceLineConfig, x: Spec): Spec => {
+  const measure = plan.config.chartType === ChartType.SCATTER ? plan.yKey : isFolded(plan) ? FOLD_VALUE : plan.valueKeys[0];
+  const position = ref.value === 'mean' || ref.value === 'median'
+    ? { aggregate: ref.value, field: ref.axis === 'y' ? measure : plan.xKey, type: 'quantitative' }
+    : { datum: ref.value, type: ref.axis === 'y' ? 'quantitative' : x.type, ...(ref.axis === 'x' && x.scale && { scale: x.scale }) };
+  return {
+    encoding: { [ref.axis]: position },
+    layer: [
+      { mark: { type: 'rule', color: '#f59e0b', strokeDash: [4, 4] } },
+      ...(ref.label ? [{ mark: { type: 'text', align: 'left', dx: 4, dy: -6, color: '#f59e0b' }, encoding: { text: { value: ref.label } } }] : [])
+    ]
+  };
+};
+
+// Layers are named annotation_<index>_<type> so an imported spec can tell them from the chart
+const ANNOTATION_LAYER = /^annotation_\d+_(\w+)$/;
+
+const annotationDatum = (plan: CodePlan, value: number | string, x: Spec) => ({
+  datum: plan.time && typeof value === 'number' ? new Date(value).toISOString() : value,
+  type: x.type,
+  ...(x.scale && { scale: x.scale })
+});
+
+// Pies are left out; their slots have no X to place a layer on
+const annotationLayer = (plan: CodePlan, a: ResolvedAnnotation, x: Spec, rise: number): Spec | null => {
+  const name = `annotation_${a.index}_${a.type}`;
+  const label = (encoding: Spec, mark: Spec) => (a.label ? [{ mark: { type: 'text', color: a.color, ...mark }, encoding: { ...encoding, text: { value: a.label } } }] : []);
+  switch (a.type) {
+    case 'text':
+      return {
+        name,
+        encoding: { x: annotationDatum(plan, a.x!, x), y: { datum: a.y, type: 'quantitative' } },
+        layer: [{ mark: { type: 'point', filled: true, size: 30, color: a.color } }, ...label({}, { baseline: 'bottom', dy: -6 })]
+      };
+    case 'arrow':
+      return {
+        name,
+        encoding: { x: annotationDatum(plan, a.x!, x) },
+        layer: [
+          { mark: { type: 'rule', color: a.color }, encoding: { y: { datum: a.y! + rise, type: 'quantitative' }, y2: { datum: a.y } } },
+          { mark: { type: 'point', shape: 'triangle-down', filled: true, size: 60, color: a.color }, encoding: { y: { datum: a.y, type: 'quantitative' } } },
+          ...label({ y: { datum: a.y! + rise, type: 'quantitative' } }, { baseline: 'bottom', dy: -4 })
+        ]
+      };
+    case 'highlight':
+      return {
+        name,
+        layer: [
+          { mark: { type: 'rect', color: a.color, opacity: 0.15 }, encoding: { x: annotationDatum(plan, a.x!, x) } },
+          ...label({ x: annotationDatum(plan, a.x!, x), y: { value: 0 } }, { baseline: 'top', dy: 4 })
+        ]
+      };
+    case 'range': {
+      // Band scales cover the first category from its start and the last to its end
+      const band = a.axis === 'x' && a.category;
+      const encoding = a.axis === 'y'
+        ? { y: { datum: a.from, type: 'quantitative' }, y2: { datum: a.to } }
+        : {
+          x: { ...annotationDatum(plan, a.from!, x), ...(band && { bandPosition: 0 }) },
+          x2: { datum: annotationDatum(plan, a.to!, x).datum, ...(band && { bandPosition: 1 }) }
+        };
+      return {
+        name,
+        layer: [
+          { mark: { type: 'rect', color: a.color, opacity: 0.12 }, encoding },
+          ...label(
+            a.axis === 'y' ? { y: { datum: a.to, type: 'quantitative' }, x: { value: 0 } } : { x: encoding.x, y: { value: 0 } },
+            { align: 'left', baseline: a.axis === 'y' ? 'bottom' : 'top', dx: 4, dy: a.axis === 'y' ? -2 : 4 }
+          )
+        ]
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+const mainView = (plan: CodePlan, dataset: Dataset): Spec => {
+  switch (plan.config.chartType) {
+    case ChartType.BAR:
+    case ChartType.LINE:
+    case ChartType.AREA:
+      return categoryView(plan, dataset);
+    case ChartType.COMPOSED:
+      return composedView(plan, dataset);
+    case ChartType.PIE:
+      return pieView(plan, dataset);
+    case ChartType.HISTOGRAM:
+      return histogramView(plan);
+    case ChartType.BOX:
+      return boxView(plan, dataset);
+    case ChartType.VIOLIN:
+      return violinView(plan, dataset);
+    case ChartType.HEATMAP:
+      return heatmapView(plan, dataset);
+    case ChartType.SCATTER:
+      return scatterView(plan, dataset);
+    default:
+      throw new Error(`Vega-Lite has no ${plan.config.chartType} chart; the Plotly tab can draw it`);
+  }
+};
+
+// A Vega-Lite v5 spec that aggregates the rows itself, so it reads the same data as the R and Python scripts
+export const generateVegaLiteSpec = (config: VisualizationConfig, dataset: Dataset, dataUrl?: string): Spec => {
+  const plan = buildCodePlan(config, dataset);
+  const usesSeries = [ChartType.BAR, ChartType.LINE, ChartType.AREA, ChartType.PIE, ChartType.COMPOSED].includes(config.chartType);
+  const transform = usesSeries ? seriesTransforms(plan) : [];
+  const view = mainView(plan, dataset);
+
+  // Overlays share the main view's X, so they sit in a layer next to it
+  const x = view.encoding?.x ?? {};
+  const overlays = [
+    ...(plan.trend ? [trendLayer(plan, plan.trend, x)] : []),
+    ...(plan.references.length > 0 ? (config.referenceLines ?? []).map(ref => referenceLayer(plan, ref, x)) : []),
+    ...(config.chartType === ChartType.PIE ? [] : plan.annotations.flatMap(a => annotationLayer(plan, a, x, Number((valueSpan(config, plan.processed) * 0.12).toPrecision(4))) ?? []))
+  ];
+  const body = overlays.length > 0 ? { layer: [view, ...overlays] } : view;
+
+  const spec: Spec = {
+    $schema: VEGA_LITE_SCHEMA,
+    title: plan.subtitle ? { text: plan.title, subtitle: plan.subtitle } : plan.title,
+    ...(config.chartType !== ChartType.VIOLIN && { width: 'container', height: 400 }),
+    data: specData(plan, dataset, dataUrl),
+    ...(transform.length > 0 && { transform }),
+    ...body
+  };
+  const themed = themeConfig(plan.theme);
+  if (themed) spec.config = themed;
+  return spec;
+};
+
+// Pretty-printed, but with one line per data row so large inline tables stay readable
+export const formatSpec = (spec: Spec) => {
+  const values = spec.data?.values;
+  if (!Array.isArray(values)) return formatJson(spec);
+  const placeholder = '"__VALUES__"';
+  const text = formatJson({ ...spec, data: { ...spec.data, values: '__VALUES__' } });
+  const rows = values.map(row => `      ${JSON.stringify(row)}`).join(',\n');
+  return text.replace(placeholder, values.length > 0 ? `[\n${rows}\n    ]` : '[]');
+};
+
+// --- Import ---
+
+export interface ImportResult {
+  config: VisualizationConfig;
+  notes: string[]; // Parts of the spec that could not be carried over
+}
+
+interface View {
+  name?: string; // Of the nearest named layer
+  group?: number; // Index of the top-level layer it belongs to
+  mark?: any;
+  encoding: Spec;
+  transform: Spec[];
+}
+
+const markType = (mark: any): string | undefined => (typeof mark === 'string' ? mark : mark?.type);
+
+// Every leaf view with the encoding and transforms it inherits from its parents
+const flattenViews = (spec: Spec, parent: View): View[] => {
+  const view: View = {
+    name: typeof spec.name === 'string' ? spec.name : parent.name,
+    group: parent.group,
+    mark: spec.mark,
+    encoding: { ...parent.encoding, ...spec.encoding },
+    transform: [...parent.transform, ...(Array.isArray(spec.transform) ? spec.transform : [])]
+  };
+  if (Array.isArray(spec.layer)) return spec.layer.flatMap((layer: Spec, i: number) => flattenViews(layer, { ...view, group: parent.group ?? i }));
+  return view.mark ? [view] : [];
+};
+
+const fieldOf = (channel: any): string | undefined => (typeof channel?.field === 'string' ? channel.field : undefined);
+
+const stripUtc = (unit: string) => unit.replace(/^utc/, '');
+
+const RESAMPLE_UNITS: Record<string, TimeUnit> = {
+  yearmonthdate: 'day',
+  yearmonthday: 'day',
+  yearweek: 'week',
+  yearmonth: 'month',
+  yearquarter: 'quarter',
+  year: 'year'
+};
+
+const titleText = (title: any): string | undefined => {
+  if (typeof title === 'string') return title;
+  if (Array.isArray(title)) return title.join(' ');
+  if (title && typeof title === 'object') return titleText(title.text);
+  return undefined;
+};
+
+// Reads the spec's theme settings back, mirroring themeConfig
+const readTheme = (config: Spec | undefined): ChartTheme | undefined => {
+  if (!config || typeof config !== 'object') return undefined;
+  const theme: ChartTheme = {};
+  const { axis = {}, legend = {}, title = {} } = config;
+  if (typeof config.background === 'string') theme.background = config.background;
+  if (typeof config.font === 'string') theme.fontFamily = config.font;
+  if (typeof axis.labelColor === 'string') theme.textColor = axis.labelColor;
+  if (typeof axis.labelFontSize === 'number') theme.fontSize = axis.labelFontSize;
+  if (typeof title.fontSize === 'number') theme.titleSize = title.fontSize;
+  if (typeof axis.domainColor === 'string') theme.axisColor = axis.domainColor;
+  if (axis.domain === false) theme.axisLine = false;
+  if (typeof axis.gridColor === 'string') theme.gridColor = axis.gridColor;
+  if (Array.isArray(axis.gridDash)) {
+    theme.gridDash = LINE_DASHES.find(dash => dashArray(dash).join(' ') === axis.gridDash.join(' ')) ?? 'dashed';
+  }
+  if (config.axisX || config.axisY) {
+    const vertical = config.axisX?.grid !== false;
+    const horizontal = config.axisY?.grid !== false;
+    theme.grid = vertical && horizontal ? 'both' : vertical ? 'vertical' : horizontal ? 'horizontal' : 'none';
+  }
+  if (legend.disable === true) theme.legendPosition = 'none';
+  else if (['top', 'bottom', 'left', 'right'].includes(legend.orient)) theme.legendPosition = legend.orient as LegendPosition;
+  if (Array.isArray(config.range?.category) && config.range.category.every((c: any) => typeof c === 'string')) {
+    theme.palette = config.range.category;
+  }
+  if (typeof config.bar?.cornerRadiusEnd === 'number') theme.barRadius = config.bar.cornerRadiusEnd;
+  if (typeof config.line?.strokeWidth === 'number') theme.lineWidth = config.line.strokeWidth;
+  if (Array.isArray(config.line?.strokeDash)) {
+    theme.lineDash = LINE_DASHES.find(dash => dashArray(dash).join(' ') === config.line.strokeDash.join(' ')) ?? 'dashed';
+  }
+  const shape = Object.entries(VEGA_SHAPES).find(([, vega]) => vega === config.point?.shape)?.[0];
+  if (shape) theme.marker = shape as MarkerShape;
+  return Object.keys(theme).length > 0 ? theme : undefined;
+};
+
+// Steps the exporter writes for windows and top-N, read back into config settings
+const readTransforms = (transforms: Spec[], notes: string[]) => {
+  const result: {
+    fold?: { keys: string[]; as: [string, string] };
+    labelGroup?: string;
+    topN?: number;
+    otherLabel?: string;
+    resample?: TimeUnit;
+    aggregate?: { op: string; fields: Record<string, string | undefined> };
+    timeSeries: TimeSeriesConfig;
+    density?: { field: string; groupby?: string };
+    trend?: TrendLineConfig;
+  } = { timeSeries: {} };
+
+  for (const t of transforms) {
+    if (Array.isArray(t.fold)) {
+      result.fold = { keys: t.fold, as: Array.isArray(t.as) && t.as.length === 2 ? [t.as[0], t.as[1]] : ['key', 'value'] };
+    } else if (typeof t.calculate === 'string') {
+      const rank = new RegExp(`${RANK}\\s*<=\\s*(\\d+)`).exec(t.calculate);
+      const label = /datum\["?([^"\]]+)"?\]\s*$/.exec(t.calculate);
+      if (rank) {
+        result.topN = Number(rank[1]);
+        const other = /:\s*("(?:[^"\\]|\\.)*")\s*$/.exec(t.calculate);
+        if (other) result.otherLabel = JSON.parse(other[1]);
+      } else if (t.as === SERIES_LABEL && label) {
+        result.labelGroup = label[1];
+      } else if (t.calculate.includes('__previous')) {
+        if (result.timeSeries.change) result.timeSeries.change.kind = t.calculate.includes('/') ? 'percent' : 'difference';
+      } else if (!t.calculate.includes('__points')) {
+        notes.push(`Ignored the calculated field "${t.as}"`);
+      }
+    } else if (typeof t.timeUnit === 'string') {
+      const unit = RESAMPLE_UNITS[stripUtc(t.timeUnit)];
+      if (unit) result.resample = unit;
+      else notes.push(`Ignored the time unit "${t.timeUnit}"`);
+    } else if (Array.isArray(t.aggregate)) {
+      const fields: Record<string, string | undefined> = {};
+      for (const a of t.aggregate) fields[a.as ?? a.field] = a.field;
+      result.aggregate = { op: t.aggregate[0]?.op ?? 'count', fields };
+    } else if (Array.isArray(t.window)) {
+      const ops = t.window.map((w: Spec) => w.op);
+      const frame = Array.isArray(t.frame) ? t.frame : null;
+      if (ops.includes('dense_rank')) continue;
+      if (ops.includes('lag')) {
+        const lag = t.window.find((w: Spec) => w.op === 'lag').param ?? 1;
+        result.timeSeries.change = { kind: 'difference', ...(lag !== 1 && { lag }) };
+      } else if (frame && frame[0] === null && frame[1] === 0 && ops[0] === 'sum') {
+        result.timeSeries.cumulative = true;
+      } else if (frame && typeof frame[0] === 'number' && frame[1] === 0 && (ops[0] === 'mean' || ops[0] === 'sum')) {
+        result.timeSeries.rolling = { window: 1 - frame[0], func: ops[0] };
+      } else {
+        notes.push(`Ignored a window transform (${ops.join(', ')})`);
+      }
+    } else if (typeof t.density === 'string') {
+      result.density = { field: t.density, groupby: Array.isArray(t.groupby) ? t.groupby[0] : undefined };
+    } else if (typeof t.regression === 'string') {
+      result.trend = t.method === 'poly'
+        ? { method: 'polynomial', degree: t.order ?? 3 }
+        : { method: 'linear' };
+      if (t.method && t.method !== 'linear' && t.method !== 'poly') notes.push(`Fitted the "${t.method}" regression as a straight line`);
+      if (!t.groupby?.length) result.trend.perGroup = false;
+    } else if (typeof t.loess === 'string') {
+      result.trend = { method: 'loess', ...(typeof t.bandwidth === 'number' && { span: t.bandwidth }) };
+      if (!t.groupby?.length) result.trend.perGroup = false;
+    } else if (!t.joinaggregate) {
+      notes.push(`Ignored a ${Object.keys(t)[0] ?? 'empty'} transform`);
+    }
+  }
+  return result;
+};
+
+const readSort = (sort: any): Pick<AggregationConfig, 'sortBy' | 'sortOrder'> => {
+  if (sort === null) return { sortBy: 'none' };
+  if (sort === 'ascending' || sort === 'descending') return { sortBy: 'x', sortOrder: sort === 'ascending' ? 'asc' : 'desc' };
+  if (typeof sort === 'string') return { sortBy: 'value', sortOrder: sort.startsWith('-') ? 'desc' : 'asc' };
+  if (sort && typeof sort === 'object' && !Array.isArray(sort)) return { sortBy: 'value', sortOrder: sort.order === 'descending' ? 'desc' : 'asc' };
+  return {};
+};
+
+const readReference = (view: View, label?: string): ReferenceLineConfig | null => {
+  for (const axis of ['y', 'x'] as const) {
+    const channel = view.encoding[axis];
+    if (!channel) continue;
+    if (channel.datum !== undefined && (typeof channel.datum === 'number' || typeof channel.datum === 'string')) {
+      return { axis, value: channel.datum, ...(label && { label }) };
+    }
+    if (channel.aggregate === 'mean' || channel.aggregate === 'median') return { axis, value: channel.aggregate, ...(label && { label }) };
+  }
+  return null;
+};
+
+const CHART_TYPES_BY_MARK: Record<string, ChartType> = {
+  bar: ChartType.BAR,
+  line: ChartType.LINE,
+  trail: ChartType.LINE,
+  area: ChartType.AREA,
+  point: ChartType.SCATTER,
+  circle: ChartType.SCATTER,
+  square: ChartType.SCATTER,
+  tick: ChartType.SCATTER,
+  arc: ChartType.PIE,
+  rect: ChartType.HEATMAP,
+  boxplot: ChartType.BOX
+};
+
+const annotationType = (view: View) => {
+  const type = view.name?.match(ANNOTATION_LAYER)?.[1] as AnnotationType | undefined;
+  return type && Object.hasOwn(ANNOTATION_TYPE_LABELS, type) ? type : undefined;
+};
+
+const isOverlay = (view: View) => {
+  const type = markType(view.mark);
+  return type === 'rule' || type === 'text' || Boolean(annotationType(view)) || view.transform.some(t => t.regression || t.loess);
+};
+
+const datumOf = (channel: any): number | string | undefined =>
+  typeof channel?.datum === 'number' || typeof channel?.datum === 'string' ? channel.datum : undefined;
+
+// An annotation back from the layers this module writes for it
+const readAnnotation = (views: View[]): ChartAnnotation | null => {
+  const type = annotationType(views[0]);
+  if (!type) return null;
+  const shape = views.find(view => markType(view.mark) !== 'text') ?? views[0];
+  const text = views.find(view => markType(view.mark) === 'text')?.encoding.text?.value;
+  const color = typeof shape.mark === 'object' ? shape.mark.color : undefined;
+  const annotation: ChartAnnotation = {
+    type,
+    ...(typeof text === 'string' && { text }),
+    ...(typeof color === 'string' && color !== ANNOTATION_COLOR && { color })
+  };
+  const point = views.find(view => markType(view.mark) === 'point') ?? shape;
+  switch (type) {
+    case 'text':
+    case 'arrow':
+      return { ...annotation, x: datumOf(point.encoding.x), y: datumOf(point.encoding.y) };
+    case 'highlight':
+      return { ...annotation, x: datumOf(shape.encoding.x) };
+    case 'range': {
+      const axis = shape.encoding.y2 ? 'y' : 'x';
+      return { ...annotation, axis, from: datumOf(shape.encoding[axis]), to: datumOf(shape.encoding[`${axis}2`]) };
+    }
+  }
+};
+
+// Rebuilds a config from a Vega-Lite spec; column names are matched to the dataset afterwards, like a model's
+export const parseVegaLiteSpec = (text: string): ImportResult => {
+  let spec: Spec;
+  try {
+    spec = JSON.parse(text);
+  } catch {
+    throw new Error('The pasted text is not valid JSON');
+  }
+  if (!spec || typeof spec !== 'object' || Array.isArray(spec)) throw new Error('A Vega-Lite spec is a JSON object');
+
+  const notes: string[] = [];
+  // Facet and repeat wrappers keep the chart in "spec"; their own row/column split is dropped
+  const root = spec.spec && typeof spec.spec === 'object' ? { ...spec.spec, transform: [...(spec.transform ?? []), ...(spec.spec.transform ?? [])] } : spec;
+  if (root !== spec) notes.push('Drew the faceted or repeated spec as a single chart');
+
+  const views = flattenViews(root, { encoding: {}, transform: [] });
+  const main = views.filter(view => !isOverlay(view));
+  if (main.length === 0) throw new Error('The spec has no mark to rebuild');
+
+  const first = main[0];
+  const mark = markType(first.mark) ?? '';
+  const t = readTransforms(first.transform, notes);
+  const { encoding } = first;
+  let chartType = CHART_TYPES_BY_MARK[mark];
+  if (t.density && mark === 'area') chartType = ChartType.VIOLIN;
+  if (chartType === ChartType.BAR && (encoding.x?.bin || encoding.y?.bin)) chartType = ChartType.HISTOGRAM;
+  const composed = main.length > 1 && new Set(main.map(view => fieldOf(view.encoding.y))).size > 1;
+  if (composed) chartType = ChartType.COMPOSED;
+  if (!chartType) throw new Error(`The "${mark}" mark has no matching chart type`);
+  if (main.length > 1 && !composed) notes.push(`Kept the first of ${main.length} layers`);
+
+  // Horizontal bars and boxes put the category on Y; the preview draws them upright
+  let x = encoding.x;
+  let y = encoding.y;
+  const horizontal = [ChartType.BAR, ChartType.BOX, ChartType.HISTOGRAM].includes(chartType)
+    && (y?.bin || (x?.aggregate && !y?.aggregate) || (x?.type === 'quantitative' && (y?.type === 'nominal' || y?.type === 'ordinal')));
+  if (horizontal) {
+    [x, y] = [y, x];
+    notes.push('Drew horizontal marks upright');
+  }
+
+  const resolveField = (field: string | undefined) => (field && t.aggregate?.fields[field]) || field;
+  const op = (channel: any) => {
+    const name = typeof channel?.aggregate === 'string' ? channel.aggregate : t.aggregate?.op;
+    if (!name) return undefined;
+    if (!FROM_VEGA_OPS[name]) notes.push(`Used the mean in place of the "${name}" aggregate`);
+    return FROM_VEGA_OPS[name] ?? 'mean';
+  };
+
+  const config: VisualizationConfig = {
+    chartType,
+    xAxisKey: '',
+    yAxisKey: '',
+    title: titleText(spec.title) ?? '',
+    description: (spec.title && typeof spec.title === 'object' ? titleText(spec.title.subtitle) : undefined) ?? spec.description ?? ''
+  };
+  let func: AggregateFunction | undefined;
+
+  const colorChannel = encoding.color;
+  const colorFieldName = fieldOf(colorChannel);
+  const groupBy = colorFieldName === SERIES_LABEL ? t.labelGroup : colorFieldName !== t.fold?.as[0] ? colorFieldName : undefined;
+
+  switch (chartType) {
+    case ChartType.PIE: {
+      config.xAxisKey = colorFieldName ?? '';
+      config.yAxisKey = resolveField(fieldOf(encoding.theta)) ?? 'count';
+      func = op(encoding.theta);
+      if (encoding.theta?.aggregate === 'count' && !fieldOf(encoding.theta)) config.yAxisKey = 'count';
+      break;
+    }
+    case ChartType.HEATMAP: {
+      config.xAxisKey = fieldOf(x) ?? '';
+      config.yAxisKey = fieldOf(y) ?? '';
+      const value = fieldOf(colorChannel);
+      func = op(colorChannel) ?? (value ? 'mean' : 'count');
+      if (value && func !== 'count') config.colorKey = value;
+      if (func === (value ? 'mean' : 'count')) func = undefined;
+      break;
+    }
+    case ChartType.HISTOGRAM: {
+      config.xAxisKey = fieldOf(x) ?? '';
+      config.yAxisKey = '';
+      const bin = x?.bin;
+      if (bin && typeof bin === 'object') {
+        if (typeof bin.step === 'number') config.binning = { binWidth: bin.step };
+        else if (typeof bin.maxbins === 'number') config.binning = { bins: bin.maxbins };
+      }
+      if (groupBy) {
+        config.groupBy = groupBy;
+        if (y?.stack !== null) config.barMode = 'stacked';
+      }
+      break;
+    }
+    case ChartType.BOX: {
+      config.yAxisKey = fieldOf(y) ?? '';
+      config.xAxisKey = fieldOf(x) ?? config.yAxisKey;
+      break;
+    }
+    case ChartType.VIOLIN: {
+      config.yAxisKey = t.density!.field;
+      config.xAxisKey = t.density!.groupby ?? fieldOf(encoding.column) ?? config.yAxisKey;
+      break;
+    }
+    case ChartType.SCATTER: {
+      config.xAxisKey = fieldOf(x) ?? '';
+      config.yAxisKey = fieldOf(y) ?? '';
+      if (groupBy) config.groupBy = groupBy;
+      break;
+    }
+    case ChartType.COMPOSED: {
+      // With independent Y scales, Vega-Lite puts the axis of every layer after the first on the right
+      const independent = root.resolve?.scale?.y === 'independent';
+      const onRight = (view: View) => {
+        const orient = view.encoding.y?.axis?.orient;
+        return orient === 'right' || (independent && (view.group ?? 0) > 0 && orient !== 'left');
+      };
+      config.xAxisKey = fieldOf(x) ?? '';
+      const keys = main.map(view => resolveField(fieldOf(view.encoding.y)) ?? 'count');
+      config.yAxisKey = keys[0];
+      config.seriesKeys = keys;
+      config.seriesOptions = main.map((view, i): SeriesOptions => ({
+        key: keys[i],
+        mark: (['bar', 'line', 'area'].includes(markType(view.mark) ?? '') ? markType(view.mark) : 'bar') as SeriesOptions['mark'],
+        ...(onRight(view) && { axis: 'right' })
+      }));
+      func = op(first.encoding.y);
+      break;
+    }
+    default: {
+      config.xAxisKey = fieldOf(x) ?? '';
+      const field = fieldOf(y);
+      if (t.fold && field === t.fold.as[1]) {
+        config.seriesKeys = t.fold.keys.map(key => resolveField(key)!);
+        config.yAxisKey = config.seriesKeys[0];
+      } else {
+        config.yAxisKey = resolveField(field) ?? 'count';
+      }
+      func = op(y);
+      if (groupBy) config.groupBy = groupBy;
+      if (chartType === ChartType.BAR && groupBy && !encoding.xOffset) config.barMode = 'stacked';
+    }
+  }
+
+  const unit = typeof x?.timeUnit === 'string' ? RESAMPLE_UNITS[stripUtc(x.timeUnit)] : undefined;
+  if (x?.timeUnit && !unit) notes.push(`Ignored the time unit "${x.timeUnit}"`);
+  const timeSeries: TimeSeriesConfig = { ...t.timeSeries, ...((unit || t.resample) && { resample: unit || t.resample }) };
+  if (Object.keys(timeSeries).length > 0) config.timeSeries = timeSeries;
+
+  if (func) {
+    const aggregation: AggregationConfig = { func };
+    const sortChannel = chartType === ChartType.PIE ? colorChannel : x;
+    if (t.topN) aggregation.topN = t.topN;
+    if (sortChannel && 'sort' in sortChannel && !config.timeSeries && x?.type !== 'temporal') {
+      const sort = readSort(typeof sortChannel.sort === 'string' ? sortChannel.sort.replace('theta', 'y') : sortChannel.sort);
+      // The order the chart would take anyway is left implicit, as in a config written by hand
+      if (JSON.stringify(sortSettings({ ...aggregation, ...sort })) !== JSON.stringify(sortSettings(aggregation))) Object.assign(aggregation, sort);
+    }
+    if (t.otherLabel && t.otherLabel !== 'Other') aggregation.otherLabel = t.otherLabel;
+    config.aggregation = aggregation;
+  }
+
+  // Pies name the category on the legend, violins on the facet header
+  const xTitle = (chartType === ChartType.PIE ? colorChannel : chartType === ChartType.VIOLIN ? encoding.column : x)?.title;
+  if (typeof xTitle === 'string' && xTitle !== config.xAxisKey) config.xLabel = xTitle;
+  if (typeof y?.title === 'string' && y.title !== config.yAxisKey) config.yLabel = y.title;
+
+  // Overlays: fitted curves and reference rules, each rule with the text layer next to it
+  const overlays = views.filter(isOverlay);
+  const trend = overlays.map(view => readTransforms(view.transform.filter(step => step.regression || step.loess), notes).trend).find(Boolean);
+  if (trend) {
+    // Without groupBy there is one fit either way
+    if (!config.groupBy) delete trend.perGroup;
+    config.trendLine = trend;
+  }
+  const rules = overlays.filter(view => markType(view.mark) === 'rule' && !annotationType(view));
+  const labels = overlays.filter(view => markType(view.mark) === 'text' && !annotationType(view));
+  const references = rules.flatMap(rule => {
+    const position = readReference(rule);
+    const text = labels.find(label => JSON.stringify(readReference(label)) === JSON.stringify(position))?.encoding.text?.value;
+    const ref = readReference(rule, typeof text === 'string' ? text : undefined);
+    return ref ? [ref] : [];
+  });
+  if (references.length > 0) config.referenceLines = references;
+
+  const named = new Map<string, View[]>();
+  for (const view of overlays) {
+    if (annotationType(view)) named.set(view.name!, [...(named.get(view.name!) ?? []), view]);
+  }
+  const annotations = [...named.values()].flatMap(group => readAnnotation(group) ?? []);
+  if (annotations.length > 0) config.annotations = annotations;
+
+  const theme = readTheme(spec.config);
+  if (theme) config.theme = theme;
+
+  // Colors only count as chosen when they differ from what the palette would give anyway
+  const range = colorChannel?.scale?.range ?? (composed ? main[0].encoding.color?.scale?.range : undefined);
+  const markColor = typeof first.mark === 'object' ? first.mark.color : undefined;
+  const chosen: string[] | undefined = Array.isArray(range) ? range.filter((c: any) => typeof c === 'string') : typeof markColor === 'string' ? [markColor] : undefined;
+  if (chosen?.length) {
+    const plain = { ...config, colors: undefined };
+    const defaults = chartType === ChartType.HEATMAP
+      ? [heatmapColors(plain).low, heatmapColors(plain).high]
+      : chosen.map((_, i) => seriesColor(plain, i));
+    if (chosen.some((color, i) => color.toLowerCase() !== defaults[i]?.toLowerCase())) config.colors = chosen;
+  }
+
+  return { config, notes };
+};
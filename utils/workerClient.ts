@@ -0,0 +1,102 @@
+import { ChartSelection, VisualizationConfig } from '../types';
+import { filterRows } from './dashboard';
+import type { WorkerRequest, WorkerResponse } from './dataWorker';
+import { LoadOptions, LoadedFile, streamDataFile } from './parsers';
+import { processData } from './processing';
+import { SampledData, downsample } from './sampling';
+
+const supportsWorkers = typeof Worker !== 'undefined';
+
+const createWorker = () => new Worker(new URL('./dataWorker.ts', import.meta.url), { type: 'module' });
+
+const send = (worker: Worker, request: WorkerRequest) => worker.postMessage(request);
+
+export const isCancelled = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+export interface ParseJob {
+  promise: Promise<LoadedFile>;
+  cancel: () => void;
+}
+
+// Each parse gets its own worker, so cancelling is simply terminating it
+export const parseInBackground = (file: File, options: LoadOptions, onProgress: (fraction: number) => void): ParseJob => {
+  if (!supportsWorkers) return { promise: streamDataFile(file, options, onProgress), cancel: () => {} };
+
+  const worker = createWorker();
+  let rejectJob: (reason: unknown) => void = () => {};
+  const promise = new Promise<LoadedFile>((resolve, reject) => {
+    rejectJob = reject;
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'parsed') resolve(message.loaded);
+      else if (message.type === 'error') reject(new Error(message.message));
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'The parser stopped unexpectedly'));
+    };
+    send(worker, { type: 'parse', file, options });
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectJob(new DOMException('Parsing cancelled', 'AbortError'));
+    }
+  };
+};
+
+// A single long-lived worker holds the current rows for aggregation; once it fails, aggregation stays on the main thread
+let processor: Worker | null = null;
+let processorFailed = false;
+let nextId = 0;
+const pending = new Map<number, { resolve: (result: SampledData) => void; reject: (err: Error) => void }>();
+
+const getProcessor = () => {
+  if (!processor) {
+    processor = createWorker();
+    processor.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if ((message.type !== 'processed' && message.type !== 'error') || message.id === undefined) return;
+      const job = pending.get(message.id);
+      pending.delete(message.id);
+      if (message.type === 'processed') job?.resolve(message.result);
+      else job?.reject(new Error(message.message));
+    };
+    // A crash or a worker that never loaded would otherwise leave every waiting chart loading forever
+    processor.onerror = processor.onmessageerror = (event: Event) => {
+      const reason = new Error((event as ErrorEvent).message || 'The data worker stopped unexpectedly');
+      processor?.terminate();
+      processor = null;
+      processorFailed = true;
+      for (const job of pending.values()) job.reject(reason);
+      pending.clear();
+    };
+  }
+  return processor;
+};
+
+let currentRows: any[] = [];
+
+// Several charts share the rows, so they are only copied to the worker when they change
+export const setBackgroundData = (data: any[]) => {
+  if (data === currentRows) return;
+  currentRows = data;
+  if (supportsWorkers && !processorFailed) send(getProcessor(), { type: 'setData', data });
+};
+
+// Results arrive in request order; callers drop answers for configs they no longer show
+export const processInBackground = (config: VisualizationConfig, filter: ChartSelection | null = null): Promise<SampledData> => {
+  if (!supportsWorkers || processorFailed) return Promise.resolve(downsample(processData(filterRows(currentRows, filter), config), config));
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    send(getProcessor(), { type: 'process', id, config, filter });
+  });
+};